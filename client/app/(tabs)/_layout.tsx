@@ -1,6 +1,6 @@
-import { Tabs } from "expo-router";
+import { Tabs, useRouter } from "expo-router";
 import React, { useMemo, useEffect } from "react";
-import { View, I18nManager } from "react-native";
+import { View, I18nManager, useColorScheme } from "react-native";
 import { useTranslation } from "react-i18next";
 import { ProtectedRoute } from "@/components/ProtectedRoutes";
 import { IconSymbol } from "@/components/ui/IconSymbol";
@@ -11,8 +11,6 @@ import { useSelector } from "react-redux";
 import { RootState } from "@/src/store";
 import { TabBarIcon } from "@/components/navigation/TabBarIcon";
 import { useOptimizedAuthSelector } from "@/hooks/useOptimizedAuthSelector";
-import { useRouter } from "expo-router";
-import { useColorScheme } from "react-native";
 
 // Enable RTL support
 I18nManager.allowRTL(true);
@@ -42,14 +40,14 @@ export default function TabLayout() {
   const shouldShowAiChat = useMemo(() => {
     return (
       user?.subscription_type === "GOLD" ||
-      user?.subscription_type === "PLATINUM"
+      user?.subscription_type === "PREMIUM"
     );
   }, [user?.subscription_type]);
 
   const shouldShowDevices = useMemo(() => {
     return (
       user?.subscription_type === "GOLD" ||
-      user?.subscription_type === "PLATINUM"
+      user?.subscription_type === "PREMIUM"
     );
   }, [user?.subscription_type]);
 
@@ -220,7 +220,7 @@ export default function DashboardScreen() {
 
   const getPlanColor = (plan: string) => {
     switch (plan.toUpperCase()) {
-      case "PLATINUM":
+      case "PREMIUM":
         return "#8B5CF6";
       case "GOLD":
         return "#F59E0B";
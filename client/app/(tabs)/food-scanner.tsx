@@ -29,6 +29,7 @@ import {
   Package,
   ArrowLeft,
   ScanLine,
+  Flag,
 } from "lucide-react-native";
 import { useTranslation } from "react-i18next";
 import { useLanguage } from "@/src/i18n/context/LanguageContext";
@@ -40,6 +41,7 @@ import ButtonLoader from "@/components/ButtonLoader";
 import { ToastService } from "@/src/services/totastService";
 import { useTheme } from "@/src/context/ThemeContext";
 import ScannedProducts from "@/components/ScannedProducts";
+import ProductCorrectionModal from "@/components/ProductCorrectionModal";
 import { PriceEstimate, ProductData, ScanResult } from "@/src/types/statistics";
 
 const { width, height } = Dimensions.get("window");
@@ -74,6 +76,7 @@ export default function FoodScannerScreen() {
   const [scanHistory, setScanHistory] = useState<any[]>([]);
   const [isLoadingHistory, setIsLoadingHistory] = useState(false);
   const [showProductsGallery, setShowProductsGallery] = useState(false);
+  const [showCorrectionModal, setShowCorrectionModal] = useState(false);
 
   // Animation values
   const slideAnimation = useRef(new Animated.Value(0)).current;
@@ -199,7 +202,9 @@ export default function FoodScannerScreen() {
   const loadScanHistory = async () => {
     setIsLoadingHistory(true);
     try {
-      const response = await api.get("/food-scanner/history");
+      const response = await api.get("/food-scanner/history", {
+        params: { language },
+      });
       if (response.data.success) {
         setScanHistory(response.data.data);
       }
@@ -266,6 +271,7 @@ export default function FoodScannerScreen() {
     try {
       const response = await api.post("/food-scanner/barcode", {
         barcode: barcodeInput.trim(),
+        language,
       });
 
       if (response.data.success) {
@@ -300,6 +306,7 @@ export default function FoodScannerScreen() {
     try {
       const response = await api.post("/food-scanner/barcode", {
         barcode: scanningResult.data,
+        language,
       });
 
       if (response.data.success && response.data.data) {
@@ -1061,6 +1068,15 @@ export default function FoodScannerScreen() {
             >
               <ShoppingCart size={20} color={colors.textSecondary} />
             </TouchableOpacity>
+
+            {scanResult?.product.barcode && (
+              <TouchableOpacity
+                style={[styles.shopButton, { backgroundColor: colors.surface }]}
+                onPress={() => setShowCorrectionModal(true)}
+              >
+                <Flag size={20} color={colors.textSecondary} />
+              </TouchableOpacity>
+            )}
           </View>
 
           {/* Bottom Spacing */}
@@ -1087,6 +1103,17 @@ export default function FoodScannerScreen() {
         </Modal>
       )}
 
+      {scanResult && (
+        <ProductCorrectionModal
+          visible={showCorrectionModal}
+          product={scanResult.product}
+          onClose={() => setShowCorrectionModal(false)}
+          onProductUpdated={(product) =>
+            setScanResult((prev) => (prev ? { ...prev, product } : prev))
+          }
+        />
+      )}
+
       {/* History Modal */}
       <Modal
         visible={showHistoryModal}
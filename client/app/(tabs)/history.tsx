@@ -59,11 +59,13 @@ import {
   Zap,
   Scale,
   Utensils,
+  Pencil,
 } from "lucide-react-native";
 import LoadingScreen from "@/components/LoadingScreen";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import Swipeable from "react-native-gesture-handler/Swipeable";
 import ManualMealAddition from "@/components/history/ManualMealAddition";
+import MealIngredientsEditor from "@/components/history/MealIngredientsEditor";
 import { FilterOptions } from "@/src/types/history";
 
 const { width } = Dimensions.get("window");
@@ -187,6 +189,7 @@ const SwipeableMealCard = ({
   const [savingRatings, setSavingRatings] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [showCopyConfirm, setShowCopyConfirm] = useState(false);
+  const [showIngredientsEditor, setShowIngredientsEditor] = useState(false);
   const [localMealData, setLocalMealData] = useState({
     taste_rating: meal.taste_rating || 0,
     satiety_rating: meal.satiety_rating || 0,
@@ -736,6 +739,17 @@ const SwipeableMealCard = ({
                           {ingredients.length}
                         </Text>
                       </View>
+                      <TouchableOpacity
+                        style={styles.editIngredientsButton}
+                        onPress={() => setShowIngredientsEditor(true)}
+                        activeOpacity={0.7}
+                      >
+                        <Pencil
+                          size={16}
+                          color={colors.success}
+                          strokeWidth={2.5}
+                        />
+                      </TouchableOpacity>
                     </View>
 
                     <ScrollView
@@ -770,6 +784,9 @@ const SwipeableMealCard = ({
                               ]}
                             >
                               {ingredientName}
+                              {ingredient.serving_size_g
+                                ? ` · ${Math.round(ingredient.serving_size_g)}g`
+                                : ""}
                             </Text>
                           </View>
                         );
@@ -900,6 +917,13 @@ const SwipeableMealCard = ({
         </View>
       </Swipeable>
 
+      <MealIngredientsEditor
+        visible={showIngredientsEditor}
+        mealId={meal.id || meal.meal_id?.toString()}
+        onClose={() => setShowIngredientsEditor(false)}
+        onMealUpdated={immediateRefresh}
+      />
+
       <Modal
         visible={showCopyConfirm}
         animationType="fade"
@@ -2150,6 +2174,7 @@ const styles = StyleSheet.create({
   },
   countBadge: { paddingHorizontal: 10, paddingVertical: 4, borderRadius: 10 },
   countBadgeText: { fontSize: 13, fontWeight: "800", letterSpacing: -0.2 },
+  editIngredientsButton: { marginLeft: "auto", padding: 6 },
   nutritionSection: { marginBottom: 20 },
   nutritionGrid: { flexDirection: "row", flexWrap: "wrap", gap: 8 },
   nutritionCard: {
@@ -10,6 +10,7 @@ import {
   Modal,
   RefreshControl,
   Platform,
+  ActivityIndicator,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { LinearGradient } from "expo-linear-gradient";
@@ -63,7 +64,7 @@ import {
 } from "lucide-react-native";
 import { useTranslation } from "react-i18next";
 import { useLanguage } from "@/src/i18n/context/LanguageContext";
-import { api, userAPI } from "@/src/services/api";
+import { api, statisticsAPI, userAPI } from "@/src/services/api";
 import LoadingScreen from "@/components/LoadingScreen";
 import { StatisticsData } from "@/src/store/calendarSlice";
 import {
@@ -73,7 +74,6 @@ import {
   Achievement,
   TimeFilterOption,
 } from "@/src/types/statistics";
-import * as Print from "expo-print";
 import * as Sharing from "expo-sharing";
 import { useSelector } from "react-redux";
 import { RootState } from "@/src/store";
@@ -826,6 +826,7 @@ export default function StatisticsScreen() {
   const [activeChart, setActiveChart] = useState<ChartType>("weekly");
   const [showAchievements, setShowAchievements] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
+  const [isExportingReport, setIsExportingReport] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingRecommendations, setIsLoadingRecommendations] =
     useState(false);
@@ -1596,145 +1597,37 @@ export default function StatisticsScreen() {
   };
 
   const generatePdf = async () => {
-    if (!statisticsData) {
-      Alert.alert("No Data", "There is no data to generate a PDF from.");
-      return;
-    }
-
-    Alert.alert(
-      "Generating PDF",
-      "Please wait while we generate your report..."
-    );
-
-    const htmlContent = `
-    <html>
-      <head>
-        <meta charset="utf-8">
-        <title>Statistics Report</title>
-        <style>
-          body {
-            font-family: 'Arial', sans-serif;
-            padding: 20px;
-            color: #333;
-            line-height: 1.4;
-          }
-          h1 {
-            color: #10B981;
-            text-align: center;
-            margin-bottom: 30px;
-          }
-          h2 {
-            color: #0F172A;
-            border-bottom: 2px solid #EEE;
-            padding-bottom: 10px;
-            margin-top: 25px;
-            margin-bottom: 15px;
-            font-size: 20px;
-          }
-          .section {
-            margin-bottom: 20px;
-            page-break-inside: avoid;
-          }
-          .metric-card {
-            background-color: #F8FAFC;
-            border-radius: 12px;
-            padding: 16px;
-            margin-bottom: 12px;
-            border: 1px solid #E5E7EB;
-          }
-          .progress-bar {
-            height: 8px;
-            background-color: #F1F5F9;
-            border-radius: 4px;
-            overflow: hidden;
-            margin: 8px 0;
-          }
-          .progress-fill {
-            height: 100%;
-            border-radius: 4px;
-            transition: width 0.3s ease;
-          }
-        </style>
-      </head>
-      <body>
-        <h1>Statistics Report</h1>
-
-        <div class="section">
-          <h2>Progress Overview</h2>
-          <p>Average Completion: ${progressStats?.averageCompletion || 0}%</p>
-          <p>Best Streak: ${progressStats?.bestStreak || 0} days</p>
-          <p>Current Streak: ${progressStats?.currentStreak || 0} days</p>
-        </div>
-
-        <div class="section">
-          <h2>Nutrition Averages</h2>
-          <p>Calories: ${progressStats?.averages?.calories || 0} kcal</p>
-          <p>Protein: ${progressStats?.averages?.protein || 0} g</p>
-          <p>Carbohydrates: ${progressStats?.averages?.carbs || 0} g</p>
-          <p>Fats: ${progressStats?.averages?.fats || 0} g</p>
-          <p>Water: ${progressStats?.averages?.water || 0} ml</p>
-        </div>
-
-        ${
-          metrics
-            ?.map(
-              (metric, index) => `
-          <div class="section">
-            <h2>${metric.name || `Metric ${index + 1}`}</h2>
-            <div class="metric-card">
-              <p><strong>Value:</strong> ${(
-                metric.value || 0
-              ).toLocaleString()} ${metric.unit || ""}</p>
-              <p><strong>Target:</strong> ${(
-                metric.target || 0
-              ).toLocaleString()} ${metric.unit || ""}</p>
-              <p><strong>Status:</strong> ${metric.status || "N/A"}</p>
-              <div class="progress-bar">
-                <div class="progress-fill" style="width: ${Math.min(
-                  metric.percentage || 0,
-                  100
-                )}%; background-color: ${metric.color || "#ccc"};"></div>
-              </div>
-              ${
-                metric.recommendation
-                  ? `<p><em>💡 ${metric.recommendation}</em></p>`
-                  : ""
-              }
-            </div>
-          </div>
-        `
-            )
-            .join("") || ""
-        }
-      </body>
-    </html>
-    `;
-
+    setIsExportingReport(true);
     try {
-      if (!Print || !Print.printToFileAsync) {
-        throw new Error("Print module is not available");
+      // The server report covers whole days; "today" is a one-day range
+      const today = new Date().toLocaleDateString("en-CA");
+      const uri =
+        selectedPeriod === "today"
+          ? await statisticsAPI.downloadReport("custom", today, today)
+          : await statisticsAPI.downloadReport(selectedPeriod);
+
+      if (Platform.OS === "web") {
+        const link = document.createElement("a");
+        link.href = uri;
+        link.download = `nutrition-report-${selectedPeriod}.pdf`;
+        link.click();
+        URL.revokeObjectURL(uri);
+        return;
       }
 
-      const fileName = `Calo Stats ${user?.name || "User"}.pdf`;
-      const { uri } = await Print.printToFileAsync({
-        html: htmlContent,
-        base64: false,
-      });
-
-      if (uri) {
-        if (!Sharing || !Sharing.shareAsync) {
-          throw new Error("Sharing module is not available");
-        }
-
-        await Sharing.shareAsync(uri, {
-          mimeType: "application/pdf",
-          dialogTitle: "Share your statistics report",
-          UTI: "com.adobe.pdf",
-        });
+      if (!(await Sharing.isAvailableAsync())) {
+        throw new Error("Sharing is not available on this device");
       }
+      await Sharing.shareAsync(uri, {
+        mimeType: "application/pdf",
+        dialogTitle: "Share your statistics report",
+        UTI: "com.adobe.pdf",
+      });
     } catch (error: any) {
       console.error("Error generating PDF:", error);
       Alert.alert("Error", "Failed to generate PDF: " + error.message);
+    } finally {
+      setIsExportingReport(false);
     }
   };
 
@@ -1821,6 +1714,22 @@ export default function StatisticsScreen() {
                 </TouchableOpacity>
               ))}
             </View>
+
+            <TouchableOpacity
+              style={styles.exportReportButton}
+              onPress={generatePdf}
+              disabled={isExportingReport}
+              activeOpacity={0.7}
+            >
+              {isExportingReport ? (
+                <ActivityIndicator size="small" color="#10B981" />
+              ) : (
+                <Download size={18} color="#10B981" />
+              )}
+              <Text style={styles.exportReportText}>
+                {t("statistics.export_report") || "Export PDF report"}
+              </Text>
+            </TouchableOpacity>
           </View>
 
           {!statisticsData && !isLoading && (
@@ -1978,7 +1887,7 @@ export default function StatisticsScreen() {
                 entering={FadeInDown.delay(700)}
                 style={styles.section}
               >
-                {/* AI Recommendations Section - Only for GOLD/PLATINUM users */}
+                {/* AI Recommendations Section - Only for GOLD/PREMIUM users */}
                 {user?.subscription_type !== "FREE" && (
                   <AIRecommendationsSection
                     recommendations={aiRecommendations}
@@ -2557,6 +2466,22 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
     marginBottom: 24,
   },
+  exportReportButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: "#10B981",
+  },
+  exportReportText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#10B981",
+  },
   timeFilter: {
     flexDirection: "row",
     backgroundColor: "#FFFFFF",
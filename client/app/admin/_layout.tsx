@@ -51,6 +51,13 @@ export default function AdminLayout() {
           headerShown: true,
         }}
       />
+      <Stack.Screen
+        name="corrections"
+        options={{
+          title: t("admin.corrections.title"),
+          headerShown: true,
+        }}
+      />
       <Stack.Screen
         name="settings"
         options={{
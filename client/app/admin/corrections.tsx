@@ -0,0 +1,329 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { useTranslation } from "react-i18next";
+import { useTheme } from "@/src/context/ThemeContext";
+import axios from "axios";
+import { Ionicons } from "@expo/vector-icons";
+
+interface ProductCorrection {
+  correction_id: number;
+  changes: Record<string, any>;
+  note: string | null;
+  fields: string[];
+  outdated: boolean;
+  created_at: string;
+  user: { user_id: string; name: string | null; email: string };
+  product: {
+    barcode?: string;
+    name: string;
+    brand?: string;
+    nutrition_per_100g: Record<string, number | undefined>;
+    source: string;
+    version: number;
+  };
+}
+
+// "nutrition_per_100g.sugar" -> current and proposed value
+const describeField = (correction: ProductCorrection, field: string) => {
+  const [group, key] = field.split(".");
+  const current = key
+    ? correction.product.nutrition_per_100g[key]
+    : (correction.product as any)[group];
+  const proposed = key
+    ? correction.changes[group]?.[key]
+    : correction.changes[group];
+  const format = (value: any) =>
+    value === undefined || value === null
+      ? "—"
+      : Array.isArray(value)
+      ? value.join(", ")
+      : String(value);
+  return {
+    label: key || group,
+    current: format(current),
+    proposed: format(proposed),
+  };
+};
+
+export default function AdminCorrections() {
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+
+  const [corrections, setCorrections] = useState<ProductCorrection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [reviewingId, setReviewingId] = useState<number | null>(null);
+
+  const API_URL = process.env.EXPO_PUBLIC_API_URL;
+
+  useEffect(() => {
+    fetchCorrections();
+  }, []);
+
+  const fetchCorrections = async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get(`${API_URL}/admin/product-corrections`);
+
+      if (response.data.success) {
+        setCorrections(response.data.data);
+      }
+    } catch (error) {
+      console.error("Failed to fetch product corrections:", error);
+      Alert.alert(t("common.error"), t("admin.corrections.loadFailed"));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const review = async (
+    correction: ProductCorrection,
+    action: "approve" | "reject"
+  ) => {
+    try {
+      setReviewingId(correction.correction_id);
+      await axios.post(
+        `${API_URL}/admin/product-corrections/${correction.correction_id}/${action}`,
+        {}
+      );
+      setCorrections((prev) =>
+        prev.filter((c) => c.correction_id !== correction.correction_id)
+      );
+    } catch (error: any) {
+      console.error(`Failed to ${action} correction:`, error);
+      Alert.alert(
+        t("common.error"),
+        error?.response?.data?.error || t("admin.corrections.reviewFailed")
+      );
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const confirmApprove = (correction: ProductCorrection) => {
+    if (!correction.outdated) {
+      review(correction, "approve");
+      return;
+    }
+    Alert.alert(
+      t("admin.corrections.outdatedTitle"),
+      t("admin.corrections.outdatedMessage"),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: t("admin.corrections.approve"),
+          onPress: () => review(correction, "approve"),
+        },
+      ]
+    );
+  };
+
+  if (loading && !refreshing) {
+    return (
+      <View
+        style={[
+          styles.container,
+          styles.centerContent,
+          { backgroundColor: colors.background },
+        ]}
+      >
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={() => {
+              setRefreshing(true);
+              fetchCorrections();
+            }}
+          />
+        }
+      >
+        {corrections.length === 0 && (
+          <View style={styles.centerContent}>
+            <Ionicons
+              name="checkmark-done-circle-outline"
+              size={48}
+              color={colors.textSecondary}
+            />
+            <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+              {t("admin.corrections.empty")}
+            </Text>
+          </View>
+        )}
+
+        {corrections.map((correction) => (
+          <View
+            key={correction.correction_id}
+            style={[styles.card, { backgroundColor: colors.card }]}
+          >
+            <Text style={[styles.productName, { color: colors.text }]}>
+              {correction.product.name}
+              {correction.product.brand
+                ? ` · ${correction.product.brand}`
+                : ""}
+            </Text>
+            <Text style={[styles.meta, { color: colors.textSecondary }]}>
+              {correction.product.barcode} · v{correction.product.version} ·{" "}
+              {correction.user.name || correction.user.email}
+            </Text>
+
+            {correction.outdated && (
+              <Text style={styles.outdated}>
+                {t("admin.corrections.outdatedTitle")}
+              </Text>
+            )}
+
+            {correction.fields.map((field) => {
+              const { label, current, proposed } = describeField(
+                correction,
+                field
+              );
+              return (
+                <View key={field} style={styles.fieldRow}>
+                  <Text style={[styles.fieldLabel, { color: colors.text }]}>
+                    {label}
+                  </Text>
+                  <Text
+                    style={[styles.fieldValue, { color: colors.textSecondary }]}
+                    numberOfLines={2}
+                  >
+                    {current} → {proposed}
+                  </Text>
+                </View>
+              );
+            })}
+
+            {correction.note && (
+              <Text style={[styles.note, { color: colors.textSecondary }]}>
+                &quot;{correction.note}&quot;
+              </Text>
+            )}
+
+            <View style={styles.actions}>
+              <TouchableOpacity
+                style={[styles.actionButton, { backgroundColor: "#EF4444" }]}
+                onPress={() => review(correction, "reject")}
+                disabled={reviewingId !== null}
+              >
+                <Ionicons name="close" size={18} color="#FFF" />
+                <Text style={styles.actionButtonText}>
+                  {t("admin.corrections.reject")}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.actionButton,
+                  { backgroundColor: colors.success },
+                ]}
+                onPress={() => confirmApprove(correction)}
+                disabled={reviewingId !== null}
+              >
+                {reviewingId === correction.correction_id ? (
+                  <ActivityIndicator size="small" color="#FFF" />
+                ) : (
+                  <Ionicons name="checkmark" size={18} color="#FFF" />
+                )}
+                <Text style={styles.actionButtonText}>
+                  {t("admin.corrections.approve")}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centerContent: {
+    justifyContent: "center",
+    alignItems: "center",
+    paddingVertical: 48,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 16,
+  },
+  card: {
+    padding: 16,
+    borderRadius: 12,
+    gap: 6,
+  },
+  productName: {
+    fontSize: 17,
+    fontWeight: "700",
+  },
+  meta: {
+    fontSize: 13,
+  },
+  outdated: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#F57C00",
+  },
+  fieldRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: 12,
+    marginTop: 4,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  fieldValue: {
+    flex: 1,
+    fontSize: 14,
+    textAlign: "right",
+  },
+  note: {
+    fontSize: 14,
+    fontStyle: "italic",
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 12,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 12,
+    borderRadius: 12,
+    gap: 6,
+  },
+  actionButtonText: {
+    color: "#FFF",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+});
@@ -157,6 +157,16 @@ export default function AdminDashboard() {
             <Text style={styles.actionButtonText}>{t("admin.users")}</Text>
           </TouchableOpacity>
 
+          <TouchableOpacity
+            style={[styles.actionButton, { backgroundColor: "#F57C00" }]}
+            onPress={() => router.push("/admin/corrections")}
+          >
+            <Ionicons name="create" size={24} color="#FFF" />
+            <Text style={styles.actionButtonText}>
+              {t("admin.corrections.short")}
+            </Text>
+          </TouchableOpacity>
+
           <TouchableOpacity
             style={[styles.actionButton, { backgroundColor: colors.success }]}
             onPress={() => fetchAdminData()}
@@ -168,32 +168,6 @@ export default function PaymentPlan() {
     return cleaned;
   };
 
-  const validatePaymentData = () => {
-    const { cardNumber, expiryDate, cvv, cardholderName } = paymentData;
-
-    if (!cardNumber || cardNumber.replace(/\s/g, "").length < 13) {
-      Alert.alert("שגיאה", "מספר כרטיס אשראי לא תקין");
-      return false;
-    }
-
-    if (!expiryDate || expiryDate.length !== 5) {
-      Alert.alert("שגיאה", "תאריך תפוגה לא תקין");
-      return false;
-    }
-
-    if (!cvv || cvv.length < 3) {
-      Alert.alert("שגיאה", "קוד CVV לא תקין");
-      return false;
-    }
-
-    if (!cardholderName.trim()) {
-      Alert.alert("שגיאה", "שם בעל הכרטיס נדרש");
-      return false;
-    }
-
-    return true;
-  };
-
   const handlePayment = async (planId: PlanType) => {
     if (planId === "FREE") {
       return handlePlanSelection(planId);
@@ -214,17 +188,14 @@ export default function PaymentPlan() {
   };
 
   const processPayment = async () => {
-    if (!validatePaymentData() || !selectedPlan) return;
+    if (!selectedPlan) return;
 
+    // Card details are entered on the provider's hosted checkout page
+    setIsLoading(true);
     try {
-      setIsLoading(true);
-
-      // Simulate payment processing
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-
-      // Process the plan selection
-      await handlePlanSelection(selectedPlan);
-
+      await handlePayment(selectedPlan);
+    } finally {
+      setIsLoading(false);
       setShowPaymentModal(false);
       setPaymentData({
         cardNumber: "",
@@ -232,10 +203,6 @@ export default function PaymentPlan() {
         cvv: "",
         cardholderName: "",
       });
-    } catch (error) {
-      Alert.alert("שגיאה", "התשלום נכשל. אנא נסה שוב.");
-    } finally {
-      setIsLoading(false);
     }
   };
 
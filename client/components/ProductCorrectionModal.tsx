@@ -0,0 +1,384 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { useTranslation } from "react-i18next";
+import { X } from "lucide-react-native";
+import { useTheme } from "@/src/context/ThemeContext";
+import { useLanguage } from "@/src/i18n/context/LanguageContext";
+import { foodScannerAPI } from "@/src/services/api";
+import { ToastService } from "@/src/services/totastService";
+import { ProductChanges, ProductData } from "@/src/types/statistics";
+
+interface ProductCorrectionModalProps {
+  visible: boolean;
+  product: ProductData;
+  onClose: () => void;
+  onProductUpdated: (product: ProductData) => void;
+}
+
+const NUTRIENT_FIELDS = [
+  "calories",
+  "protein",
+  "carbs",
+  "fat",
+  "fiber",
+  "sugar",
+  "sodium",
+] as const;
+
+type NutrientField = (typeof NUTRIENT_FIELDS)[number];
+
+export default function ProductCorrectionModal({
+  visible,
+  product,
+  onClose,
+  onProductUpdated,
+}: ProductCorrectionModalProps) {
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+  const { language } = useLanguage();
+
+  const [name, setName] = useState("");
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [note, setNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setName(product.name);
+    setValues(
+      Object.fromEntries(
+        NUTRIENT_FIELDS.map((field) => {
+          const value = product.nutrition_per_100g[field];
+          return [field, value === undefined ? "" : String(value)];
+        })
+      )
+    );
+    setNote("");
+  }, [visible, product]);
+
+  // Only send what the user actually changed
+  const buildChanges = (): ProductChanges | null => {
+    const changes: ProductChanges = {};
+    if (name.trim() && name.trim() !== product.name) {
+      changes.name = name.trim();
+    }
+
+    const nutrition: Partial<Record<NutrientField, number>> = {};
+    for (const field of NUTRIENT_FIELDS) {
+      const raw = (values[field] || "").replace(",", ".").trim();
+      if (!raw) continue;
+      const value = parseFloat(raw);
+      if (isNaN(value) || value < 0) return null;
+      if (value !== product.nutrition_per_100g[field]) {
+        nutrition[field] = value;
+      }
+    }
+    if (Object.keys(nutrition).length > 0) {
+      changes.nutrition_per_100g = nutrition;
+    }
+
+    return changes;
+  };
+
+  const save = async (shared: boolean) => {
+    if (!product.barcode) return;
+
+    const changes = buildChanges();
+    if (!changes) {
+      ToastService.error(
+        t("common.error"),
+        t("food_scanner.correction.invalid_value")
+      );
+      return;
+    }
+    if (Object.keys(changes).length === 0) {
+      onClose();
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (shared) {
+        await foodScannerAPI.submitCorrection(
+          product.barcode,
+          changes,
+          note.trim() || undefined
+        );
+      }
+      const updated = shared
+        ? await foodScannerAPI.getProduct(product.barcode, language)
+        : await foodScannerAPI.setOverride(product.barcode, changes, language);
+
+      ToastService.success(
+        t("food_scanner.correction.saved_title"),
+        shared
+          ? t("food_scanner.correction.submitted")
+          : t("food_scanner.correction.saved_for_me")
+      );
+      onProductUpdated(updated);
+      onClose();
+    } catch (error) {
+      console.error("Product correction error:", error);
+      ToastService.handleError(error, "Product Correction");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const resetOverride = async () => {
+    if (!product.barcode) return;
+
+    setIsSaving(true);
+    try {
+      const updated = await foodScannerAPI.clearOverride(
+        product.barcode,
+        language
+      );
+      onProductUpdated(updated);
+      onClose();
+    } catch (error) {
+      console.error("Reset product override error:", error);
+      ToastService.handleError(error, "Product Correction");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View
+          style={[
+            styles.modalContainer,
+            { backgroundColor: colors.background },
+          ]}
+        >
+          <View
+            style={[styles.modalHeader, { borderBottomColor: colors.border }]}
+          >
+            <View style={styles.headerContent}>
+              <Text style={[styles.modalTitle, { color: colors.text }]}>
+                {t("food_scanner.correction.title")}
+              </Text>
+              <Text
+                style={[styles.modalSubtitle, { color: colors.textSecondary }]}
+              >
+                {t("food_scanner.correction.per_100g")}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <X size={20} color={colors.textSecondary} strokeWidth={2} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView
+            style={styles.modalContent}
+            contentContainerStyle={styles.scrollContent}
+            keyboardShouldPersistTaps="handled"
+          >
+            <Text style={[styles.label, { color: colors.textSecondary }]}>
+              {t("food_scanner.correction.name")}
+            </Text>
+            <TextInput
+              style={[
+                styles.input,
+                { color: colors.text, borderColor: colors.border },
+              ]}
+              value={name}
+              onChangeText={setName}
+              editable={!isSaving}
+            />
+
+            {NUTRIENT_FIELDS.map((field) => (
+              <View key={field} style={styles.fieldRow}>
+                <Text style={[styles.fieldLabel, { color: colors.text }]}>
+                  {t(`food_scanner.correction.fields.${field}`)}
+                </Text>
+                <TextInput
+                  style={[
+                    styles.numberInput,
+                    { color: colors.text, borderColor: colors.border },
+                  ]}
+                  value={values[field] ?? ""}
+                  onChangeText={(text) =>
+                    setValues((prev) => ({ ...prev, [field]: text }))
+                  }
+                  keyboardType="decimal-pad"
+                  editable={!isSaving}
+                />
+              </View>
+            ))}
+
+            <Text style={[styles.label, { color: colors.textSecondary }]}>
+              {t("food_scanner.correction.note")}
+            </Text>
+            <TextInput
+              style={[
+                styles.input,
+                styles.noteInput,
+                { color: colors.text, borderColor: colors.border },
+              ]}
+              value={note}
+              onChangeText={setNote}
+              placeholder={t("food_scanner.correction.note_placeholder")}
+              placeholderTextColor={colors.textSecondary}
+              multiline
+              editable={!isSaving}
+            />
+
+            {isSaving ? (
+              <ActivityIndicator style={styles.loader} color={colors.primary} />
+            ) : (
+              <View style={styles.actions}>
+                <TouchableOpacity
+                  style={[styles.button, { backgroundColor: colors.primary }]}
+                  onPress={() => save(true)}
+                >
+                  <Text
+                    style={[styles.buttonText, { color: colors.onPrimary }]}
+                  >
+                    {t("food_scanner.correction.submit")}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.button, { backgroundColor: colors.surface }]}
+                  onPress={() => save(false)}
+                >
+                  <Text style={[styles.buttonText, { color: colors.text }]}>
+                    {t("food_scanner.correction.save_for_me")}
+                  </Text>
+                </TouchableOpacity>
+                {product.provenance?.has_override && (
+                  <TouchableOpacity onPress={resetOverride}>
+                    <Text
+                      style={[
+                        styles.resetText,
+                        { color: colors.textSecondary },
+                      ]}
+                    >
+                      {t("food_scanner.correction.reset")}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  modalContainer: {
+    height: "85%",
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+  },
+  headerContent: {
+    flex: 1,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: "700",
+    letterSpacing: -0.3,
+  },
+  modalSubtitle: {
+    fontSize: 14,
+    marginTop: 4,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  modalContent: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+    gap: 10,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: "600",
+    marginTop: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    fontSize: 15,
+  },
+  noteInput: {
+    minHeight: 72,
+    textAlignVertical: "top",
+  },
+  fieldRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  fieldLabel: {
+    fontSize: 15,
+  },
+  numberInput: {
+    width: 90,
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    fontSize: 15,
+    textAlign: "center",
+  },
+  actions: {
+    gap: 10,
+    marginTop: 12,
+  },
+  button: {
+    borderRadius: 16,
+    paddingVertical: 14,
+    alignItems: "center",
+  },
+  buttonText: {
+    fontWeight: "700",
+    fontSize: 16,
+  },
+  resetText: {
+    textAlign: "center",
+    fontSize: 14,
+    marginTop: 4,
+    textDecorationLine: "underline",
+  },
+  loader: {
+    marginTop: 16,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useEffect, useRef } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import {
   View,
   Text,
@@ -13,9 +13,53 @@ import {
 import { BlurView } from "expo-blur";
 import { Check, X, Sparkles } from "lucide-react-native";
 import { useTheme } from "@/src/context/ThemeContext";
+import { userAPI } from "@/src/services/api";
+import { PlanEntitlements } from "@/src/types";
 
 const { width, height } = Dimensions.get("window");
 
+// Turn catalog entitlements into the comparison rows shown on each card
+const buildPlanFeatures = (plan: PlanEntitlements) => {
+  const { features, quotas } = plan;
+  const chat = quotas.aiChat;
+
+  const chatText = !chat
+    ? "AI Chat"
+    : chat.perMonth === null
+    ? "Unlimited AI chat"
+    : chat.unit === "messages"
+    ? `Up to ${chat.perMonth} AI chat messages`
+    : `${chat.perMonth} AI chat tokens (~${chat.messagesEstimate} messages)`;
+
+  const recommendationsText =
+    quotas.aiRecommendationsPerWeek >= 7
+      ? "Daily AI recommendations"
+      : quotas.aiRecommendationsPerWeek > 0
+      ? "Weekly AI recommendations"
+      : "AI Recommendations";
+
+  return [
+    {
+      text:
+        quotas.mealScansPerMonth === null
+          ? "Unlimited meal scans"
+          : `${quotas.mealScansPerMonth} meal scans per month`,
+      included: true,
+    },
+    {
+      text: features.fullQuestionnaire
+        ? "Full questionnaire"
+        : `Basic questionnaire (${quotas.questionnaireRetentionDays} days)`,
+      included: true,
+    },
+    { text: "Calorie tracking", included: true },
+    { text: chatText, included: features.aiChat },
+    { text: recommendationsText, included: features.aiRecommendations },
+    { text: "Daily nutrition goals", included: features.dailyGoals },
+    { text: "Device integration", included: features.deviceIntegration },
+  ];
+};
+
 interface SubscriptionComparisonProps {
   visible: boolean;
   onClose: () => void;
@@ -30,6 +74,7 @@ export default function SubscriptionComparison({
   const { colors, isDark, emeraldSpectrum } = useTheme();
   const slideAnim = useRef(new Animated.Value(0)).current;
   const fadeAnim = useRef(new Animated.Value(0)).current;
+  const [catalog, setCatalog] = useState<PlanEntitlements[]>([]);
 
   useEffect(() => {
     if (visible) {
@@ -52,58 +97,36 @@ export default function SubscriptionComparison({
     }
   }, [visible]);
 
-  const plans = [
-    {
-      id: "FREE",
-      name: "Free",
-      description: "Perfect for getting started",
-      color: colors.muted,
-      accentColor: colors.textSecondary,
-      features: [
-        { text: "5 meal scans per month", included: true },
-        { text: "Basic questionnaire (7 days)", included: true },
-        { text: "Calorie tracking", included: true },
-        { text: "Recipe access", included: true },
-        { text: "AI Chat", included: false },
-        { text: "AI Recommendations", included: false },
-        { text: "Device Integration", included: false },
-      ],
-    },
-    {
-      id: "GOLD",
-      name: "Gold",
-      description: "Most popular choice",
-      color: "#FF9500",
-      accentColor: "#FF9500",
-      recommended: true,
-      features: [
-        { text: "100 meal scans per month", included: true },
-        { text: "Full questionnaire", included: true },
-        { text: "Up to 100 AI chat messages", included: true },
-        { text: "Detailed macro & vitamin tracking", included: true },
-        { text: "AI personalized recommendations", included: true },
-        { text: "Device integration", included: true },
-        { text: "All recipes access", included: true },
-      ],
-    },
-    {
-      id: "PLATINUM",
-      name: "Platinum",
-      description: "Ultimate nutrition experience",
+  useEffect(() => {
+    if (!visible || catalog.length > 0) return;
+
+    userAPI
+      .getSubscriptionInfo()
+      .then((info) => setCatalog(info.plans))
+      .catch((error) =>
+        console.error("Failed to load subscription plans:", error)
+      );
+  }, [visible]);
+
+  const planStyles: Record<
+    string,
+    { color: string; accentColor: string; recommended?: boolean }
+  > = {
+    FREE: { color: colors.muted, accentColor: colors.textSecondary },
+    GOLD: { color: "#FF9500", accentColor: "#FF9500", recommended: true },
+    PREMIUM: {
       color: emeraldSpectrum.emerald600,
       accentColor: emeraldSpectrum.emerald500,
-      features: [
-        { text: "Unlimited meal scans", included: true },
-        { text: "Full questionnaire", included: true },
-        { text: "Unlimited AI chat", included: true },
-        { text: "Advanced AI menu planning", included: true },
-        { text: "Full health tracking", included: true },
-        { text: "Personal nutrition consulting", included: true },
-        { text: "Priority support", included: true },
-        { text: "Device integration", included: true },
-      ],
     },
-  ];
+  };
+
+  const plans = catalog.map((plan) => ({
+    id: plan.tier,
+    name: plan.name,
+    description: plan.description,
+    ...(planStyles[plan.tier] || planStyles.FREE),
+    features: buildPlanFeatures(plan),
+  }));
 
   const translateY = slideAnim.interpolate({
     inputRange: [0, 1],
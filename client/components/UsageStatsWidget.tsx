@@ -9,10 +9,11 @@ interface UsageStats {
   subscriptionType: string;
   mealScans: {
     current: number;
-    limit: number;
-    remaining: number;
+    limit: number | null;
+    remaining: number | null;
   };
   aiChat: {
+    unit: "messages" | "tokens" | null;
     current: number;
     limit: number | null;
     remaining: number | null;
@@ -45,10 +46,16 @@ export default function UsageStatsWidget() {
     return null;
   }
 
-  const mealPercentage =
-    (stats.mealScans.current / stats.mealScans.limit) * 100;
+  const mealPercentage = stats.mealScans.limit
+    ? (stats.mealScans.current / stats.mealScans.limit) * 100
+    : 0;
+  // Message-metered plans count every 100 tokens as one message
+  const aiUsed =
+    stats.aiChat.unit === "messages"
+      ? Math.floor(stats.aiChat.current / 100)
+      : stats.aiChat.current;
   const aiPercentage = stats.aiChat.limit
-    ? (stats.aiChat.current / stats.aiChat.limit) * 100
+    ? (aiUsed / stats.aiChat.limit) * 100
     : 0;
 
   return (
@@ -66,7 +73,7 @@ export default function UsageStatsWidget() {
             {t("common.mealScans")}
           </Text>
           <Text style={[styles.statValue, { color: colors.text }]}>
-            {stats.mealScans.current}/{stats.mealScans.limit}
+            {stats.mealScans.current}/{stats.mealScans.limit ?? "∞"}
           </Text>
           <View style={styles.progressBar}>
             <View
@@ -87,11 +94,9 @@ export default function UsageStatsWidget() {
               {t("common.aiChat")}
             </Text>
             <Text style={[styles.statValue, { color: colors.text }]}>
-              {stats.subscriptionType === "GOLD"
-                ? `${Math.floor(stats.aiChat.current / 100)}/${
-                    stats.aiChat.messagesEstimate
-                  }`
-                : `${stats.aiChat.current}/${stats.aiChat.limit} tokens`}
+              {stats.aiChat.unit === "messages"
+                ? `${aiUsed}/${stats.aiChat.limit}`
+                : `${aiUsed}/${stats.aiChat.limit} tokens`}
             </Text>
             <View style={styles.progressBar}>
               <View
@@ -215,7 +215,17 @@ export default function ManualMealAddition({
   };
 
   const handleSubmit = async () => {
-    if (!mealData.mealName.trim() || !mealData.calories.trim()) {
+    const ingredientsArray = mealData.ingredients
+      .split(",")
+      .map((i) => i.trim())
+      .filter((i) => i.length > 0);
+
+    // Calories may be left empty when ingredients are listed; the server
+    // computes them from its food database
+    if (
+      !mealData.mealName.trim() ||
+      (!mealData.calories.trim() && ingredientsArray.length === 0)
+    ) {
       Alert.alert(
         t("common.error"),
         t("history.manualMeal.error.nameAndCaloriesRequired")
@@ -224,7 +234,7 @@ export default function ManualMealAddition({
     }
 
     const caloriesNum = parseFloat(mealData.calories);
-    if (isNaN(caloriesNum) || caloriesNum < 0) {
+    if (mealData.calories.trim() && (isNaN(caloriesNum) || caloriesNum < 0)) {
       Alert.alert(
         t("common.error"),
         t("history.manualMeal.error.invalidCalories")
@@ -235,17 +245,12 @@ export default function ManualMealAddition({
     try {
       setIsLoading(true);
 
-      const ingredientsArray = mealData.ingredients
-        .split(",")
-        .map((i) => i.trim())
-        .filter((i) => i.length > 0);
-
       const response = await nutritionAPI.addManualMeal({
         mealName: mealData.mealName,
         calories: mealData.calories,
-        protein: mealData.protein || "0",
-        carbs: mealData.carbs || "0",
-        fat: mealData.fat || "0",
+        protein: mealData.protein,
+        carbs: mealData.carbs,
+        fat: mealData.fat,
         fiber: mealData.fiber,
         sugar: mealData.sugar,
         sodium: mealData.sodium,
@@ -0,0 +1,392 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { useTranslation } from "react-i18next";
+import { useTheme } from "@/src/context/ThemeContext";
+import { mealAPI } from "@/src/services/api";
+import { MealIngredient } from "@/src/types";
+import { X, Plus, Trash2, Check } from "lucide-react-native";
+
+interface MealIngredientsEditorProps {
+  visible: boolean;
+  mealId: string;
+  onClose: () => void;
+  onMealUpdated: () => void;
+}
+
+// "150g rice" / "rice 150 g" -> name and grams
+const parseIngredient = (text: string) => {
+  const match = text.match(
+    /(\d+(?:[.,]\d+)?)\s*(g|gr|grams?|גרם|ג)?(?=\s|$)/i
+  );
+  if (!match || !match[2]) {
+    return { name: text.trim() };
+  }
+  return {
+    name: text.replace(match[0], " ").replace(/\s+/g, " ").trim(),
+    grams: parseFloat(match[1].replace(",", ".")),
+  };
+};
+
+export default function MealIngredientsEditor({
+  visible,
+  mealId,
+  onClose,
+  onMealUpdated,
+}: MealIngredientsEditorProps) {
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+
+  const [ingredients, setIngredients] = useState<MealIngredient[]>([]);
+  const [grams, setGrams] = useState<Record<number, string>>({});
+  const [totalCalories, setTotalCalories] = useState<number | null>(null);
+  const [newIngredient, setNewIngredient] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasChanges, setHasChanges] = useState(false);
+
+  const applyIngredients = (
+    list: MealIngredient[],
+    calories: number | null
+  ) => {
+    setIngredients(list);
+    setGrams(
+      Object.fromEntries(
+        list.map((ing) => [ing.ingredient_id, String(ing.serving_size_g)])
+      )
+    );
+    setTotalCalories(calories);
+  };
+
+  const loadIngredients = async () => {
+    try {
+      setIsLoading(true);
+      const result = await mealAPI.getIngredients(mealId);
+      applyIngredients(result.ingredients, result.totals?.calories ?? null);
+    } catch (error) {
+      console.error("Failed to load ingredients:", error);
+      Alert.alert(
+        t("common.error"),
+        t("history.ingredientsEditor.loadFailed")
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (visible) {
+      setHasChanges(false);
+      loadIngredients();
+    }
+  }, [visible, mealId]);
+
+  const runEdit = async (edit: () => Promise<any>) => {
+    try {
+      setIsLoading(true);
+      const meal = await edit();
+      applyIngredients(
+        (meal.ingredients || []) as MealIngredient[],
+        meal.calories ?? null
+      );
+      setHasChanges(true);
+    } catch (error) {
+      console.error("Failed to edit ingredient:", error);
+      Alert.alert(
+        t("common.error"),
+        error instanceof Error
+          ? error.message
+          : t("history.ingredientsEditor.saveFailed")
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResize = (ingredient: MealIngredient) => {
+    const value = parseFloat(
+      (grams[ingredient.ingredient_id] || "").replace(",", ".")
+    );
+    if (isNaN(value) || value <= 0) {
+      Alert.alert(
+        t("common.error"),
+        t("history.ingredientsEditor.invalidGrams")
+      );
+      return;
+    }
+    if (value === ingredient.serving_size_g) return;
+
+    runEdit(() =>
+      mealAPI.updateIngredient(mealId, ingredient.ingredient_id, {
+        grams: value,
+      })
+    );
+  };
+
+  const handleRemove = (ingredient: MealIngredient) => {
+    runEdit(() => mealAPI.removeIngredient(mealId, ingredient.ingredient_id));
+  };
+
+  const handleAdd = () => {
+    const parsed = parseIngredient(newIngredient);
+    if (!parsed.name) return;
+
+    runEdit(async () => {
+      const meal = await mealAPI.addIngredient(mealId, parsed);
+      setNewIngredient("");
+      return meal;
+    });
+  };
+
+  const handleClose = () => {
+    if (hasChanges) onMealUpdated();
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={handleClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View
+          style={[
+            styles.modalContainer,
+            { backgroundColor: colors.background },
+          ]}
+        >
+          <View
+            style={[
+              styles.modalHeader,
+              { borderBottomWidth: 1, borderBottomColor: colors.border },
+            ]}
+          >
+            <View style={styles.headerContent}>
+              <Text style={[styles.modalTitle, { color: colors.text }]}>
+                {t("history.ingredientsEditor.title")}
+              </Text>
+              {totalCalories !== null && (
+                <Text
+                  style={[
+                    styles.modalSubtitle,
+                    { color: colors.textSecondary },
+                  ]}
+                >
+                  {t("history.ingredientsEditor.total", {
+                    calories: Math.round(totalCalories),
+                  })}
+                </Text>
+              )}
+            </View>
+            <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+              <X size={20} color={colors.textSecondary} strokeWidth={2} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView
+            style={styles.modalContent}
+            contentContainerStyle={styles.scrollContent}
+            keyboardShouldPersistTaps="handled"
+          >
+            {ingredients.map((ingredient) => (
+              <View
+                key={ingredient.ingredient_id}
+                style={[
+                  styles.ingredientRow,
+                  { backgroundColor: colors.card, borderColor: colors.border },
+                ]}
+              >
+                <View style={styles.ingredientInfo}>
+                  <Text
+                    style={[styles.ingredientName, { color: colors.text }]}
+                    numberOfLines={1}
+                  >
+                    {ingredient.name}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.ingredientMeta,
+                      { color: colors.textSecondary },
+                    ]}
+                  >
+                    {Math.round(ingredient.calories)} kcal ·{" "}
+                    {t(
+                      `history.ingredientsEditor.sources.${ingredient.source}`
+                    )}
+                  </Text>
+                </View>
+                <TextInput
+                  style={[
+                    styles.gramsInput,
+                    { color: colors.text, borderColor: colors.border },
+                  ]}
+                  value={grams[ingredient.ingredient_id] ?? ""}
+                  onChangeText={(text) =>
+                    setGrams((prev) => ({
+                      ...prev,
+                      [ingredient.ingredient_id]: text,
+                    }))
+                  }
+                  onEndEditing={() => handleResize(ingredient)}
+                  keyboardType="decimal-pad"
+                  editable={!isLoading}
+                />
+                <Text style={[styles.unit, { color: colors.textSecondary }]}>
+                  g
+                </Text>
+                <TouchableOpacity
+                  onPress={() => handleResize(ingredient)}
+                  style={styles.iconButton}
+                  disabled={isLoading}
+                >
+                  <Check size={18} color={colors.success} strokeWidth={2.5} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => handleRemove(ingredient)}
+                  style={styles.iconButton}
+                  disabled={isLoading}
+                >
+                  <Trash2 size={18} color="#EF4444" strokeWidth={2} />
+                </TouchableOpacity>
+              </View>
+            ))}
+
+            <View
+              style={[
+                styles.addRow,
+                { backgroundColor: colors.card, borderColor: colors.border },
+              ]}
+            >
+              <TextInput
+                style={[styles.addInput, { color: colors.text }]}
+                value={newIngredient}
+                onChangeText={setNewIngredient}
+                onSubmitEditing={handleAdd}
+                placeholder={t("history.ingredientsEditor.addPlaceholder")}
+                placeholderTextColor={colors.textSecondary}
+                editable={!isLoading}
+              />
+              <TouchableOpacity
+                onPress={handleAdd}
+                style={styles.iconButton}
+                disabled={isLoading || !newIngredient.trim()}
+              >
+                <Plus size={20} color={colors.primary} strokeWidth={2.5} />
+              </TouchableOpacity>
+            </View>
+
+            {isLoading && (
+              <ActivityIndicator style={styles.loader} color={colors.primary} />
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  modalContainer: {
+    height: "80%",
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 16,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+  },
+  headerContent: {
+    flex: 1,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: "700",
+    letterSpacing: -0.3,
+  },
+  modalSubtitle: {
+    fontSize: 14,
+    marginTop: 4,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  modalContent: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+    gap: 10,
+  },
+  ingredientRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    gap: 6,
+  },
+  ingredientInfo: {
+    flex: 1,
+  },
+  ingredientName: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  ingredientMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  gramsInput: {
+    width: 64,
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    fontSize: 15,
+    textAlign: "center",
+  },
+  unit: {
+    fontSize: 13,
+  },
+  iconButton: {
+    padding: 6,
+  },
+  addRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 12,
+  },
+  addInput: {
+    flex: 1,
+    paddingVertical: 12,
+    fontSize: 15,
+  },
+  loader: {
+    marginTop: 16,
+  },
+});
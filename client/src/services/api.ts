@@ -1,12 +1,36 @@
 import axios, { AxiosInstance, AxiosError } from "axios";
 import { Platform } from "react-native";
 import * as SecureStore from "expo-secure-store";
+import * as Device from "expo-device";
 import {
   SignUpData,
   SignInData,
   MealAnalysisData,
   QuestionnaireData,
+  PlanEntitlements,
+  Meal,
+  MealIngredient,
+  MealIngredientChange,
+  MealNutritionAudit,
+  Recipe,
+  RecipeInput,
+  FavoriteMeal,
+  QuickAddItem,
+  WeightEntry,
+  WeightProgress,
+  WeightTrendPoint,
+  TdeeEstimate,
+  BeverageType,
+  ContainerPreset,
+  DrinkLog,
+  HydrationDaySummary,
+  DataExport,
+  Challenge,
+  ChallengeLeaderboard,
+  XpHistory,
+  ActiveSession,
 } from "../types";
+import { ProductChanges, ProductData } from "../types/statistics";
 
 // ==================== PERFORMANCE OPTIMIZATIONS ====================
 
@@ -59,7 +83,10 @@ const getStoredToken = async (): Promise<string | null> => {
   }
 };
 
-const setStoredToken = async (token: string): Promise<void> => {
+const setStoredToken = async (
+  token: string,
+  refreshToken?: string
+): Promise<void> => {
   try {
     // Update cache immediately
     cachedToken = token;
@@ -68,8 +95,14 @@ const setStoredToken = async (token: string): Promise<void> => {
     // Store asynchronously without awaiting
     if (Platform.OS === "web") {
       localStorage.setItem("auth_token", token);
+      if (refreshToken) localStorage.setItem("refresh_token", refreshToken);
     } else {
       SecureStore.setItemAsync("auth_token_secure", token).catch(console.error);
+      if (refreshToken) {
+        SecureStore.setItemAsync("refresh_token_secure", refreshToken).catch(
+          console.error
+        );
+      }
     }
   } catch (error) {
     console.error("Error storing token:", error);
@@ -85,14 +118,61 @@ const clearStoredToken = async (): Promise<void> => {
   try {
     if (Platform.OS === "web") {
       localStorage.removeItem("auth_token");
+      localStorage.removeItem("refresh_token");
     } else {
       await SecureStore.deleteItemAsync("auth_token_secure");
+      await SecureStore.deleteItemAsync("refresh_token_secure");
     }
   } catch (error) {
     console.error("Error clearing token:", error);
   }
 };
 
+const getStoredRefreshToken = async (): Promise<string | null> => {
+  try {
+    return Platform.OS === "web"
+      ? localStorage.getItem("refresh_token")
+      : await SecureStore.getItemAsync("refresh_token_secure");
+  } catch (error) {
+    console.error("Error getting refresh token:", error);
+    return null;
+  }
+};
+
+// Shared by concurrent 401s: the server revokes the session when a refresh
+// token is used twice
+let refreshPromise: Promise<string | null> | null = null;
+
+// Trade the stored refresh token for a new pair. Resolves to the new access
+// token, or null when the session is gone.
+const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const refreshToken = await getStoredRefreshToken();
+      if (!refreshToken) return null;
+
+      try {
+        // Plain axios so a failed refresh doesn't loop through the interceptors
+        const response = await axios.post(
+          `${getApiBaseUrl()}/auth/refresh`,
+          { refresh_token: refreshToken },
+          { withCredentials: Platform.OS === "web", timeout: 10000 }
+        );
+        if (!response.data.success) return null;
+
+        await setStoredToken(response.data.token, response.data.refresh_token);
+        return response.data.token;
+      } catch (error) {
+        console.warn("⚠️ Session refresh failed:", error);
+        return null;
+      }
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
 // Generate cache key for requests
 const getCacheKey = (method: string, url: string, params?: any): string => {
   return `${method}:${url}:${JSON.stringify(params || {})}`;
@@ -242,9 +322,25 @@ const createApiInstance = (): AxiosInstance => {
         return Promise.reject(error);
       }
 
+      // Signing out with a dead session has nothing left to clean up
+      if (
+        error.response?.status === 401 &&
+        originalRequest.url === "/auth/signout"
+      ) {
+        return Promise.reject(error);
+      }
+
       // Handle 401 errors
       if (error.response?.status === 401 && !originalRequest._retry) {
         originalRequest._retry = true;
+
+        // Access tokens are short-lived; renew and replay the request once
+        const token = await refreshAccessToken();
+        if (token) {
+          originalRequest.headers.Authorization = `Bearer ${token}`;
+          return instance(originalRequest);
+        }
+
         await clearStoredToken();
 
         // Don't await these - fire and forget for speed
@@ -278,9 +374,24 @@ const api = createApiInstance();
 
 // ==================== API SERVICES ====================
 
+// The server counts days (goals, streaks, statistics) in this timezone
+const deviceTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Shown in the list of signed-in devices
+const deviceName = () => Device.deviceName || Device.modelName || undefined;
+
+// The push token is obtained at app start, possibly before signing in
+const registerStoredPushToken = () =>
+  import("./notifications")
+    .then(({ NotificationService }) => NotificationService.syncPushToken())
+    .catch(console.error);
+
 export const authAPI = {
   async signUp(data: SignUpData): Promise<any> {
-    const response = await api.post("/auth/signup", data);
+    const response = await api.post("/auth/signup", {
+      ...data,
+      timezone: deviceTimeZone(),
+    });
     if (!response.data.success) {
       throw new APIError(response.data.error || "Signup failed");
     }
@@ -288,25 +399,45 @@ export const authAPI = {
   },
 
   async signIn(data: SignInData): Promise<any> {
-    const response = await api.post("/auth/signin", data);
+    const response = await api.post("/auth/signin", {
+      ...data,
+      device_name: deviceName(),
+    });
     if (response.data.success && response.data.token) {
       // Store token without awaiting
-      setStoredToken(response.data.token);
+      setStoredToken(response.data.token, response.data.refresh_token);
+      userAPI.updateTimezone(deviceTimeZone()).catch(console.error);
+      registerStoredPushToken();
       return response.data;
     }
     throw new APIError(response.data.error || "Signin failed");
   },
 
   async verifyEmail(email: string, code: string): Promise<any> {
-    const response = await api.post("/auth/verify-email", { email, code });
+    const response = await api.post("/auth/verify-email", {
+      email,
+      code,
+      device_name: deviceName(),
+    });
     if (response.data.success && response.data.token) {
-      setStoredToken(response.data.token);
+      setStoredToken(response.data.token, response.data.refresh_token);
+      userAPI.updateTimezone(deviceTimeZone()).catch(console.error);
+      registerStoredPushToken();
       return response.data;
     }
     throw new APIError(response.data.error || "Email verification failed");
   },
 
   signOut: async (): Promise<void> => {
+    // Stop server pushes to this device while the session is still valid
+    const { NotificationService } = await import("./notifications");
+    const pushToken = NotificationService.getPushToken();
+    if (pushToken) {
+      await userAPI.unregisterPushToken(pushToken).catch(console.error);
+    }
+    if (await getStoredToken()) {
+      await api.post("/auth/signout").catch(console.error);
+    }
     await clearStoredToken();
     delete api.defaults.headers.common["Authorization"];
   },
@@ -322,6 +453,32 @@ export const authAPI = {
     return getStoredToken();
   },
 
+  async getSessions(): Promise<ActiveSession[]> {
+    const response = await api.get("/auth/sessions");
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to fetch sessions");
+    }
+    return response.data.data;
+  },
+
+  async revokeSession(sessionId: string): Promise<void> {
+    const response = await api.delete(`/auth/sessions/${sessionId}`);
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to revoke session");
+    }
+  },
+
+  // Log out every other device
+  async revokeOtherSessions(): Promise<number> {
+    const response = await api.delete("/auth/sessions");
+    if (!response.data.success) {
+      throw new APIError(
+        response.data.error || "Failed to sign out other devices"
+      );
+    }
+    return response.data.data.revoked;
+  },
+
   async getCurrentUser(): Promise<any> {
     // Cache user data for 30 seconds
     const cacheKey = getCacheKey("GET", "/auth/me");
@@ -591,6 +748,50 @@ export const nutritionAPI = {
     return response.data;
   },
 
+  // Favorites and quick-add items, most logged first unless sort is "recent"
+  async getFavorites(
+    params: { sort?: "frequent" | "recent"; meal_period?: string } = {}
+  ): Promise<FavoriteMeal[]> {
+    const response = await api.get("/nutrition/favorites", { params });
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to fetch favorites");
+    }
+    return response.data.data;
+  },
+
+  async createQuickAdd(item: QuickAddItem): Promise<FavoriteMeal> {
+    const response = await api.post("/nutrition/favorites", item);
+    if (!response.data.success) {
+      throw new APIError(
+        response.data.error || "Failed to create quick-add item"
+      );
+    }
+    return response.data.data;
+  },
+
+  async removeFavorite(favoriteId: number): Promise<void> {
+    const response = await api.delete(`/nutrition/favorites/${favoriteId}`);
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to remove favorite");
+    }
+    responseCache.clear();
+  },
+
+  async logFavorite(
+    favoriteId: number,
+    options: { meal_period?: string; date?: string } = {}
+  ): Promise<Meal> {
+    const response = await api.post(
+      `/nutrition/favorites/${favoriteId}/log`,
+      options
+    );
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to log favorite");
+    }
+    responseCache.clear();
+    return response.data.data;
+  },
+
   async duplicateMeal(mealId: string, newDate?: string): Promise<any> {
     const response = await api.post(`/nutrition/meals/${mealId}/duplicate`, {
       newDate: newDate || new Date().toISOString().split("T")[0],
@@ -682,6 +883,14 @@ export const userAPI = {
     return response.data;
   },
 
+  async updateTimezone(timezone: string): Promise<void> {
+    const response = await api.put("/user/timezone", { timezone });
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to update timezone");
+    }
+    responseCache.clear();
+  },
+
   updateSubscription: async (subscriptionType: string) => {
     const response = await api.put("/user/subscription", {
       subscription_type: subscriptionType,
@@ -690,6 +899,74 @@ export const userAPI = {
     return response.data;
   },
 
+  getSubscriptionInfo: async (): Promise<{
+    subscription: PlanEntitlements;
+    plans: PlanEntitlements[];
+  }> => {
+    const cacheKey = getCacheKey("GET", "/user/subscription-info");
+    const cached = getCachedResponse(cacheKey);
+    if (cached) return cached;
+
+    const response = await api.get("/user/subscription-info");
+    if (!response.data.success) {
+      throw new APIError(
+        response.data.error || "Failed to fetch subscription info"
+      );
+    }
+
+    const result = {
+      subscription: response.data.subscription,
+      plans: response.data.plans,
+    };
+    setCachedResponse(cacheKey, result, 300000);
+    return result;
+  },
+
+  async registerPushToken(pushToken: string): Promise<void> {
+    const response = await api.post("/user/push-token", {
+      pushToken,
+      platform: Platform.OS,
+    });
+    if (!response.data.success) {
+      throw new APIError(
+        response.data.error || "Failed to register push token"
+      );
+    }
+  },
+
+  async unregisterPushToken(pushToken: string): Promise<void> {
+    await api.delete("/user/push-token", { data: { pushToken } });
+  },
+
+  // Builds the export in the background; the download link is emailed
+  async requestDataExport(): Promise<DataExport> {
+    const response = await api.get("/user/export", {
+      params: { background: "true" },
+    });
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to request export");
+    }
+    return response.data.data;
+  },
+
+  async getDataExport(exportId: string): Promise<DataExport> {
+    const response = await api.get(`/user/export/${exportId}`);
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to fetch export");
+    }
+    return response.data.data;
+  },
+
+  async getXpHistory(limit?: number, before?: number): Promise<XpHistory> {
+    const response = await api.get("/user/xp-history", {
+      params: { limit, before },
+    });
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to fetch XP history");
+    }
+    return response.data.data;
+  },
+
   deleteAccount: async () => {
     const response = await api.delete("/user/delete");
     return response.data;
@@ -806,6 +1083,97 @@ export const userAPI = {
   },
 };
 
+// ==================== PAYMENT API ====================
+
+// ==================== STATISTICS API ====================
+
+export type ReportPeriod = "week" | "month" | "custom";
+
+export const statisticsAPI = {
+  // Downloads the server-rendered PDF report. Resolves to a local file URI to
+  // share (native) or an object URL (web).
+  async downloadReport(
+    period: ReportPeriod,
+    startDate?: string,
+    endDate?: string
+  ): Promise<string> {
+    const params = { period, start_date: startDate, end_date: endDate };
+
+    if (Platform.OS === "web") {
+      const response = await api.get("/statistics/export-report", {
+        params,
+        responseType: "blob",
+        timeout: 60000,
+      });
+      return URL.createObjectURL(response.data);
+    }
+
+    const FileSystem = await import("expo-file-system/legacy");
+    const query = Object.entries(params)
+      .filter(([, value]) => value)
+      .map(([key, value]) => `${key}=${encodeURIComponent(value!)}`)
+      .join("&");
+    const url = `${getApiBaseUrl()}/statistics/export-report?${query}`;
+    const fileUri = `${FileSystem.cacheDirectory}nutrition-report-${period}.pdf`;
+
+    // The file download skips the axios interceptors, so renew the access
+    // token here when it has expired
+    const download = async (token: string | null) =>
+      FileSystem.downloadAsync(url, fileUri, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+
+    let result = await download(await getStoredToken());
+    if (result.status === 401) {
+      const token = await refreshAccessToken();
+      if (token) result = await download(token);
+    }
+    if (result.status !== 200) {
+      throw new APIError("Failed to download report", result.status);
+    }
+    return result.uri;
+  },
+};
+
+export const paymentAPI = {
+  async createCheckout(
+    planType: string,
+    returnUrl: string
+  ): Promise<{
+    payment_id: number;
+    session_id: string;
+    checkout_url: string;
+    expires_at: string | null;
+    amount: number;
+    currency: string;
+  }> {
+    const response = await api.post("/payments/checkout", {
+      plan_type: planType,
+      success_url: returnUrl,
+      cancel_url: returnUrl,
+    });
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to start checkout");
+    }
+    return response.data.data;
+  },
+
+  async getCheckoutStatus(sessionId: string): Promise<any> {
+    const response = await api.get(`/payments/checkout/${sessionId}`);
+    if (!response.data.success) {
+      throw new APIError(
+        response.data.error || "Failed to fetch checkout status"
+      );
+    }
+    return response.data.data;
+  },
+
+  async getPaymentHistory(): Promise<any[]> {
+    const response = await api.get("/payments/history");
+    return response.data.data || [];
+  },
+};
+
 // ==================== QUESTIONNAIRE API ====================
 
 export const questionnaireAPI = {
@@ -1001,6 +1369,418 @@ export const mealAPI = {
 
     return response.data;
   },
+
+  async getIngredients(
+    mealId: string
+  ): Promise<{ ingredients: MealIngredient[]; totals: any }> {
+    const response = await api.get(`/nutrition/meals/${mealId}/ingredients`);
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to fetch ingredients");
+    }
+    return response.data.data;
+  },
+
+  // Ingredient edits return the meal with recomputed nutrients
+  async addIngredient(
+    mealId: string,
+    ingredient: MealIngredientChange
+  ): Promise<Meal> {
+    const response = await api.post(
+      `/nutrition/meals/${mealId}/ingredients`,
+      ingredient
+    );
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to add ingredient");
+    }
+    responseCache.clear();
+    return response.data.data;
+  },
+
+  async updateIngredient(
+    mealId: string,
+    ingredientId: number,
+    changes: Omit<MealIngredientChange, "food_id" | "quantity">
+  ): Promise<Meal> {
+    const response = await api.patch(
+      `/nutrition/meals/${mealId}/ingredients/${ingredientId}`,
+      changes
+    );
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to update ingredient");
+    }
+    responseCache.clear();
+    return response.data.data;
+  },
+
+  async removeIngredient(mealId: string, ingredientId: number): Promise<Meal> {
+    const response = await api.delete(
+      `/nutrition/meals/${mealId}/ingredients/${ingredientId}`
+    );
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to remove ingredient");
+    }
+    responseCache.clear();
+    return response.data.data;
+  },
+
+  async getNutritionAudit(mealId: string): Promise<MealNutritionAudit> {
+    const response = await api.get(`/nutrition/meals/${mealId}/audit`);
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to fetch meal audit");
+    }
+    return response.data.data;
+  },
+};
+
+// ==================== RECIPES API ====================
+
+export const recipeAPI = {
+  async getRecipes(): Promise<Recipe[]> {
+    const response = await api.get("/recipes");
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to fetch recipes");
+    }
+    return response.data.data;
+  },
+
+  async getRecipe(recipeId: number): Promise<Recipe> {
+    const response = await api.get(`/recipes/${recipeId}`);
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to fetch recipe");
+    }
+    return response.data.data;
+  },
+
+  async createRecipe(recipe: RecipeInput): Promise<Recipe> {
+    const response = await api.post("/recipes", recipe);
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to create recipe");
+    }
+    return response.data.data;
+  },
+
+  async updateRecipe(
+    recipeId: number,
+    changes: Partial<RecipeInput>
+  ): Promise<Recipe> {
+    const response = await api.put(`/recipes/${recipeId}`, changes);
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to update recipe");
+    }
+    return response.data.data;
+  },
+
+  async deleteRecipe(recipeId: number): Promise<void> {
+    const response = await api.delete(`/recipes/${recipeId}`);
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to delete recipe");
+    }
+  },
+
+  // Log a portion by servings or by grams of the cooked dish
+  async logRecipe(
+    recipeId: number,
+    portion: {
+      servings?: number;
+      grams?: number;
+      meal_period?: string;
+      date?: string;
+    }
+  ): Promise<Meal> {
+    const response = await api.post(`/recipes/${recipeId}/log`, portion);
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to log recipe");
+    }
+    responseCache.clear();
+    return response.data.data;
+  },
+
+  async addToMealPlan(
+    recipeId: number,
+    slot: {
+      plan_id: string;
+      day_of_week: number;
+      meal_timing: string;
+      meal_order?: number;
+      portion_multiplier?: number;
+      dietary_category?: string;
+    }
+  ) {
+    const response = await api.post(`/recipes/${recipeId}/add-to-plan`, slot);
+    if (!response.data.success) {
+      throw new APIError(
+        response.data.error || "Failed to add recipe to meal plan"
+      );
+    }
+    responseCache.clear();
+    return response.data.data;
+  },
+};
+
+export const weightAPI = {
+  async getEntries(days = 90): Promise<WeightEntry[]> {
+    const response = await api.get("/weight", { params: { days } });
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to fetch weigh-ins");
+    }
+    return response.data.data;
+  },
+
+  async getTrend(days = 90): Promise<WeightTrendPoint[]> {
+    const response = await api.get("/weight/trend", { params: { days } });
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to fetch weight trend");
+    }
+    return response.data.data;
+  },
+
+  async getProgress(): Promise<WeightProgress> {
+    const response = await api.get("/weight/progress");
+    if (!response.data.success) {
+      throw new APIError(
+        response.data.error || "Failed to fetch weight progress"
+      );
+    }
+    return response.data.data;
+  },
+
+  async addEntry(entry: {
+    weight_kg: number;
+    body_fat_percentage?: number;
+    measured_at?: string;
+    note?: string;
+  }): Promise<WeightEntry> {
+    const response = await api.post("/weight", entry);
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to log weigh-in");
+    }
+    // A large change recalculates today's goals
+    responseCache.clear();
+    return response.data.data;
+  },
+
+  async deleteEntry(entryId: number): Promise<void> {
+    const response = await api.delete(`/weight/${entryId}`);
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to delete weigh-in");
+    }
+    responseCache.clear();
+  },
+};
+
+export const tdeeAPI = {
+  async getEstimate(): Promise<TdeeEstimate> {
+    const response = await api.get("/tdee");
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to fetch TDEE");
+    }
+    return response.data.data;
+  },
+
+  async setAdaptiveGoals(enabled: boolean): Promise<TdeeEstimate> {
+    const response = await api.put("/tdee/settings", {
+      adaptive_tdee_enabled: enabled,
+    });
+    if (!response.data.success) {
+      throw new APIError(
+        response.data.error || "Failed to update TDEE settings"
+      );
+    }
+    responseCache.clear();
+    return response.data.data;
+  },
+};
+
+export const hydrationAPI = {
+  async logDrink(drink: {
+    volume_ml?: number;
+    preset_id?: number;
+    beverage_type?: BeverageType;
+    caffeine_mg?: number;
+    logged_at?: string;
+    date?: string;
+  }): Promise<DrinkLog> {
+    const response = await api.post("/hydration/drinks", drink);
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to log drink");
+    }
+    responseCache.clear();
+    return response.data.data;
+  },
+
+  async deleteDrink(drinkId: number): Promise<void> {
+    const response = await api.delete(`/hydration/drinks/${drinkId}`);
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to delete drink");
+    }
+    responseCache.clear();
+  },
+
+  async getDay(date: string): Promise<HydrationDaySummary> {
+    const response = await api.get(`/hydration/day/${date}`);
+    if (!response.data.success) {
+      throw new APIError(
+        response.data.error || "Failed to fetch hydration summary"
+      );
+    }
+    return response.data.data;
+  },
+
+  async getPresets(): Promise<ContainerPreset[]> {
+    const response = await api.get("/hydration/presets");
+    if (!response.data.success) {
+      throw new APIError(
+        response.data.error || "Failed to fetch container presets"
+      );
+    }
+    return response.data.data;
+  },
+
+  async createPreset(
+    preset: Omit<ContainerPreset, "preset_id" | "caffeine_mg"> & {
+      caffeine_mg?: number | null;
+    }
+  ): Promise<ContainerPreset> {
+    const response = await api.post("/hydration/presets", preset);
+    if (!response.data.success) {
+      throw new APIError(
+        response.data.error || "Failed to create container preset"
+      );
+    }
+    return response.data.data;
+  },
+
+  async updatePreset(
+    presetId: number,
+    changes: Partial<Omit<ContainerPreset, "preset_id">>
+  ): Promise<ContainerPreset> {
+    const response = await api.put(`/hydration/presets/${presetId}`, changes);
+    if (!response.data.success) {
+      throw new APIError(
+        response.data.error || "Failed to update container preset"
+      );
+    }
+    return response.data.data;
+  },
+
+  async deletePreset(presetId: number): Promise<void> {
+    const response = await api.delete(`/hydration/presets/${presetId}`);
+    if (!response.data.success) {
+      throw new APIError(
+        response.data.error || "Failed to delete container preset"
+      );
+    }
+  },
+};
+
+export const challengeAPI = {
+  async getChallenges(
+    status?: "active" | "upcoming" | "ended" | "joined"
+  ): Promise<Challenge[]> {
+    const response = await api.get("/challenges", { params: { status } });
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to fetch challenges");
+    }
+    return response.data.data;
+  },
+
+  async getChallenge(challengeId: string): Promise<Challenge> {
+    const response = await api.get(`/challenges/${challengeId}`);
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to fetch challenge");
+    }
+    return response.data.data;
+  },
+
+  async joinChallenge(challengeId: string): Promise<Challenge> {
+    const response = await api.post(`/challenges/${challengeId}/join`);
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to join challenge");
+    }
+    return response.data.data;
+  },
+
+  async leaveChallenge(challengeId: string): Promise<void> {
+    const response = await api.delete(`/challenges/${challengeId}/join`);
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to leave challenge");
+    }
+  },
+
+  async getLeaderboard(
+    challengeId: string,
+    limit = 20
+  ): Promise<ChallengeLeaderboard> {
+    const response = await api.get(`/challenges/${challengeId}/leaderboard`, {
+      params: { limit },
+    });
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to fetch leaderboard");
+    }
+    return response.data.data;
+  },
+};
+
+// ==================== FOOD SCANNER API ====================
+
+export const foodScannerAPI = {
+  // language picks the product name/ingredients translation
+  async getProduct(barcode: string, language?: string): Promise<ProductData> {
+    const response = await api.get(`/food-scanner/products/${barcode}`, {
+      params: { language },
+    });
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to fetch product");
+    }
+    return response.data.data;
+  },
+
+  // Private edits, visible only to the current user
+  async setOverride(
+    barcode: string,
+    changes: ProductChanges,
+    language?: string
+  ): Promise<ProductData> {
+    const response = await api.put(
+      `/food-scanner/products/${barcode}/override`,
+      changes,
+      { params: { language } }
+    );
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to save product edits");
+    }
+    return response.data.data;
+  },
+
+  async clearOverride(
+    barcode: string,
+    language?: string
+  ): Promise<ProductData> {
+    const response = await api.delete(
+      `/food-scanner/products/${barcode}/override`,
+      { params: { language } }
+    );
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to reset product");
+    }
+    return response.data.data;
+  },
+
+  // Reported corrections become shared once an admin approves them
+  async submitCorrection(
+    barcode: string,
+    changes: ProductChanges,
+    note?: string,
+    applyToMe: boolean = true
+  ): Promise<void> {
+    const response = await api.post(
+      `/food-scanner/products/${barcode}/corrections`,
+      { changes, note, apply_to_me: applyToMe }
+    );
+    if (!response.data.success) {
+      throw new APIError(response.data.error || "Failed to submit correction");
+    }
+  },
 };
 
 // ==================== MEAL PLAN API ====================
@@ -145,6 +145,8 @@ class DeviceAPIService {
         // Send to server
         try {
           await deviceAxios.post(`/devices/${deviceId}/sync`, {
+            // Lets the server file the data under the local day
+            timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
             activityData: {
               steps: healthData.steps,
               caloriesBurned: healthData.caloriesBurned,
@@ -225,6 +227,8 @@ class DeviceAPIService {
         // Send to server
         try {
           await deviceAxios.post(`/devices/${deviceId}/sync`, {
+            // Lets the server file the data under the local day
+            timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
             activityData: {
               steps: activityData.steps || 0,
               caloriesBurned: activityData.caloriesBurned || 0,
@@ -636,7 +636,7 @@ class DeviceConnectionService {
           activeMinutes: cycle.strain?.workouts_duration_milli
             ? Math.round(cycle.strain.workouts_duration_milli / 60000)
             : 0,
-          heartRate: cycle.recovery?.heart_rate_variability_rmssd || 0,
+          heartRate: cycle.recovery?.heart_rate_variability_rmssd,
           date,
         };
       }
@@ -763,7 +763,7 @@ class DeviceConnectionService {
           activeMinutes: activity.active_time_seconds
             ? Math.round(activity.active_time_seconds / 60)
             : 0,
-          heartRate: activity.heart_rate_avg || 0,
+          heartRate: activity.heart_rate_avg,
           date,
         };
       }
@@ -129,6 +129,7 @@ export class NotificationService {
             token.substring(0, 20) + "..."
           );
           await AsyncStorage.setItem("expo_push_token", token);
+          await this.syncPushToken();
         }
       }
 
@@ -592,4 +593,22 @@ export class NotificationService {
   static getPushToken(): string | null {
     return this.expoPushToken;
   }
+
+  /**
+   * Register this device's push token with the server so it can send
+   * achievement, recommendation and plan notifications
+   */
+  static async syncPushToken(): Promise<void> {
+    const token =
+      this.expoPushToken || (await AsyncStorage.getItem("expo_push_token"));
+    if (!token) return;
+
+    try {
+      const { userAPI } = await import("./api");
+      await userAPI.registerPushToken(token);
+    } catch (error) {
+      // Not signed in yet; retried after sign-in
+      console.log("⚠️ Push token not registered with server:", error);
+    }
+  }
 }
\ No newline at end of file
@@ -116,22 +116,31 @@ export const signOut = createAsyncThunk(
     try {
       console.log("🔄 Starting comprehensive sign out process...");
 
-      // 1. Clear TanStack Query cache first
+      // 1. End the server session while the stored tokens still work
+      await authAPI.signOut();
+      console.log("✅ API auth cleared");
+
+      // 2. Clear TanStack Query cache
       await clearQueries();
       console.log("✅ TanStack Query cache cleared");
 
-      // 2. Clear AsyncStorage completely
+      // 3. Clear AsyncStorage completely
       const AsyncStorage =
         require("@react-native-async-storage/async-storage").default;
       await AsyncStorage.clear();
       console.log("✅ AsyncStorage cleared");
 
-      // 3. Clear SecureStore (mobile only)
+      // 4. Clear SecureStore (mobile only)
       const { Platform } = require("react-native");
       if (Platform.OS !== "web") {
         try {
           const SecureStore = require("expo-secure-store");
-          const keys = ["auth_token_secure", "user_data", "questionnaire_data"];
+          const keys = [
+            "auth_token_secure",
+            "refresh_token_secure",
+            "user_data",
+            "questionnaire_data",
+          ];
           for (const key of keys) {
             try {
               await SecureStore.deleteItemAsync(key);
@@ -145,10 +154,10 @@ export const signOut = createAsyncThunk(
         }
       }
 
-      // 4. Reset all Redux slices to initial state
+      // 5. Reset all Redux slices to initial state
       // This will be handled by the reducer, but we ensure it happens
 
-      // 5. Clear any web storage (if on web)
+      // 6. Clear any web storage (if on web)
       if (Platform.OS === "web") {
         try {
           localStorage.clear();
@@ -159,10 +168,6 @@ export const signOut = createAsyncThunk(
         }
       }
 
-      // 6. Clear API auth and cookies
-      await authAPI.signOut();
-      console.log("✅ API auth cleared");
-
       // 7. Force garbage collection of any remaining references
       if (global.gc) {
         global.gc();
@@ -184,7 +189,12 @@ export const signOut = createAsyncThunk(
         const { Platform } = require("react-native");
         if (Platform.OS !== "web") {
           const SecureStore = require("expo-secure-store");
-          const keys = ["auth_token_secure", "user_data", "questionnaire_data"];
+          const keys = [
+            "auth_token_secure",
+            "refresh_token_secure",
+            "user_data",
+            "questionnaire_data",
+          ];
           for (const key of keys) {
             try {
               await SecureStore.deleteItemAsync(key);
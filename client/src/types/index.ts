@@ -99,6 +99,37 @@ export interface User {
   is_super_admin?: boolean;
 }
 
+// Mirrors the server plan catalog (server/src/config/planLimits.ts)
+export type SubscriptionTier = "FREE" | "GOLD" | "PREMIUM" | "ADMIN";
+
+export type PlanFeature =
+  | "aiChat"
+  | "aiRecommendations"
+  | "dailyGoals"
+  | "fullQuestionnaire"
+  | "deviceIntegration"
+  | "databaseMaintenance";
+
+export interface PlanEntitlements {
+  tier: SubscriptionTier;
+  name: string;
+  description: string;
+  listed: boolean;
+  features: Record<PlanFeature, boolean>;
+  quotas: {
+    mealScansPerMonth: number | null;
+    aiChat: {
+      unit: "messages" | "tokens";
+      perMonth: number | null;
+      messagesEstimate: number | null;
+    } | null;
+    questionnaireRetentionDays: number | null;
+    aiRecommendationsPerWeek: number;
+    dailyGoalsPerWeek: number;
+  };
+  pricing: { amount: number; currency: string; periodDays: number } | null;
+}
+
 export interface Meal {
   // Primary Prisma fields
   meal_id: number;
@@ -142,6 +173,7 @@ export interface Meal {
   micronutrients_json?: any;
   additives_json?: any;
   ingredients?: Array<{
+    ingredient_id?: number;
     name: string;
     calories: number;
     protein: number;
@@ -149,6 +181,8 @@ export interface Meal {
     fat: number;
     fiber?: number;
     sugar?: number;
+    serving_size_g?: number;
+    source?: IngredientSource;
   }>;
 
   // Compatibility fields
@@ -172,10 +206,320 @@ export interface Meal {
   heaviness_rating?: number;
 }
 
+export type IngredientSource =
+  | "AI_ESTIMATE"
+  | "FOOD_DATABASE"
+  | "USER"
+  | "BARCODE_PRODUCT"
+  | "RECIPE";
+
+export interface MealIngredient {
+  ingredient_id: number;
+  name: string;
+  food_id: number | null;
+  source: IngredientSource;
+  serving_size_g: number;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  protein_g?: number;
+  carbs_g?: number;
+  fats_g?: number;
+  fiber_g?: number;
+  sugar_g?: number;
+  sodium_mg?: number;
+  vitamins_json?: Record<string, number>;
+  micronutrients_json?: Record<string, number>;
+}
+
+export interface MealIngredientChange {
+  name?: string;
+  food_id?: number;
+  grams?: number;
+  quantity?: number;
+  nutrients_per_100g?: Record<string, number>;
+}
+
+export interface MealNutritionAudit {
+  meal_id: number;
+  original: Record<string, any>;
+  current: Record<string, any>;
+  difference: Record<string, number>;
+  original_ingredients: any;
+  changes: Array<{
+    audit_id: number;
+    action: string;
+    ingredient_id: number | null;
+    ingredient_before: MealIngredient | null;
+    ingredient_after: MealIngredient | null;
+    totals_before: Record<string, any>;
+    totals_after: Record<string, any>;
+    created_at: string;
+  }>;
+}
+
+export interface QuickAddItem {
+  name: string;
+  meal_period?: string;
+  calories: number;
+  protein_g?: number;
+  carbs_g?: number;
+  fats_g?: number;
+  fiber_g?: number;
+  sugar_g?: number;
+  sodium_mg?: number;
+  serving_size_g?: number;
+}
+
+export interface FavoriteMeal extends QuickAddItem {
+  favorite_id: number;
+  meal_id: number | null;
+  image_url: string | null;
+  ingredients: any;
+  times_logged: number;
+  last_logged_at: string;
+  created_at: string;
+}
+
+export interface RecipeIngredientInput {
+  name?: string;
+  food_id?: number;
+  barcode?: string;
+  grams?: number;
+  quantity?: number;
+  nutrients_per_100g?: Record<string, number>;
+}
+
+export interface RecipeInput {
+  name: string;
+  description?: string;
+  servings: number;
+  cooked_weight_g?: number;
+  ingredients: RecipeIngredientInput[];
+}
+
+export interface RecipeIngredient {
+  ingredient_id: number;
+  name: string;
+  grams: number;
+  food_id: number | null;
+  product_id: number | null;
+  source: IngredientSource;
+  position: number;
+  nutrients_per_100g: Record<string, number>;
+}
+
+export interface Recipe {
+  recipe_id: number;
+  name: string;
+  description: string | null;
+  servings: number;
+  raw_weight_g: number;
+  cooked_weight_g: number | null;
+  template_id: string | null;
+  ingredients: RecipeIngredient[];
+  nutrition: {
+    total: Record<string, number>;
+    per_serving: Record<string, number>;
+    per_100g: Record<string, number>;
+    serving_weight_g: number;
+  };
+  created_at: string;
+  updated_at: string | null;
+}
+
+export interface WeightEntry {
+  weight_entry_id: number;
+  source: "MANUAL" | "DEVICE";
+  measured_at: string;
+  date: string;
+  weight_kg: number;
+  body_fat_percentage: number | null;
+  note: string | null;
+  device: { device_name: string; device_type: string } | null;
+}
+
+export interface WeightTrendPoint {
+  date: string;
+  weight_kg: number | null;
+  trend_kg: number;
+  body_fat_percentage: number | null;
+}
+
+export interface WeightProgress {
+  current_weight_kg: number | null;
+  trend_weight_kg: number | null;
+  start_weight_kg: number | null;
+  target_weight_kg: number | null;
+  weekly_rate_kg: number | null;
+  goal_date: string | null;
+  projected_goal_date: string | null;
+  required_weekly_rate_kg: number | null;
+  on_track: boolean | null;
+  last_source: "MANUAL" | "DEVICE" | null;
+}
+
+export interface TdeeEstimate {
+  maintenance_calories: number;
+  formula_calories: number | null;
+  intake_based_calories: number | null;
+  device_based_calories: number | null;
+  confidence: number;
+  confidence_level: "low" | "medium" | "high";
+  window_days: number | null;
+  logged_days: number;
+  weigh_ins: number;
+  weight_change_kg: number | null;
+  average_intake_calories: number | null;
+  adaptive_tdee_enabled: boolean;
+}
+
+export type BeverageType =
+  | "WATER"
+  | "COFFEE"
+  | "TEA"
+  | "JUICE"
+  | "MILK"
+  | "SODA"
+  | "SPORTS_DRINK"
+  | "ENERGY_DRINK"
+  | "OTHER";
+
+export interface DrinkLog {
+  drink_id: number;
+  preset_id: number | null;
+  date: string;
+  logged_at: string;
+  beverage_type: BeverageType;
+  volume_ml: number;
+  hydration_ml: number;
+  caffeine_mg: number;
+}
+
+export interface ContainerPreset {
+  preset_id: number;
+  name: string;
+  volume_ml: number;
+  beverage_type: BeverageType;
+  caffeine_mg: number | null;
+}
+
+export interface HydrationDaySummary {
+  date: string;
+  goal_ml: number;
+  hydration_ml: number;
+  volume_ml: number;
+  progress_percentage: number;
+  goal_reached: boolean;
+  caffeine_mg: { drinks: number; meals: number; total: number };
+  by_beverage: Partial<
+    Record<BeverageType, { volume_ml: number; hydration_ml: number }>
+  >;
+  drinks: DrinkLog[];
+}
+
+export type DataExportStatus =
+  | "PENDING"
+  | "PROCESSING"
+  | "READY"
+  | "FAILED"
+  | "EXPIRED";
+
+export interface DataExport {
+  export_id: string;
+  status: DataExportStatus;
+  size_bytes: number | null;
+  error: string | null;
+  requested_at: string;
+  completed_at: string | null;
+  expires_at: string | null;
+  download_url: string | null;
+}
+
+export type ChallengeStatus = "draft" | "upcoming" | "active" | "ended";
+
+export interface Challenge {
+  challenge_id: string;
+  title: string;
+  description: string;
+  icon: string;
+  rule: string;
+  start_date: string;
+  end_date: string;
+  xp_reward: number;
+  status: ChallengeStatus;
+  target: number;
+  participant_count: number;
+  participation?: {
+    progress: number;
+    completed: boolean;
+    completed_at: string | null;
+    xp_awarded: number;
+    joined_at: string;
+  };
+}
+
+export interface ChallengeLeaderboardEntry {
+  rank: number;
+  name: string;
+  avatar_url: string | null;
+  progress: number;
+  completed: boolean;
+  is_current_user: boolean;
+}
+
+export interface ChallengeLeaderboard {
+  target: number;
+  entries: ChallengeLeaderboardEntry[];
+  current_user: ChallengeLeaderboardEntry | null;
+}
+
+export type XpSource =
+  | "ACHIEVEMENT"
+  | "CHALLENGE"
+  | "MEAL_COMPLETION"
+  | "MEAL_PLAN"
+  | "BADGE"
+  | "HYDRATION"
+  | "ADJUSTMENT"
+  | "OPENING_BALANCE";
+
+export interface XpTransaction {
+  transaction_id: number;
+  source: XpSource;
+  reason: string;
+  amount: number;
+  created_at: string;
+}
+
+export interface XpHistory {
+  totals: {
+    total_points: number;
+    current_xp: number;
+    level: number;
+  };
+  transactions: XpTransaction[];
+  next_cursor: number | null;
+}
+
+export interface ActiveSession {
+  session_id: string;
+  device_name: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+  last_used_at: string;
+  expires_at: string;
+  is_current: boolean;
+}
+
 export interface AuthResponse {
   success: boolean;
   user?: User;
   token?: string;
+  refresh_token?: string;
+  expires_in?: number;
   error?: string;
 }
 
@@ -310,6 +654,7 @@ export interface MealAnalysis {
   sodium?: number;
   sodium_mg?: number;
   ingredients?: Array<{
+    ingredient_id?: number;
     name: string;
     calories: number;
     protein: number;
@@ -317,6 +662,8 @@ export interface MealAnalysis {
     fat: number;
     fiber?: number;
     sugar?: number;
+    serving_size_g?: number;
+    source?: IngredientSource;
   }>;
 }
 export interface DailyGoals {
@@ -170,8 +170,32 @@ export interface ProductData {
   image_url?: string;
   serving_size?: string;
   servings_per_container?: number;
+  provenance?: ProductProvenance;
 }
 
+export type ProductSource =
+  | "OPEN_FOOD_FACTS"
+  | "AI_IMAGE_SCAN"
+  | "USER_SUBMITTED";
+
+export interface ProductProvenance {
+  source: ProductSource;
+  source_ref: string | null;
+  fetched_at: string;
+  version: number;
+  corrected_fields: string[];
+  has_override: boolean;
+}
+
+export type ProductChanges = Partial<
+  Pick<
+    ProductData,
+    "name" | "brand" | "category" | "ingredients" | "allergens" | "labels"
+  >
+> & {
+  nutrition_per_100g?: Partial<ProductData["nutrition_per_100g"]>;
+};
+
 export interface UserAnalysis {
   compatibility_score: number;
   daily_contribution: {
@@ -25,6 +25,7 @@ export class CacheUtils {
           const SecureStore = require("expo-secure-store");
           const commonKeys = [
             "auth_token_secure",
+            "refresh_token_secure",
             "user_data",
             "questionnaire_data",
             "app_preferences",
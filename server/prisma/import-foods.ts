@@ -0,0 +1,41 @@
+import fs from "fs";
+import path from "path";
+import { prisma } from "../src/lib/database";
+import {
+  BUNDLED_FOOD_CSV,
+  FoodDatabaseService,
+} from "../src/services/foodDatabase";
+
+// Usage: npm run db:import-foods -- [file.csv] [--source usda]
+async function main() {
+  const args = process.argv.slice(2);
+  const sourceFlag = args.indexOf("--source");
+  const source = sourceFlag >= 0 ? args[sourceFlag + 1] : undefined;
+  const file = args.find(
+    (arg, index) =>
+      !arg.startsWith("--") && (sourceFlag < 0 || index !== sourceFlag + 1)
+  );
+
+  const csvPath = file ? path.resolve(file) : BUNDLED_FOOD_CSV;
+  if (!fs.existsSync(csvPath)) {
+    throw new Error(`CSV file not found: ${csvPath}`);
+  }
+
+  const result = await FoodDatabaseService.importFromCsv(
+    fs.readFileSync(csvPath, "utf8"),
+    source || (file ? path.basename(csvPath, ".csv") : "bundled")
+  );
+
+  console.log(
+    `✅ ${result.imported} food items imported into "${result.source}", ${result.skipped} rows skipped`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error("❌ Food import failed:", error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
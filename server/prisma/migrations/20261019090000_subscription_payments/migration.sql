@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "public"."PaymentStatus" AS ENUM ('PENDING', 'COMPLETED', 'FAILED', 'EXPIRED');
+
+-- AlterTable
+ALTER TABLE "public"."SubscriptionPayment" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'ILS',
+ADD COLUMN     "failure_reason" TEXT,
+ADD COLUMN     "period_end" TIMESTAMP(3),
+ADD COLUMN     "period_start" TIMESTAMP(3),
+ADD COLUMN     "provider" TEXT NOT NULL DEFAULT 'fake',
+ADD COLUMN     "provider_payment_id" TEXT,
+ADD COLUMN     "provider_session_id" TEXT,
+ADD COLUMN     "status" "public"."PaymentStatus" NOT NULL DEFAULT 'PENDING',
+ADD COLUMN     "updated_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."payment_webhook_events" (
+    "event_id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "processed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payment_webhook_events_pkey" PRIMARY KEY ("event_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SubscriptionPayment_provider_session_id_key" ON "public"."SubscriptionPayment"("provider_session_id");
+
+-- CreateIndex
+CREATE INDEX "SubscriptionPayment_user_id_status_idx" ON "public"."SubscriptionPayment"("user_id", "status");
+
+-- CreateIndex
+CREATE INDEX "payment_webhook_events_provider_type_idx" ON "public"."payment_webhook_events"("provider", "type");
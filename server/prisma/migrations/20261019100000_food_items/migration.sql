@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "public"."food_items" (
+    "food_id" SERIAL NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'bundled',
+    "source_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "name_he" TEXT,
+    "aliases" TEXT[],
+    "category" TEXT,
+    "calories" DOUBLE PRECISION NOT NULL,
+    "protein_g" DOUBLE PRECISION NOT NULL,
+    "carbs_g" DOUBLE PRECISION NOT NULL,
+    "fats_g" DOUBLE PRECISION NOT NULL,
+    "fiber_g" DOUBLE PRECISION,
+    "sugar_g" DOUBLE PRECISION,
+    "sodium_mg" DOUBLE PRECISION,
+    "saturated_fats_g" DOUBLE PRECISION,
+    "cholesterol_mg" DOUBLE PRECISION,
+    "portion_g" DOUBLE PRECISION,
+    "portion_description" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3),
+
+    CONSTRAINT "food_items_pkey" PRIMARY KEY ("food_id")
+);
+
+-- CreateIndex
+CREATE INDEX "food_items_name_idx" ON "public"."food_items"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "food_items_source_source_id_key" ON "public"."food_items"("source", "source_id");
@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "public"."IngredientSource" AS ENUM ('AI_ESTIMATE', 'FOOD_DATABASE', 'USER');
+
+-- CreateTable
+CREATE TABLE "public"."meal_ingredients" (
+    "ingredient_id" SERIAL NOT NULL,
+    "meal_id" INTEGER NOT NULL,
+    "food_id" INTEGER,
+    "name" TEXT NOT NULL,
+    "grams" DOUBLE PRECISION NOT NULL,
+    "source" "public"."IngredientSource" NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "nutrients_per_100g" JSONB NOT NULL,
+    "vitamins_per_100g" JSONB,
+    "micronutrients_per_100g" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3),
+
+    CONSTRAINT "meal_ingredients_pkey" PRIMARY KEY ("ingredient_id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."meal_nutrition_audits" (
+    "audit_id" SERIAL NOT NULL,
+    "meal_id" INTEGER NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "ingredient_id" INTEGER,
+    "ingredient_before" JSONB,
+    "ingredient_after" JSONB,
+    "totals_before" JSONB NOT NULL,
+    "totals_after" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "meal_nutrition_audits_pkey" PRIMARY KEY ("audit_id")
+);
+
+-- CreateIndex
+CREATE INDEX "meal_ingredients_meal_id_idx" ON "public"."meal_ingredients"("meal_id");
+
+-- CreateIndex
+CREATE INDEX "meal_nutrition_audits_meal_id_created_at_idx" ON "public"."meal_nutrition_audits"("meal_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."meal_ingredients" ADD CONSTRAINT "meal_ingredients_meal_id_fkey" FOREIGN KEY ("meal_id") REFERENCES "public"."Meal"("meal_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."meal_ingredients" ADD CONSTRAINT "meal_ingredients_food_id_fkey" FOREIGN KEY ("food_id") REFERENCES "public"."food_items"("food_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."meal_nutrition_audits" ADD CONSTRAINT "meal_nutrition_audits_meal_id_fkey" FOREIGN KEY ("meal_id") REFERENCES "public"."Meal"("meal_id") ON DELETE CASCADE ON UPDATE CASCADE;
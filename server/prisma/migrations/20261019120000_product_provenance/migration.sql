@@ -0,0 +1,99 @@
+-- CreateEnum
+CREATE TYPE "public"."ProductSource" AS ENUM ('OPEN_FOOD_FACTS', 'AI_IMAGE_SCAN', 'USER_SUBMITTED');
+
+-- CreateEnum
+CREATE TYPE "public"."CorrectionStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- DropForeignKey
+ALTER TABLE "public"."FoodProduct" DROP CONSTRAINT "FoodProduct_user_id_fkey";
+
+-- AlterTable
+ALTER TABLE "public"."FoodProduct" ALTER COLUMN "user_id" DROP NOT NULL,
+ADD COLUMN     "source" "public"."ProductSource" NOT NULL DEFAULT 'OPEN_FOOD_FACTS',
+ADD COLUMN     "source_ref" TEXT,
+ADD COLUMN     "fetched_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "corrected_fields" TEXT[];
+
+-- Image scans were stored under generated "img_" barcodes
+UPDATE "public"."FoodProduct" SET "source" = 'AI_IMAGE_SCAN' WHERE "barcode" LIKE 'img\_%';
+UPDATE "public"."FoodProduct" SET "fetched_at" = "updated_at";
+
+-- CreateTable
+CREATE TABLE "public"."product_scans" (
+    "scan_id" SERIAL NOT NULL,
+    "product_id" INTEGER NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "scanned_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "product_scans_pkey" PRIMARY KEY ("scan_id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."food_product_overrides" (
+    "override_id" SERIAL NOT NULL,
+    "product_id" INTEGER NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "changes" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3),
+
+    CONSTRAINT "food_product_overrides_pkey" PRIMARY KEY ("override_id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."food_product_corrections" (
+    "correction_id" SERIAL NOT NULL,
+    "product_id" INTEGER NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "changes" JSONB NOT NULL,
+    "note" TEXT,
+    "base_version" INTEGER NOT NULL,
+    "status" "public"."CorrectionStatus" NOT NULL DEFAULT 'PENDING',
+    "reviewed_by" TEXT,
+    "reviewed_at" TIMESTAMP(3),
+    "review_note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "food_product_corrections_pkey" PRIMARY KEY ("correction_id")
+);
+
+-- Existing products become the first scan of the user who created them
+INSERT INTO "public"."product_scans" ("product_id", "user_id", "scanned_at")
+SELECT "product_id", "user_id", "created_at" FROM "public"."FoodProduct" WHERE "user_id" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "product_scans_user_id_scanned_at_idx" ON "public"."product_scans"("user_id", "scanned_at");
+
+-- CreateIndex
+CREATE INDEX "product_scans_product_id_idx" ON "public"."product_scans"("product_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "food_product_overrides_product_id_user_id_key" ON "public"."food_product_overrides"("product_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "food_product_corrections_status_created_at_idx" ON "public"."food_product_corrections"("status", "created_at");
+
+-- CreateIndex
+CREATE INDEX "food_product_corrections_product_id_idx" ON "public"."food_product_corrections"("product_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."FoodProduct" ADD CONSTRAINT "FoodProduct_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."product_scans" ADD CONSTRAINT "product_scans_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "public"."FoodProduct"("product_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."product_scans" ADD CONSTRAINT "product_scans_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."food_product_overrides" ADD CONSTRAINT "food_product_overrides_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "public"."FoodProduct"("product_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."food_product_overrides" ADD CONSTRAINT "food_product_overrides_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."food_product_corrections" ADD CONSTRAINT "food_product_corrections_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "public"."FoodProduct"("product_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."food_product_corrections" ADD CONSTRAINT "food_product_corrections_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."FoodProduct" ADD COLUMN     "localized" JSONB;
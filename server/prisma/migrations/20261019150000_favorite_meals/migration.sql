@@ -0,0 +1,60 @@
+-- CreateTable
+CREATE TABLE "public"."favorite_meals" (
+    "favorite_id" SERIAL NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "meal_id" INTEGER,
+    "name" TEXT NOT NULL,
+    "meal_period" TEXT,
+    "image_url" TEXT,
+    "calories" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "protein_g" DOUBLE PRECISION,
+    "carbs_g" DOUBLE PRECISION,
+    "fats_g" DOUBLE PRECISION,
+    "fiber_g" DOUBLE PRECISION,
+    "sugar_g" DOUBLE PRECISION,
+    "sodium_mg" DOUBLE PRECISION,
+    "serving_size_g" DOUBLE PRECISION,
+    "ingredients" JSONB,
+    "times_logged" INTEGER NOT NULL DEFAULT 1,
+    "last_logged_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3),
+
+    CONSTRAINT "favorite_meals_pkey" PRIMARY KEY ("favorite_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "favorite_meals_meal_id_key" ON "public"."favorite_meals"("meal_id");
+
+-- CreateIndex
+CREATE INDEX "favorite_meals_user_id_times_logged_idx" ON "public"."favorite_meals"("user_id", "times_logged");
+
+-- CreateIndex
+CREATE INDEX "favorite_meals_user_id_last_logged_at_idx" ON "public"."favorite_meals"("user_id", "last_logged_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."favorite_meals" ADD CONSTRAINT "favorite_meals_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."favorite_meals" ADD CONSTRAINT "favorite_meals_meal_id_fkey" FOREIGN KEY ("meal_id") REFERENCES "public"."Meal"("meal_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Move favorites flagged in Meal.additives_json
+INSERT INTO "public"."favorite_meals" (
+    "user_id", "meal_id", "name", "meal_period", "image_url", "calories",
+    "protein_g", "carbs_g", "fats_g", "fiber_g", "sugar_g", "sodium_mg",
+    "serving_size_g", "ingredients", "times_logged", "last_logged_at",
+    "created_at"
+)
+SELECT
+    "user_id", "meal_id", COALESCE("meal_name", 'Meal'), "meal_period",
+    "image_url", COALESCE("calories", 0), "protein_g", "carbs_g", "fats_g",
+    "fiber_g", "sugar_g", "sodium_mg", "serving_size_g", "ingredients", 1,
+    "upload_time", "created_at"
+FROM "public"."Meal"
+WHERE jsonb_typeof("additives_json") = 'object'
+  AND "additives_json"->>'isFavorite' = 'true';
+
+UPDATE "public"."Meal"
+SET "additives_json" = "additives_json" - 'isFavorite' - 'favoriteUpdatedAt'
+WHERE jsonb_typeof("additives_json") = 'object'
+  AND ("additives_json" ? 'isFavorite' OR "additives_json" ? 'favoriteUpdatedAt');
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."connected_devices" ADD COLUMN     "last_sync_attempt_at" TIMESTAMP(3),
+ADD COLUMN     "sync_error" TEXT;
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "public"."ActivitySampleType" AS ENUM ('STEPS', 'HEART_RATE', 'SLEEP_STAGE');
+
+-- CreateEnum
+CREATE TYPE "public"."SleepStage" AS ENUM ('AWAKE', 'LIGHT', 'DEEP', 'REM');
+
+-- CreateTable
+CREATE TABLE "public"."activity_samples" (
+    "sample_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "device_id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "sample_type" "public"."ActivitySampleType" NOT NULL,
+    "start_time" TIMESTAMP(3) NOT NULL,
+    "end_time" TIMESTAMP(3),
+    "value" DOUBLE PRECISION NOT NULL,
+    "sleep_stage" "public"."SleepStage",
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "activity_samples_pkey" PRIMARY KEY ("sample_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "activity_samples_device_id_sample_type_start_time_key" ON "public"."activity_samples"("device_id", "sample_type", "start_time");
+
+-- CreateIndex
+CREATE INDEX "activity_samples_user_id_date_idx" ON "public"."activity_samples"("user_id", "date");
+
+-- AddForeignKey
+ALTER TABLE "public"."activity_samples" ADD CONSTRAINT "activity_samples_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."activity_samples" ADD CONSTRAINT "activity_samples_device_id_fkey" FOREIGN KEY ("device_id") REFERENCES "public"."connected_devices"("connected_device_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- CreateEnum
+CREATE TYPE "public"."ActivityMetric" AS ENUM ('STEPS', 'CALORIES', 'ACTIVE_MINUTES', 'DISTANCE', 'HEART_RATE', 'SLEEP', 'WEIGHT', 'BODY_FAT');
+
+-- CreateTable
+CREATE TABLE "public"."activity_metric_priorities" (
+    "user_id" TEXT NOT NULL,
+    "metric" "public"."ActivityMetric" NOT NULL,
+    "device_types" "public"."DeviceType"[],
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "activity_metric_priorities_pkey" PRIMARY KEY ("user_id","metric")
+);
+
+-- AddForeignKey
+ALTER TABLE "public"."activity_metric_priorities" ADD CONSTRAINT "activity_metric_priorities_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "public"."WeightSource" AS ENUM ('MANUAL', 'DEVICE');
+
+-- CreateTable
+CREATE TABLE "public"."weight_entries" (
+    "weight_entry_id" SERIAL NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "device_id" TEXT,
+    "source" "public"."WeightSource" NOT NULL DEFAULT 'MANUAL',
+    "measured_at" TIMESTAMP(3) NOT NULL,
+    "date" DATE NOT NULL,
+    "weight_kg" DOUBLE PRECISION NOT NULL,
+    "body_fat_percentage" DOUBLE PRECISION,
+    "note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "weight_entries_pkey" PRIMARY KEY ("weight_entry_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "weight_entries_device_id_date_key" ON "public"."weight_entries"("device_id", "date");
+
+-- CreateIndex
+CREATE INDEX "weight_entries_user_id_measured_at_idx" ON "public"."weight_entries"("user_id", "measured_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."weight_entries" ADD CONSTRAINT "weight_entries_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."weight_entries" ADD CONSTRAINT "weight_entries_device_id_fkey" FOREIGN KEY ("device_id") REFERENCES "public"."connected_devices"("connected_device_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Import weights already synced from devices
+INSERT INTO "public"."weight_entries" ("user_id", "device_id", "source", "measured_at", "date", "weight_kg", "body_fat_percentage", "updated_at")
+SELECT "user_id", "device_id", 'DEVICE', "date", "date", "weight_kg", "body_fat_percentage", CURRENT_TIMESTAMP
+FROM "public"."daily_activity_summary"
+WHERE "weight_kg" IS NOT NULL AND "weight_kg" > 0;
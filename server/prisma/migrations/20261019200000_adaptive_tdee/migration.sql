@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "adaptive_tdee_enabled" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "public"."BeverageType" AS ENUM ('WATER', 'COFFEE', 'TEA', 'JUICE', 'MILK', 'SODA', 'SPORTS_DRINK', 'ENERGY_DRINK', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "public"."drink_logs" (
+    "drink_id" SERIAL NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "preset_id" INTEGER,
+    "date" DATE NOT NULL,
+    "logged_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "beverage_type" "public"."BeverageType" NOT NULL DEFAULT 'WATER',
+    "volume_ml" INTEGER NOT NULL,
+    "hydration_ml" INTEGER NOT NULL,
+    "caffeine_mg" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "drink_logs_pkey" PRIMARY KEY ("drink_id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."container_presets" (
+    "preset_id" SERIAL NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "volume_ml" INTEGER NOT NULL,
+    "beverage_type" "public"."BeverageType" NOT NULL DEFAULT 'WATER',
+    "caffeine_mg" DOUBLE PRECISION,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "container_presets_pkey" PRIMARY KEY ("preset_id")
+);
+
+-- CreateIndex
+CREATE INDEX "drink_logs_user_id_date_idx" ON "public"."drink_logs"("user_id", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "container_presets_user_id_name_key" ON "public"."container_presets"("user_id", "name");
+
+-- AddForeignKey
+ALTER TABLE "public"."drink_logs" ADD CONSTRAINT "drink_logs_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."drink_logs" ADD CONSTRAINT "drink_logs_preset_id_fkey" FOREIGN KEY ("preset_id") REFERENCES "public"."container_presets"("preset_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."container_presets" ADD CONSTRAINT "container_presets_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Carry existing daily water totals over as one water drink per day
+INSERT INTO "public"."drink_logs" ("user_id", "date", "logged_at", "beverage_type", "volume_ml", "hydration_ml")
+SELECT "user_id", "date"::date, "date", 'WATER', "milliliters_consumed", "milliliters_consumed"
+FROM "public"."WaterIntake"
+WHERE "milliliters_consumed" > 0;
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "public"."RetentionAction" AS ENUM ('SCHEDULED', 'WARNED', 'RESTORED', 'DELETED');
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "deleted_at" TIMESTAMP(3),
+ADD COLUMN     "deletion_scheduled_for" TIMESTAMP(3),
+ADD COLUMN     "deletion_policy" TEXT,
+ADD COLUMN     "deletion_warned_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."user_deletion_audits" (
+    "audit_id" SERIAL NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "policy" TEXT NOT NULL,
+    "action" "public"."RetentionAction" NOT NULL,
+    "actor_id" TEXT,
+    "details" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_deletion_audits_pkey" PRIMARY KEY ("audit_id")
+);
+
+-- CreateIndex
+CREATE INDEX "user_deletion_audits_user_id_idx" ON "public"."user_deletion_audits"("user_id");
+
+-- CreateIndex
+CREATE INDEX "user_deletion_audits_created_at_idx" ON "public"."user_deletion_audits"("created_at");
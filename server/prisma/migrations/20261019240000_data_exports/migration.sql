@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "public"."DataExportStatus" AS ENUM ('PENDING', 'PROCESSING', 'READY', 'FAILED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "public"."data_exports" (
+    "export_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "status" "public"."DataExportStatus" NOT NULL DEFAULT 'PENDING',
+    "download_token" TEXT NOT NULL,
+    "archive" BYTEA,
+    "size_bytes" INTEGER,
+    "error" TEXT,
+    "requested_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "started_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "expires_at" TIMESTAMP(3),
+
+    CONSTRAINT "data_exports_pkey" PRIMARY KEY ("export_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "data_exports_download_token_key" ON "public"."data_exports"("download_token");
+
+-- CreateIndex
+CREATE INDEX "data_exports_user_id_requested_at_idx" ON "public"."data_exports"("user_id", "requested_at");
+
+-- CreateIndex
+CREATE INDEX "data_exports_status_idx" ON "public"."data_exports"("status");
+
+-- AddForeignKey
+ALTER TABLE "public"."data_exports" ADD CONSTRAINT "data_exports_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
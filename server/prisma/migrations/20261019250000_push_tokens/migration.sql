@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "public"."PushPlatform" AS ENUM ('IOS', 'ANDROID', 'WEB');
+
+-- CreateTable
+CREATE TABLE "public"."push_tokens" (
+    "push_token_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "token_encrypted" TEXT NOT NULL,
+    "platform" "public"."PushPlatform" NOT NULL,
+    "device_name" TEXT,
+    "last_seen" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "push_tokens_pkey" PRIMARY KEY ("push_token_id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."push_tickets" (
+    "ticket_id" TEXT NOT NULL,
+    "push_token_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "push_tickets_pkey" PRIMARY KEY ("ticket_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "push_tokens_token_hash_key" ON "public"."push_tokens"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "push_tokens_user_id_idx" ON "public"."push_tokens"("user_id");
+
+-- CreateIndex
+CREATE INDEX "push_tickets_created_at_idx" ON "public"."push_tickets"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."push_tokens" ADD CONSTRAINT "push_tokens_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."push_tickets" ADD CONSTRAINT "push_tickets_push_token_id_fkey" FOREIGN KEY ("push_token_id") REFERENCES "public"."push_tokens"("push_token_id") ON DELETE CASCADE ON UPDATE CASCADE;
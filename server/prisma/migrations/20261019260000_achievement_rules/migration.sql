@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "public"."Achievement" ADD COLUMN     "rule" TEXT;
+
+-- Backfill rules for the seeded achievements (see prisma/seed-achievements.csv)
+UPDATE "public"."Achievement" SET "rule" = 'ai_requests >= 1' WHERE "key" = 'first_scan' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'water_goal_days >= 1' WHERE "key" = 'first_water_goal' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'complete_days >= 1' WHERE "key" = 'first_complete_day' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'current_streak >= 3' WHERE "key" = 'streak_3_days' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'current_streak >= 7' WHERE "key" = 'streak_7_days' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'current_streak >= 14' WHERE "key" = 'streak_14_days' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'current_streak >= 30' WHERE "key" = 'streak_30_days' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'current_streak >= 100' WHERE "key" = 'streak_100_days' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'days(water_cups >= 10) >= 1' WHERE "key" = 'water_warrior' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'streak(water_cups >= 8) >= 7' WHERE "key" = 'hydration_habit' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'water_goal_days >= 30' WHERE "key" = 'aqua_master' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'complete_days >= 5' WHERE "key" = 'total_5_days' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'complete_days >= 10' WHERE "key" = 'total_10_days' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'complete_days >= 25' WHERE "key" = 'total_25_days' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'complete_days >= 50' WHERE "key" = 'total_50_days' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'complete_days >= 100' WHERE "key" = 'total_100_days' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'streak(calories_goal_pct >= 90 and calories_goal_pct <= 110) >= 7' WHERE "key" = 'calorie_champion' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'days(protein_g >= 100) >= 1' WHERE "key" = 'protein_power' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'streak(protein_goal_pct >= 90 and carbs_goal_pct >= 90 and fats_goal_pct >= 90) >= 7' WHERE "key" = 'balanced_week' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'level >= 5' WHERE "key" = 'level_5' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'level >= 10' WHERE "key" = 'level_10' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'level >= 25' WHERE "key" = 'level_25' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'level >= 50' WHERE "key" = 'level_50' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'days(first_meal_hour < 8) >= 1' WHERE "key" = 'early_bird' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'days(last_meal_hour >= 22) >= 1' WHERE "key" = 'night_owl' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'weekends(water_cups >= 8 and calories >= 1800) >= 1' WHERE "key" = 'weekend_warrior' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'streak(meals >= 1) >= 7' WHERE "key" = 'consistency_king' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'days(carbs_pct >= 35 and carbs_pct <= 45 and protein_pct >= 25 and protein_pct <= 35 and fats_pct >= 25 and fats_pct <= 35) >= 1' WHERE "key" = 'macro_master' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'days(fiber_g >= 35) >= 1' WHERE "key" = 'fiber_friend' AND "rule" IS NULL;
+UPDATE "public"."Achievement" SET "rule" = 'complete_days >= 365' WHERE "key" = 'iron_will' AND "rule" IS NULL;
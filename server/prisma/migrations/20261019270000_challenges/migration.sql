@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "public"."challenges" (
+    "challenge_id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "icon" TEXT NOT NULL DEFAULT '🏁',
+    "rule" TEXT NOT NULL,
+    "start_date" DATE NOT NULL,
+    "end_date" DATE NOT NULL,
+    "xp_reward" INTEGER NOT NULL DEFAULT 100,
+    "is_published" BOOLEAN NOT NULL DEFAULT false,
+    "created_by" TEXT,
+    "finalized_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "challenges_pkey" PRIMARY KEY ("challenge_id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."challenge_participants" (
+    "participant_id" TEXT NOT NULL,
+    "challenge_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "progress" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "completed_at" TIMESTAMP(3),
+    "xp_awarded" INTEGER NOT NULL DEFAULT 0,
+    "joined_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "challenge_participants_pkey" PRIMARY KEY ("participant_id")
+);
+
+-- CreateIndex
+CREATE INDEX "challenges_is_published_end_date_idx" ON "public"."challenges"("is_published", "end_date");
+
+-- CreateIndex
+CREATE INDEX "challenge_participants_challenge_id_progress_idx" ON "public"."challenge_participants"("challenge_id", "progress");
+
+-- CreateIndex
+CREATE INDEX "challenge_participants_user_id_idx" ON "public"."challenge_participants"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "challenge_participants_challenge_id_user_id_key" ON "public"."challenge_participants"("challenge_id", "user_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."challenge_participants" ADD CONSTRAINT "challenge_participants_challenge_id_fkey" FOREIGN KEY ("challenge_id") REFERENCES "public"."challenges"("challenge_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."challenge_participants" ADD CONSTRAINT "challenge_participants_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "public"."XpSource" AS ENUM ('ACHIEVEMENT', 'CHALLENGE', 'MEAL_COMPLETION', 'MEAL_PLAN', 'BADGE', 'ADJUSTMENT', 'OPENING_BALANCE');
+
+-- CreateTable
+CREATE TABLE "public"."xp_transactions" (
+    "transaction_id" SERIAL NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "source" "public"."XpSource" NOT NULL,
+    "reason" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "idempotency_key" TEXT NOT NULL,
+    "actor_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "xp_transactions_pkey" PRIMARY KEY ("transaction_id")
+);
+
+-- CreateIndex
+CREATE INDEX "xp_transactions_user_id_created_at_idx" ON "public"."xp_transactions"("user_id", "created_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "xp_transactions_user_id_idempotency_key_key" ON "public"."xp_transactions"("user_id", "idempotency_key");
+
+-- AddForeignKey
+ALTER TABLE "public"."xp_transactions" ADD CONSTRAINT "xp_transactions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Carry over balances earned before the ledger existed
+INSERT INTO "public"."xp_transactions" ("user_id", "source", "reason", "amount", "idempotency_key")
+SELECT "user_id", 'OPENING_BALANCE', 'XP earned before history was kept', "total_points", 'opening-balance'
+FROM "public"."User"
+WHERE "total_points" > 0;
@@ -0,0 +1,33 @@
+-- Sessions from before refresh tokens hold 7-day JWTs without a session id;
+-- their users sign in once more
+DELETE FROM "public"."sessions";
+
+-- DropIndex
+DROP INDEX "public"."sessions_token_key";
+
+-- AlterTable
+ALTER TABLE "public"."sessions" DROP COLUMN "token",
+ADD COLUMN     "device_name" TEXT,
+ADD COLUMN     "ip_address" TEXT,
+ADD COLUMN     "last_used_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "user_agent" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."refresh_tokens" (
+    "token_hash" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "rotated_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "refresh_tokens_pkey" PRIMARY KEY ("token_hash")
+);
+
+-- CreateIndex
+CREATE INDEX "refresh_tokens_session_id_idx" ON "public"."refresh_tokens"("session_id");
+
+-- CreateIndex
+CREATE INDEX "refresh_tokens_expires_at_idx" ON "public"."refresh_tokens"("expires_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."refresh_tokens" ADD CONSTRAINT "refresh_tokens_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("session_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- Paid plans set before checkout existed have no end date. Give them one
+-- billing period from now instead of downgrading them on the next run.
+UPDATE "public"."User"
+SET "subscription_end" = CURRENT_TIMESTAMP + INTERVAL '30 days'
+WHERE "subscription_type" IN ('PREMIUM', 'GOLD')
+  AND "subscription_end" IS NULL
+  AND "is_admin" = false
+  AND "is_super_admin" = false;
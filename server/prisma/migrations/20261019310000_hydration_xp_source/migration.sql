@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."XpSource" ADD VALUE 'HYDRATION';
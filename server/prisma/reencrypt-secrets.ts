@@ -0,0 +1,88 @@
+import { prisma } from "../src/lib/database";
+import { DeviceService } from "../src/services/devices";
+import { PushNotificationService } from "../src/services/pushNotifications";
+
+const BATCH_SIZE = 200;
+
+// Usage: npm run db:reencrypt-secrets
+// Encrypts legacy base64 device tokens and moves device and push tokens
+// under retired keys to the active key. Safe to run repeatedly.
+async function main() {
+  let cursor: string | undefined;
+  let checked = 0;
+  let updated = 0;
+  let failed = 0;
+
+  for (;;) {
+    const devices = await prisma.connectedDevice.findMany({
+      where: {
+        OR: [
+          { access_token_encrypted: { not: null } },
+          { refresh_token_encrypted: { not: null } },
+        ],
+      },
+      select: {
+        connected_device_id: true,
+        access_token_encrypted: true,
+        refresh_token_encrypted: true,
+      },
+      orderBy: { connected_device_id: "asc" },
+      take: BATCH_SIZE,
+      ...(cursor && { cursor: { connected_device_id: cursor }, skip: 1 }),
+    });
+    if (devices.length === 0) break;
+
+    for (const device of devices) {
+      checked++;
+      try {
+        if (await DeviceService.reencryptTokens(device)) updated++;
+      } catch (error) {
+        failed++;
+        console.error(
+          `❌ Device ${device.connected_device_id}:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+    cursor = devices[devices.length - 1].connected_device_id;
+  }
+
+  let pushCursor: string | undefined;
+  for (;;) {
+    const pushTokens = await prisma.pushToken.findMany({
+      select: { push_token_id: true, token_encrypted: true },
+      orderBy: { push_token_id: "asc" },
+      take: BATCH_SIZE,
+      ...(pushCursor && { cursor: { push_token_id: pushCursor }, skip: 1 }),
+    });
+    if (pushTokens.length === 0) break;
+
+    for (const pushToken of pushTokens) {
+      checked++;
+      try {
+        if (await PushNotificationService.reencryptToken(pushToken)) updated++;
+      } catch (error) {
+        failed++;
+        console.error(
+          `❌ Push token ${pushToken.push_token_id}:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+    pushCursor = pushTokens[pushTokens.length - 1].push_token_id;
+  }
+
+  console.log(
+    `✅ ${checked} secrets checked, ${updated} re-encrypted, ${failed} failed`
+  );
+  if (failed > 0) process.exitCode = 1;
+}
+
+main()
+  .catch((error) => {
+    console.error("❌ Secret re-encryption failed:", error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,65 @@
+import fs from "fs";
+import path from "path";
+import { prisma } from "../src/lib/database";
+import { AchievementRuleEngine } from "../src/services/achievementRules";
+import { FoodDatabaseService } from "../src/services/foodDatabase";
+
+const ACHIEVEMENTS_CSV = path.resolve(__dirname, "seed-achievements.csv");
+
+// Usage: npm run db:seed
+async function main() {
+  const [header, ...records] = FoodDatabaseService.parseCsv(
+    fs.readFileSync(ACHIEVEMENTS_CSV, "utf8").replace(/^﻿/, "")
+  );
+  const rows = records.map((record) =>
+    Object.fromEntries(
+      header.map((column, index) => [column.trim(), record[index]?.trim()])
+    )
+  );
+
+  // Reject the whole file before writing anything if a rule is broken
+  const errors: string[] = [];
+  for (const row of rows) {
+    try {
+      if (!row.rule) throw new Error("missing rule");
+      AchievementRuleEngine.validate(row.rule, Number(row.max_progress));
+    } catch (error) {
+      errors.push(
+        `${row.key}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid achievement rules:\n${errors.join("\n")}`);
+  }
+
+  for (const row of rows) {
+    const data = {
+      title: row.title,
+      description: row.description,
+      category: row.category,
+      max_progress: Number(row.max_progress),
+      rule: row.rule,
+      points_awarded: Number(row.points_awarded),
+      icon: row.icon,
+      rarity: row.rarity,
+    };
+
+    await prisma.achievement.upsert({
+      where: { key: row.key },
+      update: data,
+      create: { id: row.id, key: row.key, ...data },
+    });
+  }
+
+  console.log(`✅ ${rows.length} achievements seeded`);
+}
+
+main()
+  .catch((error) => {
+    console.error("❌ Seed failed:", error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
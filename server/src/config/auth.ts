@@ -0,0 +1,20 @@
+const envInt = (name: string, fallback: number) =>
+  parseInt(process.env[name] || "") || fallback;
+
+// Access tokens are short-lived JWTs; clients renew them with the refresh
+// token, which rotates on every use
+export const ACCESS_TOKEN_TTL_MINUTES = envInt("ACCESS_TOKEN_TTL_MINUTES", 15);
+
+// A session unused (never refreshed) for this long expires
+export const REFRESH_TOKEN_TTL_DAYS = envInt("REFRESH_TOKEN_TTL_DAYS", 30);
+
+// authenticateToken trusts a checked session this long before reading it
+// again, so a revocation on another server instance takes up to this long
+export const AUTH_CACHE_TTL_MS = 30 * 1000;
+export const AUTH_CACHE_MAX_ENTRIES = 10000;
+
+// last_used_at is written at most this often per session
+export const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+// Web clients send the refresh cookie to the auth routes only
+export const REFRESH_COOKIE_PATH = "/api/auth";
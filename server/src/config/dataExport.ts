@@ -0,0 +1,9 @@
+// Accounts with more meals than this are exported in the background and the
+// user is emailed a download link; smaller ones download straight away
+export const EXPORT_SYNC_MAX_MEALS = 200;
+
+// Download links and stored archives expire after this long
+export const EXPORT_EXPIRY_HOURS = 72;
+
+// A background export still processing after this long is retried
+export const EXPORT_STALE_MINUTES = 30;
@@ -0,0 +1,60 @@
+import { ActivityMetric, DeviceType } from "@prisma/client";
+
+// OAuth clients for server-side device sync. A provider is only synced by
+// the server when its client id and secret are set; otherwise the app keeps
+// syncing it while open.
+export const DEVICE_OAUTH_CLIENTS = {
+  GOOGLE_FIT: {
+    clientId: process.env.GOOGLE_FIT_CLIENT_ID || "",
+    clientSecret: process.env.GOOGLE_FIT_CLIENT_SECRET || "",
+    tokenUrl: "https://oauth2.googleapis.com/token",
+    apiUrl: "https://www.googleapis.com/fitness/v1",
+  },
+  FITBIT: {
+    clientId: process.env.FITBIT_CLIENT_ID || "",
+    clientSecret: process.env.FITBIT_CLIENT_SECRET || "",
+    tokenUrl: "https://api.fitbit.com/oauth2/token",
+    apiUrl: "https://api.fitbit.com/1",
+  },
+  WHOOP: {
+    clientId: process.env.WHOOP_CLIENT_ID || "",
+    clientSecret: process.env.WHOOP_CLIENT_SECRET || "",
+    tokenUrl: "https://api.prod.whoop.com/oauth/oauth2/token",
+    apiUrl: "https://api.prod.whoop.com/developer/v1",
+  },
+};
+
+export type DeviceOAuthClient =
+  (typeof DEVICE_OAUTH_CLIENTS)[keyof typeof DEVICE_OAUTH_CLIENTS];
+
+export const DEVICE_SYNC_TIMEOUT_MS = parseInt(
+  process.env.DEVICE_SYNC_TIMEOUT_MS || "15000"
+);
+
+// A device still SYNCING this long after its last attempt was abandoned
+// mid-sync (e.g. by a restart) and is picked up again
+export const STALE_SYNC_AFTER_MS = 30 * 60 * 1000;
+
+// Tokens expiring within this margin are refreshed before syncing
+export const TOKEN_REFRESH_MARGIN_MS = 10 * 60 * 1000;
+
+// Missed days are backfilled up to this far back
+export const MAX_BACKFILL_DAYS = 14;
+
+export const DEFAULT_SYNC_FREQUENCY_HOURS = 24;
+
+// Where each metric comes from when several devices report the same day and
+// the user has not chosen: dedicated devices first, then phones
+export const DEFAULT_METRIC_SOURCE_PRIORITY: Record<
+  ActivityMetric,
+  DeviceType[]
+> = {
+  STEPS: ["APPLE_HEALTH", "GOOGLE_FIT", "SAMSUNG_HEALTH", "FITBIT", "GARMIN"],
+  CALORIES: ["GARMIN", "FITBIT", "WHOOP", "POLAR", "APPLE_HEALTH"],
+  ACTIVE_MINUTES: ["GARMIN", "FITBIT", "APPLE_HEALTH", "GOOGLE_FIT"],
+  DISTANCE: ["GARMIN", "POLAR", "SUUNTO", "APPLE_HEALTH", "GOOGLE_FIT"],
+  HEART_RATE: ["POLAR", "WHOOP", "GARMIN", "FITBIT", "OURA"],
+  SLEEP: ["OURA", "WHOOP", "FITBIT", "GARMIN", "APPLE_HEALTH"],
+  WEIGHT: ["WITHINGS", "FITBIT", "APPLE_HEALTH", "GOOGLE_FIT"],
+  BODY_FAT: ["WITHINGS", "FITBIT", "APPLE_HEALTH", "GOOGLE_FIT"],
+};
@@ -0,0 +1,30 @@
+import { BeverageType } from "@prisma/client";
+
+export interface BeverageProfile {
+  // Share of the volume that counts towards the water goal
+  hydration: number;
+  caffeine_mg_per_100ml: number;
+}
+
+export const BEVERAGES: Record<BeverageType, BeverageProfile> = {
+  WATER: { hydration: 1, caffeine_mg_per_100ml: 0 },
+  COFFEE: { hydration: 0.8, caffeine_mg_per_100ml: 40 },
+  TEA: { hydration: 0.9, caffeine_mg_per_100ml: 20 },
+  JUICE: { hydration: 0.9, caffeine_mg_per_100ml: 0 },
+  MILK: { hydration: 1, caffeine_mg_per_100ml: 0 },
+  SODA: { hydration: 0.8, caffeine_mg_per_100ml: 10 },
+  SPORTS_DRINK: { hydration: 1, caffeine_mg_per_100ml: 0 },
+  ENERGY_DRINK: { hydration: 0.7, caffeine_mg_per_100ml: 32 },
+  OTHER: { hydration: 0.8, caffeine_mg_per_100ml: 0 },
+};
+
+// Legacy clients still log whole cups
+export const CUP_ML = 250;
+
+// Used when the user has no daily goal for the day
+export const DEFAULT_WATER_GOAL_ML = 2500;
+
+// Share of the water goal that earns partial XP, once per day
+export const PARTIAL_GOAL_SHARE = 0.5;
+export const PARTIAL_GOAL_XP = 10;
+export const WATER_GOAL_XP = 25;
@@ -1,79 +1,195 @@
-export interface PlanLimits {
-  mealScansPerMonth: number;
-  aiChatTokensPerMonth: number | null;
-  aiChatMessagesEstimate: number | null;
-  hasQuestionnaireAccess: boolean;
-  questionnaireRetentionDays: number | null;
+import { SubscriptionType } from "@prisma/client";
+
+// Single source of truth for what each subscription tier gets. Tier keys match
+// the Prisma `SubscriptionType` enum; everything that gates on a plan (routes,
+// usage tracking, cron jobs, the client plan comparison) reads from here.
+
+export type SubscriptionTier = SubscriptionType;
+
+export const SUBSCRIPTION_TIERS = Object.values(SubscriptionType);
+
+export type PlanFeature =
+  | "aiChat"
+  | "aiRecommendations"
+  | "dailyGoals"
+  | "fullQuestionnaire"
+  | "deviceIntegration"
+  | "databaseMaintenance";
+
+export interface AIChatQuota {
+  unit: "messages" | "tokens"; // GOLD is metered per message, PREMIUM per token
+  perMonth: number | null; // null = unlimited
+  messagesEstimate: number | null;
+}
+
+export interface PlanQuotas {
+  mealScansPerMonth: number | null; // null = unlimited
+  aiChat: AIChatQuota | null; // null = no AI chat
+  questionnaireRetentionDays: number | null; // null = kept forever
   aiRecommendationsPerWeek: number; // 0 = none, 1 = weekly, 7 = daily
-  dailyGoalsPerWeek: number; // 0 = none, 1 = weekly, 7 = daily
+  dailyGoalsPerWeek: number; // 1 = weekly, 7 = daily
+}
+
+export interface PlanPricing {
+  amount: number;
+  currency: string;
+  periodDays: number;
+}
+
+export interface PlanEntitlements {
+  tier: SubscriptionTier;
   name: string;
   description: string;
+  listed: boolean; // shown in the plan comparison
+  features: Record<PlanFeature, boolean>;
+  quotas: PlanQuotas;
+  pricing: PlanPricing | null; // null = cannot be purchased
 }
 
-export const PLAN_LIMITS: Record<string, PlanLimits> = {
+export const PLAN_CATALOG: Record<SubscriptionTier, PlanEntitlements> = {
   FREE: {
-    mealScansPerMonth: 5,
-    aiChatTokensPerMonth: null,
-    aiChatMessagesEstimate: null,
-    hasQuestionnaireAccess: true,
-    questionnaireRetentionDays: 7,
-    aiRecommendationsPerWeek: 0, // No AI recommendations
-    dailyGoalsPerWeek: 0, // No daily goals
+    tier: "FREE",
     name: "Free Plan",
     description: "Basic features to get started",
+    listed: true,
+    features: {
+      aiChat: false,
+      aiRecommendations: false,
+      dailyGoals: false,
+      fullQuestionnaire: false,
+      deviceIntegration: false,
+      databaseMaintenance: false,
+    },
+    quotas: {
+      mealScansPerMonth: 5,
+      aiChat: null,
+      questionnaireRetentionDays: 7,
+      aiRecommendationsPerWeek: 0,
+      dailyGoalsPerWeek: 1, // Weekly, on the signup weekday
+    },
+    pricing: null,
   },
   GOLD: {
-    mealScansPerMonth: 100,
-    aiChatTokensPerMonth: null,
-    aiChatMessagesEstimate: 100,
-    hasQuestionnaireAccess: true,
-    questionnaireRetentionDays: null,
-    aiRecommendationsPerWeek: 7, // Daily AI recommendations
-    dailyGoalsPerWeek: 7, // Daily goals every day
+    tier: "GOLD",
     name: "Gold Plan",
     description: "Full features with generous limits",
+    listed: true,
+    features: {
+      aiChat: true,
+      aiRecommendations: true,
+      dailyGoals: true,
+      fullQuestionnaire: true,
+      deviceIntegration: true,
+      databaseMaintenance: true,
+    },
+    quotas: {
+      mealScansPerMonth: 100,
+      aiChat: { unit: "messages", perMonth: 100, messagesEstimate: 100 },
+      questionnaireRetentionDays: null,
+      aiRecommendationsPerWeek: 7,
+      dailyGoalsPerWeek: 7,
+    },
+    pricing: { amount: 99, currency: "ILS", periodDays: 30 },
   },
-  PLATINUM: {
-    mealScansPerMonth: 50,
-    aiChatTokensPerMonth: 1000,
-    aiChatMessagesEstimate: 20,
-    hasQuestionnaireAccess: true,
-    questionnaireRetentionDays: null,
-    aiRecommendationsPerWeek: 1, // Weekly AI recommendations
-    dailyGoalsPerWeek: 1, // Weekly daily goals
+  PREMIUM: {
+    tier: "PREMIUM",
     name: "Platinum Plan",
     description: "Premium AI experience",
+    listed: true,
+    features: {
+      aiChat: true,
+      aiRecommendations: true,
+      dailyGoals: true,
+      fullQuestionnaire: true,
+      deviceIntegration: true,
+      databaseMaintenance: false,
+    },
+    quotas: {
+      mealScansPerMonth: 50,
+      aiChat: { unit: "tokens", perMonth: 1000, messagesEstimate: 20 },
+      questionnaireRetentionDays: null,
+      aiRecommendationsPerWeek: 1,
+      dailyGoalsPerWeek: 7,
+    },
+    pricing: { amount: 49, currency: "ILS", periodDays: 30 },
+  },
+  ADMIN: {
+    tier: "ADMIN",
+    name: "Admin",
+    description: "Internal accounts with every feature unlocked",
+    listed: false,
+    features: {
+      aiChat: true,
+      aiRecommendations: true,
+      dailyGoals: true,
+      fullQuestionnaire: true,
+      deviceIntegration: true,
+      databaseMaintenance: true,
+    },
+    quotas: {
+      mealScansPerMonth: null,
+      aiChat: { unit: "tokens", perMonth: null, messagesEstimate: null },
+      questionnaireRetentionDays: null,
+      aiRecommendationsPerWeek: 7,
+      dailyGoalsPerWeek: 7,
+    },
+    pricing: null,
   },
 };
 
-export function getPlanLimit(
+/**
+ * Entitlements for a tier. Unknown values fall back to FREE.
+ */
+export function getEntitlements(subscriptionType: string): PlanEntitlements {
+  return (
+    PLAN_CATALOG[subscriptionType as SubscriptionTier] || PLAN_CATALOG.FREE
+  );
+}
+
+export function hasFeature(
   subscriptionType: string,
-  limitType: keyof PlanLimits
-): number | boolean | null | string {
-  const plan = PLAN_LIMITS[subscriptionType] || PLAN_LIMITS.FREE;
-  return plan[limitType];
+  feature: PlanFeature
+): boolean {
+  return getEntitlements(subscriptionType).features[feature];
+}
+
+/**
+ * Listed tiers that include a feature, in catalog order
+ */
+export function getTiersWithFeature(feature: PlanFeature): SubscriptionTier[] {
+  return SUBSCRIPTION_TIERS.filter(
+    (tier) => PLAN_CATALOG[tier].listed && PLAN_CATALOG[tier].features[feature]
+  );
 }
 
-export function getPlanLimits(subscriptionType: string): PlanLimits {
-  return PLAN_LIMITS[subscriptionType] || PLAN_LIMITS.FREE;
+export function getPlanCatalog(): PlanEntitlements[] {
+  return SUBSCRIPTION_TIERS.map((tier) => PLAN_CATALOG[tier]).filter(
+    (plan) => plan.listed
+  );
 }
 
 export function canAccessAIChat(subscriptionType: string): boolean {
-  return subscriptionType === "GOLD" || subscriptionType === "PLATINUM";
+  return hasFeature(subscriptionType, "aiChat");
 }
 
 export function canAccessFullQuestionnaire(subscriptionType: string): boolean {
-  return subscriptionType === "GOLD" || subscriptionType === "PLATINUM";
+  return hasFeature(subscriptionType, "fullQuestionnaire");
 }
 
 export function canReceiveAIRecommendations(subscriptionType: string): boolean {
-  const plan = PLAN_LIMITS[subscriptionType] || PLAN_LIMITS.FREE;
-  return plan.aiRecommendationsPerWeek > 0;
+  return getEntitlements(subscriptionType).quotas.aiRecommendationsPerWeek > 0;
 }
 
-export function canReceiveDailyGoals(subscriptionType: string): boolean {
-  const plan = PLAN_LIMITS[subscriptionType] || PLAN_LIMITS.FREE;
-  return plan.dailyGoalsPerWeek > 0;
+function isScheduledToday(
+  perWeek: number,
+  signupDate: Date,
+  today: Date
+): boolean {
+  if (perWeek === 0) return false;
+  if (perWeek >= 7) return true; // Daily
+
+  // Weekly - check if today matches signup day
+  return today.getDay() === signupDate.getDay();
 }
 
 export function shouldCreateAIRecommendationToday(
@@ -81,15 +197,11 @@ export function shouldCreateAIRecommendationToday(
   signupDate: Date,
   today: Date = new Date()
 ): boolean {
-  const plan = PLAN_LIMITS[subscriptionType] || PLAN_LIMITS.FREE;
-
-  if (plan.aiRecommendationsPerWeek === 0) return false;
-  if (plan.aiRecommendationsPerWeek === 7) return true; // Daily
-
-  // Weekly - check if today matches signup day
-  const signupDayOfWeek = signupDate.getDay();
-  const todayDayOfWeek = today.getDay();
-  return todayDayOfWeek === signupDayOfWeek;
+  return isScheduledToday(
+    getEntitlements(subscriptionType).quotas.aiRecommendationsPerWeek,
+    signupDate,
+    today
+  );
 }
 
 export function shouldCreateDailyGoalToday(
@@ -97,13 +209,13 @@ export function shouldCreateDailyGoalToday(
   signupDate: Date,
   today: Date = new Date()
 ): boolean {
-  const plan = PLAN_LIMITS[subscriptionType] || PLAN_LIMITS.FREE;
-
-  if (plan.dailyGoalsPerWeek === 0) return false;
-  if (plan.dailyGoalsPerWeek === 7) return true; // Daily
+  return isScheduledToday(
+    getEntitlements(subscriptionType).quotas.dailyGoalsPerWeek,
+    signupDate,
+    today
+  );
+}
 
-  // Weekly - check if today matches signup day
-  const signupDayOfWeek = signupDate.getDay();
-  const todayDayOfWeek = today.getDay();
-  return todayDayOfWeek === signupDayOfWeek;
+export function getPlanPricing(subscriptionType: string): PlanPricing | null {
+  return PLAN_CATALOG[subscriptionType as SubscriptionTier]?.pricing || null;
 }
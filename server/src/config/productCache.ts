@@ -0,0 +1,21 @@
+import { ProductSource } from "@prisma/client";
+
+// How long a shared barcode product is trusted before the next scan refetches
+// it from OpenFoodFacts. AI label readings are retried sooner so they get
+// replaced by real database data once it exists; user-submitted products are
+// only changed through reviewed corrections.
+export const PRODUCT_REFRESH_DAYS: Record<ProductSource, number | null> = {
+  OPEN_FOOD_FACTS: parseInt(process.env.PRODUCT_REFRESH_DAYS || "30"),
+  AI_IMAGE_SCAN: 7,
+  USER_SUBMITTED: null,
+};
+
+export function isProductStale(
+  source: ProductSource,
+  fetchedAt: Date,
+  now: Date = new Date()
+): boolean {
+  const days = PRODUCT_REFRESH_DAYS[source];
+  if (days === null) return false;
+  return now.getTime() - fetchedAt.getTime() > days * 24 * 60 * 60 * 1000;
+}
@@ -0,0 +1,26 @@
+// Barcode lookup providers, tried in order until one has the product.
+// Entries: "off:<mirror>" for an OpenFoodFacts mirror below, "csv" for the
+// local product dump at PRODUCT_CSV_PATH, "mock" for the in-memory provider.
+export const PRODUCT_PROVIDER_ORDER = (
+  process.env.PRODUCT_PROVIDERS || "off:world,off:il,csv"
+)
+  .split(",")
+  .map((entry) => entry.trim())
+  .filter(Boolean);
+
+export const OPEN_FOOD_FACTS_MIRRORS: Record<string, string> = {
+  world: "https://world.openfoodfacts.org",
+  il: "https://il.openfoodfacts.org",
+  fr: "https://fr.openfoodfacts.org",
+  us: "https://us.openfoodfacts.org",
+};
+
+export const PRODUCT_CSV_PATH = process.env.PRODUCT_CSV_PATH || null;
+
+export const PRODUCT_PROVIDER_TIMEOUT_MS = parseInt(
+  process.env.PRODUCT_PROVIDER_TIMEOUT_MS || "5000"
+);
+
+// After this many failures in a row a provider is skipped for the cooldown
+export const PROVIDER_FAILURE_THRESHOLD = 3;
+export const PROVIDER_COOLDOWN_MS = 60 * 1000;
@@ -0,0 +1,17 @@
+export const EXPO_PUSH_API_URL = "https://exp.host/--/api/v2/push";
+
+// Expo accepts up to 100 messages per send and 1000 ids per receipt request
+export const PUSH_SEND_BATCH_SIZE = 100;
+export const PUSH_RECEIPT_BATCH_SIZE = 1000;
+
+// Receipts are ready about 15 minutes after sending and kept for a day
+export const PUSH_RECEIPT_DELAY_MINUTES = 15;
+export const PUSH_TICKET_MAX_AGE_HOURS = 24;
+
+// Tokens the app has not re-registered in this long are dropped
+export const PUSH_TOKEN_MAX_IDLE_DAYS = 90;
+
+export const PUSH_REQUEST_TIMEOUT_MS = 15000;
+
+// Meal plan progress (percent of meals completed) that triggers a push
+export const PLAN_PROGRESS_MILESTONES = [25, 50, 75, 100];
@@ -0,0 +1,47 @@
+import { SubscriptionType } from "@prisma/client";
+
+export interface RetentionPolicy {
+  name: string;
+  description: string;
+  enabled: boolean;
+  subscription_types: SubscriptionType[];
+  // Only accounts whose email is (not) verified, when set
+  email_verified?: boolean;
+  // No sign-in or logged meal for this long makes an account a candidate
+  inactive_days: number;
+  // Time between the soft delete and the purge; signing in cancels it
+  grace_days: number;
+  // The warning email goes out this long before the purge
+  warning_days: number;
+}
+
+const envInt = (name: string, fallback: number) =>
+  parseInt(process.env[name] || "") || fallback;
+
+export const RETENTION_POLICIES: RetentionPolicy[] = [
+  {
+    name: "inactive_free",
+    description: "Free accounts with no sign-in or meal for a long time",
+    enabled: process.env.RETENTION_INACTIVE_FREE_ENABLED !== "false",
+    subscription_types: ["FREE"],
+    inactive_days: envInt("RETENTION_INACTIVE_FREE_DAYS", 365),
+    grace_days: envInt("RETENTION_INACTIVE_FREE_GRACE_DAYS", 30),
+    warning_days: 14,
+  },
+  {
+    name: "unverified_signup",
+    description: "Sign-ups that never verified their email",
+    enabled: process.env.RETENTION_UNVERIFIED_ENABLED !== "false",
+    subscription_types: ["FREE"],
+    email_verified: false,
+    inactive_days: envInt("RETENTION_UNVERIFIED_DAYS", 30),
+    grace_days: envInt("RETENTION_UNVERIFIED_GRACE_DAYS", 7),
+    warning_days: 7,
+  },
+];
+
+// Nothing is changed, emailed or deleted unless dry run is turned off
+export const RETENTION_DRY_RUN = process.env.RETENTION_DRY_RUN !== "false";
+
+// Accounts handled per policy in one run
+export const RETENTION_BATCH_SIZE = 200;
@@ -0,0 +1,57 @@
+import crypto from "crypto";
+
+// Keys for encrypting stored secrets (device OAuth tokens, push tokens, ...).
+// SECRETS_KEYS lists "<version>:<base64 32-byte key>" pairs, e.g.
+// "2:q8N...=,1:Zk3...=". New values are encrypted with SECRETS_ACTIVE_KEY,
+// or the highest version; older versions are kept only to decrypt and are
+// re-encrypted on read. Generate a key with:
+//   node -e "console.log(require('crypto').randomBytes(32).toString('base64'))"
+const parseKeys = (value: string): Map<number, Buffer> => {
+  const keys = new Map<number, Buffer>();
+
+  for (const entry of value.split(",").map((part) => part.trim())) {
+    if (!entry) continue;
+    const separator = entry.indexOf(":");
+    const version = parseInt(entry.slice(0, separator));
+    const key = Buffer.from(entry.slice(separator + 1), "base64");
+
+    if (separator < 1 || !Number.isInteger(version) || version < 1) {
+      throw new Error(`Invalid SECRETS_KEYS entry "${entry.slice(0, 8)}..."`);
+    }
+    if (key.length !== 32) {
+      throw new Error(`SECRETS_KEYS key ${version} must be 32 bytes`);
+    }
+    keys.set(version, key);
+  }
+
+  return keys;
+};
+
+export const SECRET_KEYS = parseKeys(process.env.SECRETS_KEYS || "");
+
+// Without configured keys, development uses a key derived from JWT_SECRET
+// as version 0 so device connections keep working locally
+if (SECRET_KEYS.size === 0 && process.env.NODE_ENV !== "production") {
+  SECRET_KEYS.set(
+    0,
+    crypto
+      .createHash("sha256")
+      .update(`secrets:${process.env.JWT_SECRET || "development"}`)
+      .digest()
+  );
+}
+
+if (SECRET_KEYS.size === 0) {
+  throw new Error("SECRETS_KEYS must be set in production");
+}
+
+export const ACTIVE_SECRET_KEY_VERSION = process.env.SECRETS_ACTIVE_KEY
+  ? parseInt(process.env.SECRETS_ACTIVE_KEY)
+  : Math.max(...SECRET_KEYS.keys());
+
+// Fail at startup rather than on the first write with a key we do not have
+if (!SECRET_KEYS.has(ACTIVE_SECRET_KEY_VERSION)) {
+  throw new Error(
+    `SECRETS_ACTIVE_KEY ${process.env.SECRETS_ACTIVE_KEY} is not in SECRETS_KEYS`
+  );
+}
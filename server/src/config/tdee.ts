@@ -0,0 +1,19 @@
+// Windows tried for the adaptive estimate, longest first; the first with
+// enough logged days and weigh-ins is used
+export const TDEE_WINDOWS_DAYS = [28, 21, 14];
+
+// Share of the window's days that must be logged, and how many calories
+// make a day count as logged rather than partly logged
+export const MIN_LOGGED_DAYS_SHARE = 0.6;
+export const MIN_LOGGED_DAY_CALORIES = 800;
+
+export const MIN_WEIGH_INS = 3;
+
+// Energy in one kg of body weight change
+export const KCAL_PER_KG = 7700;
+
+// Wearables tend to overestimate expenditure, so they only nudge the estimate
+export const DEVICE_EXPENDITURE_WEIGHT = 0.25;
+
+// Daily goals only switch to the adaptive estimate at this confidence
+export const MIN_CONFIDENCE_FOR_GOALS = 0.5;
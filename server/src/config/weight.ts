@@ -0,0 +1,10 @@
+// Share of each day's gap to the new weigh-in the trend line moves, so daily
+// water swings barely shift it (exponential moving average per day)
+export const WEIGHT_TREND_SMOOTHING = 0.1;
+
+// Days of trend used to measure the current rate of change
+export const WEIGHT_RATE_WINDOW_DAYS = 28;
+
+// A trend this far from the weight goals were calculated with recalculates
+// today's daily goal
+export const GOAL_RECALC_THRESHOLD_KG = 1.5;
@@ -0,0 +1,5 @@
+// Points needed for each level; level = floor(total_points / XP_PER_LEVEL) + 1
+export const XP_PER_LEVEL = 100;
+
+// Users compared against the ledger per query by the reconciliation job
+export const XP_RECONCILE_BATCH_SIZE = 500;
@@ -19,6 +19,7 @@ import { calendarRoutes } from "./routes/calendar";
 import statisticsRoutes from "./routes/statistics";
 import foodScannerRoutes from "./routes/foodScanner";
 import { EnhancedCronJobService } from "./services/cron/enhanced";
+import { getPaymentProvider } from "./services/payments";
 import { enhancedDailyGoalsRoutes } from "./routes/enhanced/dailyGoals";
 import { enhancedRecommendationsRoutes } from "./routes/enhanced/recommendations";
 import { enhancedDatabaseRoutes } from "./routes/enhanced/database";
@@ -32,6 +33,12 @@ import enhancedMenuRouter from "./routes/enhancedMenu";
 import adminRoutes from "./routes/admin";
 import { promoteAdminRoutes } from "./routes/promote-admin";
 import dashboardRoutes from "./routes/dashboard";
+import { paymentRoutes, RawBodyRequest } from "./routes/payments";
+import { recipeRoutes } from "./routes/recipes";
+import { weightRoutes } from "./routes/weight";
+import { tdeeRoutes } from "./routes/tdee";
+import { hydrationRoutes } from "./routes/hydration";
+import { challengeRoutes } from "./routes/challenges";
 import { prisma, connectDatabase } from "./lib/database";
 
 // Load environment variables first
@@ -121,7 +128,17 @@ app.use(
 );
 
 app.use(cookieParser());
-app.use(express.json({ limit: "10mb" }));
+app.use(
+  express.json({
+    limit: "10mb",
+    // Payment webhooks are verified against the exact bytes that were signed
+    verify: (req, _res, buf) => {
+      if (req.url?.startsWith("/api/payments/webhook")) {
+        (req as RawBodyRequest).rawBody = buf;
+      }
+    },
+  })
+);
 app.use(express.urlencoded({ extended: true, limit: "10mb" }));
 
 // Cached database health check
@@ -196,6 +213,12 @@ apiRouter.use("/meal-plans", mealPlansRoutes);
 apiRouter.use("/chat", chatRoutes);
 apiRouter.use("/food-scanner", foodScannerRoutes);
 apiRouter.use("/shopping-lists", shoppingListRoutes);
+apiRouter.use("/payments", paymentRoutes);
+apiRouter.use("/recipes", recipeRoutes);
+apiRouter.use("/weight", weightRoutes);
+apiRouter.use("/tdee", tdeeRoutes);
+apiRouter.use("/hydration", hydrationRoutes);
+apiRouter.use("/challenges", challengeRoutes);
 apiRouter.use("/", statisticsRoutes);
 apiRouter.use("/daily-goals", enhancedDailyGoalsRoutes);
 apiRouter.use("/recommendations", enhancedRecommendationsRoutes);
@@ -306,6 +329,9 @@ const gracefulShutdown = (signal: string) => {
 // ✅ CORRECTED: startServer function in the right place
 async function startServer() {
   try {
+    // Fail fast on a missing payment configuration
+    getPaymentProvider();
+
     // Connect to database FIRST
     await connectDatabase();
 
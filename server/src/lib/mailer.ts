@@ -0,0 +1,50 @@
+const nodemailer = require("nodemailer");
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+/**
+ * Escape user-provided text (names, ...) before putting it in an email body
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+/**
+ * Send a transactional email through the Gmail account in EMAIL_USER.
+ * Throws when email is not configured so callers can retry later.
+ */
+export async function sendEmail(message: EmailMessage) {
+  if (!process.env.EMAIL_USER || !process.env.EMAIL_PASSWORD) {
+    throw new Error("Email service not configured");
+  }
+
+  const transporter = nodemailer.createTransport({
+    service: "gmail",
+    host: "smtp.gmail.com",
+    port: 587,
+    secure: false,
+    auth: {
+      user: process.env.EMAIL_USER,
+      pass: process.env.EMAIL_PASSWORD,
+    },
+  });
+
+  const result = await transporter.sendMail({
+    from: `"Calo Fitness & Diet" <${process.env.EMAIL_USER}>`,
+    ...message,
+  });
+  console.log(`📧 "${message.subject}" sent to ${message.to}`);
+  return result;
+}
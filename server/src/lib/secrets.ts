@@ -0,0 +1,84 @@
+import crypto from "crypto";
+import { ACTIVE_SECRET_KEY_VERSION, SECRET_KEYS } from "../config/secrets";
+
+// Stored as "v<key version>:<iv>:<auth tag>:<ciphertext>", base64url parts.
+// Values written before encryption was added are plain base64.
+const ENCRYPTED_FORMAT = /^v(\d+):([\w-]+):([\w-]+):([\w-]*)$/;
+const IV_BYTES = 12;
+
+const getKey = (version: number): Buffer => {
+  const key = SECRET_KEYS.get(version);
+  if (!key) {
+    throw new Error(`Secret key version ${version} is not configured`);
+  }
+  return key;
+};
+
+/**
+ * Encrypt a secret with AES-256-GCM under the active key. The context (e.g.
+ * "connected_devices.refresh_token") is authenticated, so a value copied to
+ * another column or record type fails to decrypt.
+ */
+export function encryptSecret(plaintext: string, context: string): string {
+  const version = ACTIVE_SECRET_KEY_VERSION;
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv("aes-256-gcm", getKey(version), iv);
+  cipher.setAAD(Buffer.from(context));
+
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, "utf8"),
+    cipher.final(),
+  ]);
+
+  return [
+    `v${version}`,
+    iv.toString("base64url"),
+    cipher.getAuthTag().toString("base64url"),
+    ciphertext.toString("base64url"),
+  ].join(":");
+}
+
+export function decryptSecret(stored: string, context: string): string {
+  const match = stored.match(ENCRYPTED_FORMAT);
+  if (!match) {
+    // Legacy base64 value
+    return Buffer.from(stored, "base64").toString("utf8");
+  }
+
+  const [, version, iv, tag, ciphertext] = match;
+  const decipher = crypto.createDecipheriv(
+    "aes-256-gcm",
+    getKey(parseInt(version)),
+    Buffer.from(iv, "base64url")
+  );
+  decipher.setAAD(Buffer.from(context));
+  decipher.setAuthTag(Buffer.from(tag, "base64url"));
+
+  try {
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, "base64url")),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch {
+    throw new Error(`Secret failed authentication (key version ${version})`);
+  }
+}
+
+/**
+ * Whether a stored value is legacy or under a key other than the active one
+ */
+export function needsReencryption(stored: string): boolean {
+  const match = stored.match(ENCRYPTED_FORMAT);
+  return !match || parseInt(match[1]) !== ACTIVE_SECRET_KEY_VERSION;
+}
+
+/**
+ * The value re-encrypted under the active key, or null when it already is
+ */
+export function reencryptSecret(
+  stored: string,
+  context: string
+): string | null {
+  if (!needsReencryption(stored)) return null;
+  return encryptSecret(decryptSecret(stored, context), context);
+}
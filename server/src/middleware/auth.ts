@@ -1,8 +1,16 @@
 import { Request, Response, NextFunction } from "express";
 import { AuthService } from "../services/auth";
+import {
+  getEntitlements,
+  getTiersWithFeature,
+  hasFeature,
+  PlanFeature,
+} from "../config/planLimits";
 
 export interface AuthRequest extends Request {
   user?: any;
+  // Session the access token belongs to, set by authenticateToken
+  sessionId?: string;
 }
 
 // Token extraction helper (DRY principle)
@@ -36,9 +44,10 @@ export async function authenticateToken(
       });
     }
 
-    // Verify token (this should ideally be cached with short TTL)
-    const user = await AuthService.verifyToken(token);
-    req.user = user;
+    // Sessions are cached for a few seconds (AUTH_CACHE_TTL_MS)
+    const session = await AuthService.verifyToken(token);
+    req.user = session.user;
+    req.sessionId = session.session_id;
     next();
   } catch (error: any) {
     // Database connection errors get special handling
@@ -139,3 +148,33 @@ export const requireSuperAdmin = async (
     });
   }
 };
+
+// Entitlement gate for routes: requireFeature("aiChat"). Must run after
+// authenticateToken so req.user carries the subscription type.
+export const requireFeature =
+  (feature: PlanFeature) =>
+  (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: "Authentication required",
+      });
+    }
+
+    if (hasFeature(req.user.subscription_type, feature)) {
+      return next();
+    }
+
+    const plan = getEntitlements(req.user.subscription_type);
+    const upgradeTo = getTiersWithFeature(feature);
+
+    res.status(403).json({
+      success: false,
+      error: `This feature is not available on the ${plan.name}. Please upgrade to ${upgradeTo
+        .map((tier) => getEntitlements(tier).name)
+        .join(" or ")}.`,
+      subscriptionRequired: true,
+      feature,
+      upgradeTo,
+    });
+  };
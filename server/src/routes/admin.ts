@@ -2,6 +2,23 @@
 import { Router, Response } from "express";
 import { authenticateToken, requireAdmin, requireSuperAdmin, AuthRequest } from "../middleware/auth";
 import { prisma } from "../lib/database";
+import { ProductCorrectionService } from "../services/productCorrections";
+import { getProviderMetrics } from "../services/productProviders";
+import { RetentionService } from "../services/retention";
+import { ChallengeService } from "../services/challenges";
+import { XpService } from "../services/xp";
+import { SubscriptionService, isPaidPlan } from "../services/subscriptions";
+import { SessionService } from "../services/sessions";
+import {
+  correctionReviewSchema,
+  createChallengeSchema,
+  retentionAuditQuerySchema,
+  retentionRunSchema,
+  updateChallengeSchema,
+  xpAdjustmentSchema,
+  xpHistoryQuerySchema,
+} from "../types";
+import { CorrectionStatus } from "@prisma/client";
 
 const router = Router();
 
@@ -218,8 +235,7 @@ router.delete("/users/:userId", requireSuperAdmin, async (req: AuthRequest, res:
       });
     }
 
-    const { UserCleanupService } = await import("../services/userCleanup");
-    await UserCleanupService.deleteUserCompletely(userId);
+    await RetentionService.deleteUserByAdmin(userId, req.user!.user_id);
     
     console.log(`🗑️ User ${userId} deleted by admin ${req.user?.email}`);
     
@@ -229,6 +245,9 @@ router.delete("/users/:userId", requireSuperAdmin, async (req: AuthRequest, res:
     });
   } catch (error) {
     console.error("Admin delete user error:", error);
+    if (error instanceof Error && error.message.includes("not found")) {
+      return res.status(404).json({ success: false, error: error.message });
+    }
     res.status(500).json({ success: false, error: "Failed to delete user" });
   }
 });
@@ -237,25 +256,29 @@ router.delete("/users/:userId", requireSuperAdmin, async (req: AuthRequest, res:
 router.patch("/users/:userId/subscription", requireSuperAdmin, async (req: AuthRequest, res: Response) => {
   try {
     const { userId } = req.params;
-    const { subscription_type } = req.body;
+    const { subscription_type, subscription_end } = req.body;
 
-    const validTypes = ["FREE", "GOLD", "PREMIUM", "ADMIN"];
-    if (!validTypes.includes(subscription_type)) {
+    // ADMIN is a staff tier, not a plan that can be granted here
+    if (typeof subscription_type !== "string" || (subscription_type !== "FREE" && !isPaidPlan(subscription_type))) {
       return res.status(400).json({
         success: false,
-        error: "Invalid subscription type"
+        error: "subscription_type must be FREE, GOLD or PREMIUM"
       });
     }
 
-    const updatedUser = await prisma.user.update({
-      where: { user_id: userId },
-      data: { subscription_type },
-      select: {
-        user_id: true,
-        email: true,
-        subscription_type: true,
-      }
-    });
+    // Paid plans always end; without a date the grant runs one billing period
+    const endDate = subscription_end ? new Date(subscription_end) : undefined;
+    if (endDate && (isNaN(endDate.getTime()) || endDate <= new Date())) {
+      return res.status(400).json({
+        success: false,
+        error: "subscription_end must be a future date"
+      });
+    }
+
+    const plan = subscription_type === "FREE"
+      ? await SubscriptionService.downgradeToFree(userId)
+      : await SubscriptionService.grantPlan(userId, subscription_type, endDate);
+    const updatedUser = { user_id: userId, ...plan };
 
     console.log(`✅ User ${userId} subscription updated to ${subscription_type} by ${req.user?.email}`);
 
@@ -369,6 +392,8 @@ router.patch("/users/:userId/promote-admin", requireSuperAdmin, async (req: Auth
       }
     });
 
+    // Roles gate access, so drop the cached sessions right away
+    SessionService.evictUser(userId);
     console.log(`✅ User ${userId} admin status updated by ${req.user?.email}`);
 
     res.json({
@@ -381,4 +406,317 @@ router.patch("/users/:userId/promote-admin", requireSuperAdmin, async (req: Auth
   }
 });
 
+// List product corrections waiting for review (Admin access)
+router.get("/product-corrections", async (req: AuthRequest, res: Response) => {
+  try {
+    const status = ((req.query.status as string) || "PENDING").toUpperCase() as CorrectionStatus;
+    if (!Object.values(CorrectionStatus).includes(status)) {
+      return res.status(400).json({ success: false, error: "Invalid correction status" });
+    }
+    const limit = parseInt(req.query.limit as string) || 50;
+
+    const corrections = await ProductCorrectionService.listCorrections(status, limit);
+
+    res.json({ success: true, data: corrections });
+  } catch (error) {
+    console.error("Admin product corrections error:", error);
+    res.status(500).json({ success: false, error: "Failed to fetch product corrections" });
+  }
+});
+
+const reviewErrorStatus = (error: unknown) => {
+  const message = error instanceof Error ? error.message : "";
+  if (message.includes("not found")) return 404;
+  if (message.includes("already reviewed")) return 409;
+  return 500;
+};
+
+// Approve a correction into the shared product (Admin access)
+router.post("/product-corrections/:id/approve", async (req: AuthRequest, res: Response) => {
+  try {
+    const validationResult = correctionReviewSchema.safeParse(req.body || {});
+    if (!validationResult.success) {
+      return res.status(400).json({ success: false, error: "Invalid review", details: validationResult.error.errors });
+    }
+
+    const result = await ProductCorrectionService.approveCorrection(
+      parseInt(req.params.id),
+      req.user!.user_id,
+      validationResult.data.review_note
+    );
+
+    console.log(`✅ Product correction ${req.params.id} approved by ${req.user?.email}`);
+
+    res.json({ success: true, data: result });
+  } catch (error) {
+    console.error("Approve product correction error:", error);
+    res.status(reviewErrorStatus(error)).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to approve correction"
+    });
+  }
+});
+
+// Reject a correction (Admin access)
+router.post("/product-corrections/:id/reject", async (req: AuthRequest, res: Response) => {
+  try {
+    const validationResult = correctionReviewSchema.safeParse(req.body || {});
+    if (!validationResult.success) {
+      return res.status(400).json({ success: false, error: "Invalid review", details: validationResult.error.errors });
+    }
+
+    const correction = await ProductCorrectionService.rejectCorrection(
+      parseInt(req.params.id),
+      req.user!.user_id,
+      validationResult.data.review_note
+    );
+
+    console.log(`🚫 Product correction ${req.params.id} rejected by ${req.user?.email}`);
+
+    res.json({ success: true, data: correction });
+  } catch (error) {
+    console.error("Reject product correction error:", error);
+    res.status(reviewErrorStatus(error)).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to reject correction"
+    });
+  }
+});
+
+// Force a refetch of a cached product from its source (Admin access)
+router.post("/products/:barcode/refresh", async (req: AuthRequest, res: Response) => {
+  try {
+    const product = await ProductCorrectionService.refreshProduct(req.params.barcode);
+
+    res.json({ success: true, data: product });
+  } catch (error) {
+    console.error("Refresh product error:", error);
+    res.status(reviewErrorStatus(error)).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to refresh product"
+    });
+  }
+});
+
+// Product lookup provider health and latency (Admin access)
+router.get("/product-providers", async (req: AuthRequest, res: Response) => {
+  try {
+    res.json({ success: true, data: getProviderMetrics() });
+  } catch (error) {
+    console.error("Product provider metrics error:", error);
+    res.status(500).json({ success: false, error: "Failed to fetch provider metrics" });
+  }
+});
+
+// Accounts soft-deleted by a retention policy, soonest purge first (Admin access)
+router.get("/retention/pending", async (req: AuthRequest, res: Response) => {
+  try {
+    const pending = await RetentionService.getPendingDeletions();
+
+    res.json({ success: true, data: pending });
+  } catch (error) {
+    console.error("Pending deletions error:", error);
+    res.status(500).json({ success: false, error: "Failed to fetch pending deletions" });
+  }
+});
+
+// Cancel a pending deletion (Admin access)
+router.post("/retention/:userId/cancel", async (req: AuthRequest, res: Response) => {
+  try {
+    const restored = await RetentionService.restoreUser(req.params.userId, req.user!.user_id);
+    if (!restored) {
+      return res.status(409).json({ success: false, error: "No deletion is pending for this user" });
+    }
+
+    console.log(`♻️ Deletion of ${req.params.userId} cancelled by ${req.user?.email}`);
+
+    res.json({ success: true, message: "Pending deletion cancelled" });
+  } catch (error) {
+    console.error("Cancel deletion error:", error);
+    const message = error instanceof Error ? error.message : "";
+    res.status(message.includes("not found") ? 404 : 500).json({
+      success: false,
+      error: message || "Failed to cancel deletion"
+    });
+  }
+});
+
+// Run the retention policies now; only super admins can run them for real
+router.post("/retention/run", async (req: AuthRequest, res: Response) => {
+  try {
+    const validationResult = retentionRunSchema.safeParse(req.body || {});
+    if (!validationResult.success) {
+      return res.status(400).json({ success: false, error: "Invalid retention run", details: validationResult.error.errors });
+    }
+
+    const dryRun = validationResult.data.dry_run ?? true;
+    if (!dryRun && !req.user?.is_super_admin) {
+      return res.status(403).json({ success: false, error: "Super admin access required" });
+    }
+
+    const result = await RetentionService.runPolicies(dryRun, req.user!.user_id);
+
+    console.log(`🧹 Retention run${dryRun ? " (dry run)" : ""} by ${req.user?.email}`);
+
+    res.json({ success: true, data: result });
+  } catch (error) {
+    console.error("Retention run error:", error);
+    res.status(500).json({ success: false, error: "Failed to run retention policies" });
+  }
+});
+
+// Audit log of scheduled, warned, restored and deleted accounts (Admin access)
+router.get("/retention/audit", async (req: AuthRequest, res: Response) => {
+  try {
+    const validationResult = retentionAuditQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({ success: false, error: "Invalid audit query", details: validationResult.error.errors });
+    }
+
+    const entries = await RetentionService.getAuditLog(validationResult.data);
+
+    res.json({ success: true, data: entries });
+  } catch (error) {
+    console.error("Retention audit error:", error);
+    res.status(500).json({ success: false, error: "Failed to fetch audit log" });
+  }
+});
+
+const challengeErrorStatus = (message: string) =>
+  message.includes("not found") ? 404 : message.includes("Invalid") ? 400 : message.includes("already") ? 409 : 500;
+
+// All challenges, drafts included (Admin access)
+router.get("/challenges", async (req: AuthRequest, res: Response) => {
+  try {
+    const challenges = await ChallengeService.listAllChallenges();
+
+    res.json({ success: true, data: challenges });
+  } catch (error) {
+    console.error("Admin challenges error:", error);
+    res.status(500).json({ success: false, error: "Failed to fetch challenges" });
+  }
+});
+
+// Create a challenge; it is visible to users once published (Admin access)
+router.post("/challenges", async (req: AuthRequest, res: Response) => {
+  try {
+    const validationResult = createChallengeSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ success: false, error: "Invalid challenge", details: validationResult.error.errors });
+    }
+
+    const challenge = await ChallengeService.createChallenge(validationResult.data, req.user!.user_id);
+
+    console.log(`🏁 Challenge ${challenge.challenge_id} created by ${req.user?.email}`);
+
+    res.status(201).json({ success: true, data: challenge });
+  } catch (error) {
+    console.error("Create challenge error:", error);
+    const message = error instanceof Error ? error.message : "";
+    res.status(challengeErrorStatus(message)).json({
+      success: false,
+      error: message || "Failed to create challenge"
+    });
+  }
+});
+
+// Edit, reschedule or publish a challenge (Admin access)
+router.patch("/challenges/:challengeId", async (req: AuthRequest, res: Response) => {
+  try {
+    const validationResult = updateChallengeSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ success: false, error: "Invalid challenge", details: validationResult.error.errors });
+    }
+
+    const challenge = await ChallengeService.updateChallenge(req.params.challengeId, validationResult.data);
+
+    console.log(`🏁 Challenge ${challenge.challenge_id} updated by ${req.user?.email}`);
+
+    res.json({ success: true, data: challenge });
+  } catch (error) {
+    console.error("Update challenge error:", error);
+    const message = error instanceof Error ? error.message : "";
+    res.status(challengeErrorStatus(message)).json({
+      success: false,
+      error: message || "Failed to update challenge"
+    });
+  }
+});
+
+// Delete a challenge with its participants (Admin access)
+router.delete("/challenges/:challengeId", async (req: AuthRequest, res: Response) => {
+  try {
+    await ChallengeService.deleteChallenge(req.params.challengeId);
+
+    console.log(`🗑️ Challenge ${req.params.challengeId} deleted by ${req.user?.email}`);
+
+    res.json({ success: true, message: "Challenge deleted" });
+  } catch (error) {
+    console.error("Delete challenge error:", error);
+    const message = error instanceof Error ? error.message : "";
+    res.status(challengeErrorStatus(message)).json({
+      success: false,
+      error: message || "Failed to delete challenge"
+    });
+  }
+});
+
+// A user's XP ledger (Admin access)
+router.get("/users/:userId/xp-history", async (req: AuthRequest, res: Response) => {
+  try {
+    const validationResult = xpHistoryQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({ success: false, error: "Invalid XP history query", details: validationResult.error.errors });
+    }
+
+    const history = await XpService.getHistory(req.params.userId, validationResult.data);
+
+    res.json({ success: true, data: history });
+  } catch (error) {
+    console.error("Admin XP history error:", error);
+    const message = error instanceof Error ? error.message : "";
+    res.status(message.includes("not found") ? 404 : 500).json({
+      success: false,
+      error: message || "Failed to fetch XP history"
+    });
+  }
+});
+
+// Correct a user's XP with a ledger entry, e.g. to reverse a double award (Super admin only)
+router.post("/users/:userId/xp-adjustments", requireSuperAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const validationResult = xpAdjustmentSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ success: false, error: "Invalid XP adjustment", details: validationResult.error.errors });
+    }
+
+    const result = await XpService.adjust(req.params.userId, validationResult.data, req.user!.user_id);
+
+    console.log(`🧮 XP adjusted for ${req.params.userId} by ${req.user?.email}: ${validationResult.data.amount}`);
+
+    res.status(result.awarded ? 201 : 200).json({ success: true, data: result });
+  } catch (error) {
+    console.error("XP adjustment error:", error);
+    const message = error instanceof Error ? error.message : "";
+    res.status(message.includes("not found") ? 404 : 500).json({
+      success: false,
+      error: message || "Failed to adjust XP"
+    });
+  }
+});
+
+// Rebuild every user's level and points from the ledger now (Super admin only)
+router.post("/xp/reconcile", requireSuperAdmin, async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await XpService.reconcileAll();
+
+    console.log(`🧮 XP reconciled by ${req.user?.email}: ${result.corrected.length} corrected`);
+
+    res.json({ success: true, data: result });
+  } catch (error) {
+    console.error("XP reconcile error:", error);
+    res.status(500).json({ success: false, error: "Failed to reconcile XP" });
+  }
+});
+
 export default router;
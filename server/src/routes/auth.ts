@@ -1,12 +1,50 @@
-import { Router } from "express";
+import { Router, Request, Response } from "express";
 import crypto from "crypto";
 import { AuthService } from "../services/auth";
+import { SessionService } from "../services/sessions";
 import { signUpSchema, signInSchema } from "../types/auth";
+import { AuthTokens, SessionMetadata } from "../types/sessions";
+import { REFRESH_COOKIE_PATH } from "../config/auth";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
 import { prisma } from "../lib/database";
 
 const router = Router();
 
+const isWebClient = (req: Request) =>
+  req.headers.origin?.includes("localhost:19006") ||
+  req.headers.origin?.includes("localhost:8081") ||
+  req.headers["user-agent"]?.includes("Mozilla");
+
+// Secure HTTP-only cookies for web clients
+const setAuthCookies = (res: Response, tokens: AuthTokens) => {
+  res.cookie("auth_token", tokens.token, AuthService.getCookieOptions());
+  res.cookie(
+    "refresh_token",
+    tokens.refresh_token,
+    AuthService.getRefreshCookieOptions()
+  );
+};
+
+const clearAuthCookies = (res: Response) => {
+  const options = {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax" as const,
+  };
+  res.clearCookie("auth_token", { ...options, path: "/" });
+  res.clearCookie("refresh_token", { ...options, path: REFRESH_COOKIE_PATH });
+};
+
+// Shown in the session list; the app sends its device name
+const sessionMetadata = (req: Request): SessionMetadata => ({
+  device_name:
+    typeof req.body?.device_name === "string"
+      ? req.body.device_name.slice(0, 100)
+      : null,
+  ip_address: req.ip || null,
+  user_agent: req.headers["user-agent"]?.slice(0, 500) || null,
+});
+
 router.post("/signup", async (req, res, next) => {
   try {
     console.log("🔄 Processing signup request...");
@@ -70,17 +108,14 @@ router.post("/verify-email", async (req, res, next) => {
     }
 
     console.log(`🔒 Verifying code ${code} for email: ${email}`);
-    const result = await AuthService.verifyEmail(email, code);
-
-    // Set secure HTTP-only cookie for web clients
-    const isWebClient =
-      req.headers.origin?.includes("localhost:19006") ||
-      req.headers.origin?.includes("localhost:8081") ||
-      req.headers["user-agent"]?.includes("Mozilla");
+    const result = await AuthService.verifyEmail(
+      email,
+      code,
+      sessionMetadata(req)
+    );
 
-    if (isWebClient) {
-      const cookieOptions = AuthService.getCookieOptions();
-      res.cookie("auth_token", result.token, cookieOptions);
+    if (isWebClient(req)) {
+      setAuthCookies(res, result);
       console.log("🍪 Cookie set for web client");
     }
 
@@ -91,6 +126,8 @@ router.post("/verify-email", async (req, res, next) => {
       success: true,
       user: result.user,
       token: result.token,
+      refresh_token: result.refresh_token,
+      expires_in: result.expires_in,
       message: "Email verified successfully",
     });
   } catch (error) {
@@ -182,17 +219,13 @@ router.post("/signin", async (req, res, next) => {
     console.log("🔍 User-Agent:", req.headers["user-agent"]);
 
     const validatedData = signInSchema.parse(req.body);
-    const result = await AuthService.signIn(validatedData);
-
-    // Set secure HTTP-only cookie for web clients
-    const isWebClient =
-      req.headers.origin?.includes("localhost:19006") ||
-      req.headers.origin?.includes("localhost:8081") ||
-      req.headers["user-agent"]?.includes("Mozilla");
+    const result = await AuthService.signIn(
+      validatedData,
+      sessionMetadata(req)
+    );
 
-    if (isWebClient) {
-      const cookieOptions = AuthService.getCookieOptions();
-      res.cookie("auth_token", result.token, cookieOptions);
+    if (isWebClient(req)) {
+      setAuthCookies(res, result);
       console.log("🍪 Cookie set for web client");
     } else {
       console.log(
@@ -241,6 +274,8 @@ router.post("/signin", async (req, res, next) => {
       success: true,
       user: userData,
       token: result.token, // Always send token for mobile compatibility
+      refresh_token: result.refresh_token,
+      expires_in: result.expires_in,
     });
   } catch (error) {
     console.error("💥 Signin error:", error);
@@ -255,41 +290,95 @@ router.post("/signin", async (req, res, next) => {
   }
 });
 
-router.get("/me", authenticateToken, async (req: AuthRequest, res) => {
+// Rotate the refresh token (body for mobile, cookie for web) for a new pair
+router.post("/refresh", async (req, res) => {
   try {
-    // Get questionnaire data for meals_per_day
-    const questionnaire = await prisma.userQuestionnaire.findFirst({
-      where: { user_id: req.user.user_id },
-      select: { meals_per_day: true },
+    const refreshToken =
+      (typeof req.body?.refresh_token === "string" && req.body.refresh_token) ||
+      req.cookies.refresh_token;
+
+    if (!refreshToken) {
+      return res.status(400).json({
+        success: false,
+        error: "Refresh token is required",
+      });
+    }
+
+    const tokens = await SessionService.refreshSession(
+      refreshToken,
+      sessionMetadata(req)
+    );
+
+    if (isWebClient(req)) {
+      setAuthCookies(res, tokens);
+    }
+
+    res.json({
+      success: true,
+      ...tokens,
     });
+  } catch (error) {
+    console.error("💥 Token refresh error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to refresh session";
+    const isAuthError = message.includes("Refresh token");
+    if (isAuthError) {
+      clearAuthCookies(res);
+    }
+    res.status(isAuthError ? 401 : 500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+router.get("/me", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    // req.user may be cached; the app reads flags like
+    // is_questionnaire_completed here right after changing them
+    const [user, questionnaire] = await Promise.all([
+      AuthService.getUser(req.user.user_id),
+      // Get questionnaire data for meals_per_day
+      prisma.userQuestionnaire.findFirst({
+        where: { user_id: req.user.user_id },
+        select: { meals_per_day: true },
+      }),
+    ]);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: "User not found",
+      });
+    }
 
     const userData = {
-      user_id: req.user.user_id,
-      name: req.user.name,
-      email: req.user.email,
-      email_verified: req.user.email_verified,
-      subscription_type: req.user.subscription_type,
-      is_questionnaire_completed: req.user.is_questionnaire_completed,
-      avatar_url: req.user.avatar_url,
+      user_id: user.user_id,
+      name: user.name,
+      email: user.email,
+      email_verified: user.email_verified,
+      subscription_type: user.subscription_type,
+      is_questionnaire_completed: user.is_questionnaire_completed,
+      avatar_url: user.avatar_url,
       meals_per_day: questionnaire?.meals_per_day || 3,
-      created_at: req.user.created_at,
-      is_admin: req.user.is_admin,
-      is_super_admin: req.user.is_super_admin,
-      level: req.user.level,
-      total_points: req.user.total_points,
-      current_xp: req.user.current_xp,
-      current_streak: req.user.current_streak,
-      best_streak: req.user.best_streak,
-      total_complete_days: req.user.total_complete_days,
-      last_complete_date: req.user.last_complete_date,
-      active_meal_plan_id: req.user.active_meal_plan_id,
-      active_menu_id: req.user.active_menu_id,
-      birth_date: req.user.birth_date,
-      signup_date: req.user.signup_date,
-      subscription_start: req.user.subscription_start,
-      subscription_end: req.user.subscription_end,
-      ai_requests_count: req.user.ai_requests_count,
-      ai_requests_reset_at: req.user.ai_requests_reset_at,
+      created_at: user.created_at,
+      is_admin: user.is_admin,
+      is_super_admin: user.is_super_admin,
+      level: user.level,
+      total_points: user.total_points,
+      current_xp: user.current_xp,
+      current_streak: user.current_streak,
+      best_streak: user.best_streak,
+      total_complete_days: user.total_complete_days,
+      last_complete_date: user.last_complete_date,
+      active_meal_plan_id: user.active_meal_plan_id,
+      active_menu_id: user.active_menu_id,
+      birth_date: user.birth_date,
+      signup_date: user.signup_date,
+      subscription_start: user.subscription_start,
+      subscription_end: user.subscription_end,
+      ai_requests_count: user.ai_requests_count,
+      ai_requests_reset_at: user.ai_requests_reset_at,
     };
 
     res.json({
@@ -310,21 +399,11 @@ router.post(
   authenticateToken,
   async (req: AuthRequest, res, next) => {
     try {
-      // Get token from cookie or header
-      const token =
-        req.cookies.auth_token || req.headers.authorization?.substring(7);
-
-      if (token) {
-        await AuthService.signOut(token);
+      if (req.sessionId) {
+        await AuthService.signOut(req.sessionId);
       }
 
-      // Clear the cookie
-      res.clearCookie("auth_token", {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === "production",
-        sameSite: "lax",
-        path: "/",
-      });
+      clearAuthCookies(res);
 
       console.log("✅ Signout successful, cookie cleared");
 
@@ -338,6 +417,79 @@ router.post(
   }
 );
 
+// Signed-in devices, most recently used first
+router.get("/sessions", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const sessions = await SessionService.listSessions(
+      req.user.user_id,
+      req.sessionId
+    );
+
+    res.json({
+      success: true,
+      data: sessions,
+    });
+  } catch (error) {
+    console.error("💥 Get sessions error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to get sessions",
+    });
+  }
+});
+
+// Log out other devices
+router.delete("/sessions", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const revoked = await SessionService.revokeOtherSessions(
+      req.user.user_id,
+      req.sessionId!
+    );
+
+    res.json({
+      success: true,
+      data: { revoked },
+      message: "Signed out of other devices",
+    });
+  } catch (error) {
+    console.error("💥 Revoke sessions error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to sign out other devices",
+    });
+  }
+});
+
+router.delete(
+  "/sessions/:sessionId",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      await SessionService.revokeSession(
+        req.user.user_id,
+        req.params.sessionId
+      );
+
+      if (req.params.sessionId === req.sessionId) {
+        clearAuthCookies(res);
+      }
+
+      res.json({
+        success: true,
+        message: "Session revoked",
+      });
+    } catch (error) {
+      console.error("💥 Revoke session error:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to revoke session";
+      res.status(message.includes("not found") ? 404 : 500).json({
+        success: false,
+        error: message,
+      });
+    }
+  }
+);
+
 // Forgot password endpoint
 router.post("/forgot-password", async (req, res) => {
   try {
@@ -0,0 +1,141 @@
+import { Router, Response } from "express";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { ChallengeService } from "../services/challenges";
+import { challengeListQuerySchema, leaderboardQuerySchema } from "../types";
+
+const router = Router();
+
+const sendError = (res: Response, error: unknown, fallback: string) => {
+  const message = error instanceof Error ? error.message : fallback;
+  const status = message.includes("not found")
+    ? 404
+    : message.includes("already") || message.includes("cannot")
+    ? 409
+    : 500;
+  res.status(status).json({
+    success: false,
+    error: message,
+  });
+};
+
+router.get("/", authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const validationResult = challengeListQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid challenge query",
+        details: validationResult.error.errors,
+      });
+    }
+
+    const challenges = await ChallengeService.listChallenges(
+      req.user.user_id,
+      validationResult.data.status
+    );
+
+    res.json({
+      success: true,
+      data: challenges,
+    });
+  } catch (error) {
+    console.error("💥 Get challenges error:", error);
+    sendError(res, error, "Failed to get challenges");
+  }
+});
+
+router.get(
+  "/:challengeId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const challenge = await ChallengeService.getChallenge(
+        req.user.user_id,
+        req.params.challengeId
+      );
+
+      res.json({
+        success: true,
+        data: challenge,
+      });
+    } catch (error) {
+      console.error("💥 Get challenge error:", error);
+      sendError(res, error, "Failed to get challenge");
+    }
+  }
+);
+
+router.post(
+  "/:challengeId/join",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const challenge = await ChallengeService.joinChallenge(
+        req.user.user_id,
+        req.params.challengeId
+      );
+
+      res.json({
+        success: true,
+        data: challenge,
+      });
+    } catch (error) {
+      console.error("💥 Join challenge error:", error);
+      sendError(res, error, "Failed to join challenge");
+    }
+  }
+);
+
+router.delete(
+  "/:challengeId/join",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      await ChallengeService.leaveChallenge(
+        req.user.user_id,
+        req.params.challengeId
+      );
+
+      res.json({
+        success: true,
+        message: "Left challenge",
+      });
+    } catch (error) {
+      console.error("💥 Leave challenge error:", error);
+      sendError(res, error, "Failed to leave challenge");
+    }
+  }
+);
+
+router.get(
+  "/:challengeId/leaderboard",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = leaderboardQuerySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid leaderboard query",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const leaderboard = await ChallengeService.getLeaderboard(
+        req.user.user_id,
+        req.params.challengeId,
+        validationResult.data.limit
+      );
+
+      res.json({
+        success: true,
+        data: leaderboard,
+      });
+    } catch (error) {
+      console.error("💥 Get leaderboard error:", error);
+      sendError(res, error, "Failed to get leaderboard");
+    }
+  }
+);
+
+export { router as challengeRoutes };
@@ -1,5 +1,9 @@
 import { Router, Request, Response } from "express";
-import { authenticateToken, AuthRequest } from "../middleware/auth";
+import {
+  authenticateToken,
+  AuthRequest,
+  requireFeature,
+} from "../middleware/auth";
 import { ChatService } from "../services/chat";
 import { UsageTrackingService } from "../services/usageTracking";
 import { z } from "zod";
@@ -24,6 +28,7 @@ const healthBasedRecommendationSchema = z.object({
 router.post(
   "/message",
   authenticateToken,
+  requireFeature("aiChat"),
   async (req: AuthRequest, res: Response) => {
     const userId = req.user?.user_id;
 
@@ -32,21 +37,6 @@ router.post(
     }
 
     try {
-      // Check user subscription first
-      const user = await prisma.user.findUnique({
-        where: { user_id: userId },
-        select: { subscription_type: true },
-      });
-
-      if (!user || user.subscription_type === "FREE") {
-        return res.status(403).json({
-          success: false,
-          error:
-            "AI Chat is not available on the Free plan. Please upgrade to Gold or Platinum plan.",
-          subscriptionRequired: true,
-        });
-      }
-
       const { message, language = "hebrew" } = req.body;
 
       if (!message || typeof message !== "string" || message.trim() === "") {
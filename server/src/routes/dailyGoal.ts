@@ -1,52 +1,46 @@
 import { Router } from "express";
-import { authenticateToken, AuthRequest } from "../middleware/auth";
+import {
+  authenticateToken,
+  AuthRequest,
+  requireFeature,
+} from "../middleware/auth";
 import { EnhancedDailyGoalsService } from "../services/database/dailyGoals";
 import { prisma } from "../lib/database";
 
 const router = Router();
 
 // GET /api/daily-goals - Get user's daily goals (CREATE IF MISSING)
-router.get("/", authenticateToken, async (req: AuthRequest, res) => {
-  try {
-    const userId = req.user.user_id;
+router.get(
+  "/",
+  authenticateToken,
+  requireFeature("dailyGoals"),
+  async (req: AuthRequest, res) => {
+    try {
+      const userId = req.user.user_id;
 
-    console.log("📊 === DAILY GOALS GET REQUEST ===");
-    console.log("📊 User ID:", userId);
+      console.log("📊 === DAILY GOALS GET REQUEST ===");
+      console.log("📊 User ID:", userId);
 
-    // Check user subscription
-    const user = await prisma.user.findUnique({
-      where: { user_id: userId },
-      select: { subscription_type: true },
-    });
+      // Use enhanced service to get goals (creates if missing)
+      const goals = await EnhancedDailyGoalsService.getUserDailyGoals(userId);
+
+      console.log("📊 Retrieved/Created goals:", goals);
 
-    if (!user || user.subscription_type === "FREE") {
-      return res.status(403).json({
+      res.json({
+        success: true,
+        data: goals,
+        message: "Daily goals retrieved successfully",
+      });
+    } catch (error) {
+      console.error("💥 Error fetching daily goals:", error);
+      res.status(500).json({
         success: false,
-        error:
-          "Daily goals are not available on the Free plan. Please upgrade to Gold or Platinum.",
-        subscriptionRequired: true,
+        error: "Failed to fetch daily goals",
+        details: error instanceof Error ? error.message : "Unknown error",
       });
     }
-
-    // Use enhanced service to get goals (creates if missing)
-    const goals = await EnhancedDailyGoalsService.getUserDailyGoals(userId);
-
-    console.log("📊 Retrieved/Created goals:", goals);
-
-    res.json({
-      success: true,
-      data: goals,
-      message: "Daily goals retrieved successfully",
-    });
-  } catch (error) {
-    console.error("💥 Error fetching daily goals:", error);
-    res.status(500).json({
-      success: false,
-      error: "Failed to fetch daily goals",
-      details: error instanceof Error ? error.message : "Unknown error",
-    });
   }
-});
+);
 
 // PUT /api/daily-goals - Force create daily goals for current user
 router.put("/", authenticateToken, async (req: AuthRequest, res) => {
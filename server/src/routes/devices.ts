@@ -1,6 +1,10 @@
 import { Router } from "express";
 import { DeviceService } from "../services/devices";
+import { DeviceSyncService } from "../services/deviceSync";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { deviceSyncBatchSchema } from "../types/devices";
+import { ActivityMergeService } from "../services/activityMerge";
+import { metricPrioritySchema } from "../types/activityMerge";
 
 const router = Router();
 
@@ -32,7 +36,8 @@ router.get("/", async (req: AuthRequest, res) => {
 // Connect a new device
 router.post("/connect", async (req: AuthRequest, res) => {
   try {
-    const { deviceType, deviceName, accessToken, refreshToken } = req.body;
+    const { deviceType, deviceName, accessToken, refreshToken, expiresIn } =
+      req.body;
 
     if (!deviceType || !deviceName) {
       return res.status(400).json({
@@ -48,7 +53,8 @@ router.post("/connect", async (req: AuthRequest, res) => {
       deviceType,
       deviceName,
       accessToken,
-      refreshToken
+      refreshToken,
+      typeof expiresIn === "number" ? expiresIn : undefined
     );
 
     res.json({
@@ -90,18 +96,54 @@ router.delete("/:deviceId", async (req: AuthRequest, res) => {
   }
 });
 
-// Sync device data
+// Older app versions send null or 0 for metrics they could not read
+const LEGACY_OPTIONAL_METRICS = [
+  "heartRate",
+  "heartRateMax",
+  "weight",
+  "bodyFat",
+  "sleepHours",
+  "distance",
+];
+
+// Sync device data: a batch of dated and intraday records, or the legacy
+// single activityData for the current day
 router.post("/:deviceId/sync", async (req: AuthRequest, res) => {
   try {
     const { deviceId } = req.params;
-    const { activityData } = req.body;
+    const { activityData, ...body } = req.body;
+
+    const legacyRecord = activityData && {
+      ...Object.fromEntries(
+        Object.entries(activityData).filter(
+          ([metric, value]) =>
+            value !== null &&
+            !(value === 0 && LEGACY_OPTIONAL_METRICS.includes(metric))
+        )
+      ),
+      recordedAt: new Date().toISOString(),
+    };
+
+    const validationResult = deviceSyncBatchSchema.safeParse(
+      legacyRecord
+        ? { timezone: body.timezone, records: [legacyRecord] }
+        : body
+    );
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid sync data",
+        details: validationResult.error.errors,
+      });
+    }
 
     console.log("🔄 Sync device data request:", deviceId);
 
     const result = await DeviceService.syncDeviceData(
       req.user.user_id,
       deviceId,
-      activityData
+      validationResult.data
     );
 
     res.json({
@@ -112,7 +154,39 @@ router.post("/:deviceId/sync", async (req: AuthRequest, res) => {
     console.error("💥 Sync device error:", error);
     const message =
       error instanceof Error ? error.message : "Failed to sync device";
-    res.status(500).json({
+    res.status(message.includes("not found") ? 404 : 500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Pull missed days from the provider on the server, without the app
+router.post("/:deviceId/sync-now", async (req: AuthRequest, res) => {
+  try {
+    const { deviceId } = req.params;
+
+    console.log("🔄 Server sync request:", deviceId);
+
+    const result = await DeviceSyncService.syncUserDevice(
+      req.user.user_id,
+      deviceId
+    );
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("💥 Server sync error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to sync device";
+    const status = message.includes("not found")
+      ? 404
+      : message.includes("not available") || message.includes("disconnected")
+      ? 400
+      : 500;
+    res.status(status).json({
       success: false,
       error: message,
     });
@@ -155,6 +229,100 @@ router.get("/activity/:startDate/:endDate", async (req: AuthRequest, res) => {
   }
 });
 
+// Get activity merged across devices for a date range
+router.get(
+  "/activity/merged/:startDate/:endDate",
+  async (req: AuthRequest, res) => {
+    try {
+      const { startDate, endDate } = req.params;
+
+      if (
+        !startDate.match(/^\d{4}-\d{2}-\d{2}$/) ||
+        !endDate.match(/^\d{4}-\d{2}-\d{2}$/)
+      ) {
+        return res.status(400).json({
+          success: false,
+          error: "Dates must be in YYYY-MM-DD format",
+        });
+      }
+
+      const days = await ActivityMergeService.getMergedDays(
+        req.user.user_id,
+        startDate,
+        endDate
+      );
+
+      res.json({
+        success: true,
+        data: days,
+      });
+    } catch (error) {
+      console.error("💥 Get merged activity error:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to fetch activity";
+      res.status(500).json({
+        success: false,
+        error: message,
+      });
+    }
+  }
+);
+
+// Get which device each metric is taken from
+router.get("/priorities", async (req: AuthRequest, res) => {
+  try {
+    const priorities = await ActivityMergeService.getPriorities(
+      req.user.user_id
+    );
+
+    res.json({
+      success: true,
+      data: priorities,
+    });
+  } catch (error) {
+    console.error("💥 Get metric priorities error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to fetch priorities";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Set per-metric device priority, e.g. sleep from Oura, weight from Withings
+router.put("/priorities", async (req: AuthRequest, res) => {
+  try {
+    const validationResult = metricPrioritySchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid priorities",
+        details: validationResult.error.errors,
+      });
+    }
+
+    const priorities = await ActivityMergeService.setPriorities(
+      req.user.user_id,
+      validationResult.data
+    );
+
+    res.json({
+      success: true,
+      data: priorities,
+    });
+  } catch (error) {
+    console.error("💥 Update metric priorities error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to update priorities";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
 // Get daily balance (calories in vs out)
 router.get("/balance/:date", async (req: AuthRequest, res) => {
   try {
@@ -1,24 +1,15 @@
 import { Router } from "express";
-import { authenticateToken, AuthRequest } from "../../middleware/auth";
+import {
+  authenticateToken,
+  AuthRequest,
+  requireFeature,
+} from "../../middleware/auth";
 import { DatabaseOptimizationService } from "../../services/database/optimization";
 import { EnhancedCronJobService } from "../../services/cron/enhanced";
 import { ApiResponse } from "../../types/api";
 
 const router = Router();
 
-// Shared permission check helper (DRY principle)
-const requireGoldSubscription = (req: AuthRequest, res: any): boolean => {
-  if (req.user.subscription_type !== "GOLD") {
-    res.status(403).json({
-      success: false,
-      error: "Insufficient permissions - GOLD subscription required",
-      timestamp: new Date().toISOString(),
-    });
-    return false;
-  }
-  return true;
-};
-
 // Shared error handler (DRY principle)
 const handleError = (res: any, error: unknown, message: string) => {
   console.error(`${message}:`, error);
@@ -47,44 +38,50 @@ router.get("/health", authenticateToken, async (req: AuthRequest, res) => {
 });
 
 // POST /api/database/cleanup - Trigger database cleanup
-router.post("/cleanup", authenticateToken, async (req: AuthRequest, res) => {
-  try {
-    if (!requireGoldSubscription(req, res)) return;
-
-    console.log("🧹 Database cleanup by user:", req.user.user_id);
+router.post(
+  "/cleanup",
+  authenticateToken,
+  requireFeature("databaseMaintenance"),
+  async (req: AuthRequest, res) => {
+    try {
+      console.log("🧹 Database cleanup by user:", req.user.user_id);
 
-    const cleanupResult =
-      await DatabaseOptimizationService.performIntelligentCleanup();
+      const cleanupResult =
+        await DatabaseOptimizationService.performIntelligentCleanup();
 
-    res.json({
-      success: true,
-      data: cleanupResult,
-      message: `Cleanup completed: ${cleanupResult.deletedRecords} records deleted`,
-      timestamp: new Date().toISOString(),
-    });
-  } catch (error) {
-    handleError(res, error, "Failed to perform database cleanup");
+      res.json({
+        success: true,
+        data: cleanupResult,
+        message: `Cleanup completed: ${cleanupResult.deletedRecords} records deleted`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to perform database cleanup");
+    }
   }
-});
+);
 
 // POST /api/database/optimize - Trigger database optimization
-router.post("/optimize", authenticateToken, async (req: AuthRequest, res) => {
-  try {
-    if (!requireGoldSubscription(req, res)) return;
-
-    console.log("⚡ Database optimization by user:", req.user.user_id);
+router.post(
+  "/optimize",
+  authenticateToken,
+  requireFeature("databaseMaintenance"),
+  async (req: AuthRequest, res) => {
+    try {
+      console.log("⚡ Database optimization by user:", req.user.user_id);
 
-    await DatabaseOptimizationService.optimizeDatabase();
+      await DatabaseOptimizationService.optimizeDatabase();
 
-    res.json({
-      success: true,
-      message: "Database optimization completed successfully",
-      timestamp: new Date().toISOString(),
-    });
-  } catch (error) {
-    handleError(res, error, "Failed to optimize database");
+      res.json({
+        success: true,
+        message: "Database optimization completed successfully",
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to optimize database");
+    }
   }
-});
+);
 
 // GET /api/database/cron-status - Get cron job status (NO CHANGES - already optimal)
 router.get("/cron-status", authenticateToken, async (req: AuthRequest, res) => {
@@ -106,11 +103,10 @@ router.get("/cron-status", authenticateToken, async (req: AuthRequest, res) => {
 router.post(
   "/emergency-recovery",
   authenticateToken,
+  requireFeature("databaseMaintenance"),
   async (req: AuthRequest, res) => {
     try {
-      if (!requireGoldSubscription(req, res)) return;
-
-      console.log("🚨 Emergency recovery by user:", req.user.user_id);
+        console.log("🚨 Emergency recovery by user:", req.user.user_id);
 
       const recovered = await DatabaseOptimizationService.emergencyRecovery();
 
@@ -1,5 +1,9 @@
 import { Router } from "express";
-import { authenticateToken, AuthRequest } from "../../middleware/auth";
+import {
+  authenticateToken,
+  AuthRequest,
+  requireFeature,
+} from "../../middleware/auth";
 import { EnhancedAIRecommendationService } from "../../services/database/aiRecommendations";
 import { DatabaseOptimizationService } from "../../services/database/optimization";
 import { ApiResponse } from "../../types/api";
@@ -8,56 +12,46 @@ import { prisma } from "../../lib/database";
 const router = Router();
 
 // GET /api/recommendations - Get user's AI recommendations
-router.get("/", authenticateToken, async (req: AuthRequest, res) => {
-  try {
-    const userId = req.user.user_id;
+router.get(
+  "/",
+  authenticateToken,
+  requireFeature("aiRecommendations"),
+  async (req: AuthRequest, res) => {
+    try {
+      const userId = req.user.user_id;
 
-    console.log("📊 Getting AI recommendations for user:", userId);
-
-    // Check user subscription
-    const user = await prisma.user.findUnique({
-      where: { user_id: userId },
-      select: { subscription_type: true },
-    });
-
-    if (!user || user.subscription_type === "FREE") {
-      return res.status(403).json({
-        success: false,
-        error:
-          "AI recommendations are not available on the Free plan. Please upgrade to Gold or Platinum.",
-        subscriptionRequired: true,
-      });
-    }
+      console.log("📊 Getting AI recommendations for user:", userId);
 
-    const { limit = 7 } = req.query;
+      const { limit = 7 } = req.query;
 
-    const recommendations =
-      await EnhancedAIRecommendationService.getUserRecommendations(
-        userId,
-        Number(limit)
-      );
+      const recommendations =
+        await EnhancedAIRecommendationService.getUserRecommendations(
+          userId,
+          Number(limit)
+        );
 
-    const response: ApiResponse = {
-      success: true,
-      data: recommendations,
-      message: `Retrieved ${recommendations.length} recommendations`,
-      timestamp: new Date().toISOString(),
-    };
+      const response: ApiResponse = {
+        success: true,
+        data: recommendations,
+        message: `Retrieved ${recommendations.length} recommendations`,
+        timestamp: new Date().toISOString(),
+      };
 
-    res.json(response);
-  } catch (error) {
-    console.error("Error fetching enhanced recommendations:", error);
+      res.json(response);
+    } catch (error) {
+      console.error("Error fetching enhanced recommendations:", error);
 
-    const errorResponse: ApiResponse = {
-      success: false,
-      error: "Failed to fetch recommendations",
-      details: error instanceof Error ? error.message : "Unknown error",
-      timestamp: new Date().toISOString(),
-    };
+      const errorResponse: ApiResponse = {
+        success: false,
+        error: "Failed to fetch recommendations",
+        details: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      };
 
-    res.status(500).json(errorResponse);
+      res.status(500).json(errorResponse);
+    }
   }
-});
+);
 
 // POST /api/recommendations/generate - Manually trigger recommendation generation
 router.post("/generate", authenticateToken, async (req: AuthRequest, res) => {
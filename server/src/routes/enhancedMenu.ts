@@ -2,6 +2,7 @@
 import { Router } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
 import { EnhancedMenuService } from "../services/enhancedMenuService";
+import { TimezoneService } from "../services/timezone";
 import { Response } from "express";
 
 const router = Router();
@@ -99,7 +100,10 @@ router.get("/:menuId/summary/weekly", authenticateToken, async (req: AuthRequest
     const summary = await EnhancedMenuService.getWeeklySummary(
       userId,
       menuId,
-      startDate ? new Date(startDate as string) : new Date()
+      new Date(
+        (startDate as string) ||
+          (await TimezoneService.getUserDate(userId))
+      )
     );
 
     res.json({ success: true, data: summary });
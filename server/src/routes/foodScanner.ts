@@ -2,6 +2,9 @@ import { Router, Response } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
 import { FoodScannerService } from "../services/foodScanner";
 import { UsageTrackingService } from "../services/usageTracking";
+import { ProductCorrectionService } from "../services/productCorrections";
+import { productLanguages } from "../services/productProviders";
+import { productChangesSchema, productCorrectionSchema } from "../types";
 import { z } from "zod";
 
 const router = Router();
@@ -9,8 +12,16 @@ const router = Router();
 // Validation schemas
 const barcodeSchema = z.object({
   barcode: z.string().min(8, "Barcode must be at least 8 characters"),
+  // Picks the product name/ingredients translation ("hebrew", "he", ...)
+  language: z.string().optional(),
 });
 
+// Query-string or Accept-Language based language for product reads
+const requestLanguages = (req: AuthRequest) =>
+  productLanguages(
+    (req.query.language as string) || req.headers["accept-language"]
+  );
+
 const imageSchema = z
   .object({
     image: z.string().min(100, "Image data is required").optional(),
@@ -69,9 +80,13 @@ router.post(
         });
       }
 
-      const { barcode } = validationResult.data;
+      const { barcode, language } = validationResult.data;
 
-      const result = await FoodScannerService.scanBarcode(barcode, userId);
+      const result = await FoodScannerService.scanBarcode(
+        barcode,
+        userId,
+        language ? productLanguages(language) : requestLanguages(req)
+      );
 
       res.json({
         success: true,
@@ -142,7 +157,8 @@ router.post(
         usage: {
           current: limitCheck.current + 1,
           limit: limitCheck.limit,
-          remaining: limitCheck.remaining - 1,
+          remaining:
+            limitCheck.remaining === null ? null : limitCheck.remaining - 1,
         },
       });
     } catch (error) {
@@ -219,7 +235,10 @@ router.get(
         });
       }
 
-      const products = await FoodScannerService.getScanHistory(userId);
+      const products = await FoodScannerService.getScanHistory(
+        userId,
+        requestLanguages(req)
+      );
 
       res.json({
         success: true,
@@ -235,4 +254,171 @@ router.get(
   }
 );
 
+const productErrorStatus = (error: unknown) =>
+  error instanceof Error && error.message.includes("not found") ? 404 : 500;
+
+// Get a stored product as the user sees it (with their override applied)
+router.get(
+  "/products/:barcode",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user?.user_id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
+
+      const product = await ProductCorrectionService.getProduct(
+        req.params.barcode,
+        userId,
+        requestLanguages(req)
+      );
+
+      res.json({
+        success: true,
+        data: product,
+      });
+    } catch (error) {
+      console.error("❌ Get product error:", error);
+      res.status(productErrorStatus(error)).json({
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to get product",
+      });
+    }
+  }
+);
+
+// Save private edits to a product for the current user only
+router.put(
+  "/products/:barcode/override",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user?.user_id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
+
+      const validationResult = productChangesSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid product changes",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const product = await ProductCorrectionService.setOverride(
+        req.params.barcode,
+        userId,
+        validationResult.data,
+        requestLanguages(req)
+      );
+
+      res.json({
+        success: true,
+        data: product,
+      });
+    } catch (error) {
+      console.error("❌ Save product override error:", error);
+      res.status(productErrorStatus(error)).json({
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Failed to save override",
+      });
+    }
+  }
+);
+
+// Drop the user's private edits
+router.delete(
+  "/products/:barcode/override",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user?.user_id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
+
+      const product = await ProductCorrectionService.clearOverride(
+        req.params.barcode,
+        userId,
+        requestLanguages(req)
+      );
+
+      res.json({
+        success: true,
+        data: product,
+      });
+    } catch (error) {
+      console.error("❌ Clear product override error:", error);
+      res.status(productErrorStatus(error)).json({
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Failed to clear override",
+      });
+    }
+  }
+);
+
+// Suggest a correction to the shared product, reviewed by an admin
+router.post(
+  "/products/:barcode/corrections",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user?.user_id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
+
+      const validationResult = productCorrectionSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid correction",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const { changes, note, apply_to_me } = validationResult.data;
+      const correction = await ProductCorrectionService.submitCorrection(
+        req.params.barcode,
+        userId,
+        changes,
+        note,
+        apply_to_me
+      );
+
+      res.status(201).json({
+        success: true,
+        data: correction,
+        message: "Correction submitted for review",
+      });
+    } catch (error) {
+      console.error("❌ Submit product correction error:", error);
+      res.status(productErrorStatus(error)).json({
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to submit correction",
+      });
+    }
+  }
+);
+
 export default router;
@@ -0,0 +1,209 @@
+import { Router, Response } from "express";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { HydrationService } from "../services/hydration";
+import {
+  containerPresetSchema,
+  logDrinkSchema,
+  updateContainerPresetSchema,
+} from "../types";
+
+const router = Router();
+
+const sendError = (res: Response, error: unknown, fallback: string) => {
+  const message = error instanceof Error ? error.message : fallback;
+  const status = message.includes("not found")
+    ? 404
+    : message.includes("already exists")
+    ? 409
+    : 500;
+  res.status(status).json({
+    success: false,
+    error: message,
+  });
+};
+
+router.post(
+  "/drinks",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = logDrinkSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid drink",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const { drink, progress } = await HydrationService.logDrink(
+        req.user.user_id,
+        validationResult.data
+      );
+
+      res.status(201).json({
+        success: true,
+        data: drink,
+        xpAwarded: progress.xpGained,
+        leveledUp: progress.leveledUp,
+        newLevel: progress.newLevel,
+        newAchievements: progress.newAchievements,
+      });
+    } catch (error) {
+      console.error("💥 Log drink error:", error);
+      sendError(res, error, "Failed to log drink");
+    }
+  }
+);
+
+router.delete(
+  "/drinks/:id",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      await HydrationService.deleteDrink(
+        req.user.user_id,
+        parseInt(req.params.id)
+      );
+
+      res.json({
+        success: true,
+        message: "Drink deleted",
+      });
+    } catch (error) {
+      console.error("💥 Delete drink error:", error);
+      sendError(res, error, "Failed to delete drink");
+    }
+  }
+);
+
+router.get(
+  "/day/:date",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { date } = req.params;
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return res.status(400).json({
+          success: false,
+          error: "Date must be in YYYY-MM-DD format",
+        });
+      }
+
+      const summary = await HydrationService.getDaySummary(
+        req.user.user_id,
+        date
+      );
+
+      res.json({
+        success: true,
+        data: summary,
+      });
+    } catch (error) {
+      console.error("💥 Get hydration day error:", error);
+      sendError(res, error, "Failed to get hydration summary");
+    }
+  }
+);
+
+router.get(
+  "/presets",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const presets = await HydrationService.getPresets(req.user.user_id);
+
+      res.json({
+        success: true,
+        data: presets,
+      });
+    } catch (error) {
+      console.error("💥 Get container presets error:", error);
+      sendError(res, error, "Failed to get container presets");
+    }
+  }
+);
+
+router.post(
+  "/presets",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = containerPresetSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid container preset",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const preset = await HydrationService.createPreset(
+        req.user.user_id,
+        validationResult.data
+      );
+
+      res.status(201).json({
+        success: true,
+        data: preset,
+      });
+    } catch (error) {
+      console.error("💥 Create container preset error:", error);
+      sendError(res, error, "Failed to create container preset");
+    }
+  }
+);
+
+router.put(
+  "/presets/:id",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = updateContainerPresetSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid container preset",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const preset = await HydrationService.updatePreset(
+        req.user.user_id,
+        parseInt(req.params.id),
+        validationResult.data
+      );
+
+      res.json({
+        success: true,
+        data: preset,
+      });
+    } catch (error) {
+      console.error("💥 Update container preset error:", error);
+      sendError(res, error, "Failed to update container preset");
+    }
+  }
+);
+
+router.delete(
+  "/presets/:id",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      await HydrationService.deletePreset(
+        req.user.user_id,
+        parseInt(req.params.id)
+      );
+
+      res.json({
+        success: true,
+        message: "Container preset deleted",
+      });
+    } catch (error) {
+      console.error("💥 Delete container preset error:", error);
+      sendError(res, error, "Failed to delete container preset");
+    }
+  }
+);
+
+export { router as hydrationRoutes };
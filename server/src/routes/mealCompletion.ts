@@ -1,6 +1,9 @@
 import express, { Response } from "express";
 import { PrismaClient } from "@prisma/client";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { PushNotificationService } from "../services/pushNotifications";
+import { PLAN_PROGRESS_MILESTONES } from "../config/push";
+import { XpService } from "../services/xp";
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -73,6 +76,10 @@ router.post(
             plan.total_meals > 0
               ? (completedMeals / plan.total_meals) * 100
               : 0;
+          const previousPercentage =
+            plan.total_meals > 0
+              ? (plan.meals_completed / plan.total_meals) * 100
+              : 0;
 
           await prisma.userMealPlan.update({
             where: { plan_id },
@@ -83,26 +90,32 @@ router.post(
               completed_at: progressPercentage >= 100 ? new Date() : null,
             },
           });
+
+          const milestone = PLAN_PROGRESS_MILESTONES.filter(
+            (m) => previousPercentage < m && progressPercentage >= m
+          ).pop();
+          if (milestone) {
+            // Not awaited; push failures are logged by the service
+            PushNotificationService.notifyPlanMilestone(
+              userId,
+              plan,
+              milestone
+            );
+          }
         }
       }
 
       // Award XP for meal completion
-      const user = await prisma.user.findUnique({
-        where: { user_id: userId },
-      });
+      const xpGained = 10; // Base XP for completing a meal
+      const bonusXp = rating && rating >= 4 ? 5 : 0; // Bonus for high rating
 
-      if (user) {
-        const xpGained = 10; // Base XP for completing a meal
-        const bonusXp = rating && rating >= 4 ? 5 : 0; // Bonus for high rating
-
-        await prisma.user.update({
-          where: { user_id: userId },
-          data: {
-            current_xp: (user.current_xp || 0) + xpGained + bonusXp,
-            total_points: (user.total_points || 0) + xpGained + bonusXp,
-          },
-        });
-      }
+      await XpService.award({
+        userId,
+        source: "MEAL_COMPLETION",
+        reason: `Completed ${meal_name}`,
+        amount: xpGained + bonusXp,
+        idempotencyKey: `meal-completion:${completion.id}`,
+      });
 
       res.json({
         success: true,
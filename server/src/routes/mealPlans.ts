@@ -2,6 +2,9 @@ import { Router, Response, Request } from "express"; // Import Request and Respo
 import { authenticateToken, AuthRequest } from "../middleware/auth";
 import { prisma } from "../lib/database";
 import { MealPlanService } from "../services/mealPlans";
+import { XpService } from "../services/xp";
+import { TimezoneService } from "../services/timezone";
+import { addDays, localDateString, startOfLocalDay } from "../utils/timezone";
 import { MealTiming } from "@prisma/client";
 
 const router = Router();
@@ -1179,14 +1182,13 @@ router.post(
         completedAt: new Date(),
       };
 
-      // Award XP for completing meal plan
-      await prisma.user.update({
-        where: { user_id: userId }, // Use user_id field
-        data: {
-          current_xp: {
-            increment: 100, // Award 100 XP for completing a meal plan
-          },
-        },
+      // Award XP for completing meal plan, once per plan
+      await XpService.award({
+        userId,
+        source: "MEAL_PLAN",
+        reason: `Completed meal plan ${completedPlan.name}`,
+        amount: 100,
+        idempotencyKey: `meal-plan:${planId}`,
       });
 
       res.json({
@@ -1743,16 +1745,21 @@ router.get(
         return res.status(401).json({ error: "User not authenticated" });
       }
 
-      const startDate = new Date(parseInt(year), parseInt(month) - 1, 1);
-      const endDate = new Date(parseInt(year), parseInt(month), 0); // Day 0 of next month is the last day of current month
+      // Days of the month in the user's timezone
+      const timeZone = await TimezoneService.getUserTimeZone(userId);
+      const daysInMonth = new Date(
+        Date.UTC(parseInt(year), parseInt(month), 0)
+      ).getUTCDate();
+      const firstDay = `${year}-${month.padStart(2, "0")}-01`;
+      const lastDay = addDays(firstDay, daysInMonth - 1);
 
       // Get meal completions for the month
       const mealCompletions = await prisma.mealCompletion.findMany({
         where: {
           user_id: userId,
           created_at: {
-            gte: startDate,
-            lte: endDate,
+            gte: startOfLocalDay(firstDay, timeZone),
+            lt: startOfLocalDay(addDays(lastDay, 1), timeZone),
           },
         },
         orderBy: {
@@ -1834,13 +1841,15 @@ router.get(
 
       // Structure calendar data
       const calendarData: { [date: string]: any } = {};
-      const currentDate = new Date(startDate);
 
-      while (currentDate <= endDate) {
-        const dateStr = currentDate.toISOString().split("T")[0];
+      for (
+        let dateStr = firstDay;
+        dateStr <= lastDay;
+        dateStr = addDays(dateStr, 1)
+      ) {
         const dayCompletions = mealCompletions.filter(
           (completion) =>
-            completion.created_at.toISOString().split("T")[0] === dateStr
+            localDateString(completion.created_at, timeZone) === dateStr
         );
 
         // Calculate actuals from meal completions
@@ -1884,8 +1893,6 @@ router.get(
           water_intake_ml: 0, // TODO: Add water tracking integration
           events: [], // TODO: Integrate with calendar events if applicable
         };
-
-        currentDate.setDate(currentDate.getDate() + 1);
       }
 
       res.json({
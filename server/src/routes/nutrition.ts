@@ -4,13 +4,27 @@ import { prisma } from "../lib/database";
 import { z } from "zod";
 import { mealAnalysisSchema, mealUpdateSchema } from "../types/nutrition";
 import { NutritionService } from "../services/nutrition";
-import { AchievementService } from "../services/achievements";
+import { HydrationService } from "../services/hydration";
+import { TimezoneService } from "../services/timezone";
 import { UsageTrackingService } from "../services/usageTracking";
+import { FoodDatabaseService } from "../services/foodDatabase";
+import { MealIngredientService } from "../services/mealIngredients";
+import { IngredientInput } from "../types/foodDatabase";
+import {
+  addMealIngredientSchema,
+  updateMealIngredientSchema,
+} from "../types/mealIngredients";
+import { FavoriteMealService } from "../services/favorites";
+import {
+  favoritesQuerySchema,
+  logFavoriteSchema,
+  quickAddFavoriteSchema,
+} from "../types/favorites";
 
 const router = Router();
 
 const waterIntakeSchema = z.object({
-  cups_consumed: z.number().min(0).max(25),
+  cups_consumed: z.number().int().min(0).max(100),
   date: z.string().optional(),
 });
 
@@ -42,214 +56,30 @@ router.post(
       }
 
       const { cups_consumed, date } = validationResult.data;
-      const trackingDate = date ? new Date(date) : new Date();
-
-      // Limit water intake to maximum goal (10 cups/2500ml)
-      const maxCups = 10;
-      const limitedCups = Math.min(cups_consumed, maxCups);
-      const limitedMilliliters = limitedCups * 250;
-
-      // Set date to start of day for consistent comparison
-      const startOfDay = new Date(
-        trackingDate.getFullYear(),
-        trackingDate.getMonth(),
-        trackingDate.getDate()
+      // A timestamp counts towards the user's day it falls on
+      const trackingDate =
+        date && /^\d{4}-\d{2}-\d{2}$/.test(date)
+          ? date
+          : await TimezoneService.getUserDate(
+              userId,
+              date ? new Date(date) : undefined
+            );
+
+      // Cups are converted to drink log entries; the day's total follows
+      const { record, progress } = await HydrationService.setWaterCups(
+        userId,
+        cups_consumed,
+        trackingDate
       );
 
-      // Use transaction with proper error handling for race conditions
-      let waterRecord;
-
-      try {
-        waterRecord = await prisma.$transaction(
-          async (tx) => {
-            // First, try to find existing record
-            const existingRecord = await tx.waterIntake.findFirst({
-              where: {
-                user_id: userId,
-                date: startOfDay,
-              },
-            });
-
-            if (existingRecord) {
-              // Update existing record
-              return await tx.waterIntake.update({
-                where: {
-                  id: existingRecord.id,
-                },
-                data: {
-                  cups_consumed: limitedCups,
-                  milliliters_consumed: limitedMilliliters,
-                  updated_at: new Date(),
-                },
-              });
-            } else {
-              // Create new record
-              return await tx.waterIntake.create({
-                data: {
-                  user_id: userId,
-                  date: startOfDay,
-                  cups_consumed: limitedCups,
-                  milliliters_consumed: limitedMilliliters,
-                },
-              });
-            }
-          },
-          {
-            isolationLevel: "Serializable",
-            timeout: 10000,
-          }
-        );
-      } catch (error: any) {
-        console.error("💥 Water intake transaction failed:", error);
-
-        // Fallback: try simple upsert one more time
-        try {
-          waterRecord = await prisma.waterIntake.upsert({
-            where: {
-              user_id_date: {
-                user_id: userId,
-                date: startOfDay,
-              },
-            },
-            update: {
-              cups_consumed: limitedCups,
-              milliliters_consumed: limitedMilliliters,
-              updated_at: new Date(),
-            },
-            create: {
-              user_id: userId,
-              date: startOfDay,
-              cups_consumed: limitedCups,
-              milliliters_consumed: limitedMilliliters,
-            },
-          });
-        } catch (fallbackError: any) {
-          console.error("💥 Water intake fallback failed:", fallbackError);
-          throw new Error(
-            "Failed to save water intake after multiple attempts"
-          );
-        }
-      }
-
-      // Calculate XP based on water intake
-      let xpAwarded = 0;
-      const waterGoalComplete = limitedCups >= 8;
-
-      if (limitedCups >= 8) {
-        xpAwarded = 25; // 25 XP for completing 8+ cups goal
-      } else if (limitedCups >= 4) {
-        xpAwarded = 15; // 15 XP for partial progress
-      } else if (limitedCups > 0) {
-        xpAwarded = 5; // 5 XP for any progress
-      }
-
-      // Check for achievements and XP after successful save
-      try {
-        console.log(
-          `🎯 Water goal complete: ${waterGoalComplete}, XP awarded: ${xpAwarded}`
-        );
-
-        const achievementResult = await AchievementService.updateUserProgress(
-          userId,
-          false, // completedDay
-          waterGoalComplete, // waterGoalComplete
-          false, // calorieGoalComplete
-          xpAwarded
-        );
-
-        // Check for complete day if water goal is met
-        if (waterGoalComplete) {
-          const today = new Date();
-          const startOfDayToday = new Date(
-            today.getFullYear(),
-            today.getMonth(),
-            today.getDate()
-          );
-          const endOfDayToday = new Date(
-            today.getFullYear(),
-            today.getMonth(),
-            today.getDate(),
-            23,
-            59,
-            59,
-            999
-          );
-
-          // Check if calorie goal is also complete
-          const todayMeals = await prisma.meal.findMany({
-            where: {
-              user_id: userId,
-              created_at: {
-                gte: startOfDayToday,
-                lte: endOfDayToday,
-              },
-            },
-          });
-
-          const todayCalories = todayMeals.reduce(
-            (sum, meal) => sum + (meal.calories || 0),
-            0
-          );
-          const calorieGoalComplete = todayCalories >= 1800;
-
-          // If both goals are complete, trigger complete day
-          if (calorieGoalComplete) {
-            const completeDayResult =
-              await AchievementService.updateUserProgress(
-                userId,
-                true, // completedDay
-                false, // waterGoalComplete (already processed)
-                false, // calorieGoalComplete (already processed)
-                0 // No additional XP for complete day itself
-              );
-
-            // Merge results safely
-            if (
-              completeDayResult.newAchievements &&
-              completeDayResult.newAchievements.length > 0
-            ) {
-              achievementResult.newAchievements = [
-                ...(achievementResult.newAchievements || []),
-                ...completeDayResult.newAchievements,
-              ];
-            }
-
-            if (
-              typeof achievementResult.xpGained === "number" &&
-              typeof completeDayResult.xpGained === "number"
-            ) {
-              achievementResult.xpGained += completeDayResult.xpGained;
-            }
-
-            if (completeDayResult.leveledUp) {
-              achievementResult.leveledUp = completeDayResult.leveledUp;
-              achievementResult.newLevel = completeDayResult.newLevel;
-            }
-          }
-        }
-
-        res.json({
-          success: true,
-          data: waterRecord,
-          xpAwarded: achievementResult.xpGained || 0,
-          leveledUp: achievementResult.leveledUp || false,
-          newLevel: achievementResult.newLevel || undefined,
-          newAchievements: achievementResult.newAchievements || [],
-        });
-      } catch (achievementError) {
-        console.warn(
-          "⚠️ Achievement processing failed, but water intake saved:",
-          achievementError
-        );
-        res.json({
-          success: true,
-          data: waterRecord,
-          xpAwarded: xpAwarded,
-          leveledUp: false,
-          newLevel: undefined,
-          newAchievements: [],
-        });
-      }
+      res.json({
+        success: true,
+        data: record,
+        xpAwarded: progress.xpGained,
+        leveledUp: progress.leveledUp,
+        newLevel: progress.newLevel,
+        newAchievements: progress.newAchievements,
+      });
     } catch (error) {
       console.error("💥 Error tracking water intake:", error);
       res.status(500).json({
@@ -274,25 +104,11 @@ router.get(
     }
 
     try {
-      const trackingDate = new Date(date);
-      const startOfDay = new Date(
-        trackingDate.getFullYear(),
-        trackingDate.getMonth(),
-        trackingDate.getDate()
-      );
-      const endOfDay = new Date(
-        trackingDate.getFullYear(),
-        trackingDate.getMonth(),
-        trackingDate.getDate() + 1
-      );
-
+      // Water is stored per calendar day in the user's timezone
       const waterRecord = await prisma.waterIntake.findFirst({
         where: {
           user_id: userId,
-          date: {
-            gte: startOfDay,
-            lt: endOfDay,
-          },
+          date: new Date(date.split("T")[0]),
         },
       });
 
@@ -445,7 +261,8 @@ router.post("/analyze", authenticateToken, async (req: AuthRequest, res) => {
       usage: {
         current: limitCheck.current + 1,
         limit: limitCheck.limit,
-        remaining: limitCheck.remaining - 1,
+        remaining:
+          limitCheck.remaining === null ? null : limitCheck.remaining - 1,
       },
     });
   } catch (error) {
@@ -661,11 +478,75 @@ router.get("/meals", authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
-// Add manual meal
+// Search the offline food database
+router.get(
+  "/foods/search",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const query = String(req.query.q || "").trim();
+      const limit = Math.min(
+        parseInt(String(req.query.limit || "20")) || 20,
+        50
+      );
+
+      if (!query) {
+        return res.status(400).json({
+          success: false,
+          error: "Search query is required",
+        });
+      }
+
+      const foods = await FoodDatabaseService.search(query, limit);
+
+      res.json({
+        success: true,
+        data: foods,
+      });
+    } catch (error) {
+      console.error("💥 Food search error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to search foods",
+      });
+    }
+  }
+);
+
+router.get(
+  "/foods/:id",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const food = await FoodDatabaseService.getById(parseInt(req.params.id));
+
+      if (!food) {
+        return res.status(404).json({
+          success: false,
+          error: "Food not found",
+        });
+      }
+
+      res.json({
+        success: true,
+        data: food,
+      });
+    } catch (error) {
+      console.error("💥 Get food error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch food",
+      });
+    }
+  }
+);
+
+// Add manual meal. Nutrients left empty are computed from the ingredients
+// through the food database.
 router.post(
   "/meals/manual",
   authenticateToken,
-  async (req: AuthRequest, res) => {
+  async (req: AuthRequest, res: Response) => {
     try {
       const userId = req.user?.user_id;
       if (!userId) {
@@ -690,25 +571,59 @@ router.post(
         date,
       } = req.body;
 
-      if (!mealName || !calories) {
+      const ingredientList: IngredientInput[] = !ingredients
+        ? []
+        : Array.isArray(ingredients)
+        ? ingredients
+        : [ingredients];
+
+      if (!mealName || (!calories && ingredientList.length === 0)) {
         return res.status(400).json({
           success: false,
-          error: "Meal name and calories are required",
+          error: "Meal name and either calories or ingredients are required",
+        });
+      }
+
+      const analysis =
+        ingredientList.length > 0
+          ? await FoodDatabaseService.analyzeIngredients(ingredientList)
+          : null;
+
+      if (!calories && !analysis?.ingredients.length) {
+        return res.status(422).json({
+          success: false,
+          error:
+            "None of the ingredients were found in the food database. Please enter calories manually.",
+          unmatched: analysis?.unmatched || [],
         });
       }
 
+      const manualValue = (value: any) =>
+        value !== undefined && value !== null && value !== ""
+          ? parseFloat(value)
+          : null;
+      const totals = analysis?.totals;
+
       const meal = await prisma.meal.create({
         data: {
           user_id: userId,
           meal_name: mealName,
-          calories: parseFloat(calories),
-          protein_g: protein ? parseFloat(protein) : null,
-          carbs_g: carbs ? parseFloat(carbs) : null,
-          fats_g: fat ? parseFloat(fat) : null,
-          fiber_g: fiber ? parseFloat(fiber) : null,
-          sugar_g: sugar ? parseFloat(sugar) : null,
-          sodium_mg: sodium ? parseFloat(sodium) : null,
-          ingredients: ingredients || null,
+          calories: manualValue(calories) ?? totals!.calories,
+          protein_g: manualValue(protein) ?? totals?.protein_g ?? null,
+          carbs_g: manualValue(carbs) ?? totals?.carbs_g ?? null,
+          fats_g: manualValue(fat) ?? totals?.fats_g ?? null,
+          fiber_g: manualValue(fiber) ?? totals?.fiber_g ?? null,
+          sugar_g: manualValue(sugar) ?? totals?.sugar_g ?? null,
+          sodium_mg: manualValue(sodium) ?? totals?.sodium_mg ?? null,
+          saturated_fats_g: totals?.saturated_fats_g ?? null,
+          cholesterol_mg: totals?.cholesterol_mg ?? null,
+          serving_size_g: totals?.serving_size_g || null,
+          ingredients: analysis
+            ? [
+                ...analysis.ingredients,
+                ...analysis.unmatched.map((name) => ({ name })),
+              ]
+            : undefined,
           meal_period: mealPeriod || "other",
           image_url:
             imageUrl ||
@@ -722,6 +637,7 @@ router.post(
       res.json({
         success: true,
         data: meal,
+        unmatchedIngredients: analysis?.unmatched || [],
       });
     } catch (error) {
       console.error("Add manual meal error:", error);
@@ -931,6 +847,141 @@ router.post(
   }
 );
 
+const favoriteErrorStatus = (message: string) =>
+  message.includes("not found") ? 404 : 500;
+
+// Favorite meals and quick-add items, most used first
+router.get(
+  "/favorites",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = favoritesQuerySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid favorites query",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const favorites = await FavoriteMealService.getFavorites(
+        req.user.user_id,
+        validationResult.data
+      );
+
+      res.json({
+        success: true,
+        data: favorites,
+      });
+    } catch (error) {
+      console.error("💥 Get favorites error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to get favorites",
+      });
+    }
+  }
+);
+
+router.post(
+  "/favorites",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = quickAddFavoriteSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid quick-add item",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const favorite = await FavoriteMealService.createQuickAdd(
+        req.user.user_id,
+        validationResult.data
+      );
+
+      res.status(201).json({
+        success: true,
+        data: favorite,
+      });
+    } catch (error) {
+      console.error("💥 Create quick-add item error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to create quick-add item",
+      });
+    }
+  }
+);
+
+router.delete(
+  "/favorites/:id",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      await FavoriteMealService.removeFavorite(
+        parseInt(req.params.id),
+        req.user.user_id
+      );
+      NutritionService.clearUserMealsCaches(req.user.user_id);
+
+      res.json({
+        success: true,
+        message: "Favorite removed",
+      });
+    } catch (error) {
+      console.error("💥 Remove favorite error:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to remove favorite";
+      res.status(favoriteErrorStatus(message)).json({
+        success: false,
+        error: message,
+      });
+    }
+  }
+);
+
+// Log a favorite again for a meal period and date
+router.post(
+  "/favorites/:id/log",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = logFavoriteSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid log request",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const meal = await FavoriteMealService.logFavorite(
+        parseInt(req.params.id),
+        req.user.user_id,
+        validationResult.data
+      );
+      NutritionService.clearUserMealsCaches(req.user.user_id);
+
+      res.status(201).json({
+        success: true,
+        data: meal,
+      });
+    } catch (error) {
+      console.error("💥 Log favorite error:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to log favorite";
+      res.status(favoriteErrorStatus(message)).json({
+        success: false,
+        error: message,
+      });
+    }
+  }
+);
+
 // Duplicate meal to a new date
 router.post(
   "/meals/:mealId/duplicate",
@@ -1121,6 +1172,12 @@ router.put("/meals/:id", authenticateToken, async (req: AuthRequest, res) => {
       },
     });
 
+    await MealIngredientService.recordTotalsEdit(
+      existingMeal,
+      updatedMeal,
+      userId
+    );
+
     console.log("✅ Meal updated successfully:", mealId);
 
     res.json({
@@ -1137,6 +1194,167 @@ router.put("/meals/:id", authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
+const ingredientErrorStatus = (message: string) =>
+  message.includes("not found")
+    ? 404
+    : message.includes("not in the food database")
+    ? 422
+    : 500;
+
+// Structured ingredients of a meal, with the meal totals they add up to
+router.get(
+  "/meals/:id/ingredients",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await MealIngredientService.getIngredients(
+        parseInt(req.params.id),
+        req.user.user_id
+      );
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error("💥 Get meal ingredients error:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to get ingredients";
+      res.status(ingredientErrorStatus(message)).json({
+        success: false,
+        error: message,
+      });
+    }
+  }
+);
+
+router.post(
+  "/meals/:id/ingredients",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = addMealIngredientSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid ingredient",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const meal = await MealIngredientService.addIngredient(
+        parseInt(req.params.id),
+        req.user.user_id,
+        validationResult.data
+      );
+
+      res.json({
+        success: true,
+        data: meal,
+      });
+    } catch (error) {
+      console.error("💥 Add meal ingredient error:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to add ingredient";
+      res.status(ingredientErrorStatus(message)).json({
+        success: false,
+        error: message,
+      });
+    }
+  }
+);
+
+router.patch(
+  "/meals/:id/ingredients/:ingredientId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = updateMealIngredientSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid ingredient update",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const meal = await MealIngredientService.updateIngredient(
+        parseInt(req.params.id),
+        parseInt(req.params.ingredientId),
+        req.user.user_id,
+        validationResult.data
+      );
+
+      res.json({
+        success: true,
+        data: meal,
+      });
+    } catch (error) {
+      console.error("💥 Update meal ingredient error:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to update ingredient";
+      res.status(ingredientErrorStatus(message)).json({
+        success: false,
+        error: message,
+      });
+    }
+  }
+);
+
+router.delete(
+  "/meals/:id/ingredients/:ingredientId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const meal = await MealIngredientService.removeIngredient(
+        parseInt(req.params.id),
+        parseInt(req.params.ingredientId),
+        req.user.user_id
+      );
+
+      res.json({
+        success: true,
+        data: meal,
+      });
+    } catch (error) {
+      console.error("💥 Remove meal ingredient error:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to remove ingredient";
+      res.status(ingredientErrorStatus(message)).json({
+        success: false,
+        error: message,
+      });
+    }
+  }
+);
+
+// Original estimate versus the user's corrections
+router.get(
+  "/meals/:id/audit",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const audit = await MealIngredientService.getAudit(
+        parseInt(req.params.id),
+        req.user.user_id
+      );
+
+      res.json({
+        success: true,
+        data: audit,
+      });
+    } catch (error) {
+      console.error("💥 Get meal audit error:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to get meal audit";
+      res.status(ingredientErrorStatus(message)).json({
+        success: false,
+        error: message,
+      });
+    }
+  }
+);
+
 // DELETE /api/nutrition/meals/:id - Delete meal
 router.delete(
   "/meals/:id",
@@ -1326,87 +1544,4 @@ router.get(
   }
 );
 
-// Manual meal addition endpoint
-router.post(
-  "/meals/manual",
-  authenticateToken,
-  async (req: AuthRequest, res: Response) => {
-    try {
-      const userId = req.user?.user_id;
-      if (!userId) {
-        return res.status(401).json({
-          success: false,
-          error: "User not authenticated",
-        });
-      }
-
-      console.log("📝 Manual meal addition request:", req.body);
-
-      const {
-        mealName,
-        calories,
-        protein,
-        carbs,
-        fat,
-        fiber,
-        sugar,
-        sodium,
-        ingredients,
-        mealPeriod,
-        imageUrl,
-        date,
-      } = req.body;
-
-      if (!mealName || !calories) {
-        return res.status(400).json({
-          success: false,
-          error: "Meal name and calories are required",
-        });
-      }
-
-      const mealData = {
-        user_id: userId,
-        meal_name: mealName,
-        calories: parseFloat(calories),
-        protein_g: protein ? parseFloat(protein) : null,
-        carbs_g: carbs ? parseFloat(carbs) : null,
-        fats_g: fat ? parseFloat(fat) : null,
-        fiber_g: fiber ? parseFloat(fiber) : null,
-        sugar_g: sugar ? parseFloat(sugar) : null,
-        sodium_mg: sodium ? parseFloat(sodium) : null,
-        ingredients: ingredients
-          ? JSON.stringify(
-              Array.isArray(ingredients) ? ingredients : [ingredients]
-            )
-          : null,
-        meal_period: mealPeriod || "other",
-        image_url: imageUrl || "",
-        analysis_status: "COMPLETED",
-        upload_time: date ? new Date(date) : new Date(),
-        created_at: date ? new Date(date) : new Date(),
-        confidence: 100,
-      };
-
-      const meal = await prisma.meal.create({
-        data: mealData,
-      });
-
-      console.log("✅ Manual meal added successfully:", meal.meal_id);
-
-      res.json({
-        success: true,
-        data: meal,
-        message: "Meal added successfully",
-      });
-    } catch (error) {
-      console.error("💥 Manual meal addition error:", error);
-      res.status(500).json({
-        success: false,
-        error: "Failed to add meal",
-        message: error instanceof Error ? error.message : "Unknown error",
-      });
-    }
-  }
-);
-
 export { router as nutritionRoutes };
@@ -0,0 +1,203 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { SubscriptionService } from "../services/subscriptions";
+import { FakePaymentProvider, getPaymentProvider } from "../services/payments";
+
+const router = Router();
+
+export interface RawBodyRequest extends Request {
+  // Exact bytes of a webhook body, captured by the JSON parser in index.ts
+  rawBody?: Buffer;
+}
+
+const checkoutSchema = z.object({
+  plan_type: z.enum(["GOLD", "PREMIUM"]),
+  success_url: z.string().url().optional(),
+  cancel_url: z.string().url().optional(),
+});
+
+const defaultReturnUrl = (status: "success" | "cancel") =>
+  `${process.env.CLIENT_URL || "http://localhost:8081"}/payment?status=${status}`;
+
+// Start a hosted checkout for a paid plan
+router.post(
+  "/checkout",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const body = checkoutSchema.parse(req.body);
+
+      const checkout = await SubscriptionService.createCheckout(
+        req.user.user_id,
+        body.plan_type,
+        {
+          successUrl: body.success_url || defaultReturnUrl("success"),
+          cancelUrl: body.cancel_url || defaultReturnUrl("cancel"),
+        }
+      );
+
+      res.status(201).json({ success: true, data: checkout });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid checkout request",
+          details: error.errors,
+        });
+      }
+
+      console.error("💥 Checkout creation error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to start checkout",
+      });
+    }
+  }
+);
+
+// Poll the outcome of a checkout
+router.get(
+  "/checkout/:sessionId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const status = await SubscriptionService.getCheckoutStatus(
+        req.user.user_id,
+        req.params.sessionId
+      );
+
+      if (!status) {
+        return res.status(404).json({
+          success: false,
+          error: "Checkout session not found",
+        });
+      }
+
+      res.json({ success: true, data: status });
+    } catch (error) {
+      console.error("💥 Checkout status error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch checkout status",
+      });
+    }
+  }
+);
+
+// Payment history for the current user
+router.get(
+  "/history",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const payments = await SubscriptionService.getPaymentHistory(
+        req.user.user_id
+      );
+      res.json({ success: true, data: payments });
+    } catch (error) {
+      console.error("💥 Payment history error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch payment history",
+      });
+    }
+  }
+);
+
+// Provider webhook - authenticated by signature, not by user token
+router.post("/webhook", async (req: RawBodyRequest, res: Response) => {
+  const { rawBody } = req;
+  if (!rawBody) {
+    return res.status(400).json({ success: false, error: "Missing body" });
+  }
+
+  try {
+    const provider = getPaymentProvider();
+    const signature = req.headers[provider.signatureHeader];
+
+    const result = await SubscriptionService.handleWebhook(
+      rawBody,
+      Array.isArray(signature) ? signature[0] : signature
+    );
+
+    res.json({ success: true, received: true, data: result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+
+    if (message.toLowerCase().includes("signature")) {
+      console.warn("⚠️ Rejected payment webhook:", message);
+      return res.status(400).json({ success: false, error: message });
+    }
+
+    // Any other failure returns 500 so the provider retries the delivery
+    console.error("💥 Payment webhook error:", error);
+    res.status(500).json({ success: false, error: "Webhook processing failed" });
+  }
+});
+
+// Hosted checkout page for the fake provider (development only)
+const getFakeProvider = (): FakePaymentProvider | null => {
+  if (process.env.NODE_ENV === "production") return null;
+  const provider = getPaymentProvider();
+  return provider instanceof FakePaymentProvider ? provider : null;
+};
+
+router.get("/fake/checkout/:sessionId", (req: Request, res: Response) => {
+  const provider = getFakeProvider();
+  const session = provider?.getSession(req.params.sessionId);
+
+  if (!provider || !session) {
+    return res.status(404).send("Checkout session not found");
+  }
+
+  const { request } = session;
+  res.type("html").send(`<!DOCTYPE html>
+<html>
+  <head><meta name="viewport" content="width=device-width, initial-scale=1" /><title>Test checkout</title></head>
+  <body style="font-family: sans-serif; max-width: 420px; margin: 40px auto; text-align: center;">
+    <h2>Test checkout</h2>
+    <p>${request.planType} plan &mdash; ${request.amount} ${request.currency}</p>
+    <p style="color: #6b7280;">No real payment is taken by the fake provider.</p>
+    <form method="POST" action="${req.params.sessionId}/complete"><button style="padding: 12px 24px;">Pay</button></form>
+    <form method="POST" action="${req.params.sessionId}/cancel" style="margin-top: 12px;"><button style="padding: 12px 24px;">Cancel</button></form>
+  </body>
+</html>`);
+});
+
+router.post(
+  "/fake/checkout/:sessionId/:action(complete|cancel|fail)",
+  async (req: Request, res: Response) => {
+    const provider = getFakeProvider();
+    const session = provider?.getSession(req.params.sessionId);
+
+    if (!provider || !session) {
+      return res.status(404).send("Checkout session not found");
+    }
+
+    try {
+      const type =
+        req.params.action === "complete"
+          ? "checkout.completed"
+          : req.params.action === "fail"
+          ? "payment.failed"
+          : "checkout.expired";
+      const { body, signature } = provider.buildWebhook(
+        req.params.sessionId,
+        type
+      );
+      await SubscriptionService.handleWebhook(body, signature);
+
+      res.redirect(
+        req.params.action === "complete"
+          ? session.request.successUrl
+          : session.request.cancelUrl
+      );
+    } catch (error) {
+      console.error("💥 Fake checkout error:", error);
+      res.status(500).send("Fake checkout failed");
+    }
+  }
+);
+
+export { router as paymentRoutes };
@@ -0,0 +1,244 @@
+import { Router, Response } from "express";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { RecipeService } from "../services/recipes";
+import {
+  addRecipeToPlanSchema,
+  createRecipeSchema,
+  logRecipeSchema,
+  recipeTemplateSchema,
+  updateRecipeSchema,
+} from "../types";
+
+const router = Router();
+
+const recipeErrorStatus = (message: string) =>
+  message.includes("not found")
+    ? 404
+    : message.includes("not in the food database")
+    ? 422
+    : 500;
+
+const sendError = (res: Response, error: unknown, fallback: string) => {
+  const message = error instanceof Error ? error.message : fallback;
+  res.status(recipeErrorStatus(message)).json({
+    success: false,
+    error: message,
+  });
+};
+
+router.get(
+  "/",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const recipes = await RecipeService.getRecipes(req.user.user_id);
+
+      res.json({
+        success: true,
+        data: recipes,
+      });
+    } catch (error) {
+      console.error("💥 Get recipes error:", error);
+      sendError(res, error, "Failed to get recipes");
+    }
+  }
+);
+
+router.post(
+  "/",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = createRecipeSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid recipe",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const recipe = await RecipeService.createRecipe(
+        req.user.user_id,
+        validationResult.data
+      );
+
+      res.status(201).json({
+        success: true,
+        data: recipe,
+      });
+    } catch (error) {
+      console.error("💥 Create recipe error:", error);
+      sendError(res, error, "Failed to create recipe");
+    }
+  }
+);
+
+router.get(
+  "/:id",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const recipe = await RecipeService.getRecipe(
+        parseInt(req.params.id),
+        req.user.user_id
+      );
+
+      res.json({
+        success: true,
+        data: recipe,
+      });
+    } catch (error) {
+      console.error("💥 Get recipe error:", error);
+      sendError(res, error, "Failed to get recipe");
+    }
+  }
+);
+
+router.put(
+  "/:id",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = updateRecipeSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid recipe update",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const recipe = await RecipeService.updateRecipe(
+        parseInt(req.params.id),
+        req.user.user_id,
+        validationResult.data
+      );
+
+      res.json({
+        success: true,
+        data: recipe,
+      });
+    } catch (error) {
+      console.error("💥 Update recipe error:", error);
+      sendError(res, error, "Failed to update recipe");
+    }
+  }
+);
+
+router.delete(
+  "/:id",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      await RecipeService.deleteRecipe(
+        parseInt(req.params.id),
+        req.user.user_id
+      );
+
+      res.json({
+        success: true,
+        message: "Recipe deleted",
+      });
+    } catch (error) {
+      console.error("💥 Delete recipe error:", error);
+      sendError(res, error, "Failed to delete recipe");
+    }
+  }
+);
+
+// Log a portion, by servings or by cooked weight, as a meal
+router.post(
+  "/:id/log",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = logRecipeSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid portion",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const meal = await RecipeService.logRecipe(
+        parseInt(req.params.id),
+        req.user.user_id,
+        validationResult.data
+      );
+
+      res.status(201).json({
+        success: true,
+        data: meal,
+      });
+    } catch (error) {
+      console.error("💥 Log recipe error:", error);
+      sendError(res, error, "Failed to log recipe");
+    }
+  }
+);
+
+router.post(
+  "/:id/template",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = recipeTemplateSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid template options",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const template = await RecipeService.createTemplate(
+        parseInt(req.params.id),
+        req.user.user_id,
+        validationResult.data
+      );
+
+      res.json({
+        success: true,
+        data: template,
+      });
+    } catch (error) {
+      console.error("💥 Create recipe template error:", error);
+      sendError(res, error, "Failed to create template");
+    }
+  }
+);
+
+router.post(
+  "/:id/add-to-plan",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = addRecipeToPlanSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid meal plan slot",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const schedule = await RecipeService.addToMealPlan(
+        parseInt(req.params.id),
+        req.user.user_id,
+        validationResult.data
+      );
+
+      res.json({
+        success: true,
+        data: schedule,
+      });
+    } catch (error) {
+      console.error("💥 Add recipe to meal plan error:", error);
+      sendError(res, error, "Failed to add recipe to meal plan");
+    }
+  }
+);
+
+export { router as recipeRoutes };
@@ -181,32 +181,73 @@ router.post(
   }
 );
 
-// Export report as PDF
-router.get(
-  "/export-report",
-  authenticateToken,
-  async (req: AuthRequest, res: Response) => {
-    const userId = req.user?.user_id?.toString();
-
-    if (!userId) {
-      return res.status(401).json({ error: "User not authenticated" });
+const MAX_REPORT_DAYS = 366;
+
+const reportQuerySchema = z
+  .object({
+    period: z.enum(["week", "month", "custom"]).default("week"),
+    start_date: z.coerce.date().optional(),
+    end_date: z.coerce.date().optional(),
+  })
+  .refine(
+    (query) =>
+      query.period !== "custom" || (query.start_date && query.end_date),
+    { message: "start_date and end_date are required for a custom period" }
+  )
+  .refine(
+    (query) =>
+      !query.start_date ||
+      !query.end_date ||
+      (query.start_date <= query.end_date &&
+        query.end_date.getTime() - query.start_date.getTime() <=
+          MAX_REPORT_DAYS * 24 * 60 * 60 * 1000),
+    {
+      message: `Custom period must be a valid range of at most ${MAX_REPORT_DAYS} days`,
     }
+  );
 
-    try {
-      const pdfBuffer = await StatisticsService.generatePDFReport(userId);
+// Export report as PDF
+const exportReportHandler = async (req: AuthRequest, res: Response) => {
+  const userId = req.user?.user_id?.toString();
 
-      res.setHeader("Content-Type", "application/pdf");
-      res.setHeader(
-        "Content-Disposition",
-        "attachment; filename=nutrition-report.pdf"
-      );
-      res.send(pdfBuffer);
-    } catch (error) {
-      console.error("Error generating PDF report:", error);
-      res.status(500).json({ error: "Failed to generate report" });
+  if (!userId) {
+    return res.status(401).json({ error: "User not authenticated" });
+  }
+
+  try {
+    const query = reportQuerySchema.parse(req.query);
+
+    const pdfBuffer = await StatisticsService.generatePDFReport(
+      userId,
+      query.period,
+      query.start_date,
+      query.end_date
+    );
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Length", pdfBuffer.length.toString());
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename=nutrition-report-${query.period}-${
+        new Date().toISOString().split("T")[0]
+      }.pdf`
+    );
+    res.send(pdfBuffer);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Invalid report parameters",
+        details: error.errors,
+      });
     }
+
+    console.error("Error generating PDF report:", error);
+    res.status(500).json({ error: "Failed to generate report" });
   }
-);
+};
+
+router.get("/statistics/export-report", authenticateToken, exportReportHandler);
+router.get("/export-report", authenticateToken, exportReportHandler);
 
 // Get insights and recommendations
 router.get(
@@ -0,0 +1,66 @@
+import { Router, Response } from "express";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { TdeeService } from "../services/tdee";
+import { tdeeSettingsSchema } from "../types";
+
+const router = Router();
+
+const sendError = (res: Response, error: unknown, fallback: string) => {
+  const message = error instanceof Error ? error.message : fallback;
+  res.status(message.includes("not found") ? 404 : 500).json({
+    success: false,
+    error: message,
+  });
+};
+
+// Current maintenance calorie estimate and its confidence
+router.get(
+  "/",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const estimate = await TdeeService.estimate(req.user.user_id);
+
+      res.json({
+        success: true,
+        data: estimate,
+      });
+    } catch (error) {
+      console.error("💥 Get TDEE estimate error:", error);
+      sendError(res, error, "Failed to estimate TDEE");
+    }
+  }
+);
+
+// Opt in or out of daily goals using the adaptive estimate
+router.put(
+  "/settings",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = tdeeSettingsSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid settings",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const estimate = await TdeeService.updateSettings(
+        req.user.user_id,
+        validationResult.data.adaptive_tdee_enabled
+      );
+
+      res.json({
+        success: true,
+        data: estimate,
+      });
+    } catch (error) {
+      console.error("💥 Update TDEE settings error:", error);
+      sendError(res, error, "Failed to update TDEE settings");
+    }
+  }
+);
+
+export { router as tdeeRoutes };
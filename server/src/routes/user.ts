@@ -3,12 +3,30 @@ import { prisma } from "../lib/database";
 import { updateProfileSchema } from "../types/auth";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
 import { StatisticsService } from "../services/statistics";
+import { SubscriptionService } from "../services/subscriptions";
+import { TimezoneService } from "../services/timezone";
+import { DataExportService } from "../services/dataExport";
+import { dataExportQuerySchema } from "../types/dataExport";
+import { PushNotificationService } from "../services/pushNotifications";
+import { pushTokenSchema, registerPushTokenSchema } from "../types/push";
+import { XpService } from "../services/xp";
+import { xpHistoryQuerySchema } from "../types/xp";
+import { isValidTimeZone } from "../utils/timezone";
+import {
+  getEntitlements,
+  getPlanCatalog,
+  getPlanPricing,
+} from "../config/planLimits";
 import { z } from "zod";
 
 const avatarUploadSchema = z.object({
   avatar_base64: z.string().min(100, "Avatar image data is required"),
 });
 
+const timezoneSchema = z.object({
+  timezone: z.string().refine(isValidTimeZone, "Invalid IANA timezone"),
+});
+
 const router = Router();
 
 router.put(
@@ -33,8 +51,10 @@ router.put(
           created_at: true,
           email_verified: true,
           is_questionnaire_completed: true,
+          timezone: true,
         },
       });
+      TimezoneService.clearCache(updatedUser.user_id);
 
       res.json({
         success: true,
@@ -121,7 +141,8 @@ router.post("/avatar", authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
-// src/routes/user.ts
+// Paid plans are only granted by a verified payment webhook (see routes/payments.ts);
+// this endpoint can only move the user back to the FREE plan
 router.put(
   "/subscription",
   authenticateToken,
@@ -130,18 +151,27 @@ router.put(
       const userId = req.user?.user_id;
       const { subscription_type } = req.body;
 
-      if (!["FREE", "PREMIUM", "GOLD"].includes(subscription_type)) {
+      if (getPlanPricing(subscription_type)) {
+        return res.status(402).json({
+          success: false,
+          error: "Paid plans require checkout",
+          checkout_endpoint: "/api/payments/checkout",
+        });
+      }
+
+      if (subscription_type !== "FREE") {
         return res
           .status(400)
           .json({ success: false, error: "Invalid subscription type" });
       }
 
-      await prisma.user.update({
-        where: { user_id: userId },
-        data: { subscription_type },
-      });
+      const subscription = await SubscriptionService.downgradeToFree(userId);
 
-      return res.json({ success: true, message: "Subscription updated" });
+      return res.json({
+        success: true,
+        message: "Subscription updated",
+        data: subscription,
+      });
     } catch (error) {
       console.error("Subscription update error:", error);
       return res
@@ -155,24 +185,17 @@ router.get(
   "/subscription-info",
   authenticateToken,
   async (req: AuthRequest, res) => {
-    const subscriptionInfo = {
-      FREE: { dailyRequests: 2, name: "Free Plan" },
-      BASIC: { dailyRequests: 20, name: "Basic Plan" },
-      PREMIUM: { dailyRequests: 50, name: "Premium Plan" },
-    };
-
-    const userSubscriptionType = req.user?.subscription_type;
-    const info =
-      subscriptionInfo[userSubscriptionType as keyof typeof subscriptionInfo] ||
-      subscriptionInfo.FREE;
+    const plan = getEntitlements(req.user?.subscription_type);
 
     res.json({
       success: true,
       subscription: {
-        ...info,
+        ...plan,
+        subscriptionEnd: req.user?.subscription_end,
         currentRequests: req.user?.ai_requests_count,
         resetAt: req.user?.ai_requests_reset_at,
       },
+      plans: getPlanCatalog(),
     });
   }
 );
@@ -321,6 +344,126 @@ router.patch(
   }
 );
 
+// Days (goals, streaks, statistics) are counted in this timezone
+router.put(
+  "/timezone",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const validationResult = timezoneSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid timezone",
+          details: validationResult.error.errors,
+        });
+      }
+
+      await TimezoneService.setUserTimeZone(
+        req.user.user_id,
+        validationResult.data.timezone
+      );
+
+      res.json({
+        success: true,
+        data: { timezone: validationResult.data.timezone },
+      });
+    } catch (error) {
+      console.error("💥 Update timezone error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to update timezone",
+      });
+    }
+  }
+);
+
+// PERSONAL DATA EXPORT ENDPOINTS
+// Small accounts get the zip straight away; large ones (or ?background=true)
+// get 202 with an export to poll, and the download link is emailed
+router.get("/export", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const validationResult = dataExportQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid export request",
+        details: validationResult.error.errors,
+      });
+    }
+
+    const result = await DataExportService.requestExport(
+      req.user.user_id,
+      validationResult.data.background
+    );
+
+    if ("archive" in result) {
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Length", result.archive.length.toString());
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename=${result.filename}`
+      );
+      return res.send(result.archive);
+    }
+
+    res.status(202).json({ success: true, data: result.export });
+  } catch (error) {
+    console.error("💥 Data export error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to export data",
+    });
+  }
+});
+
+// Emailed download link; the token is the only credential
+router.get("/export/download/:token", async (req, res) => {
+  try {
+    const { archive, filename } = await DataExportService.getDownload(
+      req.params.token
+    );
+
+    res.setHeader("Content-Type", "application/zip");
+    res.setHeader("Content-Length", archive.length.toString());
+    res.setHeader("Content-Disposition", `attachment; filename=${filename}`);
+    res.send(archive);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return res.status(404).json({ success: false, error: error.message });
+    }
+    console.error("💥 Data export download error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to download export",
+    });
+  }
+});
+
+router.get(
+  "/export/:exportId",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const dataExport = await DataExportService.getExport(
+        req.user.user_id,
+        req.params.exportId
+      );
+
+      res.json({ success: true, data: dataExport });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("not found")) {
+        return res.status(404).json({ success: false, error: error.message });
+      }
+      console.error("💥 Data export status error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch export",
+      });
+    }
+  }
+);
+
 // DELETE USER ENDPOINT (Permanent deletion with related data cleanup)
 router.delete(
   "/delete",
@@ -347,6 +490,9 @@ router.delete(
         });
 
         // Delete user goals/targets
+        await tx.activitySample.deleteMany({
+          where: { user_id: req.user?.user_id },
+        });
         await tx.dailyActivitySummary.deleteMany({
           where: { user_id: req.user?.user_id },
         });
@@ -416,41 +562,87 @@ router.delete(
 );
 
 // STORE PUSH TOKEN ENDPOINT
+// Called on every app start so last_seen stays fresh
 router.post("/push-token", authenticateToken, async (req: AuthRequest, res) => {
   try {
-    const { pushToken } = req.body;
-
-    if (!pushToken || typeof pushToken !== "string") {
+    const validationResult = registerPushTokenSchema.safeParse(req.body);
+    if (!validationResult.success) {
       return res.status(400).json({
         success: false,
-        error: "Valid push token is required",
+        error: "Valid push token and platform are required",
+        details: validationResult.error.errors,
+      });
+    }
+
+    const pushToken = await PushNotificationService.registerToken(
+      req.user.user_id,
+      validationResult.data
+    );
+
+    res.json({ success: true, data: pushToken });
+  } catch (error) {
+    console.error("💥 Error storing push token:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to store push token",
+    });
+  }
+});
+
+// REMOVE PUSH TOKEN ENDPOINT (sign-out on a device)
+router.delete(
+  "/push-token",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const validationResult = pushTokenSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Valid push token is required",
+          details: validationResult.error.errors,
+        });
+      }
+
+      await PushNotificationService.unregisterToken(
+        req.user.user_id,
+        validationResult.data.pushToken
+      );
+
+      res.json({ success: true, message: "Push token removed" });
+    } catch (error) {
+      console.error("💥 Error removing push token:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to remove push token",
       });
     }
+  }
+);
 
-    // Validate token length (Expo push tokens are around 40-50 characters)
-    if (pushToken.length > 200) {
+// XP history: every award, correction and the resulting totals
+router.get("/xp-history", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const validationResult = xpHistoryQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
       return res.status(400).json({
         success: false,
-        error: "Push token is too long",
+        error: "Invalid XP history query",
+        details: validationResult.error.errors,
       });
     }
 
-    // Store push token in user metadata or create a separate tokens table
-    // For now, just log it (implement proper storage based on your schema)
-    console.log(
-      `📱 Push token received for user ${req.user?.user_id}:`,
-      pushToken.substring(0, 20) + "..."
+    const history = await XpService.getHistory(
+      req.user.user_id,
+      validationResult.data
     );
 
-    res.json({
-      success: true,
-      message: "Push token received (local notifications only in Expo Go)",
-    });
+    res.json({ success: true, data: history });
   } catch (error) {
-    console.error("💥 Error storing push token:", error);
+    console.error("💥 XP history error:", error);
     res.status(500).json({
       success: false,
-      error: "Failed to store push token",
+      error: "Failed to fetch XP history",
     });
   }
 });
@@ -571,19 +763,13 @@ router.get("/stats", authenticateToken, async (req: AuthRequest, res) => {
 
     try {
       // Get today's water intake with timeout
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const tomorrow = new Date(today);
-      tomorrow.setDate(tomorrow.getDate() + 1);
+      const today = new Date(await TimezoneService.getUserDate(userId));
 
       const todayWaterIntake = await Promise.race([
         prisma.waterIntake.aggregate({
           where: {
             user_id: userId,
-            date: {
-              gte: today,
-              lt: tomorrow,
-            },
+            date: today,
           },
           _sum: {
             milliliters_consumed: true,
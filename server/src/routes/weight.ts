@@ -0,0 +1,163 @@
+import { Router, Response } from "express";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { WeightService } from "../services/weight";
+import { createWeightEntrySchema, updateWeightEntrySchema } from "../types";
+
+const router = Router();
+
+const sendError = (res: Response, error: unknown, fallback: string) => {
+  const message = error instanceof Error ? error.message : fallback;
+  res.status(message.includes("not found") ? 404 : 500).json({
+    success: false,
+    error: message,
+  });
+};
+
+const parseDays = (value: unknown, fallback: number) => {
+  const days = parseInt(String(value));
+  return Number.isInteger(days) && days > 0 ? Math.min(days, 730) : fallback;
+};
+
+router.get(
+  "/",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const entries = await WeightService.getEntries(
+        req.user.user_id,
+        parseDays(req.query.days, 90)
+      );
+
+      res.json({
+        success: true,
+        data: entries,
+      });
+    } catch (error) {
+      console.error("💥 Get weight entries error:", error);
+      sendError(res, error, "Failed to get weight entries");
+    }
+  }
+);
+
+router.get(
+  "/trend",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const trend = await WeightService.getTrend(
+        req.user.user_id,
+        parseDays(req.query.days, 90)
+      );
+
+      res.json({
+        success: true,
+        data: trend,
+      });
+    } catch (error) {
+      console.error("💥 Get weight trend error:", error);
+      sendError(res, error, "Failed to get weight trend");
+    }
+  }
+);
+
+router.get(
+  "/progress",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const progress = await WeightService.getProgress(req.user.user_id);
+
+      res.json({
+        success: true,
+        data: progress,
+      });
+    } catch (error) {
+      console.error("💥 Get weight progress error:", error);
+      sendError(res, error, "Failed to get weight progress");
+    }
+  }
+);
+
+router.post(
+  "/",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = createWeightEntrySchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid weight entry",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const entry = await WeightService.addEntry(
+        req.user.user_id,
+        validationResult.data
+      );
+
+      res.status(201).json({
+        success: true,
+        data: entry,
+      });
+    } catch (error) {
+      console.error("💥 Add weight entry error:", error);
+      sendError(res, error, "Failed to add weight entry");
+    }
+  }
+);
+
+router.put(
+  "/:id",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = updateWeightEntrySchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid weight entry",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const entry = await WeightService.updateEntry(
+        req.user.user_id,
+        parseInt(req.params.id),
+        validationResult.data
+      );
+
+      res.json({
+        success: true,
+        data: entry,
+      });
+    } catch (error) {
+      console.error("💥 Update weight entry error:", error);
+      sendError(res, error, "Failed to update weight entry");
+    }
+  }
+);
+
+router.delete(
+  "/:id",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      await WeightService.deleteEntry(
+        req.user.user_id,
+        parseInt(req.params.id)
+      );
+
+      res.json({
+        success: true,
+        message: "Weight entry deleted",
+      });
+    } catch (error) {
+      console.error("💥 Delete weight entry error:", error);
+      sendError(res, error, "Failed to delete weight entry");
+    }
+  }
+);
+
+export { router as weightRoutes };
@@ -0,0 +1,214 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { AchievementRuleEngine } from "./achievementRules";
+import { AchievementRuleContext, DayValues } from "../types/achievementRules";
+
+const TODAY = "2026-03-15"; // a Sunday
+
+const context = (
+  days: Record<string, DayValues> = {},
+  stats: AchievementRuleContext["stats"] = {}
+): AchievementRuleContext => ({
+  stats,
+  days: new Map(Object.entries(days)),
+  today: TODAY,
+});
+
+const evaluate = (source: string, ruleContext: AchievementRuleContext) =>
+  AchievementRuleEngine.evaluate(
+    AchievementRuleEngine.parse(source),
+    ruleContext
+  );
+
+describe("stat rules", () => {
+  test("read the lifetime counter", () => {
+    const rule = AchievementRuleEngine.parse("level >= 5");
+
+    assert.deepEqual(rule, { type: "stat", stat: "level", threshold: 5 });
+    assert.equal(evaluate("level >= 5", context({}, { level: 3 })), 3);
+    assert.equal(evaluate("level >= 5", context()), 0);
+  });
+
+  test("cap progress at the threshold", () => {
+    const rule = AchievementRuleEngine.parse("current_streak >= 7");
+
+    assert.equal(
+      AchievementRuleEngine.progress(rule, context({}, { current_streak: 12 })),
+      7
+    );
+  });
+});
+
+describe("days rules", () => {
+  test("count days matching every condition", () => {
+    const days = {
+      "2026-03-10": { protein_g: 120, fiber_g: 20 },
+      "2026-03-11": { protein_g: 90, fiber_g: 40 },
+      "2026-03-12": { protein_g: 110, fiber_g: 36 },
+    };
+
+    assert.equal(evaluate("days(protein_g >= 100) >= 1", context(days)), 2);
+    assert.equal(
+      evaluate("days(protein_g >= 100 and fiber_g >= 35) >= 1", context(days)),
+      1
+    );
+  });
+
+  test("never match a day missing the metric", () => {
+    const days = { "2026-03-10": { meals: 2 } };
+
+    assert.equal(evaluate("days(first_meal_hour < 8) >= 1", context(days)), 0);
+  });
+
+  test("support every comparison", () => {
+    const days = { "2026-03-10": { meals: 3 } };
+
+    assert.equal(evaluate("days(meals == 3) >= 1", context(days)), 1);
+    assert.equal(evaluate("days(meals > 3) >= 1", context(days)), 0);
+    assert.equal(evaluate("days(meals <= 3) >= 1", context(days)), 1);
+    assert.equal(evaluate("days(meals < 3) >= 1", context(days)), 0);
+  });
+});
+
+describe("streak rules", () => {
+  test("measure the longest run of consecutive matching days", () => {
+    const days = {
+      "2026-03-01": { water_cups: 8 },
+      "2026-03-02": { water_cups: 9 },
+      "2026-03-03": { water_cups: 4 },
+      "2026-03-04": { water_cups: 8 },
+      "2026-03-05": { water_cups: 8 },
+      "2026-03-06": { water_cups: 10 },
+      // A gap with no data breaks the run
+      "2026-03-08": { water_cups: 8 },
+    };
+
+    assert.equal(evaluate("streak(water_cups >= 8) >= 7", context(days)), 3);
+  });
+
+  test("run across month ends", () => {
+    const days = {
+      "2026-02-27": { meals: 1 },
+      "2026-02-28": { meals: 2 },
+      "2026-03-01": { meals: 1 },
+    };
+
+    assert.equal(evaluate("streak(meals >= 1) >= 7", context(days)), 3);
+  });
+});
+
+describe("weekends rules", () => {
+  test("count weekends where Saturday and Sunday both match", () => {
+    const days = {
+      // Full weekend
+      "2026-03-07": { water_cups: 8 },
+      "2026-03-08": { water_cups: 8 },
+      // Saturday only
+      "2026-02-28": { water_cups: 8 },
+      "2026-03-01": { water_cups: 2 },
+      // Sunday and Monday
+      "2026-02-22": { water_cups: 8 },
+      "2026-02-23": { water_cups: 8 },
+    };
+
+    assert.equal(evaluate("weekends(water_cups >= 8) >= 1", context(days)), 1);
+  });
+});
+
+describe("sum rules", () => {
+  test("add up a day metric", () => {
+    const days = {
+      "2026-03-13": { steps: 12000 },
+      "2026-03-14": { steps: 8000 },
+      "2026-03-15": { meals: 2 },
+    };
+
+    assert.equal(evaluate("sum(steps) >= 100000", context(days)), 20000);
+  });
+});
+
+describe("windows", () => {
+  const days = {
+    "2026-03-01": { steps: 5000, meals: 1 },
+    "2026-03-09": { steps: 5000, meals: 1 },
+    "2026-03-15": { steps: 5000, meals: 1 },
+  };
+
+  test("only look at the last N days, today included", () => {
+    assert.equal(evaluate("sum(steps) >= 10000 over 7d", context(days)), 10000);
+    assert.equal(evaluate("days(meals >= 1) >= 2 over 1d", context(days)), 1);
+    assert.equal(evaluate("days(meals >= 1) >= 2", context(days)), 3);
+  });
+
+  test("ignore days after today", () => {
+    const future = { ...days, "2026-03-16": { steps: 5000, meals: 1 } };
+
+    assert.equal(evaluate("sum(steps) >= 10000", context(future)), 15000);
+  });
+});
+
+describe("parsing", () => {
+  test("is case and whitespace tolerant", () => {
+    assert.deepEqual(
+      AchievementRuleEngine.parse(
+        "  Streak( Meals>=1 AND water_cups >= 8 )>=7 "
+      ),
+      {
+        type: "streak",
+        conditions: [
+          { metric: "meals", comparison: ">=", value: 1 },
+          { metric: "water_cups", comparison: ">=", value: 8 },
+        ],
+        threshold: 7,
+      }
+    );
+  });
+
+  test("rejects unknown names and malformed rules", () => {
+    const invalid = [
+      ["karma >= 5", /unknown stat "karma"/],
+      ["days(karma >= 5) >= 1", /unknown day metric "karma"/],
+      ["sum(karma) >= 5", /unknown day metric "karma"/],
+      ["days(meals ~ 1) >= 1", /cannot read condition/],
+      ["level >= 0", /threshold must be at least 1/],
+      ["days(meals >= 1) >= 1 over 0d", /window must be at least 1 day/],
+      ["level > 5", /expected/],
+    ] as const;
+
+    for (const [source, message] of invalid) {
+      assert.throws(() => AchievementRuleEngine.parse(source), message);
+    }
+  });
+
+  test("validate checks the threshold against max_progress", () => {
+    assert.doesNotThrow(() => AchievementRuleEngine.validate("level >= 5", 5));
+    assert.throws(
+      () => AchievementRuleEngine.validate("level >= 5", 10),
+      /does not match max_progress 10/
+    );
+  });
+
+  test("every seeded achievement has a valid rule", () => {
+    const [header, ...lines] = fs
+      .readFileSync(
+        path.join(__dirname, "../../prisma/seed-achievements.csv"),
+        "utf8"
+      )
+      .trim()
+      .split("\n");
+    const columns = header.split(",");
+
+    for (const line of lines) {
+      const values = line.split(",");
+      const rule = values[columns.indexOf("rule")];
+      const maxProgress = Number(values[columns.indexOf("max_progress")]);
+
+      assert.doesNotThrow(
+        () => AchievementRuleEngine.validate(rule, maxProgress),
+        `rule of ${values[columns.indexOf("key")]}`
+      );
+    }
+  });
+});
@@ -0,0 +1,242 @@
+import { addDays } from "../utils/timezone";
+import {
+  ACHIEVEMENT_DAY_METRICS,
+  ACHIEVEMENT_STATS,
+  AchievementDayMetric,
+  AchievementRule,
+  AchievementRuleContext,
+  AchievementStat,
+  DayCondition,
+  DayValues,
+  RuleComparison,
+} from "../types/achievementRules";
+
+const STAT_RULE = /^([a-z_]+)\s*>=\s*(\d+)$/;
+const DAY_RULE =
+  /^(days|streak|weekends)\s*\((.+)\)\s*>=\s*(\d+)(?:\s+over\s+(\d+)d)?$/;
+const SUM_RULE =
+  /^sum\s*\(\s*([a-z_]+)\s*\)\s*>=\s*(\d+)(?:\s+over\s+(\d+)d)?$/;
+const CONDITION = /^([a-z_]+)\s*(>=|>|<=|<|==)\s*(-?\d+(?:\.\d+)?)$/;
+
+const parsedRules = new Map<string, AchievementRule>();
+
+const isSaturday = (date: string) =>
+  new Date(`${date}T00:00:00Z`).getUTCDay() === 6;
+
+const compare = (actual: number, comparison: RuleComparison, value: number) => {
+  switch (comparison) {
+    case ">=":
+      return actual >= value;
+    case ">":
+      return actual > value;
+    case "<=":
+      return actual <= value;
+    case "<":
+      return actual < value;
+    case "==":
+      return actual === value;
+  }
+};
+
+/**
+ * Parses and evaluates the achievement rules stored with each achievement.
+ *
+ *   level >= 5
+ *   days(fiber_g >= 35) >= 1
+ *   streak(protein_g >= 30 and water_cups >= 8) >= 7
+ *   weekends(meals >= 1) >= 4 over 60d
+ *   sum(steps) >= 100000 over 14d
+ */
+export class AchievementRuleEngine {
+  static parse(source: string): AchievementRule {
+    const cached = parsedRules.get(source);
+    if (cached) return cached;
+
+    const rule = this.parseRule(source.trim().toLowerCase(), source);
+    parsedRules.set(source, rule);
+    return rule;
+  }
+
+  /**
+   * Parse a rule and check it agrees with the achievement's max_progress,
+   * which is the threshold progress is shown against
+   */
+  static validate(source: string, maxProgress: number): AchievementRule {
+    const rule = this.parse(source);
+    if (rule.threshold !== maxProgress) {
+      throw new Error(
+        `Invalid achievement rule "${source}": threshold ${rule.threshold} does not match max_progress ${maxProgress}`
+      );
+    }
+    return rule;
+  }
+
+  /**
+   * Progress towards the rule's threshold, capped at the threshold
+   */
+  static progress(
+    rule: AchievementRule,
+    context: AchievementRuleContext
+  ): number {
+    return Math.min(this.evaluate(rule, context), rule.threshold);
+  }
+
+  static evaluate(
+    rule: AchievementRule,
+    context: AchievementRuleContext
+  ): number {
+    if (rule.type === "stat") {
+      return context.stats[rule.stat] || 0;
+    }
+
+    const firstDay = rule.windowDays
+      ? addDays(context.today, -(rule.windowDays - 1))
+      : "";
+    const inWindow = [...context.days.entries()].filter(
+      ([date]) => date >= firstDay && date <= context.today
+    );
+
+    if (rule.type === "sum") {
+      return inWindow.reduce(
+        (total, [, values]) => total + (values[rule.metric] || 0),
+        0
+      );
+    }
+
+    const matching = new Set(
+      inWindow
+        .filter(([, values]) => this.matches(rule.conditions, values))
+        .map(([date]) => date)
+    );
+
+    switch (rule.type) {
+      case "days":
+        return matching.size;
+      case "streak":
+        return this.longestRun(matching);
+      case "weekends":
+        return [...matching].filter(
+          (date) => isSaturday(date) && matching.has(addDays(date, 1))
+        ).length;
+    }
+  }
+
+  private static matches(conditions: DayCondition[], values: DayValues) {
+    return conditions.every((condition) => {
+      const actual = values[condition.metric];
+      // A day without the metric (e.g. no meals logged) never matches
+      return (
+        actual !== undefined &&
+        compare(actual, condition.comparison, condition.value)
+      );
+    });
+  }
+
+  private static longestRun(dates: Set<string>) {
+    let longest = 0;
+    for (const date of dates) {
+      // Only count from the first day of each run
+      if (dates.has(addDays(date, -1))) continue;
+
+      let length = 1;
+      while (dates.has(addDays(date, length))) length++;
+      longest = Math.max(longest, length);
+    }
+    return longest;
+  }
+
+  private static parseRule(rule: string, source: string): AchievementRule {
+    const invalid = (reason: string) =>
+      new Error(`Invalid achievement rule "${source}": ${reason}`);
+
+    const statMatch = rule.match(STAT_RULE);
+    if (statMatch) {
+      const [, stat, threshold] = statMatch;
+      if (!ACHIEVEMENT_STATS.includes(stat as AchievementStat)) {
+        throw invalid(`unknown stat "${stat}"`);
+      }
+      return {
+        type: "stat",
+        stat: stat as AchievementStat,
+        threshold: this.parseThreshold(threshold, invalid),
+      };
+    }
+
+    const sumMatch = rule.match(SUM_RULE);
+    if (sumMatch) {
+      const [, metric, threshold, windowDays] = sumMatch;
+      return {
+        type: "sum",
+        metric: this.parseMetric(metric, invalid),
+        threshold: this.parseThreshold(threshold, invalid),
+        ...this.parseWindow(windowDays, invalid),
+      };
+    }
+
+    const dayMatch = rule.match(DAY_RULE);
+    if (!dayMatch) {
+      throw invalid(
+        'expected "<stat> >= N", "sum(<metric>) >= N [over Nd]" or "days|streak|weekends(<conditions>) >= N [over Nd]"'
+      );
+    }
+
+    const [, type, conditions, threshold, windowDays] = dayMatch;
+    return {
+      type: type as "days" | "streak" | "weekends",
+      conditions: conditions
+        .split(/\s+and\s+/)
+        .map((condition) => this.parseCondition(condition.trim(), invalid)),
+      threshold: this.parseThreshold(threshold, invalid),
+      ...this.parseWindow(windowDays, invalid),
+    };
+  }
+
+  private static parseCondition(
+    condition: string,
+    invalid: (reason: string) => Error
+  ): DayCondition {
+    const match = condition.match(CONDITION);
+    if (!match) {
+      throw invalid(`cannot read condition "${condition}"`);
+    }
+
+    const [, metric, comparison, value] = match;
+    return {
+      metric: this.parseMetric(metric, invalid),
+      comparison: comparison as RuleComparison,
+      value: Number(value),
+    };
+  }
+
+  private static parseMetric(
+    metric: string,
+    invalid: (reason: string) => Error
+  ): AchievementDayMetric {
+    if (!ACHIEVEMENT_DAY_METRICS.includes(metric as AchievementDayMetric)) {
+      throw invalid(`unknown day metric "${metric}"`);
+    }
+    return metric as AchievementDayMetric;
+  }
+
+  private static parseWindow(
+    windowDays: string | undefined,
+    invalid: (reason: string) => Error
+  ) {
+    if (windowDays === undefined) return {};
+    if (Number(windowDays) < 1) {
+      throw invalid("window must be at least 1 day");
+    }
+    return { windowDays: Number(windowDays) };
+  }
+
+  private static parseThreshold(
+    threshold: string,
+    invalid: (reason: string) => Error
+  ) {
+    const value = Number(threshold);
+    if (value < 1) {
+      throw invalid("threshold must be at least 1");
+    }
+    return value;
+  }
+}
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { AchievementService } from "./achievements";
+import { ActivityMergeService } from "./activityMerge";
+import { TimezoneService } from "./timezone";
+import { stubPrisma } from "../test/stubPrisma";
+
+const user = {
+  current_streak: 0,
+  best_streak: 0,
+  total_complete_days: 0,
+  level: 1,
+  total_points: 0,
+  ai_requests_count: 0,
+};
+
+describe("AchievementService rule context", () => {
+  let restorePrisma: () => void;
+
+  beforeEach(() => {
+    restorePrisma = stubPrisma({
+      meal: {
+        findMany: async () => [
+          // One 2000 kcal meal on a day with a 2500 kcal goal
+          { created_at: new Date("2026-03-10T12:00:00Z"), calories: 2000 },
+          // Two meals adding up to the goal
+          { created_at: new Date("2026-03-11T08:00:00Z"), calories: 1200 },
+          { created_at: new Date("2026-03-11T19:00:00Z"), calories: 1300 },
+        ],
+      },
+      waterIntake: {
+        findMany: async () => [
+          // Eight cups short of a 3 liter goal
+          {
+            date: new Date("2026-03-10"),
+            cups_consumed: 8,
+            milliliters_consumed: 2000,
+          },
+          {
+            date: new Date("2026-03-11"),
+            cups_consumed: 12,
+            milliliters_consumed: 3000,
+          },
+          // No goal stored: held to the default
+          {
+            date: new Date("2026-03-12"),
+            cups_consumed: 10,
+            milliliters_consumed: 2500,
+          },
+        ],
+      },
+      dailyGoal: {
+        findMany: async () =>
+          ["2026-03-10", "2026-03-11"].map((date) => ({
+            date: new Date(date),
+            calories: 2500,
+            protein_g: 100,
+            carbs_g: 300,
+            fats_g: 80,
+            water_ml: 3000,
+          })),
+      },
+    });
+    mock.method(ActivityMergeService, "getMergedDays", async () => []);
+    mock.method(TimezoneService, "getUserTimeZone", async () => "UTC");
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    restorePrisma();
+  });
+
+  test("counts goal days from each day's totals and goals", async () => {
+    const context = await AchievementService["buildRuleContext"](
+      "user-1",
+      user
+    );
+
+    assert.equal(context.stats.calorie_goal_days, 1);
+    assert.equal(context.stats.water_goal_days, 2);
+  });
+
+  test("rates water against the day's goal", async () => {
+    const days = await AchievementService.loadDayValues("user-1", "UTC");
+
+    assert.equal(days.get("2026-03-10")?.water_goal_pct, (2000 / 3000) * 100);
+    assert.equal(days.get("2026-03-11")?.water_goal_pct, 100);
+    assert.equal(days.get("2026-03-12")?.water_goal_pct, 100);
+    assert.equal(days.get("2026-03-11")?.calories_goal_pct, 100);
+  });
+});
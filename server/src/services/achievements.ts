@@ -1,14 +1,29 @@
 import { prisma } from "../lib/database";
-
-export interface UserStats {
-  currentStreak: number;
-  bestStreak: number;
-  totalCompleteDays: number;
-  level: number;
-  totalWaterGoals: number;
-  totalCalorieGoals: number;
-  totalXP: number;
-  aiRequestsCount: number;
+import { TimezoneService } from "./timezone";
+import { PushNotificationService } from "./pushNotifications";
+import { ActivityMergeService } from "./activityMerge";
+import { XpService } from "./xp";
+import { AchievementRuleEngine } from "./achievementRules";
+import { DEFAULT_WATER_GOAL_ML } from "../config/hydration";
+import {
+  addDays,
+  localDateString,
+  localHour,
+  startOfLocalDay,
+} from "../utils/timezone";
+import {
+  AchievementRule,
+  AchievementRuleContext,
+  DayValues,
+} from "../types/achievementRules";
+
+export interface RuleStatsSource {
+  current_streak: number | null;
+  best_streak: number | null;
+  total_complete_days: number | null;
+  level: number | null;
+  total_points: number | null;
+  ai_requests_count: number | null;
 }
 
 export interface Achievement {
@@ -85,85 +100,233 @@ export class AchievementService {
     });
   }
 
+  // Parsed rule of an achievement; a missing or broken rule never unlocks
+  private static getRule(achievement: {
+    key: string;
+    rule: string | null;
+  }): AchievementRule | null {
+    if (!achievement.rule) return null;
+
+    try {
+      return AchievementRuleEngine.parse(achievement.rule);
+    } catch (error) {
+      console.warn(`⚠️ Achievement ${achievement.key}:`, error);
+      return null;
+    }
+  }
+
   // Calculate current progress for an achievement
   private static calculateAchievementProgress(
-    achievement: any,
-    userStats: UserStats
+    achievement: { key: string; rule: string | null; max_progress: number },
+    context: AchievementRuleContext
   ): number {
-    switch (achievement.key) {
-      case "first_scan":
-        return Math.min(userStats.aiRequestsCount, achievement.max_progress);
-      case "first_water_goal":
-        return Math.min(userStats.totalWaterGoals, achievement.max_progress);
-      case "water_warrior":
-        return Math.min(userStats.totalWaterGoals, 10);
-      case "hydration_habit":
-        return Math.min(userStats.totalWaterGoals, 7);
-      case "aqua_master":
-        return Math.min(userStats.totalWaterGoals, 30);
-      case "water_warrior":
-        return Math.min(userStats.totalWaterGoals, 10);
-      case "hydration_habit":
-        return Math.min(userStats.totalWaterGoals, 7);
-      case "aqua_master":
-        return Math.min(userStats.totalWaterGoals, 30);
-      case "first_complete_day":
-        return Math.min(userStats.totalCompleteDays, 1);
-      case "total_5_days":
-        return Math.min(userStats.totalCompleteDays, 5);
-      case "total_10_days":
-        return Math.min(userStats.totalCompleteDays, 10);
-      case "total_25_days":
-        return Math.min(userStats.totalCompleteDays, 25);
-      case "total_50_days":
-        return Math.min(userStats.totalCompleteDays, 50);
-      case "total_100_days":
-        return Math.min(userStats.totalCompleteDays, 100);
-      case "total_5_days":
-        return Math.min(userStats.totalCompleteDays, 5);
-      case "total_10_days":
-        return Math.min(userStats.totalCompleteDays, 10);
-      case "total_25_days":
-        return Math.min(userStats.totalCompleteDays, 25);
-      case "total_50_days":
-        return Math.min(userStats.totalCompleteDays, 50);
-      case "total_100_days":
-        return Math.min(userStats.totalCompleteDays, 100);
-      case "streak_3_days":
-        return Math.min(userStats.currentStreak, 3);
-      case "streak_7_days":
-        return Math.min(userStats.currentStreak, 7);
-      case "streak_14_days":
-        return Math.min(userStats.currentStreak, 14);
-      case "streak_30_days":
-        return Math.min(userStats.currentStreak, 30);
-      case "streak_100_days":
-        return Math.min(userStats.currentStreak, 100);
-      case "level_5":
-        return Math.min(userStats.level, 5);
-      case "level_10":
-        return Math.min(userStats.level, 10);
-      case "level_25":
-        return Math.min(userStats.level, 25);
-      case "level_50":
-        return Math.min(userStats.level, 50);
-      case "streak_14_days":
-        return Math.min(userStats.currentStreak, 14);
-      case "streak_30_days":
-        return Math.min(userStats.currentStreak, 30);
-      case "streak_100_days":
-        return Math.min(userStats.currentStreak, 100);
-      case "level_5":
-        return Math.min(userStats.level, 5);
-      case "level_10":
-        return Math.min(userStats.level, 10);
-      case "level_25":
-        return Math.min(userStats.level, 25);
-      case "level_50":
-        return Math.min(userStats.level, 50);
-      default:
-        return 0;
+    const rule = this.getRule(achievement);
+    if (!rule) return 0;
+
+    return Math.min(
+      AchievementRuleEngine.progress(rule, context),
+      achievement.max_progress
+    );
+  }
+
+  /**
+   * Rule progress towards each achievement, keyed by achievement id
+   */
+  static async getAchievementProgress(
+    userId: string,
+    user: RuleStatsSource,
+    achievements: {
+      id: string;
+      key: string;
+      rule: string | null;
+      max_progress: number;
+    }[]
+  ): Promise<Map<string, number>> {
+    if (achievements.length === 0) return new Map();
+
+    const context = await this.buildRuleContext(userId, user);
+    return new Map(
+      achievements.map((achievement) => [
+        achievement.id,
+        this.calculateAchievementProgress(achievement, context),
+      ])
+    );
+  }
+
+  /**
+   * Load what the achievements' rules are evaluated against. The goal-day
+   * counters come from the same per-day values as the day rules.
+   */
+  private static async buildRuleContext(
+    userId: string,
+    user: RuleStatsSource
+  ): Promise<AchievementRuleContext> {
+    const timeZone = await TimezoneService.getUserTimeZone(userId);
+    const today = localDateString(new Date(), timeZone);
+    const days = await this.loadDayValues(userId, timeZone);
+
+    const countDays = (reached: (values: DayValues) => boolean) =>
+      [...days.values()].filter(reached).length;
+
+    return {
+      stats: {
+        current_streak: user.current_streak || 0,
+        best_streak: user.best_streak || 0,
+        complete_days: user.total_complete_days || 0,
+        level: user.level || 1,
+        total_xp: user.total_points || 0,
+        ai_requests: user.ai_requests_count || 0,
+        water_goal_days: countDays(
+          (values) => (values.water_goal_pct || 0) >= 100
+        ),
+        calorie_goal_days: countDays(
+          (values) => (values.calories_goal_pct || 0) >= 100
+        ),
+      },
+      days,
+      today,
+    };
+  }
+
+  /**
+   * Per-day meal, water, goal and device activity values on the user's
+   * calendar days, optionally limited to since..until (YYYY-MM-DD)
+   */
+  static async loadDayValues(
+    userId: string,
+    timeZone: string,
+    since?: string,
+    until?: string
+  ): Promise<Map<string, DayValues>> {
+    const storedDate = {
+      ...(since && { gte: new Date(since) }),
+      ...(until && { lte: new Date(until) }),
+    };
+
+    const [meals, waterIntakes, dailyGoals, activityDays] = await Promise.all([
+      prisma.meal.findMany({
+        where: {
+          user_id: userId,
+          created_at: {
+            ...(since && { gte: startOfLocalDay(since, timeZone) }),
+            ...(until && {
+              lt: startOfLocalDay(addDays(until, 1), timeZone),
+            }),
+          },
+        },
+        select: {
+          created_at: true,
+          calories: true,
+          protein_g: true,
+          carbs_g: true,
+          fats_g: true,
+          fiber_g: true,
+          sugar_g: true,
+          sodium_mg: true,
+        },
+      }),
+      prisma.waterIntake.findMany({
+        where: { user_id: userId, date: storedDate },
+        select: { date: true, cups_consumed: true, milliliters_consumed: true },
+      }),
+      prisma.dailyGoal.findMany({
+        where: { user_id: userId, date: storedDate },
+        select: {
+          date: true,
+          calories: true,
+          protein_g: true,
+          carbs_g: true,
+          fats_g: true,
+          water_ml: true,
+        },
+      }),
+      ActivityMergeService.getMergedDays(
+        userId,
+        since || "1970-01-01",
+        until || localDateString(new Date(), timeZone)
+      ),
+    ]);
+
+    const days = new Map<string, DayValues>();
+    const dayOf = (date: string) => {
+      let values = days.get(date);
+      if (!values) {
+        values = {};
+        days.set(date, values);
+      }
+      return values;
+    };
+
+    for (const meal of meals) {
+      const values = dayOf(localDateString(meal.created_at, timeZone));
+      const hour = localHour(meal.created_at, timeZone);
+
+      values.meals = (values.meals || 0) + 1;
+      values.calories = (values.calories || 0) + (meal.calories || 0);
+      values.protein_g = (values.protein_g || 0) + (meal.protein_g || 0);
+      values.carbs_g = (values.carbs_g || 0) + (meal.carbs_g || 0);
+      values.fats_g = (values.fats_g || 0) + (meal.fats_g || 0);
+      values.fiber_g = (values.fiber_g || 0) + (meal.fiber_g || 0);
+      values.sugar_g = (values.sugar_g || 0) + (meal.sugar_g || 0);
+      values.sodium_mg = (values.sodium_mg || 0) + (meal.sodium_mg || 0);
+      values.first_meal_hour = Math.min(values.first_meal_hour ?? hour, hour);
+      values.last_meal_hour = Math.max(values.last_meal_hour ?? hour, hour);
+    }
+
+    for (const values of days.values()) {
+      const macroCalories =
+        (values.protein_g || 0) * 4 +
+        (values.carbs_g || 0) * 4 +
+        (values.fats_g || 0) * 9;
+      if (macroCalories > 0) {
+        values.protein_pct =
+          (((values.protein_g || 0) * 4) / macroCalories) * 100;
+        values.carbs_pct = (((values.carbs_g || 0) * 4) / macroCalories) * 100;
+        values.fats_pct = (((values.fats_g || 0) * 9) / macroCalories) * 100;
+      }
+    }
+
+    // Water, goals and activity are stored per calendar day
+    for (const water of waterIntakes) {
+      const values = dayOf(water.date.toISOString().split("T")[0]);
+      values.water_cups = water.cups_consumed;
+      values.water_ml = water.milliliters_consumed;
+    }
+
+    for (const activity of activityDays) {
+      const values = dayOf(activity.date);
+      if (activity.steps !== null) values.steps = activity.steps;
+      if (activity.active_minutes !== null) {
+        values.active_minutes = activity.active_minutes;
+      }
+      if (activity.calories_burned !== null) {
+        values.calories_burned = activity.calories_burned;
+      }
+    }
+
+    const goalPct = (intake: number | undefined, goal: number) =>
+      intake !== undefined && goal > 0 ? (intake / goal) * 100 : undefined;
+
+    for (const goal of dailyGoals) {
+      const date = goal.date.toISOString().split("T")[0];
+      const values = days.get(date);
+      if (!values) continue;
+
+      values.water_goal_pct = goalPct(values.water_ml, goal.water_ml);
+      values.calories_goal_pct = goalPct(values.calories, goal.calories);
+      values.protein_goal_pct = goalPct(values.protein_g, goal.protein_g);
+      values.carbs_goal_pct = goalPct(values.carbs_g, goal.carbs_g);
+      values.fats_goal_pct = goalPct(values.fats_g, goal.fats_g);
+    }
+
+    // Days without a stored goal are held to the default water goal
+    for (const values of days.values()) {
+      if (values.water_goal_pct === undefined) {
+        values.water_goal_pct = goalPct(values.water_ml, DEFAULT_WATER_GOAL_ML);
+      }
     }
+
+    return days;
   }
 
   static async checkAndAwardAchievements(userId: string): Promise<{
@@ -193,35 +356,6 @@ export class AchievementService {
         throw new Error("User not found");
       }
 
-      // Get water intake count
-      const waterIntakeCount = await prisma.waterIntake.count({
-        where: {
-          user_id: userId,
-          cups_consumed: { gte: 8 },
-        },
-      });
-
-      // Get calorie goal completions
-      const mealDays = await prisma.meal.groupBy({
-        by: ["upload_time"],
-        where: { user_id: userId },
-        _sum: { calories: true },
-        having: {
-          calories: { _sum: { gte: 1800 } },
-        },
-      });
-
-      const userStats: UserStats = {
-        currentStreak: user.current_streak || 0,
-        bestStreak: user.best_streak || 0,
-        totalCompleteDays: user.total_complete_days || 0,
-        level: user.level || 1,
-        totalWaterGoals: waterIntakeCount,
-        totalCalorieGoals: mealDays.length,
-        totalXP: user.total_points || 0,
-        aiRequestsCount: user.ai_requests_count || 0,
-      };
-
       // Get existing achievements
       const existingAchievements = await prisma.userAchievement.findMany({
         where: { user_id: userId, unlocked: true },
@@ -231,17 +365,19 @@ export class AchievementService {
       const existingIds = existingAchievements.map((a) => a.achievement_id);
       const newAchievements: Achievement[] = [];
       let totalXPGained = 0;
+      let newLevel = user.level || 1;
 
-      // Fetch all active achievements from the database
-      const activeAchievements = await this.getAllAchievements();
+      // Fetch the achievements still to unlock from the database
+      const lockedAchievements = (await this.getAllAchievements()).filter(
+        (achievement) => !existingIds.includes(achievement.id)
+      );
+      const ruleContext = await this.buildRuleContext(userId, user);
 
       // Check each achievement
-      for (const achievement of activeAchievements) {
-        if (existingIds.includes(achievement.id)) continue;
-
+      for (const achievement of lockedAchievements) {
         const currentProgress = this.calculateAchievementProgress(
           achievement,
-          userStats
+          ruleContext
         );
         const shouldUnlock = currentProgress >= achievement.max_progress;
 
@@ -292,49 +428,31 @@ export class AchievementService {
             unlocked: true,
           });
 
-          totalXPGained += achievement.points_awarded;
+          // Keyed by achievement so an unlock is only ever paid once
+          const award = await XpService.award({
+            userId,
+            source: "ACHIEVEMENT",
+            reason: `Achievement unlocked: ${achievement.title}`,
+            amount: achievement.points_awarded,
+            idempotencyKey: `achievement:${achievement.key}`,
+          });
+          if (award.awarded) {
+            totalXPGained += achievement.points_awarded;
+            newLevel = award.level;
+          }
           console.log(
             `🎉 Achievement unlocked: ${achievement.title} (+${achievement.points_awarded} XP)`
           );
         }
       }
 
-      // Update user XP and level with proper level-up detection
-      let leveledUp = false;
-      let newLevel = user.level || 1;
-      let previousLevel = user.level || 1;
-
-      if (totalXPGained > 0) {
-        const newTotalPoints = (user.total_points || 0) + totalXPGained;
-        const newCurrentXP = (user.current_xp || 0) + totalXPGained;
-
-        // Calculate new level (100 XP per level)
-        const calculatedLevel = Math.floor(newTotalPoints / 100) + 1;
-
-        // Only mark as leveled up if level actually increases
-        if (calculatedLevel > previousLevel) {
-          leveledUp = true;
-          newLevel = calculatedLevel;
-          console.log(
-            `🎉 User leveled up from ${previousLevel} to ${newLevel}!`
-          );
-        }
-
-        const finalCurrentXP = newCurrentXP % 100;
-
-        await prisma.user.update({
-          where: { user_id: userId },
-          data: {
-            total_points: newTotalPoints,
-            current_xp: finalCurrentXP,
-            level: newLevel,
-          },
-        });
+      // Not awaited; push failures are logged and never block progress
+      PushNotificationService.notifyAchievementsUnlocked(
+        userId,
+        newAchievements
+      );
 
-        console.log(
-          `✅ Updated user XP: +${totalXPGained} XP, Level: ${newLevel}/${previousLevel}, Current XP: ${finalCurrentXP}/100`
-        );
-      }
+      const leveledUp = newLevel > (user.level || 1);
 
       return {
         newAchievements,
@@ -377,34 +495,6 @@ export class AchievementService {
         throw new Error("User not found");
       }
 
-      // Get current user progress for achievements
-      const waterIntakeCount = await prisma.waterIntake.count({
-        where: {
-          user_id: userId,
-          cups_consumed: { gte: 8 },
-        },
-      });
-
-      const mealDays = await prisma.meal.groupBy({
-        by: ["created_at"],
-        where: { user_id: userId },
-        _sum: { calories: true },
-        having: {
-          calories: { _sum: { gte: 1800 } },
-        },
-      });
-
-      const userStats: UserStats = {
-        currentStreak: user.current_streak || 0,
-        bestStreak: user.best_streak || 0,
-        totalCompleteDays: user.total_complete_days || 0,
-        level: user.level || 1,
-        totalWaterGoals: waterIntakeCount,
-        totalCalorieGoals: mealDays.length,
-        totalXP: user.total_points || 0,
-        aiRequestsCount: user.ai_requests_count || 0,
-      };
-
       const userAchievements = await prisma.userAchievement.findMany({
         where: { user_id: userId },
         include: { achievement: true },
@@ -416,6 +506,7 @@ export class AchievementService {
 
       // Fetch all active achievements from the database
       const allAchievements = await this.getAllAchievements();
+      const ruleContext = await this.buildRuleContext(userId, user);
 
       const unlockedAchievements: Achievement[] = allAchievements
         .filter((achievement) => unlockedIds.includes(achievement.id))
@@ -456,7 +547,7 @@ export class AchievementService {
         .map((achievement) => {
           const currentProgress = this.calculateAchievementProgress(
             achievement,
-            userStats
+            ruleContext
           );
           return {
             id: achievement.id,
@@ -518,32 +609,29 @@ export class AchievementService {
     }
   }
 
-  // Helper function to check if yesterday was a completed day
+  // Helper function to check if a day (YYYY-MM-DD, user's zone) was complete
   private static async wasYesterDayComplete(
     userId: string,
-    date: Date
+    date: string
   ): Promise<boolean> {
-    const yesterday = new Date(date);
-    yesterday.setHours(0, 0, 0, 0);
+    const { start, end } = await TimezoneService.getUserDayRange(userId, date);
 
     const completedMeals = await prisma.meal.count({
       where: {
         user_id: userId,
         upload_time: {
-          gte: yesterday,
-          lt: new Date(yesterday.getTime() + 24 * 60 * 60 * 1000),
+          gte: start,
+          lt: end,
         },
         calories: { gte: 1800 },
       },
     });
 
+    // Water is stored per calendar day
     const completedWaterIntake = await prisma.waterIntake.count({
       where: {
         user_id: userId,
-        date: {
-          gte: yesterday,
-          lt: new Date(yesterday.getTime() + 24 * 60 * 60 * 1000),
-        },
+        date: new Date(date),
         cups_consumed: { gte: 8 },
       },
     });
@@ -581,9 +669,8 @@ export class AchievementService {
         });
 
         if (user) {
-          const today = new Date();
-          const yesterday = new Date(today);
-          yesterday.setDate(yesterday.getDate() - 1);
+          const today = await TimezoneService.getUserDate(userId);
+          const yesterday = addDays(today, -1);
 
           const yesterdayComplete = await this.wasYesterDayComplete(
             userId,
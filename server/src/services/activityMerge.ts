@@ -0,0 +1,199 @@
+import {
+  ActivityMetric,
+  ConnectedDevice,
+  DailyActivitySummary,
+  DeviceType,
+} from "@prisma/client";
+import { prisma } from "../lib/database";
+import { DEFAULT_METRIC_SOURCE_PRIORITY } from "../config/deviceSync";
+import {
+  MergedDailyActivity,
+  MetricPriority,
+  MetricPriorityInput,
+} from "../types/activityMerge";
+
+type SummaryWithDevice = DailyActivitySummary & { device: ConnectedDevice };
+
+type MergedField = Exclude<keyof MergedDailyActivity, "date" | "sources">;
+
+// Columns taken together from whichever device wins the metric
+const METRIC_FIELDS: Record<ActivityMetric, MergedField[]> = {
+  STEPS: ["steps"],
+  CALORIES: ["calories_burned", "bmr_estimate"],
+  ACTIVE_MINUTES: ["active_minutes"],
+  DISTANCE: ["distance_km"],
+  HEART_RATE: ["heart_rate_avg", "heart_rate_max"],
+  SLEEP: ["sleep_hours"],
+  WEIGHT: ["weight_kg"],
+  BODY_FAT: ["body_fat_percentage"],
+};
+
+// Totals default to 0 in the table, so 0 means the device did not report them
+const CUMULATIVE_METRICS: ActivityMetric[] = [
+  "STEPS",
+  "CALORIES",
+  "ACTIVE_MINUTES",
+  "DISTANCE",
+];
+
+const reports = (summary: SummaryWithDevice, metric: ActivityMetric) => {
+  const value = summary[METRIC_FIELDS[metric][0]];
+  if (value === null || value === undefined) return false;
+  return !CUMULATIVE_METRICS.includes(metric) || value > 0;
+};
+
+const rank = (list: DeviceType[] | undefined, type: DeviceType) => {
+  const index = list ? list.indexOf(type) : -1;
+  return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+};
+
+export class ActivityMergeService {
+  static async getPriorities(user_id: string): Promise<MetricPriority[]> {
+    const saved = await prisma.activityMetricPriority.findMany({
+      where: { user_id },
+    });
+
+    return Object.values(ActivityMetric).map((metric) => {
+      const custom = saved.find((priority) => priority.metric === metric);
+      return {
+        metric,
+        device_types:
+          custom?.device_types ?? DEFAULT_METRIC_SOURCE_PRIORITY[metric],
+        is_default: !custom,
+      };
+    });
+  }
+
+  static async setPriorities(
+    user_id: string,
+    input: MetricPriorityInput
+  ): Promise<MetricPriority[]> {
+    const entries = Object.entries(input.priorities) as [
+      ActivityMetric,
+      DeviceType[]
+    ][];
+
+    await prisma.$transaction(
+      entries.map(([metric, deviceTypes]) =>
+        deviceTypes.length === 0
+          ? prisma.activityMetricPriority.deleteMany({
+              where: { user_id, metric },
+            })
+          : prisma.activityMetricPriority.upsert({
+              where: { user_id_metric: { user_id, metric } },
+              update: { device_types: [...new Set(deviceTypes)] },
+              create: {
+                user_id,
+                metric,
+                device_types: [...new Set(deviceTypes)],
+              },
+            })
+      )
+    );
+
+    console.log("✅ Updated metric source priorities for user:", user_id);
+    return this.getPriorities(user_id);
+  }
+
+  /**
+   * Pick each metric from the first device that reported it, ordered by the
+   * user's priority for that metric, then the primary device, then the
+   * default priority, then the most recent sync
+   */
+  static mergeDay(
+    date: string,
+    summaries: SummaryWithDevice[],
+    priorities: Partial<Record<ActivityMetric, DeviceType[]>>
+  ): MergedDailyActivity {
+    const merged: MergedDailyActivity = {
+      date,
+      steps: null,
+      calories_burned: null,
+      bmr_estimate: null,
+      active_minutes: null,
+      distance_km: null,
+      heart_rate_avg: null,
+      heart_rate_max: null,
+      sleep_hours: null,
+      weight_kg: null,
+      body_fat_percentage: null,
+      sources: {},
+    };
+
+    for (const metric of Object.values(ActivityMetric)) {
+      const [source] = summaries
+        .filter((summary) => reports(summary, metric))
+        .sort(
+          (a, b) =>
+            rank(priorities[metric], a.device.device_type) -
+              rank(priorities[metric], b.device.device_type) ||
+            Number(b.device.is_primary_device) -
+              Number(a.device.is_primary_device) ||
+            rank(
+              DEFAULT_METRIC_SOURCE_PRIORITY[metric],
+              a.device.device_type
+            ) -
+              rank(
+                DEFAULT_METRIC_SOURCE_PRIORITY[metric],
+                b.device.device_type
+              ) ||
+            b.sync_timestamp.getTime() - a.sync_timestamp.getTime()
+        );
+      if (!source) continue;
+
+      for (const field of METRIC_FIELDS[metric]) {
+        merged[field] = source[field] ?? null;
+      }
+      merged.sources[metric] = {
+        device_id: source.device.connected_device_id,
+        device_type: source.device.device_type,
+        device_name: source.device.device_name,
+      };
+    }
+
+    return merged;
+  }
+
+  /**
+   * Merged activity for every day with device data in the range (YYYY-MM-DD)
+   */
+  static async getMergedDays(
+    user_id: string,
+    startDate: string,
+    endDate: string
+  ): Promise<MergedDailyActivity[]> {
+    const [summaries, saved] = await Promise.all([
+      prisma.dailyActivitySummary.findMany({
+        where: {
+          user_id,
+          date: { gte: new Date(startDate), lte: new Date(endDate) },
+        },
+        include: { device: true },
+        orderBy: { date: "asc" },
+      }),
+      prisma.activityMetricPriority.findMany({ where: { user_id } }),
+    ]);
+
+    const priorities = Object.fromEntries(
+      saved.map((priority) => [priority.metric, priority.device_types])
+    );
+
+    const byDate = new Map<string, SummaryWithDevice[]>();
+    for (const summary of summaries) {
+      const date = summary.date.toISOString().split("T")[0];
+      byDate.set(date, [...(byDate.get(date) || []), summary]);
+    }
+
+    return [...byDate].map(([date, daySummaries]) =>
+      this.mergeDay(date, daySummaries, priorities)
+    );
+  }
+
+  static async getMergedDay(
+    user_id: string,
+    date: string
+  ): Promise<MergedDailyActivity | null> {
+    const [day] = await this.getMergedDays(user_id, date, date);
+    return day ?? null;
+  }
+}
@@ -3,10 +3,16 @@ import jwt from "jsonwebtoken";
 import crypto from "crypto";
 import { prisma } from "../lib/database";
 import { SignUpInput, SignInInput } from "../types/auth";
+import { AuthenticatedSession, SessionMetadata } from "../types/sessions";
+import {
+  ACCESS_TOKEN_TTL_MINUTES,
+  REFRESH_COOKIE_PATH,
+  REFRESH_TOKEN_TTL_DAYS,
+} from "../config/auth";
+import { RetentionService } from "./retention";
+import { SessionService } from "./sessions";
 
 const JWT_SECRET = process.env.JWT_SECRET!;
-const JWT_EXPIRES_IN = "7d";
-const SESSION_EXPIRES_DAYS = 7;
 const PASSWORD_RESET_EXPIRES = "15m";
 
 const userSelectFields = {
@@ -35,6 +41,7 @@ const userSelectFields = {
   signup_date: true,
   subscription_start: true,
   subscription_end: true,
+  timezone: true,
 };
 
 function generatePasswordResetToken(email: string) {
@@ -67,19 +74,9 @@ function verifyPasswordResetToken(token: string) {
   }
 }
 
-function generateToken(payload: object) {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN });
-}
-
-function getSessionExpiryDate() {
-  const date = new Date();
-  date.setDate(date.getDate() + SESSION_EXPIRES_DAYS);
-  return date;
-}
-
 export class AuthService {
   static async signUp(data: SignUpInput) {
-    const { email, name, password, birth_date } = data;
+    const { email, name, password, birth_date, timezone } = data;
 
     const existingUser = await prisma.user.findFirst({
       where: { email },
@@ -132,6 +129,7 @@ export class AuthService {
         password_hash: hashedPassword,
         subscription_type: "FREE",
         birth_date: new Date(),
+        timezone,
         ai_requests_count: 0,
         ai_requests_reset_at: new Date(),
         email_verified: false,
@@ -392,7 +390,11 @@ export class AuthService {
     }
   }
 
-  static async verifyEmail(email: string, code: string) {
+  static async verifyEmail(
+    email: string,
+    code: string,
+    metadata: SessionMetadata = {}
+  ) {
     console.log(`🔒 Verifying email ${email} with code ${code}`);
 
     const user = await prisma.user.findUnique({
@@ -458,25 +460,14 @@ export class AuthService {
 
     console.log("✅ User updated with gamification defaults:", updatedUser);
 
-    const token = generateToken({
-      user_id: updatedUser.user_id,
-      email: updatedUser.email,
-    });
-
-    await prisma.session.create({
-      data: {
-        user_id: updatedUser.user_id,
-        token,
-        expiresAt: getSessionExpiryDate(),
-      },
-    });
+    const tokens = await SessionService.createSession(updatedUser, metadata);
 
     console.log(`✅ Session created for user: ${email}`);
 
-    return { user: updatedUser, token };
+    return { user: updatedUser, ...tokens };
   }
 
-  static async signIn(data: SignInInput) {
+  static async signIn(data: SignInInput, metadata: SessionMetadata = {}) {
     const { email, password } = data;
 
     const user = await prisma.user.findUnique({ where: { email } });
@@ -485,56 +476,64 @@ export class AuthService {
     const isValid = await bcrypt.compare(password, user.password_hash);
     if (!isValid) throw new Error("Invalid email or password");
 
-    const token = generateToken({ user_id: user.user_id, email: user.email });
+    // Signing in during the grace period keeps the account
+    if (user.deleted_at) {
+      await RetentionService.restoreUser(user.user_id);
+    }
 
-    await prisma.session.create({
-      data: {
-        user_id: user.user_id,
-        token,
-        expiresAt: getSessionExpiryDate(),
-      },
-    });
+    const tokens = await SessionService.createSession(user, metadata);
 
     const { password_hash: _, ...userWithoutPassword } = user;
-    return { user: userWithoutPassword, token };
+    return { user: userWithoutPassword, ...tokens };
   }
 
-  static async verifyToken(token: string) {
+  /**
+   * Resolve an access token to its session and user. Sessions are cached
+   * briefly, so revocations elsewhere apply within AUTH_CACHE_TTL_MS.
+   */
+  static async verifyToken(token: string): Promise<AuthenticatedSession> {
+    let sessionId: string;
     try {
-      const decoded = jwt.verify(token, JWT_SECRET) as {
-        user_id: string;
-        email: string;
-      };
-
-      if (
-        !decoded ||
-        typeof decoded !== "object" ||
-        !("user_id" in decoded) ||
-        !("email" in decoded)
-      ) {
-        throw new Error("Invalid token payload");
-      }
+      sessionId = SessionService.verifyAccessToken(token).sid;
+    } catch {
+      throw new Error("Invalid token");
+    }
 
-      const session = await prisma.session.findUnique({
-        where: { token },
-        include: {
-          user: { select: userSelectFields },
-        },
-      });
+    const cached = SessionService.getCachedSession(sessionId);
+    if (cached) return cached;
 
-      if (!session || session.expiresAt < new Date()) {
-        throw new Error("Session expired");
-      }
+    // Database errors propagate so the middleware can answer 503
+    const session = await prisma.session.findUnique({
+      where: { session_id: sessionId },
+      include: {
+        user: { select: userSelectFields },
+      },
+    });
 
-      return session.user;
-    } catch {
-      throw new Error("Invalid token");
+    if (!session || session.expiresAt < new Date()) {
+      throw new Error("Session expired");
     }
+
+    SessionService.touchSession(session);
+    const authenticated = { session_id: sessionId, user: session.user };
+    SessionService.cacheSession(authenticated, session.expiresAt);
+    return authenticated;
   }
 
-  static async signOut(token: string) {
-    await prisma.session.deleteMany({ where: { token } });
+  static async signOut(sessionId: string) {
+    await SessionService.endSession(sessionId);
   }
+
+  /**
+   * The user as stored now, unlike the briefly cached req.user
+   */
+  static async getUser(userId: string) {
+    return prisma.user.findUnique({
+      where: { user_id: userId },
+      select: userSelectFields,
+    });
+  }
+
   static async sendPasswordResetEmail(email: string): Promise<void> {
     console.log("🔄 Sending password reset email to:", email);
 
@@ -880,9 +879,7 @@ export class AuthService {
       });
 
       // Invalidate all existing sessions for security
-      await prisma.session.deleteMany({
-        where: { user_id: user.user_id },
-      });
+      await SessionService.revokeAllSessions(user.user_id);
 
       console.log("✅ Password reset successfully for:", decoded.email);
     } catch (error) {
@@ -929,8 +926,16 @@ export class AuthService {
       httpOnly: true,
       secure: process.env.NODE_ENV === "production",
       sameSite: "lax" as const,
-      maxAge: SESSION_EXPIRES_DAYS * 24 * 60 * 60 * 1000,
+      maxAge: ACCESS_TOKEN_TTL_MINUTES * 60 * 1000,
       path: "/",
     };
   }
+
+  static getRefreshCookieOptions() {
+    return {
+      ...this.getCookieOptions(),
+      maxAge: REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000,
+      path: REFRESH_COOKIE_PATH,
+    };
+  }
 }
@@ -6,6 +6,10 @@ import {
   CalendarEvent,
   GamificationBadge,
 } from "../types/calendar";
+import { ActivityMergeService } from "./activityMerge";
+import { TimezoneService } from "./timezone";
+import { XpService } from "./xp";
+import { addDays, localDateString, startOfLocalDay } from "../utils/timezone";
 
 export class CalendarService {
   // Default nutritional goals (can be customized per user later)
@@ -27,18 +31,24 @@ export class CalendarService {
     try {
       console.log("📅 Fetching calendar data for user:", user_id, year, month);
 
-      const startDate = new Date(year, month - 1, 1);
-      const endDate = new Date(year, month, 0, 23, 59, 59, 999);
+      // Days are the user's calendar days; goals, water and events are
+      // stored per day, meals are bucketed by their local upload day
+      const timeZone = await TimezoneService.getUserTimeZone(user_id);
+      const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+      const firstDay = `${year}-${String(month).padStart(2, "0")}-01`;
+      const lastDay = addDays(firstDay, daysInMonth - 1);
+      const startDate = new Date(firstDay);
+      const endDate = new Date(lastDay);
 
-      console.log("📊 Date range:", startDate, "to", endDate);
+      console.log("📊 Date range:", firstDay, "to", lastDay, timeZone);
 
       // Fetch meals for the month (using upload_time instead of created_at)
       const meals = await prisma.meal.findMany({
         where: {
           user_id: user_id,
           upload_time: {
-            gte: startDate,
-            lte: endDate,
+            gte: startOfLocalDay(firstDay, timeZone),
+            lt: startOfLocalDay(addDays(lastDay, 1), timeZone),
           },
         },
         orderBy: {
@@ -82,6 +92,16 @@ export class CalendarService {
         },
       });
 
+      // Fetch device activity for the month, merged across devices
+      const activityDays = await ActivityMergeService.getMergedDays(
+        user_id,
+        firstDay,
+        lastDay
+      );
+      const activityByDate = new Map(
+        activityDays.map((day) => [day.date, day])
+      );
+
       console.log("🍽️ Found", meals.length, "meals for the month");
       console.log("📅 Found", events.length, "events for the month");
 
@@ -91,7 +111,7 @@ export class CalendarService {
       // Group meals by date
       const mealsByDate: Record<string, any[]> = {};
       meals.forEach((meal) => {
-        const dateStr = new Date(meal.upload_time).toISOString().split("T")[0];
+        const dateStr = localDateString(meal.upload_time, timeZone);
         if (!mealsByDate[dateStr]) {
           mealsByDate[dateStr] = [];
         }
@@ -124,15 +144,13 @@ export class CalendarService {
 
       // Generate calendar data for each day of the month
       const calendarData: Record<string, DayData> = {};
-      const daysInMonth = endDate.getDate();
-
       for (let day = 1; day <= daysInMonth; day++) {
-        const date = new Date(year, month - 1, day);
-        const dateStr = date.toISOString().split("T")[0];
+        const dateStr = addDays(firstDay, day - 1);
         const dayMeals = mealsByDate[dateStr] || [];
         const dayGoal = goalsByDate[dateStr];
         const dayWater = waterByDate[dateStr];
         const dayEvents = eventsByDate[dateStr] || [];
+        const dayActivity = activityByDate.get(dateStr);
 
         // Use custom goals if available, otherwise use defaults
         const goals = dayGoal
@@ -195,6 +213,8 @@ export class CalendarService {
           meal_count: mainMealsCount,
           quality_score,
           water_intake_ml: waterIntake,
+          steps: dayActivity?.steps ?? null,
+          calories_burned: dayActivity?.calories_burned ?? null,
           events: formattedEvents,
         };
       }
@@ -711,6 +731,13 @@ export class CalendarService {
               points: badgeCondition.points,
             },
           });
+          await XpService.award({
+            userId: user_id,
+            source: "BADGE",
+            reason: `Badge earned: ${badgeCondition.name}`,
+            amount: badgeCondition.points,
+            idempotencyKey: `badge:${newBadge.badge_id}`,
+          });
           badges.push(newBadge);
         }
       }
@@ -0,0 +1,464 @@
+import { Challenge, ChallengeParticipant, Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { AchievementService } from "./achievements";
+import { AchievementRuleEngine } from "./achievementRules";
+import { PushNotificationService } from "./pushNotifications";
+import { TimezoneService } from "./timezone";
+import { XpService } from "./xp";
+import { addDays, localDateString } from "../utils/timezone";
+import {
+  ChallengeListStatus,
+  ChallengeStatus,
+  ChallengeSummary,
+  CreateChallengeInput,
+  LeaderboardEntry,
+  UpdateChallengeInput,
+} from "../types/challenges";
+
+const toDateString = (date: Date) => date.toISOString().split("T")[0];
+
+const statusOn = (challenge: Challenge, today: string): ChallengeStatus => {
+  if (!challenge.is_published) return "draft";
+  if (today < toDateString(challenge.start_date)) return "upcoming";
+  if (today > toDateString(challenge.end_date)) return "ended";
+  return "active";
+};
+
+// Challenges are scored over their own days, so lifetime stats don't apply
+const parseChallengeRule = (rule: string) => {
+  const parsed = AchievementRuleEngine.parse(rule);
+  if (parsed.type === "stat") {
+    throw new Error(
+      `Invalid achievement rule "${rule}": challenges need a day or sum rule`
+    );
+  }
+  return parsed;
+};
+
+export class ChallengeService {
+  /**
+   * Published challenges on the user's calendar. Without a status, those
+   * that are active or upcoming.
+   */
+  static async listChallenges(
+    userId: string,
+    status?: ChallengeListStatus
+  ): Promise<ChallengeSummary[]> {
+    const today = await TimezoneService.getUserDate(userId);
+    const todayDate = new Date(today);
+
+    const where: Prisma.ChallengeWhereInput = {
+      is_published: true,
+      ...(status === undefined && { end_date: { gte: todayDate } }),
+      ...(status === "active" && {
+        start_date: { lte: todayDate },
+        end_date: { gte: todayDate },
+      }),
+      ...(status === "upcoming" && { start_date: { gt: todayDate } }),
+      ...(status === "ended" && { end_date: { lt: todayDate } }),
+      ...(status === "joined" && {
+        participants: { some: { user_id: userId } },
+      }),
+    };
+
+    const challenges = await prisma.challenge.findMany({
+      where,
+      include: {
+        participants: { where: { user_id: userId } },
+        _count: { select: { participants: true } },
+      },
+      orderBy: { start_date: status === "ended" ? "desc" : "asc" },
+    });
+
+    return challenges.map((challenge) =>
+      this.toSummary(
+        challenge,
+        today,
+        challenge._count.participants,
+        challenge.participants[0]
+      )
+    );
+  }
+
+  static async getChallenge(
+    userId: string,
+    challengeId: string
+  ): Promise<ChallengeSummary> {
+    const challenge = await this.findPublished(challengeId);
+    const today = await TimezoneService.getUserDate(userId);
+
+    let participant = await prisma.challengeParticipant.findUnique({
+      where: {
+        challenge_id_user_id: { challenge_id: challengeId, user_id: userId },
+      },
+    });
+    if (participant) {
+      participant = await this.refreshParticipant(challenge, participant);
+    }
+
+    const participantCount = await prisma.challengeParticipant.count({
+      where: { challenge_id: challengeId },
+    });
+    return this.toSummary(challenge, today, participantCount, participant);
+  }
+
+  /**
+   * Enroll the user. Joining late still counts the days already logged
+   * since the challenge started.
+   */
+  static async joinChallenge(
+    userId: string,
+    challengeId: string
+  ): Promise<ChallengeSummary> {
+    const challenge = await this.findPublished(challengeId);
+    const today = await TimezoneService.getUserDate(userId);
+    if (statusOn(challenge, today) === "ended") {
+      throw new Error("Challenge has already ended");
+    }
+
+    const participant = await prisma.challengeParticipant.upsert({
+      where: {
+        challenge_id_user_id: { challenge_id: challengeId, user_id: userId },
+      },
+      update: {},
+      create: { challenge_id: challengeId, user_id: userId },
+    });
+    console.log(`🏁 User ${userId} joined challenge ${challenge.title}`);
+
+    const participantCount = await prisma.challengeParticipant.count({
+      where: { challenge_id: challengeId },
+    });
+    return this.toSummary(
+      challenge,
+      today,
+      participantCount,
+      await this.refreshParticipant(challenge, participant)
+    );
+  }
+
+  static async leaveChallenge(userId: string, challengeId: string) {
+    const participant = await prisma.challengeParticipant.findUnique({
+      where: {
+        challenge_id_user_id: { challenge_id: challengeId, user_id: userId },
+      },
+    });
+    if (!participant) {
+      throw new Error("Challenge enrollment not found");
+    }
+    if (participant.completed_at) {
+      throw new Error("Completed challenges cannot be left");
+    }
+
+    await prisma.challengeParticipant.delete({
+      where: { participant_id: participant.participant_id },
+    });
+  }
+
+  /**
+   * Participants ranked by progress; ties go to whoever finished first,
+   * then whoever joined first. Other users only show their name.
+   */
+  static async getLeaderboard(
+    userId: string,
+    challengeId: string,
+    limit: number
+  ): Promise<{
+    target: number;
+    entries: LeaderboardEntry[];
+    current_user: LeaderboardEntry | null;
+  }> {
+    const challenge = await this.findPublished(challengeId);
+    const target = parseChallengeRule(challenge.rule).threshold;
+
+    const participants = await prisma.challengeParticipant.findMany({
+      where: { challenge_id: challengeId },
+      include: { user: { select: { name: true, avatar_url: true } } },
+      orderBy: [
+        { progress: "desc" },
+        { completed_at: { sort: "asc", nulls: "last" } },
+        { joined_at: "asc" },
+      ],
+      take: limit,
+    });
+
+    const toEntry = (
+      participant: (typeof participants)[number],
+      rank: number
+    ): LeaderboardEntry => ({
+      rank,
+      name: participant.user.name || "Anonymous",
+      avatar_url: participant.user.avatar_url,
+      progress: participant.progress,
+      completed: participant.completed_at !== null,
+      is_current_user: participant.user_id === userId,
+    });
+
+    const entries = participants.map((participant, index) =>
+      toEntry(participant, index + 1)
+    );
+
+    let currentUser = entries.find((entry) => entry.is_current_user) || null;
+    if (!currentUser) {
+      const own = await prisma.challengeParticipant.findUnique({
+        where: {
+          challenge_id_user_id: { challenge_id: challengeId, user_id: userId },
+        },
+        include: { user: { select: { name: true, avatar_url: true } } },
+      });
+      if (own) {
+        const ahead = await prisma.challengeParticipant.count({
+          where: { challenge_id: challengeId, progress: { gt: own.progress } },
+        });
+        currentUser = toEntry(own, ahead + 1);
+      }
+    }
+
+    return { target, entries, current_user: currentUser };
+  }
+
+  /**
+   * Recompute progress for everyone in a running challenge, award those who
+   * reached the target and freeze challenges every zone has finished
+   */
+  static async refreshActiveChallenges() {
+    const utcToday = localDateString(new Date());
+
+    // Local days run up to 14 hours ahead of UTC, so a challenge may already
+    // have started somewhere when UTC is still on the day before
+    const challenges = await prisma.challenge.findMany({
+      where: {
+        is_published: true,
+        finalized_at: null,
+        start_date: { lte: new Date(addDays(utcToday, 1)) },
+      },
+      include: { participants: true },
+    });
+
+    let refreshed = 0;
+    let completed = 0;
+    let finalized = 0;
+
+    for (const challenge of challenges) {
+      for (const participant of challenge.participants) {
+        try {
+          const updated = await this.refreshParticipant(challenge, participant);
+          refreshed++;
+          if (!participant.completed_at && updated.completed_at) completed++;
+        } catch (error) {
+          console.error(
+            `❌ Challenge progress failed for user ${participant.user_id}:`,
+            error
+          );
+        }
+      }
+
+      // Two UTC days on, the last day is over in every zone
+      if (addDays(toDateString(challenge.end_date), 2) <= utcToday) {
+        await prisma.challenge.update({
+          where: { challenge_id: challenge.challenge_id },
+          data: { finalized_at: new Date() },
+        });
+        finalized++;
+        console.log(`🏁 Challenge finalized: ${challenge.title}`);
+      }
+    }
+
+    return { challenges: challenges.length, refreshed, completed, finalized };
+  }
+
+  // Admin: every challenge, drafts included, with dates judged in UTC
+  static async listAllChallenges(): Promise<ChallengeSummary[]> {
+    const today = localDateString(new Date());
+    const challenges = await prisma.challenge.findMany({
+      include: { _count: { select: { participants: true } } },
+      orderBy: { start_date: "desc" },
+    });
+
+    return challenges.map((challenge) =>
+      this.toSummary(challenge, today, challenge._count.participants)
+    );
+  }
+
+  static async createChallenge(input: CreateChallengeInput, adminId: string) {
+    parseChallengeRule(input.rule);
+
+    const challenge = await prisma.challenge.create({
+      data: {
+        ...input,
+        start_date: new Date(input.start_date),
+        end_date: new Date(input.end_date),
+        created_by: adminId,
+      },
+    });
+
+    console.log(
+      `🏁 Challenge created: ${challenge.title} (${input.start_date} to ${input.end_date})`
+    );
+    return this.toSummary(challenge, localDateString(new Date()), 0);
+  }
+
+  /**
+   * Edit or schedule a challenge. A changed rule is applied to participants
+   * on the next refresh; rewards already given are kept.
+   */
+  static async updateChallenge(
+    challengeId: string,
+    input: UpdateChallengeInput
+  ) {
+    const existing = await prisma.challenge.findUnique({
+      where: { challenge_id: challengeId },
+    });
+    if (!existing) {
+      throw new Error("Challenge not found");
+    }
+    if (existing.finalized_at) {
+      throw new Error("Challenge has already been finalized");
+    }
+    if (input.rule) parseChallengeRule(input.rule);
+
+    const startDate = input.start_date || toDateString(existing.start_date);
+    const endDate = input.end_date || toDateString(existing.end_date);
+    if (endDate < startDate) {
+      throw new Error("Invalid dates: end_date must not be before start_date");
+    }
+
+    const challenge = await prisma.challenge.update({
+      where: { challenge_id: challengeId },
+      data: {
+        ...input,
+        start_date: new Date(startDate),
+        end_date: new Date(endDate),
+      },
+      include: { _count: { select: { participants: true } } },
+    });
+
+    return this.toSummary(
+      challenge,
+      localDateString(new Date()),
+      challenge._count.participants
+    );
+  }
+
+  static async deleteChallenge(challengeId: string) {
+    const result = await prisma.challenge.deleteMany({
+      where: { challenge_id: challengeId },
+    });
+    if (result.count === 0) {
+      throw new Error("Challenge not found");
+    }
+  }
+
+  private static async findPublished(challengeId: string) {
+    const challenge = await prisma.challenge.findFirst({
+      where: { challenge_id: challengeId, is_published: true },
+    });
+    if (!challenge) {
+      throw new Error("Challenge not found");
+    }
+    return challenge;
+  }
+
+  /**
+   * Score the participant's days inside the challenge window and award the
+   * XP once the target is reached. Finished challenges are left as they are.
+   */
+  private static async refreshParticipant(
+    challenge: Challenge,
+    participant: ChallengeParticipant
+  ): Promise<ChallengeParticipant> {
+    if (challenge.finalized_at) return participant;
+
+    const timeZone = await TimezoneService.getUserTimeZone(participant.user_id);
+    const today = localDateString(new Date(), timeZone);
+    const startDate = toDateString(challenge.start_date);
+    const endDate = toDateString(challenge.end_date);
+    if (today < startDate) return participant;
+
+    const lastDay = today < endDate ? today : endDate;
+    const rule = parseChallengeRule(challenge.rule);
+    const days = await AchievementService.loadDayValues(
+      participant.user_id,
+      timeZone,
+      startDate,
+      lastDay
+    );
+    const progress = AchievementRuleEngine.evaluate(rule, {
+      stats: {},
+      days,
+      today: lastDay,
+    });
+
+    const reachedTarget =
+      !participant.completed_at && progress >= rule.threshold;
+    if (progress === participant.progress && !reachedTarget) {
+      return participant;
+    }
+
+    let updated = await prisma.challengeParticipant.update({
+      where: { participant_id: participant.participant_id },
+      data: { progress },
+    });
+    if (!reachedTarget) return updated;
+
+    // Claim the reward so concurrent refreshes can't award it twice
+    const completedAt = new Date();
+    const claimed = await prisma.challengeParticipant.updateMany({
+      where: { participant_id: participant.participant_id, completed_at: null },
+      data: { completed_at: completedAt, xp_awarded: challenge.xp_reward },
+    });
+    if (claimed.count === 0) return updated;
+
+    updated = {
+      ...updated,
+      completed_at: completedAt,
+      xp_awarded: challenge.xp_reward,
+    };
+    await XpService.award({
+      userId: participant.user_id,
+      source: "CHALLENGE",
+      reason: `Challenge completed: ${challenge.title}`,
+      amount: challenge.xp_reward,
+      idempotencyKey: `challenge:${challenge.challenge_id}`,
+    });
+    console.log(
+      `🏆 Challenge completed: ${challenge.title} by user ${participant.user_id} (+${challenge.xp_reward} XP)`
+    );
+
+    // Not awaited; push failures are logged and never block progress
+    PushNotificationService.notifyChallengeCompleted(
+      participant.user_id,
+      challenge
+    );
+    return updated;
+  }
+
+  private static toSummary(
+    challenge: Challenge,
+    today: string,
+    participantCount: number,
+    participant?: ChallengeParticipant | null
+  ): ChallengeSummary {
+    return {
+      challenge_id: challenge.challenge_id,
+      title: challenge.title,
+      description: challenge.description,
+      icon: challenge.icon,
+      rule: challenge.rule,
+      start_date: toDateString(challenge.start_date),
+      end_date: toDateString(challenge.end_date),
+      xp_reward: challenge.xp_reward,
+      status: statusOn(challenge, today),
+      target: parseChallengeRule(challenge.rule).threshold,
+      participant_count: participantCount,
+      ...(participant && {
+        participation: {
+          progress: participant.progress,
+          completed: participant.completed_at !== null,
+          completed_at: participant.completed_at,
+          xp_awarded: participant.xp_awarded,
+          joined_at: participant.joined_at,
+        },
+      }),
+    };
+  }
+}
@@ -1,5 +1,6 @@
 import OpenAI from "openai";
 import { prisma } from "../lib/database";
+import { FoodDatabaseService } from "./foodDatabase";
 
 const openai = process.env.OPENAI_API_KEY
   ? new OpenAI({
@@ -42,7 +43,7 @@ export class ChatService {
 
       if (!openai || !process.env.OPENAI_API_KEY) {
         console.log("⚠️ No OpenAI API key, using fallback response");
-        aiResponse = this.getFallbackResponse(message, language);
+        aiResponse = await this.getFallbackResponse(message, language);
       } else {
         try {
           console.log("🔄 Calling OpenAI API...");
@@ -62,7 +63,7 @@ export class ChatService {
 
           if (!aiContent || aiContent.trim() === "") {
             console.log("⚠️ Empty response from OpenAI, using fallback");
-            aiResponse = this.getFallbackResponse(message, language);
+            aiResponse = await this.getFallbackResponse(message, language);
           } else {
             aiResponse = aiContent.trim();
             console.log(
@@ -72,7 +73,7 @@ export class ChatService {
           }
         } catch (openaiError) {
           console.error("💥 OpenAI API error:", openaiError);
-          aiResponse = this.getFallbackResponse(message, language);
+          aiResponse = await this.getFallbackResponse(message, language);
         }
       }
 
@@ -96,7 +97,10 @@ export class ChatService {
     } catch (error) {
       console.error("💥 Chat service error:", error);
 
-      const fallbackResponse = this.getFallbackResponse(message, language);
+      const fallbackResponse = await this.getFallbackResponse(
+        message,
+        language
+      );
 
       return {
         response: fallbackResponse,
@@ -266,10 +270,10 @@ For cooking questions: give suggestions for nutritional improvement of the recip
     return history;
   }
 
-  private static getFallbackResponse(
+  private static async getFallbackResponse(
     message: string,
     language: string
-  ): string {
+  ): Promise<string> {
     const isHebrew = language === "hebrew";
     const lowerMessage = message.toLowerCase();
 
@@ -278,6 +282,11 @@ For cooking questions: give suggestions for nutritional improvement of the recip
       lowerMessage.includes("calories") ||
       lowerMessage.includes("כמה")
     ) {
+      const foodAnswer = await this.getFoodDatabaseAnswer(message, isHebrew);
+      if (foodAnswer) {
+        return foodAnswer;
+      }
+
       return isHebrew
         ? "כדי לתת לך מידע מדויק על קלוריות, אני צריך פרטים נוספים על המזון או הכמות. אתה יכול לצלם את המוצר או להכניס פרטים נוספים."
         : "To give you accurate calorie information, I need more details about the food or quantity. You can photograph the product or enter additional details.";
@@ -298,6 +307,36 @@ For cooking questions: give suggestions for nutritional improvement of the recip
       : "I'm here to help with nutrition questions! You can ask me about nutritional values, meal recommendations, or any other nutrition-related questions. ⚠️ Important to remember this is general advice and not a substitute for licensed medical consultation.";
   }
 
+  /**
+   * Answer "how many calories in ..." questions from the food database
+   */
+  private static async getFoodDatabaseAnswer(
+    message: string,
+    isHebrew: boolean
+  ): Promise<string | null> {
+    try {
+      const { ingredients } = await FoodDatabaseService.analyzeText(
+        message.replace(/[?؟!]/g, " ")
+      );
+      if (ingredients.length === 0) {
+        return null;
+      }
+
+      const lines = ingredients.map((ing) =>
+        isHebrew
+          ? `• ${ing.matched_name} (${ing.serving_size_g} גרם): ${ing.calories} קלוריות, ${ing.protein_g} גרם חלבון, ${ing.carbs_g} גרם פחמימות, ${ing.fats_g} גרם שומן`
+          : `• ${ing.matched_name} (${ing.serving_size_g}g): ${ing.calories} kcal, ${ing.protein_g}g protein, ${ing.carbs_g}g carbs, ${ing.fats_g}g fat`
+      );
+
+      return isHebrew
+        ? `לפי מאגר המזון:\n${lines.join("\n")}`
+        : `From the food database:\n${lines.join("\n")}`;
+    } catch (error) {
+      console.error("Food database lookup failed:", error);
+      return null;
+    }
+  }
+
   static async saveChatMessage(
     userId: string,
     userMessage: string,
@@ -2,9 +2,16 @@ import cron from "node-cron";
 import { EnhancedDailyGoalsService } from "../database/dailyGoals";
 import { EnhancedAIRecommendationService } from "../database/aiRecommendations";
 import { DatabaseOptimizationService } from "../database/optimization";
+import { SubscriptionService } from "../subscriptions";
+import { DeviceSyncService } from "../deviceSync";
+import { RetentionService } from "../retention";
+import { DataExportService } from "../dataExport";
+import { PushNotificationService } from "../pushNotifications";
+import { ChallengeService } from "../challenges";
+import { XpService } from "../xp";
 
 export class EnhancedCronJobService {
-  private static isRunning = false;
+  private static runningJobs = new Set<string>();
   private static lastRun = new Map<string, Date>();
 
   /**
@@ -13,14 +20,14 @@ export class EnhancedCronJobService {
   static initializeEnhancedCronJobs() {
     console.log("🚀 Initializing enhanced cron jobs...");
 
-    // Daily goals creation at 00:30 AM every day
+    // Daily goals creation every hour, for users whose local day just started
     cron.schedule(
-      "30 0 * * *",
+      "30 * * * *",
       async () => {
         await this.runJobSafely("daily-goals", async () => {
-          console.log("📊 Running daily goals creation at 00:30 AM");
+          console.log("📊 Running daily goals creation");
           const result =
-            await EnhancedDailyGoalsService.createDailyGoalsForAllUsers();
+            await EnhancedDailyGoalsService.createDailyGoalsForNewDay();
           console.log("✅ Daily goals creation completed:", result);
           console.log(
             `Created: ${result.created}, Updated: ${result.updated}, Errors: ${result.errors.length}`
@@ -83,6 +90,69 @@ export class EnhancedCronJobService {
       });
     });
 
+    // Downgrade subscriptions whose paid period ended, every hour
+    cron.schedule("15 * * * *", async () => {
+      await this.runJobSafely("subscription-expiry", async () => {
+        const downgraded =
+          await SubscriptionService.downgradeLapsedSubscriptions();
+        console.log(`✅ Subscription expiry check: ${downgraded} downgraded`);
+      });
+    });
+
+    // Pull health data for connected devices whose sync is due, every hour
+    cron.schedule("45 * * * *", async () => {
+      await this.runJobSafely("device-sync", async () => {
+        const results = await DeviceSyncService.syncDueDevices();
+        const failed = results.filter((r) => r.status === "failed").length;
+        console.log(
+          `✅ Device sync: ${results.length} devices, ${failed} failed`
+        );
+      });
+    });
+
+    // Build data exports a restart interrupted and expire old archives,
+    // every hour (exports normally start as soon as they are requested)
+    cron.schedule("5 * * * *", async () => {
+      await this.runJobSafely("data-exports", async () => {
+        const result = await DataExportService.processPendingExports();
+        console.log("✅ Data exports processed:", result);
+      });
+    });
+
+    // Challenge progress, completion rewards and finalization, every hour
+    cron.schedule("35 * * * *", async () => {
+      await this.runJobSafely("challenges", async () => {
+        const result = await ChallengeService.refreshActiveChallenges();
+        console.log("✅ Challenges refreshed:", result);
+      });
+    });
+
+    // Push delivery receipts, dead and idle token pruning, every hour
+    cron.schedule("25 * * * *", async () => {
+      await this.runJobSafely("push-receipts", async () => {
+        const result = await PushNotificationService.checkReceipts();
+        console.log("✅ Push receipts checked:", result);
+      });
+    });
+
+    // Retention policies once a day; dry run unless RETENTION_DRY_RUN=false
+    cron.schedule("0 3 * * *", async () => {
+      await this.runJobSafely("user-retention", async () => {
+        const result = await RetentionService.runPolicies();
+        console.log("✅ User retention completed:", result);
+      });
+    });
+
+    // Rebuild level and points from the XP ledger once a day
+    cron.schedule("0 4 * * *", async () => {
+      await this.runJobSafely("xp-reconcile", async () => {
+        const result = await XpService.reconcileAll();
+        console.log(
+          `✅ XP reconciled: ${result.checked} users checked, ${result.corrected.length} corrected`
+        );
+      });
+    });
+
     console.log("✅ Enhanced cron jobs initialized");
 
     // Run immediate startup tasks
@@ -98,8 +168,9 @@ export class EnhancedCronJobService {
     jobName: string,
     jobFunction: () => Promise<void>
   ) {
-    if (this.isRunning) {
-      console.log(`⏭️ Skipping ${jobName} - another job is running`);
+    // Each job has its own lock: a slow job only holds back its next run
+    if (this.runningJobs.has(jobName)) {
+      console.log(`⏭️ Skipping ${jobName} - previous run still in progress`);
       return;
     }
 
@@ -112,7 +183,7 @@ export class EnhancedCronJobService {
       return;
     }
 
-    this.isRunning = true;
+    this.runningJobs.add(jobName);
     this.lastRun.set(jobName, now);
 
     try {
@@ -122,7 +193,7 @@ export class EnhancedCronJobService {
     } catch (error) {
       console.error(`💥 Job failed: ${jobName}`, error);
     } finally {
-      this.isRunning = false;
+      this.runningJobs.delete(jobName);
     }
   }
 
@@ -213,17 +284,20 @@ export class EnhancedCronJobService {
    */
   static getJobStatus(): {
     isRunning: boolean;
+    runningJobs: string[];
     lastRuns: Record<string, Date>;
     nextRuns: Record<string, string>;
   } {
     return {
-      isRunning: this.isRunning,
+      isRunning: this.runningJobs.size > 0,
+      runningJobs: [...this.runningJobs],
       lastRuns: Object.fromEntries(this.lastRun),
       nextRuns: {
-        "daily-goals": "00:30 AM daily",
+        "daily-goals": "Every hour at :30",
         "ai-recommendations": "06:00 AM daily",
         "database-optimization": "Every 6 hours",
         "health-check": "Every 2 hours",
+        "subscription-expiry": "Every hour at :15",
       },
     };
   }
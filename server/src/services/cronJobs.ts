@@ -2,6 +2,10 @@ import cron from "node-cron";
 import { prisma } from "../lib/database";
 import { AIRecommendationService } from "./aiRecommendations";
 import { DailyGoalsService } from "./dailyGoal";
+import {
+  getEntitlements,
+  shouldCreateDailyGoalToday,
+} from "../config/planLimits";
 
 export class CronJobService {
   static initializeCronJobs() {
@@ -96,16 +100,14 @@ export class CronJobService {
 
       for (const user of eligibleUsers) {
         try {
-          // Check if this user should get goals today based on subscription and signup date
+          // Goal cadence comes from the plan: daily tiers get goals every
+          // day, weekly tiers only on their signup day of the week
           const signupDayOfWeek = new Date(user.signup_date).getDay();
-          const isPremium =
-            user.subscription_type === "PREMIUM" ||
-            user.subscription_type === "GOLD";
-
-          // Premium users get daily goals every day
-          // Free users only get goals on their signup day of the week
-          const shouldCreateToday =
-            isPremium || todayDayOfWeek === signupDayOfWeek;
+          const shouldCreateToday = shouldCreateDailyGoalToday(
+            user.subscription_type,
+            user.signup_date,
+            today
+          );
 
           if (!shouldCreateToday) {
             skippedCount++;
@@ -120,7 +122,7 @@ export class CronJobService {
           successCount++;
           console.log(
             `✅ Created daily goal for user: ${user.user_id} (${
-              isPremium ? "Premium" : "Free"
+              getEntitlements(user.subscription_type).name
             })`
           );
         } catch (userError) {
@@ -1,4 +1,8 @@
 import { prisma } from "../lib/database";
+import {
+  getEntitlements,
+  shouldCreateDailyGoalToday,
+} from "../config/planLimits";
 
 // Define activity level type
 type ActivityLevel = "NONE" | "LIGHT" | "MODERATE" | "HIGH";
@@ -88,25 +92,24 @@ export class DailyGoalsService {
     today: Date
   ): Promise<boolean> {
     try {
-      // Premium users get daily goals every day
+      const signupDate = new Date(user.signup_date);
+
+      // Check if today is one of the plan's goal creation days
       if (
-        user.subscription_type === "PREMIUM" ||
-        user.subscription_type === "GOLD"
+        !shouldCreateDailyGoalToday(user.subscription_type, signupDate, today)
       ) {
+        return false;
+      }
+
+      // Daily tiers get goals every day
+      const { quotas } = getEntitlements(user.subscription_type);
+      if (quotas.dailyGoalsPerWeek >= 7) {
         return true;
       }
 
-      // Free users get new daily goals every 7 days based on signup day
-      const signupDate = new Date(user.signup_date);
+      // Weekly tiers: check if goals were already created this week
       const signupDayOfWeek = signupDate.getDay(); // 0 = Sunday, 1 = Monday, etc.
       const todayDayOfWeek = today.getDay();
-
-      // Check if today is the user's "goal creation day"
-      if (todayDayOfWeek !== signupDayOfWeek) {
-        return false;
-      }
-
-      // Check if goals were already created this week
       const weekStart = new Date(today);
       weekStart.setDate(today.getDate() - todayDayOfWeek + signupDayOfWeek);
       weekStart.setHours(0, 0, 0, 0);
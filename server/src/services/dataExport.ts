@@ -0,0 +1,473 @@
+import crypto from "crypto";
+import { prisma } from "../lib/database";
+import { escapeHtml, sendEmail } from "../lib/mailer";
+import { createZip, ZipEntry } from "../utils/zip";
+import {
+  EXPORT_EXPIRY_HOURS,
+  EXPORT_STALE_MINUTES,
+  EXPORT_SYNC_MAX_MEALS,
+} from "../config/dataExport";
+import { DataExportSummary } from "../types/dataExport";
+
+type Row = Record<string, unknown>;
+
+const exportSummarySelect = {
+  export_id: true,
+  status: true,
+  download_token: true,
+  size_bytes: true,
+  error: true,
+  requested_at: true,
+  completed_at: true,
+  expires_at: true,
+};
+
+const apiBaseUrl = () =>
+  process.env.API_BASE_URL ||
+  `http://localhost:${process.env.PORT || 5000}/api`;
+
+const archiveFilename = (date: Date) =>
+  `calo-data-export-${date.toISOString().split("T")[0]}.zip`;
+
+const csvCell = (value: unknown) => {
+  if (value === null || value === undefined) return "";
+  const text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === "object"
+      ? JSON.stringify(value)
+      : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// A column for every key in the rows; nested values are written as JSON
+const toCsv = (rows: Row[]) => {
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  return [
+    columns.join(","),
+    ...rows.map((row) =>
+      columns.map((column) => csvCell(row[column])).join(",")
+    ),
+  ].join("\r\n");
+};
+
+// Images stored inline as data URLs go into the archive as files
+const dataUrlImage = (value: string | null) => {
+  if (!value?.startsWith("data:image/")) return null;
+  const comma = value.indexOf(",");
+  const type = value.slice("data:image/".length, value.indexOf(";"));
+  return {
+    extension: type === "jpeg" ? "jpg" : type,
+    data: Buffer.from(value.slice(comma + 1), "base64"),
+  };
+};
+
+/**
+ * Personal data export. Small accounts download the zip directly; larger
+ * ones are built in the background, stored until they expire and the user
+ * is emailed a download link.
+ */
+export class DataExportService {
+  /**
+   * Returns the archive for small accounts, or the background export that
+   * was queued (or was already queued) for large ones
+   */
+  static async requestExport(
+    userId: string,
+    background = false
+  ): Promise<
+    { archive: Buffer; filename: string } | { export: DataExportSummary }
+  > {
+    const mealCount = await prisma.meal.count({ where: { user_id: userId } });
+
+    if (!background && mealCount <= EXPORT_SYNC_MAX_MEALS) {
+      const archive = await this.buildArchive(userId);
+      console.log(`📦 Data export downloaded by user: ${userId}`);
+      return { archive, filename: archiveFilename(new Date()) };
+    }
+
+    const inProgress = await prisma.dataExport.findFirst({
+      where: { user_id: userId, status: { in: ["PENDING", "PROCESSING"] } },
+      select: exportSummarySelect,
+    });
+    if (inProgress) {
+      return { export: this.toSummary(inProgress) };
+    }
+
+    const created = await prisma.dataExport.create({
+      data: {
+        user_id: userId,
+        download_token: crypto.randomBytes(32).toString("hex"),
+      },
+      select: exportSummarySelect,
+    });
+    console.log(`📦 Data export queued for user: ${userId}`);
+
+    // The cron sweep picks it up if the server restarts first
+    this.processExport(created.export_id).catch((error) =>
+      console.error("❌ Background data export failed:", error)
+    );
+
+    return { export: this.toSummary(created) };
+  }
+
+  static async getExport(userId: string, exportId: string) {
+    const record = await prisma.dataExport.findFirst({
+      where: { export_id: exportId, user_id: userId },
+      select: exportSummarySelect,
+    });
+    if (!record) {
+      throw new Error("Export not found");
+    }
+    return this.toSummary(record);
+  }
+
+  static async getDownload(token: string) {
+    const record = await prisma.dataExport.findUnique({
+      where: { download_token: token },
+      select: {
+        status: true,
+        archive: true,
+        expires_at: true,
+        completed_at: true,
+      },
+    });
+    if (
+      !record ||
+      record.status !== "READY" ||
+      !record.archive ||
+      !record.expires_at ||
+      record.expires_at < new Date()
+    ) {
+      throw new Error("Export not found or expired");
+    }
+
+    return {
+      archive: Buffer.from(record.archive),
+      filename: archiveFilename(record.completed_at!),
+    };
+  }
+
+  static async processExport(exportId: string) {
+    // Claiming the row keeps the cron sweep and the request from both
+    // building it
+    const claimed = await prisma.dataExport.updateMany({
+      where: { export_id: exportId, status: "PENDING" },
+      data: { status: "PROCESSING", started_at: new Date() },
+    });
+    if (claimed.count === 0) return;
+
+    const record = await prisma.dataExport.findUniqueOrThrow({
+      where: { export_id: exportId },
+      include: {
+        user: { select: { email: true, name: true, timezone: true } },
+      },
+    });
+
+    try {
+      const archive = await this.buildArchive(record.user_id);
+      const completedAt = new Date();
+      const expiresAt = new Date(
+        completedAt.getTime() + EXPORT_EXPIRY_HOURS * 60 * 60 * 1000
+      );
+
+      await prisma.dataExport.update({
+        where: { export_id: exportId },
+        data: {
+          status: "READY",
+          archive,
+          size_bytes: archive.length,
+          completed_at: completedAt,
+          expires_at: expiresAt,
+        },
+      });
+      console.log(
+        `✅ Data export ${exportId} ready (${archive.length} bytes) for user: ${record.user_id}`
+      );
+
+      try {
+        await this.sendReadyEmail(
+          record.user,
+          `${apiBaseUrl()}/user/export/download/${record.download_token}`,
+          expiresAt
+        );
+      } catch (error) {
+        // The link is still shown by the export status endpoint
+        console.error("❌ Failed to email data export link:", error);
+      }
+    } catch (error) {
+      console.error(`❌ Data export ${exportId} failed:`, error);
+      await prisma.dataExport.update({
+        where: { export_id: exportId },
+        data: {
+          status: "FAILED",
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+      });
+    }
+  }
+
+  /**
+   * Retry exports interrupted by a restart, build queued ones and clear
+   * archives past their expiry
+   */
+  static async processPendingExports() {
+    const staleBefore = new Date(Date.now() - EXPORT_STALE_MINUTES * 60 * 1000);
+    await prisma.dataExport.updateMany({
+      where: { status: "PROCESSING", started_at: { lt: staleBefore } },
+      data: { status: "PENDING" },
+    });
+
+    const pending = await prisma.dataExport.findMany({
+      where: { status: "PENDING" },
+      select: { export_id: true },
+      orderBy: { requested_at: "asc" },
+    });
+    for (const { export_id } of pending) {
+      await this.processExport(export_id);
+    }
+
+    const expired = await prisma.dataExport.updateMany({
+      where: { status: "READY", expires_at: { lt: new Date() } },
+      data: { status: "EXPIRED", archive: null },
+    });
+
+    return { processed: pending.length, expired: expired.count };
+  }
+
+  /**
+   * Everything stored about the user, one section per table. Secrets
+   * (password hash, verification codes, device and push tokens) are left out.
+   */
+  static async collectUserData(userId: string) {
+    const where = { user_id: userId };
+
+    const [
+      profile,
+      questionnaires,
+      meals,
+      waterIntake,
+      drinkLogs,
+      containerPresets,
+      dailyGoals,
+      connectedDevices,
+      activitySummaries,
+      activitySamples,
+      metricPriorities,
+      weightEntries,
+      mealPlans,
+      recommendedMenus,
+      chatMessages,
+      achievements,
+      challengeEntries,
+      xpTransactions,
+      badges,
+      shoppingLists,
+      favoriteMeals,
+      recipes,
+      mealCompletions,
+      calendarEvents,
+      payments,
+      pushDevices,
+    ] = await Promise.all([
+      prisma.user.findUnique({
+        where,
+        omit: {
+          password_hash: true,
+          email_verification_code: true,
+          email_verification_expires: true,
+          password_reset_code: true,
+          password_reset_expires: true,
+        },
+      }),
+      prisma.userQuestionnaire.findMany({ where }),
+      prisma.meal.findMany({
+        where,
+        include: { ingredient_items: { orderBy: { position: "asc" } } },
+        orderBy: { created_at: "asc" },
+      }),
+      prisma.waterIntake.findMany({ where, orderBy: { date: "asc" } }),
+      prisma.drinkLog.findMany({ where, orderBy: { logged_at: "asc" } }),
+      prisma.containerPreset.findMany({ where }),
+      prisma.dailyGoal.findMany({ where, orderBy: { date: "asc" } }),
+      prisma.connectedDevice.findMany({
+        where,
+        omit: { access_token_encrypted: true, refresh_token_encrypted: true },
+      }),
+      prisma.dailyActivitySummary.findMany({
+        where,
+        omit: { raw_data: true },
+        orderBy: { date: "asc" },
+      }),
+      prisma.activitySample.findMany({ where, orderBy: { start_time: "asc" } }),
+      prisma.activityMetricPriority.findMany({ where }),
+      prisma.weightEntry.findMany({ where, orderBy: { measured_at: "asc" } }),
+      prisma.userMealPlan.findMany({
+        where,
+        include: {
+          schedules: { include: { template: { select: { name: true } } } },
+        },
+      }),
+      prisma.recommendedMenu.findMany({
+        where,
+        include: { meals: { include: { ingredients: true } } },
+      }),
+      prisma.chatMessage.findMany({ where, orderBy: { created_at: "asc" } }),
+      prisma.userAchievement.findMany({
+        where,
+        include: {
+          achievement: {
+            select: { key: true, title: true, description: true },
+          },
+        },
+      }),
+      prisma.challengeParticipant.findMany({
+        where,
+        include: {
+          challenge: {
+            select: { title: true, start_date: true, end_date: true },
+          },
+        },
+      }),
+      prisma.xpTransaction.findMany({
+        where,
+        orderBy: { transaction_id: "asc" },
+      }),
+      prisma.userBadge.findMany({ where, include: { badge: true } }),
+      prisma.shoppingList.findMany({ where }),
+      prisma.favoriteMeal.findMany({ where }),
+      prisma.recipe.findMany({ where, include: { ingredients: true } }),
+      prisma.mealCompletion.findMany({ where }),
+      prisma.calendarEvent.findMany({ where, orderBy: { date: "asc" } }),
+      prisma.subscriptionPayment.findMany({ where }),
+      prisma.pushToken.findMany({
+        where,
+        select: { platform: true, device_name: true, last_seen: true },
+      }),
+    ]);
+
+    if (!profile) {
+      throw new Error("User not found");
+    }
+
+    return {
+      profile,
+      sections: {
+        questionnaires,
+        meals: meals.map(({ ingredient_items, ...meal }) => meal),
+        meal_ingredients: meals.flatMap((meal) => meal.ingredient_items),
+        water_intake: waterIntake,
+        drink_logs: drinkLogs,
+        container_presets: containerPresets,
+        daily_goals: dailyGoals,
+        connected_devices: connectedDevices,
+        activity_summaries: activitySummaries,
+        activity_samples: activitySamples,
+        metric_priorities: metricPriorities,
+        weight_entries: weightEntries,
+        meal_plans: mealPlans,
+        recommended_menus: recommendedMenus,
+        chat_messages: chatMessages,
+        achievements,
+        challenge_entries: challengeEntries,
+        xp_transactions: xpTransactions,
+        badges,
+        shopping_lists: shoppingLists,
+        favorite_meals: favoriteMeals,
+        recipes,
+        meal_completions: mealCompletions,
+        calendar_events: calendarEvents,
+        payments,
+        push_devices: pushDevices,
+      } as Record<string, Row[]>,
+    };
+  }
+
+  /**
+   * data.json holds everything; csv/ has one file per section; inline meal
+   * photos and the avatar are written to images/
+   */
+  static async buildArchive(userId: string): Promise<Buffer> {
+    const { profile, sections } = await this.collectUserData(userId);
+    const entries: ZipEntry[] = [];
+
+    const avatar = dataUrlImage(profile.avatar_url);
+    if (avatar) {
+      const name = `images/avatar.${avatar.extension}`;
+      entries.push({ name, data: avatar.data });
+      profile.avatar_url = name;
+    }
+
+    for (const meal of sections.meals) {
+      const image = dataUrlImage(meal.image_url as string | null);
+      if (!image) continue;
+      const name = `images/meal-${meal.meal_id}.${image.extension}`;
+      entries.push({ name, data: image.data });
+      meal.image_url = name;
+    }
+
+    const exportedAt = new Date();
+    entries.unshift({
+      name: "data.json",
+      data: JSON.stringify(
+        { exported_at: exportedAt, profile, ...sections },
+        null,
+        2
+      ),
+    });
+    entries.push({ name: "csv/profile.csv", data: toCsv([profile]) });
+    for (const [section, rows] of Object.entries(sections)) {
+      if (rows.length > 0) {
+        entries.push({ name: `csv/${section}.csv`, data: toCsv(rows) });
+      }
+    }
+
+    return createZip(entries, exportedAt);
+  }
+
+  private static toSummary(record: {
+    export_id: string;
+    status: DataExportSummary["status"];
+    download_token: string;
+    size_bytes: number | null;
+    error: string | null;
+    requested_at: Date;
+    completed_at: Date | null;
+    expires_at: Date | null;
+  }): DataExportSummary {
+    const { download_token, ...summary } = record;
+    return {
+      ...summary,
+      download_url:
+        record.status === "READY"
+          ? `${apiBaseUrl()}/user/export/download/${download_token}`
+          : null,
+    };
+  }
+
+  private static async sendReadyEmail(
+    user: { email: string; name: string | null; timezone: string },
+    downloadUrl: string,
+    expiresAt: Date
+  ) {
+    const expiry = expiresAt.toLocaleString("en-US", {
+      dateStyle: "long",
+      timeStyle: "short",
+      timeZone: user.timezone,
+    });
+
+    await sendEmail({
+      to: user.email,
+      subject: "Your Calo data export is ready",
+      html: `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; color: #2d3748;">
+      <h2 style="color: #38a169;">Hi ${user.name ? escapeHtml(user.name) : "there"},</h2>
+      <p>The copy of your Calo data you asked for is ready.</p>
+      <p><a href="${downloadUrl}" style="color: #38a169; font-weight: bold;">Download your data</a></p>
+      <p>The link works until <strong>${expiry}</strong>. Anyone with it can download your data, so don't share it.</p>
+      <p style="color: #a0aec0; font-size: 12px;">If you didn't ask for this export, please change your password.</p>
+    </div>
+  `,
+    });
+  }
+}
@@ -6,6 +6,7 @@ import {
   AIRecommendationResponse,
 } from "../../types/recommendations";
 import { StatisticsService } from "../statistics";
+import { PushNotificationService } from "../pushNotifications";
 export interface RecommendationCreationResult {
   created: number;
   updated: number;
@@ -103,6 +104,9 @@ export class EnhancedAIRecommendationService {
                 console.log(
                   `✅ Generated recommendation for user: ${user.user_id}`
                 );
+                PushNotificationService.notifyRecommendationReady(
+                  user.user_id
+                );
               }
             } catch (error) {
               result.errors.push(
@@ -158,14 +162,14 @@ export class EnhancedAIRecommendationService {
       }
 
       // Import plan limits
-      const { shouldCreateDailyGoals } = await import(
+      const { canReceiveAIRecommendations } = await import(
         "../../config/planLimits"
       );
 
-      // Check if user is eligible for daily goals based on their tier
-      if (!shouldCreateDailyGoals(user.subscription_type, user.signup_date)) {
+      // Check if user is eligible for AI recommendations based on their tier
+      if (!canReceiveAIRecommendations(user.subscription_type)) {
         console.log(
-          `⏭️ Skipping daily goals for user ${userId} - tier not eligible.`
+          `⏭️ Skipping AI recommendations for user ${userId} - tier not eligible.`
         );
         // Return a default/empty recommendation if not eligible
         return this.getFallbackRecommendations(userId);
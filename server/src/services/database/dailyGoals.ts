@@ -1,5 +1,13 @@
 import { prisma } from "../../lib/database";
 import { NutritionGoals } from "../../types/statistics";
+import { TdeeService } from "../tdee";
+import { MIN_CONFIDENCE_FOR_GOALS } from "../../config/tdee";
+import { TimezoneService } from "../timezone";
+import {
+  isValidTimeZone,
+  localDateString,
+  startOfLocalDay,
+} from "../../utils/timezone";
 
 export interface DailyGoalCreationResult {
   created: number;
@@ -13,11 +21,52 @@ export interface DailyGoalCreationResult {
   }>;
 }
 
+// Goals are dated with each user's own calendar day
+const userToday = (timeZone: string, now: Date) =>
+  new Date(localDateString(now, isValidTimeZone(timeZone) ? timeZone : "UTC"));
+
+// The new-day cron runs hourly, so each zone's midnight falls in one run
+const NEW_DAY_WINDOW_MS = 60 * 60 * 1000;
+
+const dayStartedWithin = (timeZone: string, now: Date, windowMs: number) => {
+  const zone = isValidTimeZone(timeZone) ? timeZone : "UTC";
+  const dayStart = startOfLocalDay(localDateString(now, zone), zone);
+  return now.getTime() - dayStart.getTime() < windowMs;
+};
+
 export class EnhancedDailyGoalsService {
   /**
-   * FIXED - Create daily goals for all users with PROPER upsert operations
+   * Create goals for users whose local day started within the last hour.
+   * Only their timezones are loaded, not every user each run.
+   */
+  static async createDailyGoalsForNewDay(
+    now: Date = new Date()
+  ): Promise<DailyGoalCreationResult> {
+    const zones = await prisma.user.groupBy({
+      by: ["timezone"],
+      where: { deleted_at: null },
+    });
+    const timeZones = zones
+      .map((zone) => zone.timezone)
+      .filter((timeZone) => dayStartedWithin(timeZone, now, NEW_DAY_WINDOW_MS));
+
+    if (timeZones.length === 0) {
+      console.log("⏭️ No timezone started a new day, skipping goal creation");
+      return { created: 0, updated: 0, skipped: 0, errors: [], details: [] };
+    }
+
+    console.log(`🌅 New day in: ${timeZones.join(", ")}`);
+    return this.createDailyGoalsForAllUsers(timeZones, now);
+  }
+
+  /**
+   * FIXED - Create daily goals for all users with PROPER upsert operations.
+   * Pass timezones to limit the run to users in them.
    */
-  static async createDailyGoalsForAllUsers(): Promise<DailyGoalCreationResult> {
+  static async createDailyGoalsForAllUsers(
+    timeZones?: string[],
+    now: Date = new Date()
+  ): Promise<DailyGoalCreationResult> {
     console.log(`📊 === STARTING DAILY GOALS CREATION (ENHANCED VERSION) ===`);
 
     const result: DailyGoalCreationResult = {
@@ -33,26 +82,36 @@ export class EnhancedDailyGoalsService {
       await prisma.$queryRaw`SELECT 1`;
       console.log("✅ Database connection verified");
 
-      // Step 1: Get today's date in the correct format (UTC midnight)
-      const now = new Date();
-      const todayString = now.toISOString().split("T")[0];
-      const todayDate = new Date(todayString + "T00:00:00.000Z");
-
-      console.log(`📅 TODAY: ${todayString}`);
-      console.log(`📅 TODAY DATE OBJECT: ${todayDate.toISOString()}`);
+      // Step 1: "Today" is each user's own calendar day
 
       // Step 2: Get ALL users from database
       console.log("👥 FETCHING ALL USERS...");
       const allUsers = await prisma.user.findMany({
+        where: {
+          deleted_at: null,
+          ...(timeZones && { timezone: { in: timeZones } }),
+        },
         select: {
           user_id: true,
           email: true,
           subscription_type: true,
           is_questionnaire_completed: true,
+          adaptive_tdee_enabled: true,
+          timezone: true,
           created_at: true,
         },
       });
 
+      const todayByUser = new Map(
+        allUsers.map((user) => [user.user_id, userToday(user.timezone, now)])
+      );
+      const todayDates = [
+        ...new Set([...todayByUser.values()].map((date) => date.getTime())),
+      ].map((time) => new Date(time));
+      console.log(
+        `📅 TODAY: ${todayDates.map((date) => date.toISOString()).join(", ")}`
+      );
+
       console.log(`👥 TOTAL USERS FOUND: ${allUsers.length}`);
 
       if (allUsers.length === 0) {
@@ -90,17 +149,25 @@ export class EnhancedDailyGoalsService {
       console.log("🔍 CHECKING EXISTING GOALS FOR TODAY...");
       const existingGoals = await prisma.dailyGoal.findMany({
         where: {
-          date: todayDate,
+          date: { in: todayDates },
         },
         select: {
           user_id: true,
           id: true,
+          date: true,
           calories: true,
         },
       });
 
-      console.log(`📊 EXISTING GOALS FOR TODAY: ${existingGoals.length}`);
-      const existingUserIds = new Set(existingGoals.map((g) => g.user_id));
+      const existingUserIds = new Set(
+        existingGoals
+          .filter(
+            (g) =>
+              g.date.getTime() === todayByUser.get(g.user_id)?.getTime()
+          )
+          .map((g) => g.user_id)
+      );
+      console.log(`📊 EXISTING GOALS FOR TODAY: ${existingUserIds.size}`);
 
       // Step 5: Process EACH user individually with UPSERT operations
       for (let i = 0; i < allUsers.length; i++) {
@@ -113,6 +180,19 @@ export class EnhancedDailyGoalsService {
             } (${user.email})`
           );
 
+          const todayDate = todayByUser.get(user.user_id)!;
+
+          // Earlier runs already created today's goal
+          if (existingUserIds.has(user.user_id)) {
+            result.skipped++;
+            result.details.push({
+              user_id: user.user_id,
+              action: "skipped",
+              message: "Goal already exists for today",
+            });
+            continue;
+          }
+
           // Get questionnaire for this user
           const questionnaire = questionnaireMap.get(user.user_id);
           console.log(
@@ -120,7 +200,13 @@ export class EnhancedDailyGoalsService {
           );
 
           // Calculate personalized goals
-          const goals = this.calculatePersonalizedGoals(questionnaire);
+          const goals = this.calculatePersonalizedGoals(
+            questionnaire,
+            await this.getAdaptiveMaintenance(
+              user.user_id,
+              user.adaptive_tdee_enabled
+            )
+          );
           console.log(`🎯 Calculated goals for ${user.user_id}:`, goals);
 
           // Use UPSERT to handle existing goals properly
@@ -222,7 +308,7 @@ export class EnhancedDailyGoalsService {
       console.log("\n🔍 FINAL VERIFICATION: Counting all goals for today...");
       const finalGoalCount = await prisma.dailyGoal.count({
         where: {
-          date: todayDate,
+          date: { in: todayDates },
         },
       });
 
@@ -231,7 +317,7 @@ export class EnhancedDailyGoalsService {
       // List all goals for today for verification
       const allTodayGoals = await prisma.dailyGoal.findMany({
         where: {
-          date: todayDate,
+          date: { in: todayDates },
         },
         select: {
           id: true,
@@ -283,12 +369,7 @@ export class EnhancedDailyGoalsService {
     };
 
     try {
-      const today = new Date();
-      const todayString = today.toISOString().split("T")[0];
-      const todayDate = new Date(todayString);
-
-      console.log(`📅 Force creating goals for date: ${todayString}`);
-      console.log(`📅 Date object: ${todayDate.toISOString()}`);
+      const now = new Date();
 
       // Get ALL users with questionnaires
       const allUsers = await prisma.user.findMany({
@@ -302,21 +383,43 @@ export class EnhancedDailyGoalsService {
 
       console.log(`👥 FORCE processing ${allUsers.length} users`);
 
+      // Each user's goal is for their own current day
+      const todayByUser = new Map(
+        allUsers.map((user) => [user.user_id, userToday(user.timezone, now)])
+      );
+      const todayDates = [
+        ...new Set([...todayByUser.values()].map((date) => date.getTime())),
+      ].map((time) => new Date(time));
+      console.log(
+        `📅 Force creating goals for dates: ${todayDates
+          .map((date) => date.toISOString())
+          .join(", ")}`
+      );
+
       // Get existing goals to determine create vs update
       const existingGoals = await prisma.dailyGoal.findMany({
         where: {
-          date: todayDate,
+          date: { in: todayDates },
         },
         select: {
           user_id: true,
+          date: true,
         },
       });
 
-      const existingUserIds = new Set(existingGoals.map((g) => g.user_id));
+      const existingUserIds = new Set(
+        existingGoals
+          .filter(
+            (g) =>
+              g.date.getTime() === todayByUser.get(g.user_id)?.getTime()
+          )
+          .map((g) => g.user_id)
+      );
       console.log(`📊 Users with existing goals: ${existingUserIds.size}`);
 
       for (let i = 0; i < allUsers.length; i++) {
         const user = allUsers[i];
+        const todayDate = todayByUser.get(user.user_id)!;
 
         try {
           console.log(
@@ -326,7 +429,13 @@ export class EnhancedDailyGoalsService {
           );
 
           const questionnaire = user.questionnaires[0];
-          const goals = this.calculatePersonalizedGoals(questionnaire);
+          const goals = this.calculatePersonalizedGoals(
+            questionnaire,
+            await this.getAdaptiveMaintenance(
+              user.user_id,
+              user.adaptive_tdee_enabled
+            )
+          );
 
           console.log(`🎯 Goals calculated for ${user.user_id}:`, goals);
 
@@ -426,7 +535,7 @@ export class EnhancedDailyGoalsService {
       // Final verification
       const finalCount = await prisma.dailyGoal.count({
         where: {
-          date: todayDate,
+          date: { in: todayDates },
         },
       });
 
@@ -439,7 +548,7 @@ export class EnhancedDailyGoalsService {
 
       // List all goals for verification
       const allGoals = await prisma.dailyGoal.findMany({
-        where: { date: todayDate },
+        where: { date: { in: todayDates } },
         select: {
           id: true,
           user_id: true,
@@ -476,8 +585,7 @@ export class EnhancedDailyGoalsService {
     try {
       console.log(`📊 === GETTING DAILY GOALS FOR USER: ${userId} ===`);
 
-      const today = new Date();
-      const todayString = today.toISOString().split("T")[0];
+      const todayString = await TimezoneService.getUserDate(userId);
       const todayDate = new Date(todayString);
 
       console.log(`📅 Looking for goals on date: ${todayString}`);
@@ -492,7 +600,10 @@ export class EnhancedDailyGoalsService {
       console.log(`📋 Questionnaire found: ${!!questionnaire}`);
 
       // Calculate goals
-      const goals = this.calculatePersonalizedGoals(questionnaire);
+      const goals = this.calculatePersonalizedGoals(
+        questionnaire,
+        await this.getAdaptiveMaintenance(userId)
+      );
       console.log(`🎯 Calculated goals:`, goals);
 
       // Use UPSERT to get or create goals
@@ -582,10 +693,12 @@ export class EnhancedDailyGoalsService {
       console.log(`📋 Questionnaires: ${user.questionnaires.length}`);
 
       const questionnaire = user.questionnaires[0];
-      const goals = this.calculatePersonalizedGoals(questionnaire);
+      const goals = this.calculatePersonalizedGoals(
+        questionnaire,
+        await this.getAdaptiveMaintenance(userId, user.adaptive_tdee_enabled)
+      );
 
-      const today = new Date();
-      const todayString = today.toISOString().split("T")[0];
+      const todayString = await TimezoneService.getUserDate(userId);
       const todayDate = new Date(todayString);
 
       console.log(`🎯 Calculated goals for ${userId}:`, goals);
@@ -666,11 +779,78 @@ export class EnhancedDailyGoalsService {
     }
   }
 
+  /**
+   * Maintenance calories from the Mifflin-St Jeor BMR and activity level
+   */
+  static calculateFormulaTdee(questionnaire: any): number {
+    const weight = Number(questionnaire.weight_kg) || 70;
+    const height = Number(questionnaire.height_cm) || 170;
+    const age = Number(questionnaire.age) || 25;
+    const isMale =
+      questionnaire.gender?.toLowerCase().includes("male") ||
+      questionnaire.gender?.toLowerCase().includes("זכר") ||
+      questionnaire.gender === "MALE";
+
+    let bmr;
+    if (isMale) {
+      bmr = 10 * weight + 6.25 * height - 5 * age + 5;
+    } else {
+      bmr = 10 * weight + 6.25 * height - 5 * age - 161;
+    }
+
+    console.log(
+      `🔢 BMR calculated: ${Math.round(bmr)} for ${
+        isMale ? "male" : "female"
+      }`
+    );
+
+    // Activity level multipliers
+    const activityMultipliers = {
+      NONE: 1.2,
+      LIGHT: 1.375,
+      MODERATE: 1.55,
+      HIGH: 1.725,
+    };
+
+    const activityLevel = questionnaire.physical_activity_level || "MODERATE";
+    const activityMultiplier = activityMultipliers[activityLevel] || 1.55;
+    return bmr * activityMultiplier;
+  }
+
+  /**
+   * The adaptive maintenance estimate for users who enabled it, once it is
+   * confident enough to replace the formula
+   */
+  private static async getAdaptiveMaintenance(
+    userId: string,
+    enabled?: boolean
+  ): Promise<number | undefined> {
+    try {
+      if (enabled === undefined) {
+        const user = await prisma.user.findUnique({
+          where: { user_id: userId },
+          select: { adaptive_tdee_enabled: true },
+        });
+        enabled = user?.adaptive_tdee_enabled ?? false;
+      }
+      if (!enabled) return undefined;
+
+      const estimate = await TdeeService.estimate(userId);
+      return estimate.confidence >= MIN_CONFIDENCE_FOR_GOALS
+        ? estimate.maintenance_calories
+        : undefined;
+    } catch (error) {
+      console.error(`💥 Adaptive TDEE failed for user ${userId}:`, error);
+      return undefined;
+    }
+  }
+
   /**
    * Calculate personalized daily goals based on questionnaire
    */
   private static calculatePersonalizedGoals(
-    questionnaire: any
+    questionnaire: any,
+    maintenanceCalories?: number
   ): NutritionGoals {
     console.log("🧮 === CALCULATING PERSONALIZED GOALS ===");
     console.log("📋 Questionnaire available:", !!questionnaire);
@@ -696,44 +876,18 @@ export class EnhancedDailyGoalsService {
         activity: questionnaire.physical_activity_level,
       });
 
-      // Calculate BMR using Mifflin-St Jeor equation
       const weight = Number(questionnaire.weight_kg) || 70;
-      const height = Number(questionnaire.height_cm) || 170;
-      const age = Number(questionnaire.age) || 25;
-      const isMale =
-        questionnaire.gender?.toLowerCase().includes("male") ||
-        questionnaire.gender?.toLowerCase().includes("זכר") ||
-        questionnaire.gender === "MALE";
-
-      let bmr;
-      if (isMale) {
-        bmr = 10 * weight + 6.25 * height - 5 * age + 5;
-      } else {
-        bmr = 10 * weight + 6.25 * height - 5 * age - 161;
-      }
-
-      console.log(
-        `🔢 BMR calculated: ${Math.round(bmr)} for ${
-          isMale ? "male" : "female"
-        }`
-      );
-
-      // Activity level multipliers
-      const activityMultipliers = {
-        NONE: 1.2,
-        LIGHT: 1.375,
-        MODERATE: 1.55,
-        HIGH: 1.725,
-      };
-
       const activityLevel = questionnaire.physical_activity_level || "MODERATE";
-      const activityMultiplier = activityMultipliers[activityLevel] || 1.55;
-      const tdee = bmr * activityMultiplier;
+      const formulaTdee = this.calculateFormulaTdee(questionnaire);
+
+      // An adaptive estimate from logged intake and weight change replaces
+      // the formula when the user has turned it on
+      const tdee = maintenanceCalories ?? formulaTdee;
 
       console.log(
-        `⚡ TDEE calculated: ${Math.round(
-          tdee
-        )} (activity: ${activityLevel}, multiplier: ${activityMultiplier})`
+        `⚡ TDEE: ${Math.round(tdee)} (${
+          maintenanceCalories ? "adaptive" : "formula"
+        }, activity: ${activityLevel})`
       );
 
       // Adjust based on goal
@@ -817,8 +971,7 @@ export class EnhancedDailyGoalsService {
     try {
       console.log(`📊 === CREATING DAILY GOAL FOR SINGLE USER: ${userId} ===`);
 
-      const today = new Date();
-      const todayString = today.toISOString().split("T")[0];
+      const todayString = await TimezoneService.getUserDate(userId);
       const todayDate = new Date(todayString);
 
       console.log(`📅 Creating goal for date: ${todayString}`);
@@ -830,7 +983,10 @@ export class EnhancedDailyGoalsService {
       });
 
       // Calculate goals
-      const goals = this.calculatePersonalizedGoals(questionnaire);
+      const goals = this.calculatePersonalizedGoals(
+        questionnaire,
+        await this.getAdaptiveMaintenance(userId)
+      );
       console.log(`🎯 Calculated goals:`, goals);
 
       // Use UPSERT to handle existing goals
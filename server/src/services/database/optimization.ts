@@ -19,6 +19,7 @@ export class DatabaseOptimizationService {
         chatMessageCount,
         expiredSessions,
         oldRecommendations,
+        expiredRefreshTokens,
       ] = await Promise.all([
         prisma.user.count(),
         prisma.meal.count(),
@@ -41,6 +42,13 @@ export class DatabaseOptimizationService {
             },
           },
         }),
+        prisma.refreshToken.count({
+          where: {
+            expires_at: {
+              lt: new Date(),
+            },
+          },
+        }),
       ]);
 
       const totalRecords =
@@ -54,6 +62,7 @@ export class DatabaseOptimizationService {
       const needsCleanup =
         expiredSessions > 100 ||
         oldRecommendations > 1000 ||
+        expiredRefreshTokens > 1000 ||
         estimatedSize > 50;
 
       let status: "healthy" | "warning" | "critical" = "healthy";
@@ -111,6 +120,16 @@ export class DatabaseOptimizationService {
             `🗑️ Deleted ${expiredSessionsResult.count} expired sessions`
           );
 
+          // Rotated refresh tokens are kept until expiry to catch replays
+          const expiredRefreshTokensResult = await tx.refreshToken.deleteMany({
+            where: {
+              expires_at: {
+                lt: new Date(),
+              },
+            },
+          });
+          deletedRecords += expiredRefreshTokensResult.count;
+
           // 2. Clean old AI recommendations (keep last 30 days)
           const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
           const oldRecommendationsResult = await tx.aiRecommendation.deleteMany(
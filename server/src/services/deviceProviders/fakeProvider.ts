@@ -0,0 +1,65 @@
+import { DeviceType } from "@prisma/client";
+import { ActivityData } from "../../types/devices";
+import {
+  DeviceSyncProvider,
+  RefreshedDeviceTokens,
+} from "../../types/deviceSync";
+
+interface FakeProviderOptions {
+  // Refreshes throw this error, e.g. to simulate a revoked grant
+  failRefresh?: string;
+  // Summary fetches throw this error
+  failFetch?: string;
+  expiresInSeconds?: number;
+}
+
+/**
+ * In-memory provider for development and tests. Refreshes hand out
+ * numbered tokens; summaries come from the days set on it.
+ */
+export class FakeDeviceSyncProvider implements DeviceSyncProvider {
+  private days = new Map<string, ActivityData>();
+  refreshCount = 0;
+  fetchedDates: string[] = [];
+
+  constructor(
+    readonly deviceType: DeviceType,
+    days: Record<string, ActivityData> = {},
+    private options: FakeProviderOptions = {}
+  ) {
+    Object.entries(days).forEach(([date, data]) => this.days.set(date, data));
+  }
+
+  setDay(date: string, data: ActivityData) {
+    this.days.set(date, data);
+  }
+
+  setOptions(options: FakeProviderOptions) {
+    this.options = options;
+  }
+
+  async refreshAccessToken(
+    refreshToken: string
+  ): Promise<RefreshedDeviceTokens> {
+    if (this.options.failRefresh) {
+      throw new Error(this.options.failRefresh);
+    }
+    this.refreshCount++;
+    return {
+      accessToken: `fake-access-${this.refreshCount}`,
+      refreshToken: `${refreshToken}-r${this.refreshCount}`,
+      expiresInSeconds: this.options.expiresInSeconds ?? 3600,
+    };
+  }
+
+  async fetchDailySummary(
+    accessToken: string,
+    date: string
+  ): Promise<ActivityData | null> {
+    if (this.options.failFetch) {
+      throw new Error(this.options.failFetch);
+    }
+    this.fetchedDates.push(date);
+    return this.days.get(date) || null;
+  }
+}
@@ -0,0 +1,49 @@
+import axios from "axios";
+import { DeviceType } from "@prisma/client";
+import {
+  DEVICE_OAUTH_CLIENTS,
+  DEVICE_SYNC_TIMEOUT_MS,
+} from "../../config/deviceSync";
+import { ActivityData } from "../../types/devices";
+import { DeviceSyncProvider } from "../../types/deviceSync";
+import { refreshOAuthToken } from "./oauth";
+
+export class FitbitSyncProvider implements DeviceSyncProvider {
+  deviceType = DeviceType.FITBIT;
+  private client = DEVICE_OAUTH_CLIENTS.FITBIT;
+
+  // Fitbit refresh tokens are single use; the new one must be stored
+  refreshAccessToken(refreshToken: string) {
+    return refreshOAuthToken(this.client, refreshToken, { basicAuth: true });
+  }
+
+  async fetchDailySummary(
+    accessToken: string,
+    date: string
+  ): Promise<ActivityData | null> {
+    const response = await axios.get(
+      `${this.client.apiUrl}/user/-/activities/date/${date}.json`,
+      {
+        timeout: DEVICE_SYNC_TIMEOUT_MS,
+        headers: { Authorization: `Bearer ${accessToken}` },
+      }
+    );
+
+    const summary = response.data?.summary;
+    if (!summary) return null;
+
+    const totalDistance = (summary.distances || []).find(
+      (entry: any) => entry.activity === "total"
+    );
+
+    return {
+      steps: summary.steps || 0,
+      caloriesBurned: summary.activityCalories || 0,
+      bmr: summary.caloriesBMR || 0,
+      activeMinutes:
+        (summary.veryActiveMinutes || 0) + (summary.fairlyActiveMinutes || 0),
+      distance: totalDistance?.distance,
+      heartRate: summary.restingHeartRate,
+    };
+  }
+}
@@ -0,0 +1,77 @@
+import axios from "axios";
+import { DeviceType } from "@prisma/client";
+import {
+  DEVICE_OAUTH_CLIENTS,
+  DEVICE_SYNC_TIMEOUT_MS,
+} from "../../config/deviceSync";
+import { ActivityData } from "../../types/devices";
+import { DeviceSyncProvider } from "../../types/deviceSync";
+import { dayBounds, refreshOAuthToken } from "./oauth";
+
+const DATA_TYPES = {
+  steps: "com.google.step_count.delta",
+  calories: "com.google.calories.expended",
+  activeMinutes: "com.google.active_minutes",
+  distance: "com.google.distance.delta",
+  heartRate: "com.google.heart_rate.bpm",
+};
+
+export class GoogleFitSyncProvider implements DeviceSyncProvider {
+  deviceType = DeviceType.GOOGLE_FIT;
+  private client = DEVICE_OAUTH_CLIENTS.GOOGLE_FIT;
+
+  refreshAccessToken(refreshToken: string) {
+    return refreshOAuthToken(this.client, refreshToken);
+  }
+
+  async fetchDailySummary(
+    accessToken: string,
+    date: string
+  ): Promise<ActivityData | null> {
+    const { start, end } = dayBounds(date);
+    const types = Object.values(DATA_TYPES);
+
+    const response = await axios.post(
+      `${this.client.apiUrl}/users/me/dataset:aggregate`,
+      {
+        aggregateBy: types.map((dataTypeName) => ({ dataTypeName })),
+        bucketByTime: { durationMillis: end.getTime() - start.getTime() },
+        startTimeMillis: start.getTime(),
+        endTimeMillis: end.getTime(),
+      },
+      {
+        timeout: DEVICE_SYNC_TIMEOUT_MS,
+        headers: { Authorization: `Bearer ${accessToken}` },
+      }
+    );
+
+    // One dataset per requested data type, in request order
+    const datasets: any[] = response.data?.bucket?.[0]?.dataset || [];
+    const sum = (type: string) =>
+      (datasets[types.indexOf(type)]?.point || []).reduce(
+        (total: number, point: any) =>
+          total + (point.value?.[0]?.intVal ?? point.value?.[0]?.fpVal ?? 0),
+        0
+      );
+    const points = datasets.reduce(
+      (count: number, dataset: any) => count + (dataset.point?.length || 0),
+      0
+    );
+    if (points === 0) return null;
+
+    // Heart rate aggregates to [average, max, min]
+    const heartRate =
+      datasets[types.indexOf(DATA_TYPES.heartRate)]?.point?.[0]?.value?.[0]
+        ?.fpVal;
+
+    return {
+      steps: Math.round(sum(DATA_TYPES.steps)),
+      // Google's expended calories already include the resting burn
+      caloriesBurned: Math.round(sum(DATA_TYPES.calories)),
+      bmr: 0,
+      activeMinutes: Math.round(sum(DATA_TYPES.activeMinutes)),
+      distance: Math.round(sum(DATA_TYPES.distance) / 10) / 100,
+      heartRate: heartRate ? Math.round(heartRate) : undefined,
+    };
+  }
+}
@@ -0,0 +1,61 @@
+import { DeviceType } from "@prisma/client";
+import { DEVICE_OAUTH_CLIENTS } from "../../config/deviceSync";
+import { DeviceSyncProvider } from "../../types/deviceSync";
+import { GoogleFitSyncProvider } from "./googleFit";
+import { FitbitSyncProvider } from "./fitbit";
+import { WhoopSyncProvider } from "./whoop";
+
+export { GoogleFitSyncProvider } from "./googleFit";
+export { FitbitSyncProvider } from "./fitbit";
+export { WhoopSyncProvider } from "./whoop";
+export { FakeDeviceSyncProvider } from "./fakeProvider";
+
+let providers: Map<DeviceType, DeviceSyncProvider> | null = null;
+
+function buildProviders(): Map<DeviceType, DeviceSyncProvider> {
+  const configured = new Map<DeviceType, DeviceSyncProvider>();
+  const candidates = [
+    ["GOOGLE_FIT", new GoogleFitSyncProvider()],
+    ["FITBIT", new FitbitSyncProvider()],
+    ["WHOOP", new WhoopSyncProvider()],
+  ] as const;
+
+  for (const [key, provider] of candidates) {
+    const client = DEVICE_OAUTH_CLIENTS[key];
+    if (client.clientId && client.clientSecret) {
+      configured.set(provider.deviceType, provider);
+    }
+  }
+
+  console.log(
+    `⌚ Server-side device sync: ${
+      [...configured.keys()].join(", ") || "no providers configured"
+    }`
+  );
+  return configured;
+}
+
+/**
+ * The sync adapter for a device type, or null when the server doesn't sync
+ * that type
+ */
+export function getDeviceSyncProvider(
+  deviceType: DeviceType
+): DeviceSyncProvider | null {
+  if (!providers) providers = buildProviders();
+  return providers.get(deviceType) || null;
+}
+
+export function getDeviceSyncProviders(): DeviceSyncProvider[] {
+  if (!providers) providers = buildProviders();
+  return [...providers.values()];
+}
+
+/**
+ * Override the adapters (tests)
+ */
+export function setDeviceSyncProviders(override: DeviceSyncProvider[] | null) {
+  providers = override
+    ? new Map(override.map((provider) => [provider.deviceType, provider]))
+    : null;
+}
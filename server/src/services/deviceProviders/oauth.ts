@@ -0,0 +1,68 @@
+import axios from "axios";
+import {
+  DEVICE_SYNC_TIMEOUT_MS,
+  DeviceOAuthClient,
+} from "../../config/deviceSync";
+import { RefreshedDeviceTokens } from "../../types/deviceSync";
+
+/**
+ * Standard OAuth2 refresh_token grant. Fitbit wants the client credentials
+ * as Basic auth, the others in the form body.
+ */
+export async function refreshOAuthToken(
+  client: DeviceOAuthClient,
+  refreshToken: string,
+  options: { basicAuth?: boolean; scope?: string } = {}
+): Promise<RefreshedDeviceTokens> {
+  const form = new URLSearchParams({
+    grant_type: "refresh_token",
+    refresh_token: refreshToken,
+  });
+  if (!options.basicAuth) {
+    form.set("client_id", client.clientId);
+    form.set("client_secret", client.clientSecret);
+  }
+  if (options.scope) {
+    form.set("scope", options.scope);
+  }
+
+  try {
+    const response = await axios.post(client.tokenUrl, form.toString(), {
+      timeout: DEVICE_SYNC_TIMEOUT_MS,
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        ...(options.basicAuth && {
+          Authorization: `Basic ${Buffer.from(
+            `${client.clientId}:${client.clientSecret}`
+          ).toString("base64")}`,
+        }),
+      },
+    });
+
+    if (!response.data?.access_token) {
+      throw new Error("No access token in refresh response");
+    }
+
+    return {
+      accessToken: response.data.access_token,
+      refreshToken: response.data.refresh_token,
+      expiresInSeconds: response.data.expires_in,
+    };
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      const data = error.response.data || {};
+      const reason =
+        data.error_description ||
+        data.errors?.[0]?.message ||
+        data.error ||
+        `HTTP ${error.response.status}`;
+      throw new Error(String(reason));
+    }
+    throw error;
+  }
+}
+
+export const dayBounds = (date: string) => {
+  const start = new Date(`${date}T00:00:00.000Z`);
+  return { start, end: new Date(start.getTime() + 24 * 60 * 60 * 1000) };
+};
@@ -0,0 +1,42 @@
+import axios from "axios";
+import { DeviceType } from "@prisma/client";
+import {
+  DEVICE_OAUTH_CLIENTS,
+  DEVICE_SYNC_TIMEOUT_MS,
+} from "../../config/deviceSync";
+import { ActivityData } from "../../types/devices";
+import { DeviceSyncProvider } from "../../types/deviceSync";
+import { dayBounds, refreshOAuthToken } from "./oauth";
+
+export class WhoopSyncProvider implements DeviceSyncProvider {
+  deviceType = DeviceType.WHOOP;
+  private client = DEVICE_OAUTH_CLIENTS.WHOOP;
+
+  refreshAccessToken(refreshToken: string) {
+    return refreshOAuthToken(this.client, refreshToken, { scope: "offline" });
+  }
+
+  async fetchDailySummary(
+    accessToken: string,
+    date: string
+  ): Promise<ActivityData | null> {
+    const { start, end } = dayBounds(date);
+    const response = await axios.get(`${this.client.apiUrl}/cycle`, {
+      timeout: DEVICE_SYNC_TIMEOUT_MS,
+      headers: { Authorization: `Bearer ${accessToken}` },
+      params: { start: start.toISOString(), end: end.toISOString() },
+    });
+
+    const score = response.data?.records?.[0]?.score;
+    if (!score) return null;
+
+    // Whoop doesn't count steps; strain energy is in kilojoules
+    return {
+      steps: 0,
+      caloriesBurned: Math.round((score.kilojoule || 0) / 4.184),
+      bmr: 0,
+      activeMinutes: 0,
+      heartRate: score.average_heart_rate,
+    };
+  }
+}
@@ -0,0 +1,224 @@
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { ConnectedDevice } from "@prisma/client";
+import { DeviceSyncService } from "./deviceSync";
+import { DeviceService } from "./devices";
+import { TimezoneService } from "./timezone";
+import {
+  FakeDeviceSyncProvider,
+  setDeviceSyncProviders,
+} from "./deviceProviders";
+import { MAX_BACKFILL_DAYS, STALE_SYNC_AFTER_MS } from "../config/deviceSync";
+import { stubPrisma } from "../test/stubPrisma";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const day = (steps: number) => ({
+  steps,
+  caloriesBurned: 2000,
+  activeMinutes: 30,
+  bmr: 1600,
+});
+
+const makeDevice = (overrides: Partial<ConnectedDevice> = {}) =>
+  ({
+    connected_device_id: "device-1",
+    user_id: "user-1",
+    device_name: "Fitbit",
+    device_type: "FITBIT",
+    connection_status: "CONNECTED",
+    last_sync_time: null,
+    sync_frequency_hours: 24,
+    refresh_token_encrypted: "encrypted",
+    token_expires_at: new Date(Date.now() + 24 * HOUR_MS),
+    last_sync_attempt_at: null,
+    sync_error: null,
+    ...overrides,
+  }) as ConnectedDevice;
+
+describe("DeviceSyncService.datesToSync", () => {
+  test("starts from the day of the last sync in the user's timezone", () => {
+    const now = new Date("2026-03-10T12:00:00Z");
+    const lastSync = new Date("2026-03-07T23:30:00Z");
+
+    assert.deepEqual(DeviceSyncService.datesToSync(lastSync, now, "UTC"), [
+      "2026-03-07",
+      "2026-03-08",
+      "2026-03-09",
+      "2026-03-10",
+    ]);
+    assert.deepEqual(
+      DeviceSyncService.datesToSync(lastSync, now, "Asia/Jerusalem"),
+      ["2026-03-08", "2026-03-09", "2026-03-10"]
+    );
+  });
+
+  test("caps the backfill and syncs only today for a new device", () => {
+    const now = new Date("2026-03-30T12:00:00Z");
+    const dates = DeviceSyncService.datesToSync(
+      new Date("2026-01-01T00:00:00Z"),
+      now
+    );
+
+    assert.equal(dates.length, MAX_BACKFILL_DAYS);
+    assert.equal(dates[dates.length - 1], "2026-03-30");
+    assert.deepEqual(DeviceSyncService.datesToSync(null, now), ["2026-03-30"]);
+  });
+});
+
+describe("DeviceSyncService.syncDevice", () => {
+  let provider: FakeDeviceSyncProvider;
+  let updates: Array<Record<string, unknown>>;
+  let saved: string[];
+  let restorePrisma: () => void;
+
+  beforeEach(() => {
+    provider = new FakeDeviceSyncProvider("FITBIT");
+    setDeviceSyncProviders([provider]);
+    updates = [];
+    saved = [];
+
+    restorePrisma = stubPrisma({
+      connectedDevice: {
+        update: async ({ data }: { data: Record<string, unknown> }) => {
+          updates.push(data);
+          return data;
+        },
+      },
+    });
+    mock.method(TimezoneService, "getUserTimeZone", async () => "UTC");
+    mock.method(DeviceService, "getDeviceTokens", async () => ({
+      accessToken: "stored-access",
+      refreshToken: "stored-refresh",
+    }));
+    mock.method(DeviceService, "updateDeviceTokens", async () => undefined);
+    mock.method(
+      DeviceService,
+      "saveDailySummary",
+      async (_device: unknown, date: string) => {
+        saved.push(date);
+      }
+    );
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    restorePrisma();
+    setDeviceSyncProviders(null);
+  });
+
+  test("saves the days the provider has and marks the device connected", async () => {
+    const today = new Date().toISOString().slice(0, 10);
+    provider.setDay(today, day(8000));
+
+    const result = await DeviceSyncService.syncDevice(makeDevice());
+
+    assert.equal(result.status, "synced");
+    assert.deepEqual(result.days_synced, [today]);
+    assert.deepEqual(saved, [today]);
+    assert.equal(provider.refreshCount, 0);
+    assert.equal(updates[0].connection_status, "SYNCING");
+    assert.equal(updates[1].connection_status, "CONNECTED");
+    assert.ok(updates[1].last_sync_time instanceof Date);
+  });
+
+  test("refreshes a token that expires soon before fetching", async () => {
+    const result = await DeviceSyncService.syncDevice(
+      makeDevice({ token_expires_at: new Date(Date.now() + 60 * 1000) })
+    );
+
+    assert.equal(result.status, "synced");
+    assert.equal(provider.refreshCount, 1);
+    const updateTokens = DeviceService.updateDeviceTokens as unknown as {
+      mock: { calls: Array<{ arguments: unknown[] }> };
+    };
+    assert.equal(updateTokens.mock.calls[0].arguments[2], "fake-access-1");
+  });
+
+  test("puts the device in ERROR when the refresh is rejected", async () => {
+    provider.setOptions({ failRefresh: "invalid_grant" });
+
+    const result = await DeviceSyncService.syncDevice(
+      makeDevice({ token_expires_at: null })
+    );
+
+    assert.equal(result.status, "failed");
+    assert.match(result.error!, /Token refresh failed: invalid_grant/);
+    assert.equal(updates[1].connection_status, "ERROR");
+  });
+
+  test("keeps last_sync_time when a fetch fails so the days are retried", async () => {
+    provider.setOptions({ failFetch: "503 Service Unavailable" });
+
+    const result = await DeviceSyncService.syncDevice(makeDevice());
+
+    assert.equal(result.status, "failed");
+    assert.equal(updates[1].connection_status, "CONNECTED");
+    assert.equal(updates[1].sync_error, "503 Service Unavailable");
+    assert.equal("last_sync_time" in updates[1], false);
+  });
+});
+
+describe("DeviceSyncService.syncDueDevices", () => {
+  let restorePrisma: () => void;
+  let where: Record<string, unknown> | undefined;
+
+  afterEach(() => {
+    mock.restoreAll();
+    restorePrisma();
+    setDeviceSyncProviders(null);
+  });
+
+  test("syncs due devices and devices stuck in SYNCING", async () => {
+    const now = Date.now();
+    const devices = [
+      makeDevice({
+        connected_device_id: "due",
+        last_sync_time: new Date(now - 25 * HOUR_MS),
+      }),
+      makeDevice({
+        connected_device_id: "fresh",
+        last_sync_time: new Date(now - HOUR_MS),
+      }),
+      makeDevice({
+        connected_device_id: "stuck",
+        connection_status: "SYNCING",
+        last_sync_time: new Date(now - HOUR_MS),
+        last_sync_attempt_at: new Date(now - STALE_SYNC_AFTER_MS - HOUR_MS),
+      }),
+    ];
+    setDeviceSyncProviders([new FakeDeviceSyncProvider("FITBIT")]);
+    restorePrisma = stubPrisma({
+      connectedDevice: {
+        findMany: async (args: { where: Record<string, unknown> }) => {
+          where = args.where;
+          return devices;
+        },
+      },
+    });
+    const synced: string[] = [];
+    mock.method(
+      DeviceSyncService,
+      "syncDevice",
+      async (device: ConnectedDevice) => {
+        synced.push(device.connected_device_id);
+        return {
+          device_id: device.connected_device_id,
+          device_type: device.device_type,
+          status: "synced",
+          days_synced: [],
+        };
+      }
+    );
+
+    await DeviceSyncService.syncDueDevices();
+
+    assert.deepEqual(synced, ["due", "stuck"]);
+    const stale = (where!.OR as Array<Record<string, any>>).find(
+      (clause) => clause.connection_status === "SYNCING"
+    );
+    const cutoff = stale!.last_sync_attempt_at.lt.getTime();
+    assert.ok(cutoff >= now - STALE_SYNC_AFTER_MS);
+    assert.ok(cutoff <= Date.now() - STALE_SYNC_AFTER_MS);
+  });
+});
@@ -0,0 +1,235 @@
+import { ConnectedDevice } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { DeviceService } from "./devices";
+import { getDeviceSyncProvider } from "./deviceProviders";
+import { TimezoneService } from "./timezone";
+import {
+  DEFAULT_SYNC_FREQUENCY_HOURS,
+  MAX_BACKFILL_DAYS,
+  STALE_SYNC_AFTER_MS,
+  TOKEN_REFRESH_MARGIN_MS,
+} from "../config/deviceSync";
+import { DeviceSyncProvider, DeviceSyncResult } from "../types/deviceSync";
+import { addDays, localDateString } from "../utils/timezone";
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+export class DeviceSyncService {
+  /**
+   * Whether sync_frequency_hours have passed since the last successful sync
+   */
+  static isDue(device: ConnectedDevice, now: Date = new Date()): boolean {
+    if (!device.last_sync_time) return true;
+    const hours = device.sync_frequency_hours || DEFAULT_SYNC_FREQUENCY_HOURS;
+    return now.getTime() - device.last_sync_time.getTime() >= hours * 3600000;
+  }
+
+  /**
+   * Days to pull: from the day of the last successful sync (it may have been
+   * partial) through today in the user's timezone, at most
+   * MAX_BACKFILL_DAYS back
+   */
+  static datesToSync(
+    lastSync: Date | null,
+    now: Date = new Date(),
+    timeZone = "UTC"
+  ): string[] {
+    const today = localDateString(now, timeZone);
+    const earliest = addDays(today, -(MAX_BACKFILL_DAYS - 1));
+    const from = lastSync ? localDateString(lastSync, timeZone) : today;
+
+    const dates: string[] = [];
+    for (
+      let day = from < earliest ? earliest : from;
+      day <= today;
+      day = addDays(day, 1)
+    ) {
+      dates.push(day);
+    }
+    return dates;
+  }
+
+  /**
+   * A valid access token, refreshed first when it expires within the margin.
+   * A failed refresh puts the device in ERROR until the user reconnects.
+   */
+  private static async getAccessToken(
+    device: ConnectedDevice,
+    provider: DeviceSyncProvider
+  ): Promise<string> {
+    const tokens = await DeviceService.getDeviceTokens(
+      device.user_id,
+      device.connected_device_id
+    );
+    const expiresSoon =
+      !device.token_expires_at ||
+      device.token_expires_at.getTime() - Date.now() <=
+        TOKEN_REFRESH_MARGIN_MS;
+
+    if (tokens.accessToken && !expiresSoon) {
+      return tokens.accessToken;
+    }
+    if (!tokens.refreshToken) {
+      throw new Error("Token refresh failed: no refresh token stored");
+    }
+
+    let refreshed;
+    try {
+      refreshed = await provider.refreshAccessToken(tokens.refreshToken);
+    } catch (error) {
+      throw new Error(`Token refresh failed: ${errorMessage(error)}`);
+    }
+
+    await DeviceService.updateDeviceTokens(
+      device.user_id,
+      device.connected_device_id,
+      refreshed.accessToken,
+      refreshed.refreshToken,
+      refreshed.expiresInSeconds
+    );
+    console.log("🔑 Refreshed token for device:", device.connected_device_id);
+    return refreshed.accessToken;
+  }
+
+  /**
+   * Pull missed days for one device through its provider adapter
+   */
+  static async syncDevice(device: ConnectedDevice): Promise<DeviceSyncResult> {
+    const result: DeviceSyncResult = {
+      device_id: device.connected_device_id,
+      device_type: device.device_type,
+      status: "skipped",
+      days_synced: [],
+    };
+
+    const provider = getDeviceSyncProvider(device.device_type);
+    if (!provider) {
+      return result;
+    }
+
+    await prisma.connectedDevice.update({
+      where: { connected_device_id: device.connected_device_id },
+      data: { connection_status: "SYNCING", last_sync_attempt_at: new Date() },
+    });
+
+    let accessToken: string;
+    try {
+      accessToken = await this.getAccessToken(device, provider);
+    } catch (error) {
+      result.status = "failed";
+      result.error = errorMessage(error);
+      await prisma.connectedDevice.update({
+        where: { connected_device_id: device.connected_device_id },
+        data: { connection_status: "ERROR", sync_error: result.error },
+      });
+      console.error(
+        `❌ Device ${device.connected_device_id} sync failed:`,
+        result.error
+      );
+      return result;
+    }
+
+    try {
+      const timeZone = await TimezoneService.getUserTimeZone(device.user_id);
+      const dates = this.datesToSync(
+        device.last_sync_time,
+        new Date(),
+        timeZone
+      );
+      for (const date of dates) {
+        const summary = await provider.fetchDailySummary(accessToken, date);
+        if (summary) {
+          await DeviceService.saveDailySummary(device, date, summary);
+          result.days_synced.push(date);
+        }
+      }
+
+      result.status = "synced";
+      await prisma.connectedDevice.update({
+        where: { connected_device_id: device.connected_device_id },
+        data: {
+          connection_status: "CONNECTED",
+          last_sync_time: new Date(),
+          sync_error: null,
+        },
+      });
+      console.log(
+        `✅ Synced ${result.days_synced.length} days for device:`,
+        device.connected_device_id
+      );
+    } catch (error) {
+      // Fetch failures are retried next run; last_sync_time stays put so the
+      // missed days are backfilled then
+      result.status = "failed";
+      result.error = errorMessage(error);
+      await prisma.connectedDevice.update({
+        where: { connected_device_id: device.connected_device_id },
+        data: { connection_status: "CONNECTED", sync_error: result.error },
+      });
+      console.error(
+        `❌ Device ${device.connected_device_id} fetch failed:`,
+        result.error
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Sync every connected device whose sync frequency has elapsed, plus any
+   * left SYNCING by a run that never finished
+   */
+  static async syncDueDevices(): Promise<DeviceSyncResult[]> {
+    const now = new Date();
+    const devices = await prisma.connectedDevice.findMany({
+      where: {
+        refresh_token_encrypted: { not: null },
+        OR: [
+          { connection_status: "CONNECTED" },
+          {
+            connection_status: "SYNCING",
+            last_sync_attempt_at: {
+              lt: new Date(now.getTime() - STALE_SYNC_AFTER_MS),
+            },
+          },
+        ],
+      },
+    });
+
+    const results: DeviceSyncResult[] = [];
+    for (const device of devices) {
+      const stale = device.connection_status === "SYNCING";
+      if (!stale && !this.isDue(device, now)) continue;
+      if (!getDeviceSyncProvider(device.device_type)) continue;
+      results.push(await this.syncDevice(device));
+    }
+
+    return results;
+  }
+
+  /**
+   * Sync one of the user's devices now, regardless of its frequency
+   */
+  static async syncUserDevice(
+    userId: string,
+    deviceId: string
+  ): Promise<DeviceSyncResult> {
+    const device = await prisma.connectedDevice.findFirst({
+      where: { connected_device_id: deviceId, user_id: userId },
+    });
+    if (!device) {
+      throw new Error("Device not found");
+    }
+    if (device.connection_status === "DISCONNECTED") {
+      throw new Error("Device is disconnected");
+    }
+    if (!getDeviceSyncProvider(device.device_type)) {
+      throw new Error(
+        `Server-side sync is not available for ${device.device_type}`
+      );
+    }
+
+    return this.syncDevice(device);
+  }
+}
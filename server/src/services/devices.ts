@@ -1,5 +1,32 @@
+import { ActivitySampleType, Prisma, SleepStage } from "@prisma/client";
 import { prisma } from "../lib/database";
-import { ActivityData, DailyBalance } from "../types/devices";
+import {
+  decryptSecret,
+  encryptSecret,
+  reencryptSecret,
+} from "../lib/secrets";
+import {
+  ActivityData,
+  DailyBalance,
+  DeviceSyncBatch,
+  DeviceSyncBatchResult,
+} from "../types/devices";
+import { localDateString } from "../utils/timezone";
+import { TimezoneService } from "./timezone";
+import { ActivityMergeService } from "./activityMerge";
+import { WeightService } from "./weight";
+
+const ACCESS_TOKEN_CONTEXT = "connected_devices.access_token";
+const REFRESH_TOKEN_CONTEXT = "connected_devices.refresh_token";
+
+interface SampleInput {
+  date: string;
+  sample_type: ActivitySampleType;
+  start_time: Date;
+  end_time: Date | null;
+  value: number;
+  sleep_stage: SleepStage | null;
+}
 
 export class DeviceService {
   static async getUserDevices(user_id: string) {
@@ -24,7 +51,8 @@ export class DeviceService {
     deviceType: string,
     deviceName: string,
     accessToken?: string,
-    refreshToken?: string
+    refreshToken?: string,
+    expiresInSeconds = 3600
   ) {
     try {
       console.log("🔗 Connecting device for user:", user_id, {
@@ -69,14 +97,15 @@ export class DeviceService {
             connection_status: "CONNECTED",
             last_sync_time: new Date(),
             access_token_encrypted: accessToken
-              ? this.encryptToken(accessToken)
+              ? encryptSecret(accessToken, ACCESS_TOKEN_CONTEXT)
               : null,
             refresh_token_encrypted: refreshToken
-              ? this.encryptToken(refreshToken)
+              ? encryptSecret(refreshToken, REFRESH_TOKEN_CONTEXT)
               : null,
             token_expires_at: accessToken
-              ? new Date(Date.now() + 3600000)
-              : null, // 1 hour default
+              ? new Date(Date.now() + expiresInSeconds * 1000)
+              : null,
+            sync_error: null,
             updated_at: new Date(),
           },
         });
@@ -94,14 +123,14 @@ export class DeviceService {
             last_sync_time: new Date(),
             is_primary_device: true, // First device is primary
             access_token_encrypted: accessToken
-              ? this.encryptToken(accessToken)
+              ? encryptSecret(accessToken, ACCESS_TOKEN_CONTEXT)
               : null,
             refresh_token_encrypted: refreshToken
-              ? this.encryptToken(refreshToken)
+              ? encryptSecret(refreshToken, REFRESH_TOKEN_CONTEXT)
               : null,
             token_expires_at: accessToken
-              ? new Date(Date.now() + 3600000)
-              : null, // 1 hour default
+              ? new Date(Date.now() + expiresInSeconds * 1000)
+              : null,
           },
         });
 
@@ -148,68 +177,279 @@ export class DeviceService {
     }
   }
 
-  static async syncDeviceData(
-    user_id: string,
-    deviceId: string,
-    activityData: ActivityData
+  /**
+   * Store one day of activity for a device (date as YYYY-MM-DD). Only the
+   * metrics present are written, so resending a day or syncing metrics
+   * separately never zeroes what was stored before.
+   */
+  static async saveDailySummary(
+    device: {
+      connected_device_id: string;
+      user_id: string;
+      device_name: string;
+    },
+    date: string,
+    activityData: Partial<ActivityData>
   ) {
-    try {
-      console.log("🔄 Syncing device data:", deviceId, activityData);
-
-      const device = await prisma.connectedDevice.findFirst({
-        where: {
-          connected_device_id: deviceId,
-          user_id,
+    const fields = {
+      steps: activityData.steps,
+      calories_burned: activityData.caloriesBurned,
+      active_minutes: activityData.activeMinutes,
+      bmr_estimate: activityData.bmr,
+      heart_rate_avg:
+        activityData.heartRate !== undefined
+          ? Math.round(activityData.heartRate)
+          : undefined,
+      heart_rate_max:
+        activityData.heartRateMax !== undefined
+          ? Math.round(activityData.heartRateMax)
+          : undefined,
+      weight_kg: activityData.weight,
+      body_fat_percentage: activityData.bodyFat,
+      sleep_hours: activityData.sleepHours,
+      distance_km: activityData.distance,
+    };
+
+    const summary = await prisma.dailyActivitySummary.upsert({
+      where: {
+        user_id_device_id_date: {
+          user_id: device.user_id,
+          device_id: device.connected_device_id,
+          date: new Date(date),
         },
-      });
+      },
+      update: {
+        ...fields,
+        sync_timestamp: new Date(),
+        updated_at: new Date(),
+        raw_data: activityData as Prisma.InputJsonValue,
+      },
+      create: {
+        ...fields,
+        user_id: device.user_id,
+        device_id: device.connected_device_id,
+        date: new Date(date),
+        source_device: device.device_name,
+        sync_timestamp: new Date(),
+        raw_data: activityData as Prisma.InputJsonValue,
+      },
+    });
+
+    if (activityData.weight) {
+      await WeightService.importFromDevice(
+        device,
+        date,
+        activityData.weight,
+        activityData.bodyFat
+      );
+    }
 
-      if (!device) {
-        throw new Error("Device not found");
+    return summary;
+  }
+
+  /**
+   * Group a sync batch by local day. Totals go to the record's date (or the
+   * day of recordedAt); each intraday sample goes to the day it happened on,
+   * and sleep to the day it ended.
+   */
+  private static bucketSyncBatch(batch: DeviceSyncBatch, timeZone: string) {
+    const days = new Map<
+      string,
+      { totals: Partial<ActivityData>; samples: Map<string, SampleInput> }
+    >();
+    const dayFor = (date: string) => {
+      if (!days.has(date)) {
+        days.set(date, { totals: {}, samples: new Map() });
+      }
+      return days.get(date)!;
+    };
+    const addSample = (sample: Omit<SampleInput, "date">) => {
+      const date = localDateString(
+        sample.sample_type === "SLEEP_STAGE" && sample.end_time
+          ? sample.end_time
+          : sample.start_time,
+        timeZone
+      );
+      // Later duplicates in the same batch win
+      dayFor(date).samples.set(
+        `${sample.sample_type}:${sample.start_time.toISOString()}`,
+        { ...sample, date }
+      );
+    };
+
+    for (const record of batch.records) {
+      const { date, recordedAt, intraday, ...totals } = record;
+      const day =
+        date ??
+        (recordedAt
+          ? localDateString(new Date(recordedAt), timeZone)
+          : undefined);
+
+      if (day) {
+        const bucket = dayFor(day);
+        Object.assign(
+          bucket.totals,
+          Object.fromEntries(
+            Object.entries(totals).filter(([, value]) => value !== undefined)
+          )
+        );
+      }
+
+      for (const entry of intraday?.hourlySteps ?? []) {
+        const start = new Date(entry.start);
+        addSample({
+          sample_type: "STEPS",
+          start_time: start,
+          end_time: new Date(start.getTime() + 3600000),
+          value: entry.steps,
+          sleep_stage: null,
+        });
+      }
+      for (const entry of intraday?.heartRate ?? []) {
+        addSample({
+          sample_type: "HEART_RATE",
+          start_time: new Date(entry.time),
+          end_time: null,
+          value: entry.bpm,
+          sleep_stage: null,
+        });
       }
+      for (const entry of intraday?.sleepStages ?? []) {
+        const start = new Date(entry.start);
+        const end = new Date(entry.end);
+        if (end <= start) continue;
+        addSample({
+          sample_type: "SLEEP_STAGE",
+          start_time: start,
+          end_time: end,
+          value: (end.getTime() - start.getTime()) / 60000,
+          sleep_stage: entry.stage,
+        });
+      }
+    }
 
-      const today = new Date().toISOString().split("T")[0];
+    return days;
+  }
 
-      // Upsert daily activity summary
-      const activitySummary = await prisma.dailyActivitySummary.upsert({
-        where: {
-          user_id_device_id_date: {
-            user_id,
-            device_id: deviceId,
-            date: new Date(today),
+  /**
+   * Replace stored samples that share a device, type and start time
+   */
+  private static async saveActivitySamples(
+    device: { connected_device_id: string; user_id: string },
+    samples: SampleInput[]
+  ) {
+    if (samples.length === 0) return;
+
+    const deletes = (["STEPS", "HEART_RATE", "SLEEP_STAGE"] as const)
+      .map((type) => ({
+        type,
+        starts: samples
+          .filter((sample) => sample.sample_type === type)
+          .map((sample) => sample.start_time),
+      }))
+      .filter(({ starts }) => starts.length > 0)
+      .map(({ type, starts }) =>
+        prisma.activitySample.deleteMany({
+          where: {
+            device_id: device.connected_device_id,
+            sample_type: type,
+            start_time: { in: starts },
           },
-        },
-        update: {
-          steps: activityData.steps || 0,
-          calories_burned: activityData.caloriesBurned || 0,
-          active_minutes: activityData.activeMinutes || 0,
-          bmr_estimate: activityData.bmr || 0,
-          heart_rate_avg: activityData.heartRate,
-          weight_kg: activityData.weight,
-          body_fat_percentage: activityData.bodyFat,
-          sleep_hours: activityData.sleepHours,
-          distance_km: activityData.distance,
-          sync_timestamp: new Date(),
-          updated_at: new Date(),
-          raw_data: activityData as any,
-        },
-        create: {
-          user_id,
-          device_id: deviceId,
-          date: new Date(today),
-          steps: activityData.steps || 0,
-          calories_burned: activityData.caloriesBurned || 0,
-          active_minutes: activityData.activeMinutes || 0,
-          bmr_estimate: activityData.bmr || 0,
-          heart_rate_avg: activityData.heartRate,
-          weight_kg: activityData.weight,
-          body_fat_percentage: activityData.bodyFat,
-          sleep_hours: activityData.sleepHours,
-          distance_km: activityData.distance,
-          source_device: device.device_name,
-          sync_timestamp: new Date(),
-          raw_data: activityData as any,
-        },
-      });
+        })
+      );
+
+    await prisma.$transaction([
+      ...deletes,
+      prisma.activitySample.createMany({
+        data: samples.map((sample) => ({
+          ...sample,
+          date: new Date(sample.date),
+          user_id: device.user_id,
+          device_id: device.connected_device_id,
+        })),
+      }),
+    ]);
+  }
+
+  /**
+   * Totals a day's stored samples imply, for metrics the device did not
+   * report directly
+   */
+  private static async totalsFromSamples(
+    deviceId: string,
+    date: string
+  ): Promise<Partial<ActivityData>> {
+    const samples = await prisma.activitySample.findMany({
+      where: { device_id: deviceId, date: new Date(date) },
+    });
+    const byType = (type: string) =>
+      samples.filter((sample) => sample.sample_type === type);
+
+    const totals: Partial<ActivityData> = {};
+    const steps = byType("STEPS");
+    if (steps.length > 0) {
+      totals.steps = Math.round(steps.reduce((sum, s) => sum + s.value, 0));
+    }
+    const heartRate = byType("HEART_RATE").map((sample) => sample.value);
+    if (heartRate.length > 0) {
+      totals.heartRate =
+        heartRate.reduce((sum, bpm) => sum + bpm, 0) / heartRate.length;
+      totals.heartRateMax = Math.max(...heartRate);
+    }
+    const sleep = byType("SLEEP_STAGE").filter(
+      (sample) => sample.sleep_stage !== "AWAKE"
+    );
+    if (sleep.length > 0) {
+      const minutes = sleep.reduce((sum, s) => sum + s.value, 0);
+      totals.sleepHours = Math.round((minutes / 60) * 100) / 100;
+    }
+    return totals;
+  }
+
+  /**
+   * Import a batch of dated and intraday records from a device. Safe to
+   * resend: days are upserted and samples replaced by start time.
+   */
+  static async syncDeviceData(
+    user_id: string,
+    deviceId: string,
+    batch: DeviceSyncBatch
+  ): Promise<DeviceSyncBatchResult> {
+    console.log("🔄 Syncing device data:", deviceId, {
+      records: batch.records.length,
+      timezone: batch.timezone,
+    });
+
+    const device = await prisma.connectedDevice.findFirst({
+      where: {
+        connected_device_id: deviceId,
+        user_id,
+      },
+    });
+
+    if (!device) {
+      throw new Error("Device not found");
+    }
+
+    try {
+      const timeZone =
+        batch.timezone ?? (await TimezoneService.getUserTimeZone(user_id));
+      const days = this.bucketSyncBatch(batch, timeZone);
+      const samples = [...days.values()].flatMap((day) => [
+        ...day.samples.values(),
+      ]);
+      await this.saveActivitySamples(device, samples);
+
+      for (const [date, day] of days) {
+        const derived =
+          day.samples.size > 0
+            ? await this.totalsFromSamples(deviceId, date)
+            : {};
+        await this.saveDailySummary(device, date, {
+          ...derived,
+          ...day.totals,
+        });
+      }
 
       // Update device last sync time
       await prisma.connectedDevice.update({
@@ -222,7 +462,11 @@ export class DeviceService {
       });
 
       console.log("✅ Device data synced successfully");
-      return activitySummary;
+      return {
+        device_id: deviceId,
+        days: [...days.keys()].sort(),
+        samples_saved: samples.length,
+      };
     } catch (error) {
       console.error("💥 Error syncing device data:", error);
       throw new Error("Failed to sync device data");
@@ -276,10 +520,9 @@ export class DeviceService {
         date
       );
 
-      // Get calories consumed from meals
-      const startDate = new Date(date);
-      const endDate = new Date(date);
-      endDate.setDate(endDate.getDate() + 1);
+      // Get calories consumed from meals during the user's day
+      const { start: startDate, end: endDate } =
+        await TimezoneService.getUserDayRange(user_id, date);
 
       const meals = await prisma.meal.findMany({
         where: {
@@ -296,16 +539,11 @@ export class DeviceService {
         0
       );
 
-      // Get calories burned from activity data
-      const activityData = await prisma.dailyActivitySummary.findFirst({
-        where: {
-          user_id,
-          date: new Date(date),
-        },
-        orderBy: {
-          sync_timestamp: "desc",
-        },
-      });
+      // Get calories burned from the merged view across devices
+      const activityData = await ActivityMergeService.getMergedDay(
+        user_id,
+        date
+      );
 
       if (!activityData) {
         console.log("⚠️ No activity data found for date");
@@ -345,17 +583,42 @@ export class DeviceService {
     }
   }
 
-  // TOKEN ENCRYPTION/DECRYPTION (Basic implementation - use proper encryption in production)
-  private static encryptToken(token: string): string {
-    // In production, use proper encryption like AES
-    // For now, just base64 encode (NOT SECURE - for demo only)
-    return Buffer.from(token).toString("base64");
-  }
+  /**
+   * Rewrite a device's tokens under the active key when they are legacy
+   * base64 or under a retired key. Returns whether anything changed.
+   */
+  static async reencryptTokens(device: {
+    connected_device_id: string;
+    access_token_encrypted: string | null;
+    refresh_token_encrypted: string | null;
+  }): Promise<boolean> {
+    const rotate = (value: string | null, context: string) =>
+      (value && reencryptSecret(value, context)) || undefined;
+
+    const accessToken = rotate(
+      device.access_token_encrypted,
+      ACCESS_TOKEN_CONTEXT
+    );
+    const refreshToken = rotate(
+      device.refresh_token_encrypted,
+      REFRESH_TOKEN_CONTEXT
+    );
+    if (!accessToken && !refreshToken) {
+      return false;
+    }
 
-  private static decryptToken(encryptedToken: string): string {
-    // In production, use proper decryption
-    // For now, just base64 decode (NOT SECURE - for demo only)
-    return Buffer.from(encryptedToken, "base64").toString();
+    await prisma.connectedDevice.update({
+      where: { connected_device_id: device.connected_device_id },
+      data: {
+        access_token_encrypted: accessToken,
+        refresh_token_encrypted: refreshToken,
+      },
+    });
+    console.log(
+      "🔐 Re-encrypted tokens for device:",
+      device.connected_device_id
+    );
+    return true;
   }
 
   static async getDeviceTokens(
@@ -377,12 +640,14 @@ export class DeviceService {
         return {};
       }
 
+      await this.reencryptTokens(device);
+
       return {
         accessToken: device.access_token_encrypted
-          ? this.decryptToken(device.access_token_encrypted)
+          ? decryptSecret(device.access_token_encrypted, ACCESS_TOKEN_CONTEXT)
           : undefined,
         refreshToken: device.refresh_token_encrypted
-          ? this.decryptToken(device.refresh_token_encrypted)
+          ? decryptSecret(device.refresh_token_encrypted, REFRESH_TOKEN_CONTEXT)
           : undefined,
       };
     } catch (error) {
@@ -395,7 +660,8 @@ export class DeviceService {
     user_id: string,
     deviceId: string,
     accessToken?: string,
-    refreshToken?: string
+    refreshToken?: string,
+    expiresInSeconds: number = 3600
   ) {
     try {
       await prisma.connectedDevice.updateMany({
@@ -405,13 +671,13 @@ export class DeviceService {
         },
         data: {
           access_token_encrypted: accessToken
-            ? this.encryptToken(accessToken)
+            ? encryptSecret(accessToken, ACCESS_TOKEN_CONTEXT)
             : undefined,
           refresh_token_encrypted: refreshToken
-            ? this.encryptToken(refreshToken)
+            ? encryptSecret(refreshToken, REFRESH_TOKEN_CONTEXT)
             : undefined,
           token_expires_at: accessToken
-            ? new Date(Date.now() + 3600000)
+            ? new Date(Date.now() + expiresInSeconds * 1000)
             : undefined,
           updated_at: new Date(),
         },
@@ -1,6 +1,9 @@
 
 import { prisma } from "../lib/database";
 import { OpenAIService } from "./openai";
+import { TimezoneService } from "./timezone";
+import { XpService } from "./xp";
+import { addDays, localDateString, startOfLocalDay } from "../utils/timezone";
 
 export interface MenuAnalytics {
   completion_rate: number;
@@ -190,12 +193,12 @@ Respond in JSON format:
 
     // Award XP for meal completion
     const xpGained = verification.score >= 70 ? 15 : 10;
-    await prisma.user.update({
-      where: { user_id: userId },
-      data: {
-        current_xp: { increment: xpGained },
-        total_points: { increment: xpGained },
-      },
+    await XpService.award({
+      userId,
+      source: "MEAL_COMPLETION",
+      reason: `Completed ${mealName}`,
+      amount: xpGained,
+      idempotencyKey: `meal-completion:${completion.id}`,
     });
 
     return {
@@ -208,11 +211,12 @@ Respond in JSON format:
 
   // Get daily meal timeline
   static async getDailyTimeline(userId: string, menuId: string, date: Date) {
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
-    
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
+    // date is a calendar day; check-ins count on the user's local day
+    const { start: startOfDay, end } = await TimezoneService.getUserDayRange(
+      userId,
+      date.toISOString().split("T")[0]
+    );
+    const endOfDay = new Date(end.getTime() - 1);
 
     // Get menu meals for the day
     const menu = await prisma.recommendedMenu.findFirst({
@@ -265,13 +269,16 @@ Respond in JSON format:
   private static getDayNumberFromDate(date: Date, menuId: string): number {
     // This would need menu start date from user record
     // For now, return day of week
-    return date.getDay() + 1;
+    return date.getUTCDay() + 1;
   }
 
   // Get weekly summary
   static async getWeeklySummary(userId: string, menuId: string, startDate: Date) {
-    const endDate = new Date(startDate);
-    endDate.setDate(endDate.getDate() + 7);
+    // startDate is a calendar day; the week is 7 of the user's local days
+    const timeZone = await TimezoneService.getUserTimeZone(userId);
+    const startDay = startDate.toISOString().split("T")[0];
+    startDate = startOfLocalDay(startDay, timeZone);
+    const endDate = startOfLocalDay(addDays(startDay, 7), timeZone);
 
     const checkIns = await prisma.mealCompletion.findMany({
       where: {
@@ -301,15 +308,15 @@ Respond in JSON format:
       total_check_ins: checkIns.length,
       total_nutrition: totalNutrition,
       avg_daily_calories: Math.round(totalNutrition.calories / 7),
-      streak_days: this.calculateStreak(checkIns),
+      streak_days: this.calculateStreak(checkIns, timeZone),
     };
   }
 
-  private static calculateStreak(checkIns: any[]): number {
+  private static calculateStreak(checkIns: any[], timeZone: string): number {
     if (checkIns.length === 0) return 0;
 
     const dates = [...new Set(checkIns.map(c => 
-      c.completed_date.toISOString().split('T')[0]
+      localDateString(c.completed_date, timeZone)
     ))].sort();
 
     let streak = 1;
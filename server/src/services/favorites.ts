@@ -0,0 +1,154 @@
+import { FavoriteMeal, Meal, Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { mapExistingMealToPrismaInput } from "../utils/nutrition";
+import {
+  FavoritesQuery,
+  LogFavoriteInput,
+  QuickAddFavoriteInput,
+} from "../types/favorites";
+
+const snapshotOf = (meal: Meal) => ({
+  name: meal.meal_name || "Meal",
+  meal_period: meal.meal_period,
+  image_url: meal.image_url || null,
+  calories: meal.calories ?? 0,
+  protein_g: meal.protein_g,
+  carbs_g: meal.carbs_g,
+  fats_g: meal.fats_g,
+  fiber_g: meal.fiber_g,
+  sugar_g: meal.sugar_g,
+  sodium_mg: meal.sodium_mg,
+  serving_size_g: meal.serving_size_g,
+  ingredients: meal.ingredients ?? Prisma.JsonNull,
+});
+
+export class FavoriteMealService {
+  private static async getOwnedFavorite(
+    favoriteId: number,
+    userId: string
+  ): Promise<FavoriteMeal & { meal: Meal | null }> {
+    const favorite = await prisma.favoriteMeal.findFirst({
+      where: { favorite_id: favoriteId, user_id: userId },
+      include: { meal: true },
+    });
+    if (!favorite) {
+      throw new Error("Favorite not found");
+    }
+    return favorite;
+  }
+
+  static async getFavorites(userId: string, query: FavoritesQuery) {
+    const orderBy: Prisma.FavoriteMealOrderByWithRelationInput[] =
+      query.sort === "recent"
+        ? [{ last_logged_at: "desc" }]
+        : [{ times_logged: "desc" }, { last_logged_at: "desc" }];
+
+    return prisma.favoriteMeal.findMany({
+      where: {
+        user_id: userId,
+        ...(query.meal_period && { meal_period: query.meal_period }),
+      },
+      orderBy,
+      take: query.limit,
+    });
+  }
+
+  /**
+   * Favorite or unfavorite a logged meal
+   */
+  static async toggleMeal(userId: string, mealId: number) {
+    const meal = await prisma.meal.findFirst({
+      where: { meal_id: mealId, user_id: userId },
+      include: { favorite: true },
+    });
+    if (!meal) {
+      throw new Error("Meal not found");
+    }
+
+    if (meal.favorite) {
+      await prisma.favoriteMeal.delete({
+        where: { favorite_id: meal.favorite.favorite_id },
+      });
+      return { meal_id: mealId, isFavorite: false, favorite: null };
+    }
+
+    const favorite = await prisma.favoriteMeal.create({
+      data: {
+        ...snapshotOf(meal),
+        user_id: userId,
+        meal_id: mealId,
+        last_logged_at: meal.upload_time,
+      },
+    });
+    console.log(`⭐ Meal ${mealId} added to favorites`);
+    return { meal_id: mealId, isFavorite: true, favorite };
+  }
+
+  static async createQuickAdd(userId: string, input: QuickAddFavoriteInput) {
+    const favorite = await prisma.favoriteMeal.create({
+      data: { ...input, user_id: userId, times_logged: 0 },
+    });
+    console.log(`⭐ Quick-add item "${favorite.name}" created`);
+    return favorite;
+  }
+
+  static async removeFavorite(favoriteId: number, userId: string) {
+    await this.getOwnedFavorite(favoriteId, userId);
+    await prisma.favoriteMeal.delete({ where: { favorite_id: favoriteId } });
+  }
+
+  /**
+   * Log a favorite again as a new meal. A favorite that still has its
+   * original meal copies all of it; otherwise the saved nutrition is used.
+   */
+  static async logFavorite(
+    favoriteId: number,
+    userId: string,
+    input: LogFavoriteInput
+  ): Promise<Meal> {
+    const favorite = await this.getOwnedFavorite(favoriteId, userId);
+    const date = input.date ? new Date(input.date) : new Date();
+    const mealPeriod = input.meal_period || favorite.meal_period || "other";
+
+    const data: Prisma.MealUncheckedCreateInput = favorite.meal
+      ? {
+          ...mapExistingMealToPrismaInput(favorite.meal, userId, date),
+          meal_name: favorite.name,
+          meal_period: mealPeriod,
+        }
+      : {
+          user_id: userId,
+          meal_name: favorite.name,
+          meal_period: mealPeriod,
+          image_url:
+            favorite.image_url ||
+            "https://via.placeholder.com/400x300.png?text=Quick+Add",
+          analysis_status: "COMPLETED",
+          calories: favorite.calories,
+          protein_g: favorite.protein_g,
+          carbs_g: favorite.carbs_g,
+          fats_g: favorite.fats_g,
+          fiber_g: favorite.fiber_g,
+          sugar_g: favorite.sugar_g,
+          sodium_mg: favorite.sodium_mg,
+          serving_size_g: favorite.serving_size_g,
+          ingredients: favorite.ingredients ?? Prisma.JsonNull,
+          upload_time: date,
+          created_at: date,
+        };
+
+    const [meal] = await prisma.$transaction([
+      prisma.meal.create({ data }),
+      prisma.favoriteMeal.update({
+        where: { favorite_id: favoriteId },
+        data: {
+          times_logged: { increment: 1 },
+          last_logged_at: new Date(),
+        },
+      }),
+    ]);
+
+    console.log(`🔁 Logged favorite ${favoriteId} as meal ${meal.meal_id}`);
+    return meal;
+  }
+}
@@ -0,0 +1,522 @@
+import fs from "fs";
+import path from "path";
+import { FoodItem } from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  FoodImportResult,
+  FoodItemRow,
+  IngredientAnalysis,
+  IngredientInput,
+  NutrientTotals,
+  ResolvedIngredient,
+} from "../types/foodDatabase";
+
+export const BUNDLED_FOOD_CSV = path.resolve(
+  process.cwd(),
+  "prisma",
+  "food-items.csv"
+);
+
+const INDEX_TTL_MS = 10 * 60 * 1000;
+const MIN_MATCH_SCORE = 0.5;
+const IMPORT_BATCH_SIZE = 100;
+
+// Accepted header names per column, so FoodData Central style exports
+// ("fdc_id", "description", "Energy (KCAL)", ...) import without editing
+const COLUMN_ALIASES: Record<keyof FoodItemRow, string[]> = {
+  source_id: ["source_id", "fdc_id", "ndb_number", "id", "code"],
+  name: ["name", "description", "food_name", "product_name"],
+  name_he: ["name_he", "hebrew_name"],
+  aliases: ["aliases", "synonyms"],
+  category: ["category", "food_category", "food_group"],
+  calories: ["calories", "energy_kcal", "energy", "kcal"],
+  protein_g: ["protein_g", "protein"],
+  carbs_g: [
+    "carbs_g",
+    "carbohydrate_by_difference",
+    "carbohydrate",
+    "carbohydrates",
+  ],
+  fats_g: ["fats_g", "total_lipid_fat", "total_fat", "fat"],
+  fiber_g: ["fiber_g", "fiber_total_dietary", "fiber"],
+  sugar_g: [
+    "sugar_g",
+    "sugars_total_including_nlea",
+    "sugars_total",
+    "sugars",
+    "sugar",
+  ],
+  sodium_mg: ["sodium_mg", "sodium_na", "sodium"],
+  saturated_fats_g: [
+    "saturated_fats_g",
+    "fatty_acids_total_saturated",
+    "saturated_fat",
+  ],
+  cholesterol_mg: ["cholesterol_mg", "cholesterol"],
+  portion_g: ["portion_g", "serving_size_g", "gram_weight"],
+  portion_description: ["portion_description", "serving_description"],
+};
+
+const WEIGHT_PATTERN =
+  /(\d+(?:[.,]\d+)?)\s*(kg|ק"ג|g|gr|grams?|גרם|ג'|ml|מ"ל|מל)(?=\s|$|[,.;)])/i;
+const COUNT_PATTERN = /^(\d+(?:[.,]\d+)?)\s*(?:x\s*)?/i;
+// Hebrew "and" is a prefix letter, so "אורז וסלט" splits before the "ו"
+const TEXT_SEPARATORS =
+  /[,;\n+]|\s+and\s+|\s+with\s+|\s+&\s+|\s+עם\s+|\s+(?=ו[א-ת])/i;
+
+interface IndexedFood {
+  item: FoodItem;
+  keys: string[];
+}
+
+const normalize = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9֐-׿%' ]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+const toNumber = (value: string | undefined): number | null => {
+  if (value === undefined || value.trim() === "") return null;
+  const parsed = parseFloat(value.replace(",", "."));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+export class FoodDatabaseService {
+  private static index: IndexedFood[] | null = null;
+  private static indexLoadedAt = 0;
+  private static seeding: Promise<void> | null = null;
+
+  /**
+   * Minimal RFC 4180 parser: quoted fields, escaped quotes, CRLF
+   */
+  static parseCsv(content: string, delimiter: string = ","): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (inQuotes) {
+        if (char === '"' && content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = "";
+      } else if (char === "\n" || char === "\r") {
+        if (char === "\r" && content[i + 1] === "\n") i++;
+        row.push(field);
+        if (row.some((value) => value.trim() !== "")) rows.push(row);
+        row = [];
+        field = "";
+      } else {
+        field += char;
+      }
+    }
+
+    row.push(field);
+    if (row.some((value) => value.trim() !== "")) rows.push(row);
+
+    return rows;
+  }
+
+  /**
+   * Map CSV rows onto food items. Rows without a name or core macros are
+   * skipped rather than imported with made-up values.
+   */
+  static parseFoodItemsCsv(content: string): {
+    rows: FoodItemRow[];
+    skipped: number;
+  } {
+    const [header, ...records] = this.parseCsv(content.replace(/^﻿/, ""));
+    if (!header) {
+      return { rows: [], skipped: 0 };
+    }
+
+    const headerKeys = header.map((column) =>
+      column
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "_")
+        .replace(/^_|_$/g, "")
+    );
+    const columnIndex = {} as Record<keyof FoodItemRow, number>;
+    for (const [field, aliases] of Object.entries(COLUMN_ALIASES)) {
+      columnIndex[field as keyof FoodItemRow] = aliases
+        .map((alias) => headerKeys.indexOf(alias))
+        .find((index) => index >= 0) ?? -1;
+    }
+
+    const rows: FoodItemRow[] = [];
+    let skipped = 0;
+
+    for (const record of records) {
+      const text = (field: keyof FoodItemRow) => {
+        const index = columnIndex[field];
+        const value = index >= 0 ? record[index]?.trim() : undefined;
+        return value ? value : undefined;
+      };
+      const number = (field: keyof FoodItemRow) => toNumber(text(field));
+
+      const name = text("name");
+      const calories = number("calories");
+      const protein = number("protein_g");
+      const carbs = number("carbs_g");
+      const fats = number("fats_g");
+
+      if (
+        !name ||
+        calories === null ||
+        protein === null ||
+        carbs === null ||
+        fats === null
+      ) {
+        skipped++;
+        continue;
+      }
+
+      rows.push({
+        source_id: text("source_id") || normalize(name).replace(/ /g, "_"),
+        name,
+        name_he: text("name_he") || null,
+        aliases: (text("aliases") || "")
+          .split("|")
+          .map((alias) => alias.trim())
+          .filter(Boolean),
+        category: text("category") || null,
+        calories,
+        protein_g: protein,
+        carbs_g: carbs,
+        fats_g: fats,
+        fiber_g: number("fiber_g"),
+        sugar_g: number("sugar_g"),
+        sodium_mg: number("sodium_mg"),
+        saturated_fats_g: number("saturated_fats_g"),
+        cholesterol_mg: number("cholesterol_mg"),
+        portion_g: number("portion_g"),
+        portion_description: text("portion_description") || null,
+      });
+    }
+
+    return { rows, skipped };
+  }
+
+  /**
+   * Upsert a CSV into the food database. Re-importing the same source
+   * updates existing rows in place, keyed by (source, source_id).
+   */
+  static async importFromCsv(
+    content: string,
+    source: string = "bundled"
+  ): Promise<FoodImportResult> {
+    const { rows, skipped } = this.parseFoodItemsCsv(content);
+
+    for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+      const batch = rows.slice(i, i + IMPORT_BATCH_SIZE);
+      await prisma.$transaction(
+        batch.map((row) =>
+          prisma.foodItem.upsert({
+            where: {
+              source_source_id: { source, source_id: row.source_id },
+            },
+            create: { ...row, source },
+            update: row,
+          })
+        )
+      );
+    }
+
+    this.index = null;
+    console.log(
+      `🥕 Imported ${rows.length} food items from ${source} (${skipped} skipped)`
+    );
+
+    return { source, imported: rows.length, skipped };
+  }
+
+  /**
+   * Load the bundled CSV the first time the food database is used
+   */
+  static async ensureSeeded(): Promise<void> {
+    if (!this.seeding) {
+      this.seeding = (async () => {
+        const count = await prisma.foodItem.count();
+        if (count > 0 || !fs.existsSync(BUNDLED_FOOD_CSV)) return;
+
+        console.log("🥕 Food database empty, importing bundled food items");
+        await this.importFromCsv(fs.readFileSync(BUNDLED_FOOD_CSV, "utf8"));
+      })().catch((error) => {
+        this.seeding = null;
+        throw error;
+      });
+    }
+    return this.seeding;
+  }
+
+  private static async getIndex(): Promise<IndexedFood[]> {
+    if (this.index && Date.now() - this.indexLoadedAt < INDEX_TTL_MS) {
+      return this.index;
+    }
+
+    await this.ensureSeeded();
+    const items = await prisma.foodItem.findMany();
+
+    this.index = items.map((item) => ({
+      item,
+      keys: [item.name, item.name_he, ...item.aliases]
+        .filter((key): key is string => !!key)
+        .map(normalize),
+    }));
+    this.indexLoadedAt = Date.now();
+
+    return this.index;
+  }
+
+  /**
+   * How well a query names a food, 0..1. Exact names score highest, then a
+   * food name contained in the query ("grilled chicken breast" -> "chicken
+   * breast"), then prefix matches while typing, then shared words.
+   */
+  private static scoreKey(query: string, key: string): number {
+    if (!key) return 0;
+    if (query === key) return 1;
+
+    if (` ${query} `.includes(` ${key} `)) {
+      return 0.6 + 0.3 * (key.length / query.length);
+    }
+
+    if (key.startsWith(query)) {
+      return 0.5 + 0.3 * (query.length / key.length);
+    }
+
+    const queryWords = query.split(" ");
+    const keyWords = key.split(" ");
+    const shared = keyWords.filter((word) => queryWords.includes(word)).length;
+    return (0.6 * shared) / Math.max(queryWords.length, keyWords.length);
+  }
+
+  static async search(query: string, limit: number = 20): Promise<FoodItem[]> {
+    const normalized = normalize(query);
+    if (!normalized) return [];
+
+    const index = await this.getIndex();
+
+    return index
+      .map(({ item, keys }) => ({
+        item,
+        score: Math.max(...keys.map((key) => this.scoreKey(normalized, key))),
+      }))
+      .filter(({ score }) => score > 0)
+      .sort(
+        (a, b) => b.score - a.score || a.item.name.localeCompare(b.item.name)
+      )
+      .slice(0, limit)
+      .map(({ item }) => item);
+  }
+
+  static async getById(foodId: number): Promise<FoodItem | null> {
+    const index = await this.getIndex();
+    return index.find(({ item }) => item.food_id === foodId)?.item || null;
+  }
+
+  static async findBestMatch(name: string): Promise<FoodItem | null> {
+    const normalized = normalize(name);
+    if (!normalized) return null;
+
+    const index = await this.getIndex();
+    let best: { item: FoodItem; score: number } | null = null;
+
+    for (const { item, keys } of index) {
+      const score = Math.max(
+        ...keys.map((key) => this.scoreKey(normalized, key))
+      );
+      if (score >= MIN_MATCH_SCORE && (!best || score > best.score)) {
+        best = { item, score };
+      }
+    }
+
+    // Hebrew attaches "and" as a prefix letter: "ואורז" -> "אורז"
+    if (!best && normalized.startsWith("ו") && normalized.length > 2) {
+      return this.findBestMatch(normalized.slice(1));
+    }
+
+    return best?.item || null;
+  }
+
+  /**
+   * Split "150g chicken breast" / "2 eggs" / "חזה עוף 150 גרם" into a food
+   * name and either a weight in grams or a number of portions
+   */
+  static parseIngredientText(text: string): {
+    name: string;
+    grams?: number;
+    quantity?: number;
+  } {
+    let name = text.trim();
+    let grams: number | undefined;
+    let quantity: number | undefined;
+
+    const weight = name.match(WEIGHT_PATTERN);
+    if (weight) {
+      const amount = parseFloat(weight[1].replace(",", "."));
+      const unit = weight[2].toLowerCase();
+      grams = unit === "kg" || unit === 'ק"ג' ? amount * 1000 : amount;
+      name = name.replace(weight[0], " ");
+    } else {
+      const count = name.match(COUNT_PATTERN);
+      if (count) {
+        quantity = parseFloat(count[1].replace(",", "."));
+        name = name.slice(count[0].length);
+      }
+    }
+
+    return {
+      name: name.replace(/\s+/g, " ").replace(/^of\s+/i, "").trim(),
+      grams,
+      quantity,
+    };
+  }
+
+  static computeNutrients(
+    item: FoodItem,
+    grams: number,
+    displayName?: string
+  ): ResolvedIngredient {
+    const factor = grams / 100;
+    const protein = round(item.protein_g * factor);
+    const carbs = round(item.carbs_g * factor);
+    const fat = round(item.fats_g * factor);
+
+    return {
+      name: displayName || item.name,
+      food_id: item.food_id,
+      matched_name: item.name,
+      source: item.source,
+      serving_size_g: round(grams),
+      calories: Math.round(item.calories * factor),
+      protein,
+      carbs,
+      fat,
+      protein_g: protein,
+      carbs_g: carbs,
+      fats_g: fat,
+      fiber_g: round((item.fiber_g ?? 0) * factor),
+      sugar_g: round((item.sugar_g ?? 0) * factor),
+      sodium_mg: Math.round((item.sodium_mg ?? 0) * factor),
+      saturated_fats_g: round((item.saturated_fats_g ?? 0) * factor),
+      cholesterol_mg: Math.round((item.cholesterol_mg ?? 0) * factor),
+    };
+  }
+
+  /**
+   * Look up each ingredient and compute its nutrients from per-100 g values.
+   * Without a weight, one standard portion (or 100 g) per quantity is used.
+   */
+  static async analyzeIngredients(
+    inputs: IngredientInput[]
+  ): Promise<IngredientAnalysis> {
+    const ingredients: ResolvedIngredient[] = [];
+    const unmatched: string[] = [];
+
+    for (const input of inputs) {
+      const parsed =
+        typeof input === "string"
+          ? this.parseIngredientText(input)
+          : {
+              name: input.name?.trim() || "",
+              grams: input.grams,
+              quantity: input.quantity,
+            };
+      const foodId = typeof input === "string" ? undefined : input.food_id;
+
+      const item = foodId
+        ? await this.getById(foodId)
+        : parsed.name
+        ? await this.findBestMatch(parsed.name)
+        : null;
+
+      if (!item) {
+        const label = typeof input === "string" ? input : parsed.name;
+        if (label) unmatched.push(label);
+        continue;
+      }
+
+      const grams =
+        parsed.grams && parsed.grams > 0
+          ? parsed.grams
+          : (parsed.quantity && parsed.quantity > 0 ? parsed.quantity : 1) *
+            (item.portion_g ?? 100);
+
+      ingredients.push(
+        this.computeNutrients(item, grams, parsed.name || item.name)
+      );
+    }
+
+    return { ingredients, unmatched, totals: this.sumNutrients(ingredients) };
+  }
+
+  /**
+   * Free-text meal description ("2 eggs, 1 slice bread and olive oil")
+   */
+  static async analyzeText(text: string): Promise<IngredientAnalysis> {
+    const parts = text
+      .split(TEXT_SEPARATORS)
+      .map((part) => part.trim())
+      .filter(Boolean);
+
+    return this.analyzeIngredients(parts);
+  }
+
+  static sumNutrients(ingredients: ResolvedIngredient[]): NutrientTotals {
+    const totals = ingredients.reduce(
+      (acc, ing) => ({
+        calories: acc.calories + ing.calories,
+        protein_g: acc.protein_g + ing.protein_g,
+        carbs_g: acc.carbs_g + ing.carbs_g,
+        fats_g: acc.fats_g + ing.fats_g,
+        fiber_g: acc.fiber_g + (ing.fiber_g ?? 0),
+        sugar_g: acc.sugar_g + (ing.sugar_g ?? 0),
+        sodium_mg: acc.sodium_mg + (ing.sodium_mg ?? 0),
+        saturated_fats_g: acc.saturated_fats_g + (ing.saturated_fats_g ?? 0),
+        cholesterol_mg: acc.cholesterol_mg + (ing.cholesterol_mg ?? 0),
+        serving_size_g: acc.serving_size_g + ing.serving_size_g,
+      }),
+      {
+        calories: 0,
+        protein_g: 0,
+        carbs_g: 0,
+        fats_g: 0,
+        fiber_g: 0,
+        sugar_g: 0,
+        sodium_mg: 0,
+        saturated_fats_g: 0,
+        cholesterol_mg: 0,
+        serving_size_g: 0,
+      }
+    );
+
+    return {
+      calories: Math.round(totals.calories),
+      protein_g: round(totals.protein_g),
+      carbs_g: round(totals.carbs_g),
+      fats_g: round(totals.fats_g),
+      fiber_g: round(totals.fiber_g),
+      sugar_g: round(totals.sugar_g),
+      sodium_mg: Math.round(totals.sodium_mg),
+      saturated_fats_g: round(totals.saturated_fats_g),
+      cholesterol_mg: Math.round(totals.cholesterol_mg),
+      serving_size_g: round(totals.serving_size_g),
+    };
+  }
+}
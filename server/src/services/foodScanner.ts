@@ -1,37 +1,18 @@
+import { FoodProduct, Prisma, ProductSource } from "@prisma/client";
 import { prisma } from "../lib/database";
 import { openai } from "./openai";
-import axios from "axios";
-
-interface ProductData {
-  barcode?: string;
-  name: string;
-  brand?: string;
-  category: string;
-  nutrition_per_100g: {
-    calories: number;
-    protein: number;
-    carbs: number;
-    fat: number;
-    fiber?: number;
-    sugar?: number;
-    sodium?: number;
-    saturated_fat?: number;
-    trans_fat?: number;
-    cholesterol?: number;
-    potassium?: number;
-    calcium?: number;
-    iron?: number;
-    vitamin_c?: number;
-    vitamin_d?: number;
-  };
-  ingredients: string[];
-  allergens: string[];
-  labels: string[];
-  health_score?: number;
-  image_url?: string;
-  serving_size?: string;
-  servings_per_container?: number;
-}
+import { isProductStale } from "../config/productCache";
+import { lookupProduct, pickLocalized } from "./productProviders";
+import { XpService } from "./xp";
+import {
+  ProductChanges,
+  ProductData,
+  ProductProvenance,
+} from "../types/foodProducts";
+import {
+  LocalizedProductText,
+  ProductLookupResult,
+} from "../types/productProviders";
 
 interface UserAnalysis {
   compatibility_score: number;
@@ -49,7 +30,8 @@ interface UserAnalysis {
 export class FoodScannerService {
   static async scanBarcode(
     barcode: string,
-    userId: string
+    userId: string,
+    languages: string[] = ["en"]
   ): Promise<{
     product: ProductData;
     user_analysis: UserAnalysis;
@@ -58,26 +40,39 @@ export class FoodScannerService {
       console.log("🔍 Scanning barcode:", barcode);
 
       // Try to get product from our database first
-      let productData = await this.getProductFromDatabase(barcode);
+      let product = await prisma.foodProduct.findUnique({
+        where: { barcode },
+      });
 
-      if (!productData) {
+      if (!product) {
         // Try external food database APIs
-        productData = await this.getProductFromExternalAPI(barcode);
+        const externalData = await lookupProduct(barcode, { languages });
 
-        if (!productData) {
+        if (!externalData) {
           throw new Error("Product not found in any database");
         }
 
         // Save to our database for future use
-        await this.saveProductToDatabase(productData, barcode, userId);
-      } else {
-        // Update the access time for existing products
-        await prisma.foodProduct.update({
-          where: { barcode },
-          data: { updated_at: new Date() },
-        });
+        product = await this.saveProductToDatabase(
+          externalData.product,
+          barcode,
+          userId,
+          externalData
+        );
+      } else if (isProductStale(product.source, product.fetched_at)) {
+        product = await this.refreshProduct(product, languages);
       }
 
+      await prisma.productScan.create({
+        data: { product_id: product.product_id, user_id: userId },
+      });
+
+      const productData = await this.getProductForUser(
+        product,
+        userId,
+        languages
+      );
+
       // Get user-specific analysis
       const userAnalysis = await this.analyzeProductForUser(
         productData,
@@ -182,7 +177,25 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
       const productId =
         productData.barcode ||
         `img_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      await this.saveProductToDatabase(productData, productId, userId);
+
+      // A label reading never replaces database or reviewed data for a
+      // known barcode; the user still gets what was read from their label
+      const existing = await prisma.foodProduct.findUnique({
+        where: { barcode: productId },
+      });
+      const product =
+        existing &&
+        (existing.source !== ProductSource.AI_IMAGE_SCAN ||
+          existing.corrected_fields.length > 0)
+          ? existing
+          : await this.saveProductToDatabase(productData, productId, userId, {
+              source: ProductSource.AI_IMAGE_SCAN,
+            });
+
+      await prisma.productScan.create({
+        data: { product_id: product.product_id, user_id: userId },
+      });
+      productData.provenance = this.getProvenance(product, false);
 
       // Get user-specific analysis
       const userAnalysis = await this.analyzeProductForUser(
@@ -289,16 +302,20 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
     }
   }
 
-static async getScanHistory(userId: string): Promise<any[]> {
+static async getScanHistory(
+  userId: string,
+  languages: string[] = ["en"]
+): Promise<any[]> {
   try {
     console.log("📋 [SCAN_HISTORY] Getting scan history for user:", userId);
     
     // Get both scanned food products and meals created from scanned items
-    const [products, meals] = await Promise.all([
-      prisma.foodProduct.findMany({
+    const [scans, meals] = await Promise.all([
+      prisma.productScan.findMany({
         where: { user_id: userId },
-        orderBy: { created_at: "desc" },
-        take: 50,
+        orderBy: { scanned_at: "desc" },
+        take: 200,
+        include: { product: true },
       }).catch(() => []),
       prisma.meal.findMany({
         where: {
@@ -310,6 +327,23 @@ static async getScanHistory(userId: string): Promise<any[]> {
       }).catch(() => []),
     ]);
 
+    // Latest scan per product, shown with the user's own overrides
+    const seen = new Set<number>();
+    const latestScans = scans
+      .filter((scan) => {
+        if (seen.has(scan.product_id)) return false;
+        seen.add(scan.product_id);
+        return true;
+      })
+      .slice(0, 50);
+    const products = await Promise.all(
+      latestScans.map(async (scan) => ({
+        ...scan.product,
+        created_at: scan.scanned_at,
+        data: await this.getProductForUser(scan.product, userId, languages),
+      }))
+    );
+
     console.log("📊 [SCAN_HISTORY] Found products:", products.length);
     console.log("📊 [SCAN_HISTORY] Found meals:", meals.length);
 
@@ -321,15 +355,19 @@ static async getScanHistory(userId: string): Promise<any[]> {
         
         // Standardized fields for consistency
         id: product.product_id,
-        name: product.product_name,
+        name: product.data.name,
+        product_name: product.data.name,
+        brand: product.data.brand ?? null,
+        category: product.data.category,
         type: "product",
         scan_type: "product",
         
         // Ensure nutrition data is properly formatted
-        nutrition_per_100g: product.nutrition_per_100g as any,
-        ingredients: product.ingredients as string[],
-        allergens: product.allergens as string[],
-        labels: product.labels as string[],
+        nutrition_per_100g: product.data.nutrition_per_100g,
+        ingredients: product.data.ingredients,
+        allergens: product.data.allergens,
+        labels: product.data.labels,
+        provenance: product.data.provenance,
       })),
       ...meals.map((meal) => ({
         // Original meal fields
@@ -389,136 +427,228 @@ static async getScanHistory(userId: string): Promise<any[]> {
   }
 }
 
-  private static async getProductFromDatabase(
-    barcode: string
-  ): Promise<ProductData | null> {
-    try {
-      const product = await prisma.foodProduct.findUnique({
-        where: { barcode },
-      });
+  /**
+   * Stored product as ProductData. With languages, name and ingredients come
+   * from the matching translation unless a reviewed correction set them.
+   */
+  static toProductData(
+    product: FoodProduct,
+    languages: string[] = []
+  ): ProductData {
+    const localized = (product.localized as LocalizedProductText) || {};
+    const corrected = new Set(product.corrected_fields);
+    const localizedName = corrected.has("name")
+      ? undefined
+      : pickLocalized(localized, languages, "name");
+    const localizedIngredients = corrected.has("ingredients")
+      ? undefined
+      : pickLocalized(localized, languages, "ingredients");
+
+    return {
+      barcode: product.barcode,
+      name: localizedName || product.product_name,
+      brand: product.brand || undefined,
+      category: product.category,
+      nutrition_per_100g:
+        product.nutrition_per_100g as ProductData["nutrition_per_100g"],
+      ingredients:
+        localizedIngredients || (product.ingredients as string[]),
+      allergens: product.allergens as string[],
+      labels: product.labels as string[],
+      health_score: product.health_score || undefined,
+      image_url: product.image_url || undefined,
+    };
+  }
 
-      if (!product) return null;
+  private static getProvenance(
+    product: FoodProduct,
+    hasOverride: boolean
+  ): ProductProvenance {
+    return {
+      source: product.source,
+      source_ref: product.source_ref,
+      fetched_at: product.fetched_at,
+      version: product.version,
+      corrected_fields: product.corrected_fields,
+      has_override: hasOverride,
+    };
+  }
 
-      return {
-        barcode: product.barcode,
-        name: product.product_name,
-        brand: product.brand || undefined,
-        category: product.category,
-        nutrition_per_100g: product.nutrition_per_100g as any,
-        ingredients: product.ingredients as string[],
-        allergens: product.allergens as string[],
-        labels: product.labels as string[],
-        health_score: product.health_score || undefined,
-        image_url: product.image_url || undefined,
-      };
-    } catch (error) {
-      console.error("Error getting product from database:", error);
-      return null;
-    }
+  /**
+   * Field paths touched by a change set: "name", "nutrition_per_100g.sugar"
+   */
+  static changedFields(changes: ProductChanges): string[] {
+    return Object.entries(changes).flatMap(([key, value]) =>
+      key === "nutrition_per_100g" && value && typeof value === "object"
+        ? Object.keys(value).map((nutrient) => `${key}.${nutrient}`)
+        : [key]
+    );
   }
 
-  private static async getProductFromExternalAPI(
-    barcode: string
-  ): Promise<ProductData | null> {
-    try {
-      // Try OpenFoodFacts
-      const response = await axios.get(
-        `https://world.openfoodfacts.org/api/v0/product/${barcode}.json`,
-        { timeout: 5000 }
-      );
+  static applyProductChanges(
+    productData: ProductData,
+    changes: ProductChanges
+  ): ProductData {
+    const { nutrition_per_100g, ...rest } = changes;
+    return {
+      ...productData,
+      ...rest,
+      nutrition_per_100g: {
+        ...productData.nutrition_per_100g,
+        ...nutrition_per_100g,
+      },
+    };
+  }
 
-      if (response.data.status === 1 && response.data.product) {
-        const product = response.data.product;
-        const nutriments = product.nutriments || {};
+  /**
+   * Column values for a shared product record
+   */
+  static toProductRecord(productData: ProductData) {
+    return {
+      product_name: productData.name,
+      brand: productData.brand,
+      category: productData.category,
+      nutrition_per_100g: productData.nutrition_per_100g,
+      ingredients: productData.ingredients,
+      allergens: productData.allergens,
+      labels: productData.labels,
+      health_score: productData.health_score,
+      image_url: productData.image_url,
+    };
+  }
 
-        return {
-          barcode,
-          name: product.product_name || "Unknown Product",
-          brand: product.brands || undefined,
-          category: product.categories?.split(",")[0] || "Unknown",
-          nutrition_per_100g: {
-            calories:
-              nutriments.energy_kcal_100g ||
-              nutriments["energy-kcal_100g"] ||
-              nutriments.energy_100g ||
-              0,
-            protein: nutriments.proteins_100g || 0,
-            carbs: nutriments.carbohydrates_100g || 0,
-            fat: nutriments.fat_100g || 0,
-            fiber: nutriments.fiber_100g || undefined,
-            sugar: nutriments.sugars_100g || undefined,
-            sodium: nutriments.sodium_100g
-              ? nutriments.sodium_100g * 1000
-              : undefined,
-            saturated_fat: nutriments.saturated_fat_100g || undefined,
-            trans_fat: nutriments.trans_fat_100g || undefined,
-            cholesterol: nutriments.cholesterol_100g || undefined,
-            potassium: nutriments.potassium_100g || undefined,
-            calcium: nutriments.calcium_100g || undefined,
-            iron: nutriments.iron_100g || undefined,
-            vitamin_c: nutriments.vitamin_c_100g || undefined,
-            vitamin_d: nutriments.vitamin_d_100g || undefined,
-          },
-          ingredients:
-            product.ingredients_text_en
-              ?.split(",")
-              .map((i: string) => i.trim()) || [],
-          allergens:
-            product.allergens_tags?.map((a: string) => a.replace("en:", "")) ||
-            [],
-          labels:
-            product.labels_tags?.map((l: string) => l.replace("en:", "")) || [],
-          health_score: product.nutriscore_score || undefined,
-          image_url: product.image_url || undefined,
-          serving_size: product.serving_size || undefined,
-          servings_per_container: product.servings_per_container || undefined,
-        };
-      }
+  /**
+   * The shared product as this user sees it, with their override on top
+   */
+  static async getProductForUser(
+    product: FoodProduct,
+    userId: string,
+    languages: string[] = []
+  ): Promise<ProductData> {
+    const override = await prisma.foodProductOverride.findUnique({
+      where: {
+        product_id_user_id: { product_id: product.product_id, user_id: userId },
+      },
+    });
+
+    const productData = override
+      ? this.applyProductChanges(
+          this.toProductData(product, languages),
+          override.changes as ProductChanges
+        )
+      : this.toProductData(product, languages);
+    productData.provenance = this.getProvenance(product, !!override);
+
+    return productData;
+  }
 
-      return null;
-    } catch (error: any) {
-      console.warn("❌ OpenFoodFacts failed:", error.message || error);
-      return null;
+  /**
+   * Refetch a stale product through the lookup providers. Reviewed
+   * corrections win over the fresh data; on any failure the cached record is
+   * kept.
+   */
+  static async refreshProduct(
+    product: FoodProduct,
+    languages: string[] = ["en"]
+  ): Promise<FoodProduct> {
+    // Label readings without a barcode have nothing to look up
+    const lookup = product.barcode.startsWith("img_")
+      ? null
+      : await lookupProduct(product.barcode, { languages });
+
+    if (!lookup) {
+      // Nothing newer upstream; don't retry on every scan
+      return prisma.foodProduct.update({
+        where: { product_id: product.product_id },
+        data: { fetched_at: new Date() },
+      });
+    }
+
+    const fresh = lookup.product;
+    const current = this.toProductData(product);
+    const merged = this.toProductData(product);
+    const preserved = new Set(product.corrected_fields);
+    const take = <K extends keyof ProductData>(key: K) => {
+      if (!preserved.has(key)) merged[key] = fresh[key];
+    };
+    (
+      [
+        "name",
+        "brand",
+        "category",
+        "ingredients",
+        "allergens",
+        "labels",
+        "health_score",
+        "image_url",
+      ] as const
+    ).forEach(take);
+    merged.nutrition_per_100g = { ...fresh.nutrition_per_100g };
+    const keepNutrient = <K extends keyof ProductData["nutrition_per_100g"]>(
+      key: K
+    ) => {
+      merged.nutrition_per_100g[key] = current.nutrition_per_100g[key];
+    };
+    for (const field of preserved) {
+      const [, nutrient] = field.split("nutrition_per_100g.");
+      if (nutrient) {
+        keepNutrient(nutrient as keyof ProductData["nutrition_per_100g"]);
+      }
     }
+
+    const record = this.toProductRecord(merged);
+    const changed =
+      JSON.stringify(record) !== JSON.stringify(this.toProductRecord(current));
+
+    console.log(
+      `🔄 Refreshed product ${product.barcode} via ${lookup.provider}${
+        changed ? " (updated)" : ""
+      }`
+    );
+
+    return prisma.foodProduct.update({
+      where: { product_id: product.product_id },
+      data: {
+        ...(changed ? { ...record, version: { increment: 1 } } : {}),
+        localized: lookup.localized as Prisma.InputJsonObject,
+        source: lookup.source,
+        source_ref: lookup.source_ref,
+        fetched_at: new Date(),
+      },
+    });
   }
 
   private static async saveProductToDatabase(
     productData: ProductData,
     barcode: string,
-    user_id: string
-  ): Promise<void> {
+    user_id: string,
+    origin: Pick<ProductLookupResult, "source"> &
+      Partial<Pick<ProductLookupResult, "source_ref" | "localized">>
+  ): Promise<FoodProduct> {
+    const record = this.toProductRecord(productData);
+    const provenance = {
+      source: origin.source,
+      source_ref: origin.source_ref || null,
+      localized: origin.localized as Prisma.InputJsonObject | undefined,
+      fetched_at: new Date(),
+    };
+
     try {
-      await prisma.foodProduct.upsert({
-        where: { barcode },
-        update: {
-          product_name: productData.name,
-          brand: productData.brand,
-          category: productData.category,
-          nutrition_per_100g: productData.nutrition_per_100g,
-          ingredients: productData.ingredients,
-          allergens: productData.allergens,
-          labels: productData.labels,
-          health_score: productData.health_score,
-          image_url: productData.image_url,
-          updated_at: new Date(),
-        },
-        create: {
-          barcode,
-          product_name: productData.name,
-          brand: productData.brand,
-          category: productData.category,
-          nutrition_per_100g: productData.nutrition_per_100g,
-          ingredients: productData.ingredients,
-          allergens: productData.allergens,
-          labels: productData.labels,
-          health_score: productData.health_score,
-          image_url: productData.image_url,
-          user_id,
-          created_at: new Date(),
-        },
+      return await prisma.foodProduct.create({
+        data: { ...record, ...provenance, barcode, user_id },
       });
     } catch (error) {
-      console.error("Error saving product to database:", error);
+      // Another scan created it first
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        return prisma.foodProduct.update({
+          where: { barcode },
+          data: { ...record, ...provenance, version: { increment: 1 } },
+        });
+      }
+      throw error;
     }
   }
 
@@ -692,13 +822,13 @@ static async getScanHistory(userId: string): Promise<any[]> {
           },
         });
 
-        // Award XP
-        await prisma.user.update({
-          where: { user_id: userId },
-          data: {
-            current_xp: { increment: 50 },
-            total_points: { increment: 50 },
-          },
+        // Award XP; shares its key with the achievement check so it's paid once
+        await XpService.award({
+          userId,
+          source: "ACHIEVEMENT",
+          reason: "Achievement unlocked: First Steps",
+          amount: 50,
+          idempotencyKey: "achievement:first_scan",
         });
       }
     } catch (error) {
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { HydrationService } from "./hydration";
+import { AchievementService } from "./achievements";
+import { TimezoneService } from "./timezone";
+import { XpService } from "./xp";
+import { PARTIAL_GOAL_XP, WATER_GOAL_XP } from "../config/hydration";
+import { XpAwardInput } from "../types/xp";
+import { stubPrisma } from "../test/stubPrisma";
+
+const DATE = "2026-03-15";
+const GOAL_ML = 2000;
+
+describe("HydrationService.awardProgress", () => {
+  let ledgerKeys: Set<string>;
+  let completedDays: number;
+  let restorePrisma: () => void;
+
+  const cross = (beforeMl: number, afterMl: number) =>
+    HydrationService["awardProgress"]("user-1", DATE, beforeMl, afterMl);
+
+  beforeEach(() => {
+    ledgerKeys = new Set();
+    completedDays = 0;
+
+    restorePrisma = stubPrisma({
+      dailyGoal: { findUnique: async () => ({ water_ml: GOAL_ML }) },
+      meal: { findMany: async () => [{ calories: 2000 }] },
+    });
+    mock.method(XpService, "award", async (input: XpAwardInput) => {
+      const awarded = !ledgerKeys.has(input.idempotencyKey!);
+      ledgerKeys.add(input.idempotencyKey!);
+      return {
+        awarded,
+        leveled_up: false,
+        previous_level: 1,
+        total_points: 0,
+        current_xp: 0,
+        level: 1,
+      };
+    });
+    mock.method(
+      AchievementService,
+      "updateUserProgress",
+      async (_userId: string, completeDay = false) => {
+        if (completeDay) completedDays++;
+        return { newAchievements: [], xpGained: 0, leveledUp: false };
+      }
+    );
+    mock.method(TimezoneService, "getUserDayRange", async () => ({
+      start: new Date(`${DATE}T00:00:00Z`),
+      end: new Date(`${DATE}T24:00:00Z`),
+    }));
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    restorePrisma();
+  });
+
+  test("awards the halfway and goal XP and completes the day", async () => {
+    const result = await cross(0, GOAL_ML);
+
+    assert.equal(result.xpGained, PARTIAL_GOAL_XP + WATER_GOAL_XP);
+    assert.deepEqual(
+      [...ledgerKeys],
+      [`water-partial:${DATE}`, `water-goal:${DATE}`]
+    );
+    assert.equal(completedDays, 1);
+  });
+
+  test("awards each crossing once per day", async () => {
+    await cross(0, GOAL_ML / 2);
+    await cross(GOAL_ML / 2, GOAL_ML);
+
+    // A deleted drink takes the day back under the goal, then it is reached again
+    const again = await cross(0, GOAL_ML);
+
+    assert.equal(again.xpGained, 0);
+    assert.equal(completedDays, 1);
+  });
+
+  test("awards nothing below half of the goal", async () => {
+    const result = await cross(0, GOAL_ML / 2 - 1);
+
+    assert.equal(result.xpGained, 0);
+    assert.equal(ledgerKeys.size, 0);
+  });
+});
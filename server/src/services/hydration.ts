@@ -0,0 +1,407 @@
+import { BeverageType, Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { AchievementService } from "./achievements";
+import { NutritionService } from "./nutrition";
+import { TimezoneService } from "./timezone";
+import { XpService } from "./xp";
+import {
+  BEVERAGES,
+  CUP_ML,
+  DEFAULT_WATER_GOAL_ML,
+  PARTIAL_GOAL_SHARE,
+  PARTIAL_GOAL_XP,
+  WATER_GOAL_XP,
+} from "../config/hydration";
+import {
+  ContainerPresetInput,
+  HydrationDaySummary,
+  LogDrinkInput,
+  UpdateContainerPresetInput,
+} from "../types/hydration";
+
+type ProgressResult = Awaited<
+  ReturnType<typeof AchievementService.updateUserProgress>
+>;
+
+const toDateString = (date: Date) => date.toISOString().split("T")[0];
+
+const noProgress = (): ProgressResult => ({
+  newAchievements: [],
+  xpGained: 0,
+  leveledUp: false,
+});
+
+const typicalCaffeine = (beverageType: BeverageType, volumeMl: number) =>
+  Math.round((BEVERAGES[beverageType].caffeine_mg_per_100ml * volumeMl) / 100);
+
+export class HydrationService {
+  static async logDrink(userId: string, input: LogDrinkInput) {
+    const preset = input.preset_id
+      ? await prisma.containerPreset.findFirst({
+          where: { preset_id: input.preset_id, user_id: userId },
+        })
+      : null;
+    if (input.preset_id && !preset) {
+      throw new Error("Container preset not found");
+    }
+
+    const volumeMl = input.volume_ml ?? preset!.volume_ml;
+    const beverageType =
+      input.beverage_type ?? preset?.beverage_type ?? "WATER";
+    // A preset's caffeine is for the full container
+    const caffeineMg =
+      input.caffeine_mg ??
+      (preset?.caffeine_mg != null && beverageType === preset.beverage_type
+        ? (preset.caffeine_mg * volumeMl) / preset.volume_ml
+        : typicalCaffeine(beverageType, volumeMl));
+
+    const loggedAt = input.logged_at ? new Date(input.logged_at) : new Date();
+    const date =
+      input.date ?? (await TimezoneService.getUserDate(userId, loggedAt));
+
+    const before = await this.getDayHydration(userId, date);
+    const drink = await prisma.drinkLog.create({
+      data: {
+        user_id: userId,
+        preset_id: preset?.preset_id,
+        date: new Date(date),
+        logged_at: loggedAt,
+        beverage_type: beverageType,
+        volume_ml: volumeMl,
+        hydration_ml: Math.round(volumeMl * BEVERAGES[beverageType].hydration),
+        caffeine_mg: Math.round(caffeineMg * 10) / 10,
+      },
+    });
+    const after = await this.syncDailyTotal(userId, date);
+
+    console.log(
+      `💧 Logged ${volumeMl} ml of ${beverageType} for user ${userId} on ${date}`
+    );
+
+    const progress = await this.awardProgress(userId, date, before, after);
+    return { drink, progress };
+  }
+
+  static async deleteDrink(userId: string, drinkId: number) {
+    const drink = await prisma.drinkLog.findFirst({
+      where: { drink_id: drinkId, user_id: userId },
+    });
+    if (!drink) {
+      throw new Error("Drink not found");
+    }
+
+    await prisma.drinkLog.delete({ where: { drink_id: drinkId } });
+    await this.syncDailyTotal(userId, toDateString(drink.date));
+  }
+
+  /**
+   * Set the day's total from a cup count, for clients that still track cups.
+   * Water is added or taken off the most recent water drinks to match.
+   */
+  static async setWaterCups(userId: string, cups: number, date: string) {
+    const before = await this.getDayHydration(userId, date);
+    let difference = cups * CUP_ML - before;
+
+    if (difference > 0) {
+      await prisma.drinkLog.create({
+        data: {
+          user_id: userId,
+          date: new Date(date),
+          beverage_type: "WATER",
+          volume_ml: difference,
+          hydration_ml: difference,
+        },
+      });
+    } else if (difference < 0) {
+      const waterDrinks = await prisma.drinkLog.findMany({
+        where: {
+          user_id: userId,
+          date: new Date(date),
+          beverage_type: "WATER",
+        },
+        orderBy: { logged_at: "desc" },
+      });
+
+      for (const drink of waterDrinks) {
+        if (difference >= 0) break;
+        if (drink.volume_ml <= -difference) {
+          await prisma.drinkLog.delete({ where: { drink_id: drink.drink_id } });
+          difference += drink.volume_ml;
+        } else {
+          await prisma.drinkLog.update({
+            where: { drink_id: drink.drink_id },
+            data: {
+              volume_ml: drink.volume_ml + difference,
+              hydration_ml: drink.hydration_ml + difference,
+            },
+          });
+          difference = 0;
+        }
+      }
+    }
+
+    const after = await this.syncDailyTotal(userId, date);
+    const record = await prisma.waterIntake.findUnique({
+      where: { user_id_date: { user_id: userId, date: new Date(date) } },
+    });
+    const progress = await this.awardProgress(userId, date, before, after);
+    return { record, progress };
+  }
+
+  static async getDaySummary(
+    userId: string,
+    date: string
+  ): Promise<HydrationDaySummary> {
+    const day = new Date(date);
+    const { start, end } = await TimezoneService.getUserDayRange(userId, date);
+    const [goal, drinks, meals] = await Promise.all([
+      prisma.dailyGoal.findUnique({
+        where: { user_id_date: { user_id: userId, date: day } },
+        select: { water_ml: true },
+      }),
+      prisma.drinkLog.findMany({
+        where: { user_id: userId, date: day },
+        orderBy: { logged_at: "asc" },
+      }),
+      prisma.meal.findMany({
+        where: {
+          user_id: userId,
+          created_at: { gte: start, lt: end },
+        },
+        select: { caffeine_mg: true },
+      }),
+    ]);
+
+    const goalMl = goal?.water_ml ?? DEFAULT_WATER_GOAL_ML;
+    const byBeverage: HydrationDaySummary["by_beverage"] = {};
+    let hydrationMl = 0;
+    let volumeMl = 0;
+    let drinkCaffeine = 0;
+
+    for (const drink of drinks) {
+      const totals = byBeverage[drink.beverage_type] || {
+        volume_ml: 0,
+        hydration_ml: 0,
+      };
+      totals.volume_ml += drink.volume_ml;
+      totals.hydration_ml += drink.hydration_ml;
+      byBeverage[drink.beverage_type] = totals;
+
+      hydrationMl += drink.hydration_ml;
+      volumeMl += drink.volume_ml;
+      drinkCaffeine += drink.caffeine_mg;
+    }
+
+    const mealCaffeine = meals.reduce(
+      (sum, meal) => sum + (meal.caffeine_mg || 0),
+      0
+    );
+
+    return {
+      date,
+      goal_ml: goalMl,
+      hydration_ml: hydrationMl,
+      volume_ml: volumeMl,
+      progress_percentage: Math.round((hydrationMl / goalMl) * 100),
+      goal_reached: hydrationMl >= goalMl,
+      caffeine_mg: {
+        drinks: Math.round(drinkCaffeine),
+        meals: Math.round(mealCaffeine),
+        total: Math.round(drinkCaffeine + mealCaffeine),
+      },
+      by_beverage: byBeverage,
+      drinks,
+    };
+  }
+
+  static async getPresets(userId: string) {
+    return prisma.containerPreset.findMany({
+      where: { user_id: userId },
+      orderBy: { created_at: "asc" },
+    });
+  }
+
+  static async createPreset(userId: string, input: ContainerPresetInput) {
+    try {
+      return await prisma.containerPreset.create({
+        data: { user_id: userId, ...input },
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        throw new Error("A container preset with this name already exists");
+      }
+      throw error;
+    }
+  }
+
+  static async updatePreset(
+    userId: string,
+    presetId: number,
+    input: UpdateContainerPresetInput
+  ) {
+    const preset = await prisma.containerPreset.findFirst({
+      where: { preset_id: presetId, user_id: userId },
+    });
+    if (!preset) {
+      throw new Error("Container preset not found");
+    }
+
+    try {
+      return await prisma.containerPreset.update({
+        where: { preset_id: presetId },
+        data: input,
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        throw new Error("A container preset with this name already exists");
+      }
+      throw error;
+    }
+  }
+
+  static async deletePreset(userId: string, presetId: number) {
+    const result = await prisma.containerPreset.deleteMany({
+      where: { preset_id: presetId, user_id: userId },
+    });
+    if (result.count === 0) {
+      throw new Error("Container preset not found");
+    }
+  }
+
+  private static async getDayHydration(userId: string, date: string) {
+    const total = await prisma.drinkLog.aggregate({
+      where: { user_id: userId, date: new Date(date) },
+      _sum: { hydration_ml: true },
+    });
+    return total._sum.hydration_ml || 0;
+  }
+
+  /**
+   * Keep the day's WaterIntake row, which statistics, calendar and
+   * achievements read, in step with the drink log
+   */
+  private static async syncDailyTotal(userId: string, date: string) {
+    const milliliters = await this.getDayHydration(userId, date);
+    const cups = Math.round(milliliters / CUP_ML);
+
+    await prisma.waterIntake.upsert({
+      where: { user_id_date: { user_id: userId, date: new Date(date) } },
+      update: { cups_consumed: cups, milliliters_consumed: milliliters },
+      create: {
+        user_id: userId,
+        date: new Date(date),
+        cups_consumed: cups,
+        milliliters_consumed: milliliters,
+      },
+    });
+
+    NutritionService.clearUserCaches(userId);
+    return milliliters;
+  }
+
+  /**
+   * XP is awarded when the day's hydration first crosses half of the water
+   * goal and the goal itself; reaching the goal also completes the day if
+   * enough calories were logged. The ledger keys make each of these happen
+   * once per day, however often deletes take the day back under the goal.
+   */
+  private static async awardProgress(
+    userId: string,
+    date: string,
+    beforeMl: number,
+    afterMl: number
+  ): Promise<ProgressResult> {
+    try {
+      const goal = await prisma.dailyGoal.findUnique({
+        where: { user_id_date: { user_id: userId, date: new Date(date) } },
+        select: { water_ml: true },
+      });
+      const goalMl = goal?.water_ml ?? DEFAULT_WATER_GOAL_ML;
+      const partialMl = goalMl * PARTIAL_GOAL_SHARE;
+
+      const awardXp = (amount: number, reason: string, key: string) =>
+        XpService.award({
+          userId,
+          source: "HYDRATION",
+          reason,
+          amount,
+          idempotencyKey: key,
+        });
+      const partial =
+        beforeMl < partialMl && afterMl >= partialMl
+          ? await awardXp(
+              PARTIAL_GOAL_XP,
+              "Half of the water goal",
+              `water-partial:${date}`
+            )
+          : null;
+      const full =
+        beforeMl < goalMl && afterMl >= goalMl
+          ? await awardXp(WATER_GOAL_XP, "Water goal", `water-goal:${date}`)
+          : null;
+
+      const partialAwarded = partial?.awarded === true;
+      const goalReached = full?.awarded === true;
+      if (!partialAwarded && !goalReached) return noProgress();
+
+      const xp =
+        (partialAwarded ? PARTIAL_GOAL_XP : 0) +
+        (goalReached ? WATER_GOAL_XP : 0);
+      console.log(`🎯 Water goal complete: ${goalReached}, XP awarded: ${xp}`);
+
+      const checked = await AchievementService.updateUserProgress(
+        userId,
+        false,
+        goalReached
+      );
+      const levelUp = [full, partial].find((award) => award?.leveled_up);
+      const result: ProgressResult = {
+        newAchievements: checked.newAchievements,
+        xpGained: checked.xpGained + xp,
+        leveledUp: checked.leveledUp || !!levelUp,
+        newLevel: checked.newLevel ?? levelUp?.level,
+      };
+      if (!goalReached) return result;
+
+      const { start, end } = await TimezoneService.getUserDayRange(
+        userId,
+        date
+      );
+      const meals = await prisma.meal.findMany({
+        where: {
+          user_id: userId,
+          created_at: { gte: start, lt: end },
+        },
+        select: { calories: true },
+      });
+      const calories = meals.reduce(
+        (sum, meal) => sum + (meal.calories || 0),
+        0
+      );
+      if (calories < 1800) return result;
+
+      const completeDay = await AchievementService.updateUserProgress(
+        userId,
+        true
+      );
+      return {
+        newAchievements: [
+          ...result.newAchievements,
+          ...completeDay.newAchievements,
+        ],
+        xpGained: result.xpGained + completeDay.xpGained,
+        leveledUp: result.leveledUp || completeDay.leveledUp,
+        newLevel: completeDay.newLevel ?? result.newLevel,
+      };
+    } catch (error) {
+      console.warn("⚠️ Achievement processing failed for hydration:", error);
+      return noProgress();
+    }
+  }
+}
@@ -0,0 +1,535 @@
+import { NutritionGoals } from "./statistics";
+
+export interface InsightMeal {
+  created_at: Date;
+  meal_period: string | null;
+  calories: number | null;
+  protein_g: number | null;
+  fiber_g: number | null;
+  sugar_g: number | null;
+  sodium_mg: number | null;
+  processing_level: string | null;
+  glycemic_index: number | null;
+}
+
+export interface InsightEvidence {
+  window_days: number;
+  days_logged: number;
+  days_flagged: number;
+  goal: number | null;
+  average: number;
+  unit: string;
+  by_meal_period?: Record<string, number>;
+  previous_average?: number;
+}
+
+export interface Insight {
+  id: string;
+  type: string;
+  category: "nutrition" | "lifestyle" | "motivation";
+  sentiment: "positive" | "negative";
+  priority: "low" | "medium" | "high";
+  score: number;
+  message: string;
+  recommendation?: string;
+  evidence: InsightEvidence;
+}
+
+interface DayTotals {
+  date: string;
+  calories: number;
+  protein_g: number;
+  fiber_g: number;
+  sugar_g: number;
+  sodium_mg: number;
+  byPeriod: Map<string, { sodium_mg: number; sugar_g: number }>;
+}
+
+type LimitNutrient = "sodium_mg" | "sugar_g";
+type TargetNutrient = "protein_g" | "fiber_g";
+
+const SHORT_WINDOW_DAYS = 7;
+const LONG_WINDOW_DAYS = 30;
+
+// Minimum days logged inside a window before a rule is allowed to fire
+const MIN_DAYS_LOGGED = 3;
+
+// A day only counts as "below target" under this share of the goal
+const TARGET_SHORTFALL_RATIO = 0.8;
+
+const HIGH_GLYCEMIC_INDEX = 70;
+const ULTRA_PROCESSED_SHARE_LIMIT = 0.3;
+const TREND_CHANGE_RATIO = 0.15;
+
+const NUTRIENT_LABELS: Record<LimitNutrient | TargetNutrient, string> = {
+  sodium_mg: "Sodium",
+  sugar_g: "Sugar",
+  protein_g: "Protein",
+  fiber_g: "Fiber",
+};
+
+const NUTRIENT_UNITS: Record<LimitNutrient | TargetNutrient, string> = {
+  sodium_mg: "mg",
+  sugar_g: "g",
+  protein_g: "g",
+  fiber_g: "g",
+};
+
+const PRIORITY_WEIGHT = { high: 3, medium: 2, low: 1 };
+
+export class InsightsService {
+  /**
+   * Evaluate every rule over the user's meals and return insights ranked by
+   * score. Pure and deterministic: the same meals, goals and reference date
+   * always produce the same output.
+   */
+  static evaluate(
+    meals: InsightMeal[],
+    goals: NutritionGoals,
+    now: Date = new Date()
+  ): Insight[] {
+    const days = this.groupByDay(meals);
+    const shortWindow = this.windowDays(days, now, 0, SHORT_WINDOW_DAYS);
+    const previousWindow = this.windowDays(
+      days,
+      now,
+      SHORT_WINDOW_DAYS,
+      SHORT_WINDOW_DAYS
+    );
+    const longWindowMeals = meals.filter(
+      (meal) =>
+        this.daysBetween(meal.created_at, now) < LONG_WINDOW_DAYS &&
+        meal.created_at <= now
+    );
+
+    const insights: Array<Insight | null> = [
+      this.limitRule("sodium_mg", shortWindow, goals.sodium_mg),
+      this.limitRule("sugar_g", shortWindow, goals.sugar_g),
+      this.targetRule("fiber_g", shortWindow, goals.fiber_g),
+      this.targetRule("protein_g", shortWindow, goals.protein_g),
+      this.ultraProcessedRule(longWindowMeals),
+      this.glycemicRule(longWindowMeals),
+      this.trendRule("fiber_g", shortWindow, previousWindow, goals.fiber_g),
+      this.trendRule("protein_g", shortWindow, previousWindow, goals.protein_g),
+      this.loggingRule(shortWindow),
+    ];
+
+    return insights
+      .filter((insight): insight is Insight => insight !== null)
+      .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Nutrients that should stay at or under the goal (sodium, sugar)
+   */
+  private static limitRule(
+    nutrient: LimitNutrient,
+    days: DayTotals[],
+    goal: number
+  ): Insight | null {
+    if (days.length < MIN_DAYS_LOGGED || goal <= 0) return null;
+
+    const flagged = days.filter((day) => day[nutrient] > goal);
+    const average = this.average(days.map((day) => day[nutrient]));
+    const label = NUTRIENT_LABELS[nutrient];
+    const unit = NUTRIENT_UNITS[nutrient];
+
+    const byPeriod: Record<string, number> = {};
+    flagged.forEach((day) => {
+      day.byPeriod.forEach((totals, period) => {
+        byPeriod[period] = this.round((byPeriod[period] || 0) + totals[nutrient]);
+      });
+    });
+
+    const evidence: InsightEvidence = {
+      window_days: SHORT_WINDOW_DAYS,
+      days_logged: days.length,
+      days_flagged: flagged.length,
+      goal,
+      average: this.round(average),
+      unit,
+      by_meal_period: byPeriod,
+    };
+
+    if (flagged.length === 0) {
+      return {
+        id: `${nutrient}_within_goal`,
+        type: nutrient.split("_")[0],
+        category: "nutrition",
+        sentiment: "positive",
+        priority: "low",
+        score: this.score("low", 1),
+        message: `${label} stayed within your ${goal}${unit} goal on all ${days.length} logged days this week.`,
+        evidence,
+      };
+    }
+
+    const share = flagged.length / days.length;
+    const topPeriod = this.topPeriod(byPeriod);
+    const priority = share >= 0.5 ? "high" : share >= 0.3 ? "medium" : "low";
+
+    return {
+      id: `${nutrient}_above_goal`,
+      type: nutrient.split("_")[0],
+      category: "nutrition",
+      sentiment: "negative",
+      priority,
+      score: this.score(priority, share * Math.min(2, average / goal)),
+      message: `${label} above goal on ${flagged.length} of last ${days.length} logged days${
+        topPeriod ? `, mostly from ${topPeriod}` : ""
+      } (average ${this.round(average)}${unit} vs ${goal}${unit}).`,
+      recommendation:
+        nutrient === "sodium_mg"
+          ? `Cut back on salty sauces, processed meats and ready meals${
+              topPeriod ? ` at ${topPeriod}` : ""
+            }.`
+          : `Swap sweetened drinks and desserts${
+              topPeriod ? ` at ${topPeriod}` : ""
+            } for fruit or unsweetened options.`,
+      evidence,
+    };
+  }
+
+  /**
+   * Nutrients that should reach the goal (fiber, protein)
+   */
+  private static targetRule(
+    nutrient: TargetNutrient,
+    days: DayTotals[],
+    goal: number
+  ): Insight | null {
+    if (days.length < MIN_DAYS_LOGGED || goal <= 0) return null;
+
+    const flagged = days.filter(
+      (day) => day[nutrient] < goal * TARGET_SHORTFALL_RATIO
+    );
+    const average = this.average(days.map((day) => day[nutrient]));
+    const label = NUTRIENT_LABELS[nutrient];
+    const unit = NUTRIENT_UNITS[nutrient];
+    const evidence: InsightEvidence = {
+      window_days: SHORT_WINDOW_DAYS,
+      days_logged: days.length,
+      days_flagged: flagged.length,
+      goal,
+      average: this.round(average),
+      unit,
+    };
+
+    if (flagged.length === 0) {
+      return {
+        id: `${nutrient}_on_target`,
+        type: nutrient.split("_")[0],
+        category: "nutrition",
+        sentiment: "positive",
+        priority: "low",
+        score: this.score("low", 1),
+        message: `You reached at least ${Math.round(
+          TARGET_SHORTFALL_RATIO * 100
+        )}% of your ${label.toLowerCase()} goal on all ${days.length} logged days this week.`,
+        evidence,
+      };
+    }
+
+    const share = flagged.length / days.length;
+    const priority = share >= 0.5 ? "high" : share >= 0.3 ? "medium" : "low";
+
+    return {
+      id: `${nutrient}_below_goal`,
+      type: nutrient.split("_")[0],
+      category: "nutrition",
+      sentiment: "negative",
+      priority,
+      score: this.score(priority, share * (1 - Math.min(1, average / goal) + 0.5)),
+      message: `${label} below ${Math.round(
+        TARGET_SHORTFALL_RATIO * 100
+      )}% of goal on ${flagged.length} of last ${days.length} logged days (average ${this.round(
+        average
+      )}${unit} vs ${goal}${unit}).`,
+      recommendation:
+        nutrient === "fiber_g"
+          ? "Add legumes, whole grains, vegetables or fruit to at least two meals a day."
+          : "Include a protein source such as eggs, yogurt, legumes, fish or poultry in every meal.",
+      evidence,
+    };
+  }
+
+  private static ultraProcessedRule(meals: InsightMeal[]): Insight | null {
+    const rated = meals.filter((meal) => meal.processing_level);
+    if (rated.length < MIN_DAYS_LOGGED) return null;
+
+    const ultra = rated.filter((meal) =>
+      /ultra/i.test(meal.processing_level || "")
+    );
+    const share = ultra.length / rated.length;
+    if (share <= ULTRA_PROCESSED_SHARE_LIMIT) return null;
+
+    const byPeriod = this.countByPeriod(ultra);
+    const topPeriod = this.topPeriod(byPeriod);
+    const priority = share >= 0.5 ? "high" : "medium";
+
+    return {
+      id: "ultra_processed_share",
+      type: "processing",
+      category: "nutrition",
+      sentiment: "negative",
+      priority,
+      score: this.score(priority, share),
+      message: `${Math.round(share * 100)}% of your meals in the last ${LONG_WINDOW_DAYS} days were ultra-processed${
+        topPeriod ? `, most often at ${topPeriod}` : ""
+      }.`,
+      recommendation:
+        "Replace one ultra-processed meal a day with a home-cooked or minimally processed option.",
+      evidence: {
+        window_days: LONG_WINDOW_DAYS,
+        days_logged: this.distinctDays(rated),
+        days_flagged: this.distinctDays(ultra),
+        goal: Math.round(ULTRA_PROCESSED_SHARE_LIMIT * 100),
+        average: Math.round(share * 100),
+        unit: "%",
+        by_meal_period: byPeriod,
+      },
+    };
+  }
+
+  private static glycemicRule(meals: InsightMeal[]): Insight | null {
+    const rated = meals.filter((meal) => (meal.glycemic_index || 0) > 0);
+    if (rated.length < MIN_DAYS_LOGGED) return null;
+
+    const high = rated.filter(
+      (meal) => (meal.glycemic_index || 0) >= HIGH_GLYCEMIC_INDEX
+    );
+    if (high.length === 0) return null;
+
+    const share = high.length / rated.length;
+    if (share < 0.25) return null;
+
+    const byPeriod = this.countByPeriod(high);
+    const topPeriod = this.topPeriod(byPeriod);
+    const priority = share >= 0.5 ? "medium" : "low";
+
+    return {
+      id: "high_glycemic_meals",
+      type: "glycemic",
+      category: "nutrition",
+      sentiment: "negative",
+      priority,
+      score: this.score(priority, share),
+      message: `${high.length} of ${rated.length} meals in the last ${LONG_WINDOW_DAYS} days had a high glycemic index (${HIGH_GLYCEMIC_INDEX}+)${
+        topPeriod ? `, mostly at ${topPeriod}` : ""
+      }.`,
+      recommendation:
+        "Pair refined carbs with protein, fat or fiber, or switch to whole-grain versions to blunt blood sugar spikes.",
+      evidence: {
+        window_days: LONG_WINDOW_DAYS,
+        days_logged: this.distinctDays(rated),
+        days_flagged: this.distinctDays(high),
+        goal: HIGH_GLYCEMIC_INDEX,
+        average: this.round(
+          this.average(rated.map((meal) => meal.glycemic_index || 0))
+        ),
+        unit: "GI",
+        by_meal_period: byPeriod,
+      },
+    };
+  }
+
+  /**
+   * Week-over-week change for nutrients the user should be reaching
+   */
+  private static trendRule(
+    nutrient: TargetNutrient,
+    current: DayTotals[],
+    previous: DayTotals[],
+    goal: number
+  ): Insight | null {
+    if (current.length < MIN_DAYS_LOGGED || previous.length < MIN_DAYS_LOGGED) {
+      return null;
+    }
+
+    const currentAverage = this.average(current.map((day) => day[nutrient]));
+    const previousAverage = this.average(previous.map((day) => day[nutrient]));
+    if (previousAverage <= 0) return null;
+
+    const change = (currentAverage - previousAverage) / previousAverage;
+    if (Math.abs(change) < TREND_CHANGE_RATIO) return null;
+
+    const improving = change > 0;
+    const label = NUTRIENT_LABELS[nutrient];
+    const unit = NUTRIENT_UNITS[nutrient];
+    const priority = improving ? "low" : "medium";
+
+    return {
+      id: `${nutrient}_trend_${improving ? "up" : "down"}`,
+      type: "trend",
+      category: improving ? "motivation" : "nutrition",
+      sentiment: improving ? "positive" : "negative",
+      priority,
+      score: this.score(priority, Math.min(1, Math.abs(change))),
+      message: `${label} intake is ${improving ? "up" : "down"} ${Math.round(
+        Math.abs(change) * 100
+      )}% compared with the previous week (${this.round(
+        currentAverage
+      )}${unit} vs ${this.round(previousAverage)}${unit} a day).`,
+      evidence: {
+        window_days: SHORT_WINDOW_DAYS,
+        days_logged: current.length,
+        days_flagged: 0,
+        goal,
+        average: this.round(currentAverage),
+        previous_average: this.round(previousAverage),
+        unit,
+      },
+    };
+  }
+
+  private static loggingRule(days: DayTotals[]): Insight | null {
+    if (days.length >= SHORT_WINDOW_DAYS - 1) {
+      return {
+        id: "consistent_logging",
+        type: "streak",
+        category: "motivation",
+        sentiment: "positive",
+        priority: "low",
+        score: this.score("low", 0.5),
+        message: `You logged meals on ${days.length} of the last ${SHORT_WINDOW_DAYS} days. Consistent tracking makes these insights more accurate.`,
+        evidence: {
+          window_days: SHORT_WINDOW_DAYS,
+          days_logged: days.length,
+          days_flagged: 0,
+          goal: SHORT_WINDOW_DAYS,
+          average: days.length,
+          unit: "days",
+        },
+      };
+    }
+
+    if (days.length >= MIN_DAYS_LOGGED) return null;
+
+    return {
+      id: "sparse_logging",
+      type: "logging",
+      category: "lifestyle",
+      sentiment: "negative",
+      priority: "medium",
+      score: this.score("medium", 1),
+      message: `Only ${days.length} of the last ${SHORT_WINDOW_DAYS} days have logged meals, which is not enough for reliable insights.`,
+      recommendation:
+        "Log at least one meal every day this week to unlock personalized insights.",
+      evidence: {
+        window_days: SHORT_WINDOW_DAYS,
+        days_logged: days.length,
+        days_flagged: SHORT_WINDOW_DAYS - days.length,
+        goal: MIN_DAYS_LOGGED,
+        average: days.length,
+        unit: "days",
+      },
+    };
+  }
+
+  private static groupByDay(meals: InsightMeal[]): DayTotals[] {
+    const days = new Map<string, DayTotals>();
+
+    meals.forEach((meal) => {
+      const date = meal.created_at.toISOString().split("T")[0];
+      if (!days.has(date)) {
+        days.set(date, {
+          date,
+          calories: 0,
+          protein_g: 0,
+          fiber_g: 0,
+          sugar_g: 0,
+          sodium_mg: 0,
+          byPeriod: new Map(),
+        });
+      }
+
+      const day = days.get(date)!;
+      day.calories += meal.calories || 0;
+      day.protein_g += meal.protein_g || 0;
+      day.fiber_g += meal.fiber_g || 0;
+      day.sugar_g += meal.sugar_g || 0;
+      day.sodium_mg += meal.sodium_mg || 0;
+
+      const period = meal.meal_period || "other";
+      const periodTotals = day.byPeriod.get(period) || {
+        sodium_mg: 0,
+        sugar_g: 0,
+      };
+      periodTotals.sodium_mg += meal.sodium_mg || 0;
+      periodTotals.sugar_g += meal.sugar_g || 0;
+      day.byPeriod.set(period, periodTotals);
+    });
+
+    return Array.from(days.values()).sort((a, b) =>
+      a.date.localeCompare(b.date)
+    );
+  }
+
+  /**
+   * Days whose date falls in [now - offset - length, now - offset)
+   */
+  private static windowDays(
+    days: DayTotals[],
+    now: Date,
+    offset: number,
+    length: number
+  ): DayTotals[] {
+    return days.filter((day) => {
+      const age = this.daysBetween(new Date(`${day.date}T00:00:00.000Z`), now);
+      return age >= offset && age < offset + length;
+    });
+  }
+
+  private static daysBetween(date: Date, now: Date): number {
+    const dayMs = 24 * 60 * 60 * 1000;
+    const start = Date.UTC(
+      date.getUTCFullYear(),
+      date.getUTCMonth(),
+      date.getUTCDate()
+    );
+    const end = Date.UTC(
+      now.getUTCFullYear(),
+      now.getUTCMonth(),
+      now.getUTCDate()
+    );
+    return Math.round((end - start) / dayMs);
+  }
+
+  private static countByPeriod(meals: InsightMeal[]): Record<string, number> {
+    return meals.reduce((acc, meal) => {
+      const period = meal.meal_period || "other";
+      acc[period] = (acc[period] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+  }
+
+  private static topPeriod(byPeriod: Record<string, number>): string | null {
+    const entries = Object.entries(byPeriod).sort(
+      (a, b) => b[1] - a[1] || a[0].localeCompare(b[0])
+    );
+    if (entries.length === 0 || entries[0][1] <= 0) return null;
+    return entries[0][0] === "other" ? null : entries[0][0].replace("_", " ");
+  }
+
+  private static distinctDays(meals: InsightMeal[]): number {
+    return new Set(
+      meals.map((meal) => meal.created_at.toISOString().split("T")[0])
+    ).size;
+  }
+
+  private static score(
+    priority: Insight["priority"],
+    magnitude: number
+  ): number {
+    return this.round(PRIORITY_WEIGHT[priority] + Math.max(0, magnitude));
+  }
+
+  private static average(values: number[]): number {
+    if (values.length === 0) return 0;
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
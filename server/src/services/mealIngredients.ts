@@ -0,0 +1,636 @@
+import {
+  IngredientSource,
+  Meal,
+  MealIngredient,
+  Prisma,
+} from "@prisma/client";
+import { prisma } from "../lib/database";
+import { FoodDatabaseService } from "./foodDatabase";
+import {
+  AddMealIngredientInput,
+  MEAL_NUTRIENT_COLUMNS,
+  MealAuditAction,
+  MealNutrientColumn,
+  MealNutritionSnapshot,
+  NutrientMap,
+  UpdateMealIngredientInput,
+} from "../types/mealIngredients";
+
+type Tx = Prisma.TransactionClient;
+type NumberMap = Record<string, number>;
+
+// Legacy ingredient JSON uses short keys for some nutrients
+const LEGACY_KEYS: Partial<Record<MealNutrientColumn, string[]>> = {
+  protein_g: ["protein"],
+  carbs_g: ["carbs"],
+  fats_g: ["fat"],
+  fiber_g: ["fiber"],
+  sugar_g: ["sugar"],
+  sodium_mg: ["sodium"],
+};
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+const toNumber = (value: unknown): number | null => {
+  const parsed = typeof value === "string" ? parseFloat(value) : value;
+  return typeof parsed === "number" && Number.isFinite(parsed) ? parsed : null;
+};
+
+const toNumberMap = (value: unknown): NumberMap => {
+  const map: NumberMap = {};
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    for (const [key, raw] of Object.entries(value)) {
+      const parsed = toNumber(raw);
+      if (parsed !== null) map[key] = parsed;
+    }
+  }
+  return map;
+};
+
+const scaleMap = (map: NumberMap, factor: number): NumberMap =>
+  Object.fromEntries(
+    Object.entries(map).map(([key, value]) => [key, value * factor])
+  );
+
+export interface IngredientDraft {
+  name: string;
+  grams: number;
+  food_id: number | null;
+  source: IngredientSource;
+  nutrients_per_100g: NutrientMap;
+  vitamins_per_100g: NumberMap;
+  micronutrients_per_100g: NumberMap;
+}
+
+export class MealIngredientService {
+  static snapshot(meal: Meal): MealNutritionSnapshot {
+    const snapshot = {} as MealNutritionSnapshot;
+    for (const column of MEAL_NUTRIENT_COLUMNS) {
+      snapshot[column] = meal[column];
+    }
+    snapshot.serving_size_g = meal.serving_size_g;
+    snapshot.vitamins_json = meal.vitamins_json
+      ? toNumberMap(meal.vitamins_json)
+      : null;
+    snapshot.micronutrients_json = meal.micronutrients_json
+      ? toNumberMap(meal.micronutrients_json)
+      : null;
+    return snapshot;
+  }
+
+  private static async getOwnedMeal(
+    tx: Tx,
+    mealId: number,
+    userId: string
+  ): Promise<Meal> {
+    const meal = await tx.meal.findFirst({
+      where: { meal_id: mealId, user_id: userId },
+    });
+    if (!meal) {
+      throw new Error("Meal not found");
+    }
+    return meal;
+  }
+
+  /**
+   * Turn the meal's legacy ingredients JSON into per-100 g drafts. Nutrients
+   * the AI only estimated for the whole meal (no ingredient carries them) are
+   * spread over the ingredients by weight so the first recompute keeps them.
+   */
+  static draftsFromMeal(meal: Meal): IngredientDraft[] {
+    const items = (Array.isArray(meal.ingredients) ? meal.ingredients : [])
+      .map((item: any) => (typeof item === "string" ? { name: item } : item))
+      .filter((item: any) => item && typeof item === "object");
+
+    if (items.length === 0) {
+      items.push({ name: meal.meal_name || "Meal" });
+    }
+
+    const knownGrams = items.map(
+      (item: any) => toNumber(item.grams) || toNumber(item.serving_size_g) || 0
+    );
+    const knownTotal = knownGrams.reduce((sum, grams) => sum + grams, 0);
+    const unknownCount = knownGrams.filter((grams) => grams <= 0).length;
+    const mealGrams = meal.serving_size_g ?? 0;
+    const fallbackGrams =
+      unknownCount > 0 && mealGrams > knownTotal
+        ? (mealGrams - knownTotal) / unknownCount
+        : 100;
+
+    const drafts: IngredientDraft[] = items.map((item: any, index: number) => {
+      const grams = knownGrams[index] > 0 ? knownGrams[index] : fallbackGrams;
+      const factor = 100 / grams;
+
+      const nutrients: NutrientMap = {};
+      for (const column of MEAL_NUTRIENT_COLUMNS) {
+        const value = [column, ...(LEGACY_KEYS[column] || [])]
+          .map((key) => toNumber(item[key]))
+          .find((parsed) => parsed !== null);
+        if (value !== undefined && value !== null) {
+          nutrients[column] = value * factor;
+        }
+      }
+
+      const foodId = toNumber(item.food_id);
+
+      return {
+        name: String(item.name || `Item ${index + 1}`),
+        grams: round(grams),
+        food_id: foodId,
+        source: foodId
+          ? IngredientSource.FOOD_DATABASE
+          : IngredientSource.AI_ESTIMATE,
+        nutrients_per_100g: nutrients,
+        vitamins_per_100g: scaleMap(toNumberMap(item.vitamins_json), factor),
+        micronutrients_per_100g: scaleMap(
+          toNumberMap(item.micronutrients_json),
+          factor
+        ),
+      };
+    });
+
+    const totalGrams = drafts.reduce((sum, draft) => sum + draft.grams, 0);
+    const spread = (
+      mealValue: number,
+      ingredientSum: number,
+      assign: (draft: IngredientDraft, per100: number) => void
+    ) => {
+      if (mealValue > 0 && ingredientSum === 0 && totalGrams > 0) {
+        const per100 = (mealValue / totalGrams) * 100;
+        drafts.forEach((draft) => assign(draft, per100));
+      }
+    };
+    const sumOf = (get: (draft: IngredientDraft) => number | undefined) =>
+      drafts.reduce(
+        (sum, draft) => sum + ((get(draft) ?? 0) * draft.grams) / 100,
+        0
+      );
+
+    for (const column of MEAL_NUTRIENT_COLUMNS) {
+      spread(
+        meal[column] ?? 0,
+        sumOf((draft) => draft.nutrients_per_100g[column]),
+        (draft, per100) => (draft.nutrients_per_100g[column] = per100)
+      );
+    }
+    for (const [key, value] of Object.entries(
+      toNumberMap(meal.vitamins_json)
+    )) {
+      spread(
+        value,
+        sumOf((draft) => draft.vitamins_per_100g[key]),
+        (draft, per100) => (draft.vitamins_per_100g[key] = per100)
+      );
+    }
+    for (const [key, value] of Object.entries(
+      toNumberMap(meal.micronutrients_json)
+    )) {
+      spread(
+        value,
+        sumOf((draft) => draft.micronutrients_per_100g[key]),
+        (draft, per100) => (draft.micronutrients_per_100g[key] = per100)
+      );
+    }
+
+    return drafts;
+  }
+
+  /**
+   * Create ingredient rows for a meal the first time it is edited, recording
+   * the original estimate in the audit
+   */
+  private static async ensureStructured(
+    tx: Tx,
+    meal: Meal,
+    userId: string
+  ): Promise<MealIngredient[]> {
+    const existing = await tx.mealIngredient.findMany({
+      where: { meal_id: meal.meal_id },
+      orderBy: [{ position: "asc" }, { ingredient_id: "asc" }],
+    });
+    if (existing.length > 0) {
+      return existing;
+    }
+
+    // Already structured and every ingredient was removed since
+    const structured = await tx.mealNutritionAudit.count({
+      where: { meal_id: meal.meal_id, action: "original_estimate" },
+    });
+    if (structured > 0) {
+      return existing;
+    }
+
+    const drafts = this.draftsFromMeal(meal);
+    for (const [position, draft] of drafts.entries()) {
+      await tx.mealIngredient.create({
+        data: { ...draft, meal_id: meal.meal_id, position },
+      });
+    }
+
+    const totals = this.snapshot(meal);
+    await this.recordAudit(tx, meal.meal_id, userId, "original_estimate", {
+      ingredientBefore: meal.ingredients ?? null,
+      totalsBefore: totals,
+      totalsAfter: totals,
+    });
+
+    console.log(
+      `🧩 Structured ${drafts.length} ingredients for meal ${meal.meal_id}`
+    );
+
+    return tx.mealIngredient.findMany({
+      where: { meal_id: meal.meal_id },
+      orderBy: [{ position: "asc" }, { ingredient_id: "asc" }],
+    });
+  }
+
+  /**
+   * Nutrients of one ingredient at its current weight
+   */
+  static computeIngredient(ingredient: MealIngredient) {
+    const factor = ingredient.grams / 100;
+    const per100 = ingredient.nutrients_per_100g as NutrientMap;
+    const nutrients: Record<string, number> = {};
+
+    for (const column of MEAL_NUTRIENT_COLUMNS) {
+      const value = per100[column];
+      if (value !== undefined) {
+        nutrients[column] =
+          column === "calories"
+            ? Math.round(value * factor)
+            : round(value * factor);
+      }
+    }
+
+    return {
+      ingredient_id: ingredient.ingredient_id,
+      name: ingredient.name,
+      food_id: ingredient.food_id,
+      source: ingredient.source,
+      serving_size_g: ingredient.grams,
+      ...nutrients,
+      // Short keys kept for clients reading the legacy ingredients JSON
+      calories: nutrients.calories ?? 0,
+      protein: nutrients.protein_g ?? 0,
+      carbs: nutrients.carbs_g ?? 0,
+      fat: nutrients.fats_g ?? 0,
+      vitamins_json: scaleMap(
+        toNumberMap(ingredient.vitamins_per_100g),
+        factor
+      ),
+      micronutrients_json: scaleMap(
+        toNumberMap(ingredient.micronutrients_per_100g),
+        factor
+      ),
+    };
+  }
+
+  /**
+   * Rewrite every meal nutrient column, vitamins_json, micronutrients_json
+   * and the ingredients JSON from the meal's ingredient rows
+   */
+  private static async recompute(tx: Tx, mealId: number): Promise<Meal> {
+    const ingredients = await tx.mealIngredient.findMany({
+      where: { meal_id: mealId },
+      orderBy: [{ position: "asc" }, { ingredient_id: "asc" }],
+    });
+
+    const computed = ingredients.map((ing) => this.computeIngredient(ing));
+    const data: Prisma.MealUpdateInput = {};
+
+    for (const column of MEAL_NUTRIENT_COLUMNS) {
+      const total = ingredients.reduce((sum, ing) => {
+        const per100 = (ing.nutrients_per_100g as NutrientMap)[column] ?? 0;
+        return sum + (per100 * ing.grams) / 100;
+      }, 0);
+      data[column] = column === "calories" ? Math.round(total) : round(total);
+    }
+
+    const sumMaps = (key: "vitamins_json" | "micronutrients_json") => {
+      const totals: NumberMap = {};
+      for (const ing of computed) {
+        for (const [name, value] of Object.entries(ing[key])) {
+          totals[name] = (totals[name] ?? 0) + value;
+        }
+      }
+      return Object.fromEntries(
+        Object.entries(totals).map(([name, value]) => [name, round(value)])
+      );
+    };
+
+    return tx.meal.update({
+      where: { meal_id: mealId },
+      data: {
+        ...data,
+        serving_size_g: round(
+          ingredients.reduce((sum, ing) => sum + ing.grams, 0)
+        ),
+        vitamins_json: sumMaps("vitamins_json"),
+        micronutrients_json: sumMaps("micronutrients_json"),
+        ingredients: computed,
+      },
+    });
+  }
+
+  private static async recordAudit(
+    tx: Tx,
+    mealId: number,
+    userId: string,
+    action: MealAuditAction,
+    details: {
+      ingredientId?: number;
+      ingredientBefore?: any;
+      ingredientAfter?: any;
+      totalsBefore: MealNutritionSnapshot;
+      totalsAfter: MealNutritionSnapshot;
+    }
+  ): Promise<void> {
+    await tx.mealNutritionAudit.create({
+      data: {
+        meal_id: mealId,
+        user_id: userId,
+        action,
+        ingredient_id: details.ingredientId ?? null,
+        ingredient_before: details.ingredientBefore ?? Prisma.JsonNull,
+        ingredient_after: details.ingredientAfter ?? Prisma.JsonNull,
+        totals_before: details.totalsBefore,
+        totals_after: details.totalsAfter,
+      },
+    });
+  }
+
+  /**
+   * Resolve a new ingredient to per-100 g values: custom values from the
+   * user, otherwise the food database
+   */
+  static async resolveDraft(
+    input: AddMealIngredientInput
+  ): Promise<IngredientDraft> {
+    if (input.nutrients_per_100g) {
+      return {
+        name: input.name!,
+        grams: input.grams!,
+        food_id: null,
+        source: IngredientSource.USER,
+        nutrients_per_100g: input.nutrients_per_100g as NutrientMap,
+        vitamins_per_100g: input.vitamins_per_100g || {},
+        micronutrients_per_100g: input.micronutrients_per_100g || {},
+      };
+    }
+
+    const item = input.food_id
+      ? await FoodDatabaseService.getById(input.food_id)
+      : await FoodDatabaseService.findBestMatch(input.name!);
+
+    if (!item) {
+      throw new Error(
+        `"${input.name || input.food_id}" is not in the food database`
+      );
+    }
+
+    const grams =
+      input.grams ?? (input.quantity ?? 1) * (item.portion_g ?? 100);
+
+    return {
+      name: input.name || item.name,
+      grams: round(grams),
+      food_id: item.food_id,
+      source: IngredientSource.FOOD_DATABASE,
+      nutrients_per_100g: {
+        calories: item.calories,
+        protein_g: item.protein_g,
+        carbs_g: item.carbs_g,
+        fats_g: item.fats_g,
+        fiber_g: item.fiber_g ?? 0,
+        sugar_g: item.sugar_g ?? 0,
+        sodium_mg: item.sodium_mg ?? 0,
+        saturated_fats_g: item.saturated_fats_g ?? 0,
+        cholesterol_mg: item.cholesterol_mg ?? 0,
+      },
+      vitamins_per_100g: {},
+      micronutrients_per_100g: {},
+    };
+  }
+
+  /**
+   * Create a meal whose nutrients are computed from the given ingredients,
+   * e.g. a logged recipe portion
+   */
+  static async createMealFromIngredients(
+    userId: string,
+    meal: Omit<Prisma.MealUncheckedCreateInput, "user_id">,
+    drafts: IngredientDraft[]
+  ): Promise<Meal> {
+    return prisma.$transaction(async (tx) => {
+      const created = await tx.meal.create({
+        data: { ...meal, user_id: userId },
+      });
+      for (const [position, draft] of drafts.entries()) {
+        await tx.mealIngredient.create({
+          data: { ...draft, meal_id: created.meal_id, position },
+        });
+      }
+
+      const updated = await this.recompute(tx, created.meal_id);
+      const totals = this.snapshot(updated);
+      await this.recordAudit(tx, created.meal_id, userId, "original_estimate", {
+        totalsBefore: totals,
+        totalsAfter: totals,
+      });
+
+      return updated;
+    });
+  }
+
+  static async getIngredients(mealId: number, userId: string) {
+    return prisma.$transaction(async (tx) => {
+      const meal = await this.getOwnedMeal(tx, mealId, userId);
+      const ingredients = await this.ensureStructured(tx, meal, userId);
+
+      return {
+        meal_id: mealId,
+        ingredients: ingredients.map((ing) => this.computeIngredient(ing)),
+        totals: this.snapshot(meal),
+      };
+    });
+  }
+
+  static async addIngredient(
+    mealId: number,
+    userId: string,
+    input: AddMealIngredientInput
+  ): Promise<Meal> {
+    const draft = await this.resolveDraft(input);
+
+    return prisma.$transaction(async (tx) => {
+      const meal = await this.getOwnedMeal(tx, mealId, userId);
+      const existing = await this.ensureStructured(tx, meal, userId);
+
+      const ingredient = await tx.mealIngredient.create({
+        data: {
+          ...draft,
+          meal_id: mealId,
+          position: existing.length,
+        },
+      });
+
+      const updated = await this.recompute(tx, mealId);
+      await this.recordAudit(tx, mealId, userId, "ingredient_added", {
+        ingredientId: ingredient.ingredient_id,
+        ingredientAfter: this.computeIngredient(ingredient),
+        totalsBefore: this.snapshot(meal),
+        totalsAfter: this.snapshot(updated),
+      });
+
+      console.log(`➕ Added ingredient "${draft.name}" to meal ${mealId}`);
+      return updated;
+    });
+  }
+
+  static async updateIngredient(
+    mealId: number,
+    ingredientId: number,
+    userId: string,
+    input: UpdateMealIngredientInput
+  ): Promise<Meal> {
+    // A renamed ingredient takes the new food's values when the database
+    // knows it; otherwise it keeps its current values
+    const renamedTo =
+      input.name && !input.nutrients_per_100g
+        ? await this.resolveDraft({ name: input.name }).catch(() => null)
+        : null;
+
+    return prisma.$transaction(async (tx) => {
+      const meal = await this.getOwnedMeal(tx, mealId, userId);
+      const ingredients = await this.ensureStructured(tx, meal, userId);
+      const before = ingredients.find(
+        (ing) => ing.ingredient_id === ingredientId
+      );
+      if (!before) {
+        throw new Error("Ingredient not found");
+      }
+
+      const data: Prisma.MealIngredientUpdateInput = {};
+      if (input.grams !== undefined) data.grams = round(input.grams);
+      if (input.name !== undefined && input.name !== before.name) {
+        data.name = input.name;
+        if (renamedTo) {
+          data.food_item = { connect: { food_id: renamedTo.food_id! } };
+          data.source = renamedTo.source;
+          data.nutrients_per_100g = renamedTo.nutrients_per_100g;
+          data.vitamins_per_100g = {};
+          data.micronutrients_per_100g = {};
+        }
+      }
+      if (input.nutrients_per_100g) {
+        data.nutrients_per_100g = input.nutrients_per_100g;
+        data.source = IngredientSource.USER;
+        data.food_item = { disconnect: true };
+      }
+
+      const after = await tx.mealIngredient.update({
+        where: { ingredient_id: ingredientId },
+        data,
+      });
+
+      const updated = await this.recompute(tx, mealId);
+      await this.recordAudit(tx, mealId, userId, "ingredient_updated", {
+        ingredientId,
+        ingredientBefore: this.computeIngredient(before),
+        ingredientAfter: this.computeIngredient(after),
+        totalsBefore: this.snapshot(meal),
+        totalsAfter: this.snapshot(updated),
+      });
+
+      console.log(`✏️ Updated ingredient ${ingredientId} on meal ${mealId}`);
+      return updated;
+    });
+  }
+
+  static async removeIngredient(
+    mealId: number,
+    ingredientId: number,
+    userId: string
+  ): Promise<Meal> {
+    return prisma.$transaction(async (tx) => {
+      const meal = await this.getOwnedMeal(tx, mealId, userId);
+      const ingredients = await this.ensureStructured(tx, meal, userId);
+      const ingredient = ingredients.find(
+        (ing) => ing.ingredient_id === ingredientId
+      );
+      if (!ingredient) {
+        throw new Error("Ingredient not found");
+      }
+
+      await tx.mealIngredient.delete({
+        where: { ingredient_id: ingredientId },
+      });
+
+      const updated = await this.recompute(tx, mealId);
+      await this.recordAudit(tx, mealId, userId, "ingredient_removed", {
+        ingredientId,
+        ingredientBefore: this.computeIngredient(ingredient),
+        totalsBefore: this.snapshot(meal),
+        totalsAfter: this.snapshot(updated),
+      });
+
+      console.log(`➖ Removed ingredient ${ingredientId} from meal ${mealId}`);
+      return updated;
+    });
+  }
+
+  /**
+   * Audit a direct edit of meal totals (PUT /nutrition/meals/:id)
+   */
+  static async recordTotalsEdit(
+    before: Meal,
+    after: Meal,
+    userId: string
+  ): Promise<void> {
+    const totalsBefore = this.snapshot(before);
+    const totalsAfter = this.snapshot(after);
+    if (JSON.stringify(totalsBefore) === JSON.stringify(totalsAfter)) {
+      return;
+    }
+
+    await this.recordAudit(prisma, before.meal_id, userId, "totals_edited", {
+      totalsBefore,
+      totalsAfter,
+    });
+  }
+
+  /**
+   * The original estimate next to the current values and every correction
+   */
+  static async getAudit(mealId: number, userId: string) {
+    const meal = await this.getOwnedMeal(prisma, mealId, userId);
+    const changes = await prisma.mealNutritionAudit.findMany({
+      where: { meal_id: mealId },
+      orderBy: { created_at: "asc" },
+    });
+
+    const current = this.snapshot(meal);
+    const original =
+      (changes[0]?.totals_before as MealNutritionSnapshot | undefined) ??
+      current;
+
+    const difference: NutrientMap = {};
+    for (const column of MEAL_NUTRIENT_COLUMNS) {
+      const delta = (current[column] ?? 0) - (original[column] ?? 0);
+      if (delta !== 0) difference[column] = round(delta);
+    }
+
+    return {
+      meal_id: mealId,
+      original,
+      current,
+      difference,
+      changes: changes.filter(
+        (change) => change.action !== "original_estimate"
+      ),
+      original_ingredients:
+        changes.find((change) => change.action === "original_estimate")
+          ?.ingredient_before ?? meal.ingredients,
+    };
+  }
+}
@@ -4,6 +4,8 @@ import { prisma } from "../lib/database";
 import { MealAnalysisInput, MealUpdateInput } from "../types/nutrition";
 import { AuthService } from "./auth";
 import { asJsonObject, mapExistingMealToPrismaInput } from "../utils/nutrition";
+import { FavoriteMealService } from "./favorites";
+import { TimezoneService } from "./timezone";
 
 // Cache for frequently accessed data
 const userStatsCache = new Map<string, { data: any; timestamp: number }>();
@@ -57,8 +59,8 @@ function transformMealForClient(meal: any) {
     sodium: meal.sodium_mg || 0,
     userId: meal.user_id,
     ingredients: ingredients, // Include ingredients in response
-    isFavorite: additives.isFavorite || false,
-    is_favorite: additives.isFavorite || false, // Both formats for compatibility
+    isFavorite: Boolean(meal.favorite),
+    is_favorite: Boolean(meal.favorite), // Both formats for compatibility
     tasteRating: feedback.tasteRating || 0,
     satietyRating: feedback.satietyRating || 0,
     energyRating: feedback.energyRating || 0,
@@ -461,6 +463,7 @@ export class NutritionService {
           ingredients: true,
           created_at: true,
           updated_at: true,
+          favorite: { select: { favorite_id: true } },
         },
       });
 
@@ -498,7 +501,8 @@ export class NutritionService {
         satietyRating: meal.satiety_rating || 0,
         energyRating: meal.energy_rating || 0,
         heavinessRating: meal.heaviness_rating || 0,
-        isFavorite: meal.is_favorite || false,
+        isFavorite: Boolean(meal.favorite),
+        is_favorite: Boolean(meal.favorite),
 
         // Additional fields
         description: meal.description,
@@ -768,9 +772,8 @@ export class NutritionService {
         return cached.data;
       }
 
-      const startDate = new Date(date);
-      const endDate = new Date(date);
-      endDate.setDate(endDate.getDate() + 1);
+      const { start: startDate, end: endDate } =
+        await TimezoneService.getUserDayRange(user_id, date);
 
       const meals = await prisma.meal.findMany({
         where: {
@@ -784,9 +787,15 @@ export class NutritionService {
           fats_g: true,
           fiber_g: true,
           sugar_g: true,
+          caffeine_mg: true,
         },
       });
 
+      const drinkCaffeine = await prisma.drinkLog.aggregate({
+        where: { user_id, date: new Date(date) },
+        _sum: { caffeine_mg: true },
+      });
+
       const result = meals.reduce(
         (acc, meal) => {
           acc.calories += meal.calories || 0;
@@ -795,6 +804,7 @@ export class NutritionService {
           acc.fat += meal.fats_g || 0;
           acc.fiber += meal.fiber_g || 0;
           acc.sugar += meal.sugar_g || 0;
+          acc.caffeine_mg += meal.caffeine_mg || 0;
           acc.meal_count++;
           return acc;
         },
@@ -805,6 +815,8 @@ export class NutritionService {
           fat: 0,
           fiber: 0,
           sugar: 0,
+          // Meals plus logged drinks
+          caffeine_mg: drinkCaffeine._sum.caffeine_mg || 0,
           meal_count: 0,
         }
       );
@@ -862,29 +874,16 @@ export class NutritionService {
 
   static async toggleMealFavorite(user_id: string, meal_id: string) {
     try {
-      const meal = await prisma.meal.findFirst({
-        where: { meal_id: parseInt(meal_id), user_id },
-      });
-      if (!meal) throw new Error("Meal not found");
-
-      const additives = asJsonObject(meal.additives_json);
-      const current = Boolean(additives.isFavorite);
-
-      const updatedAdditives = {
-        ...additives,
-        isFavorite: !current,
-        favoriteUpdatedAt: new Date().toISOString(),
-      };
-
-      await prisma.meal.update({
-        where: { meal_id: meal.meal_id },
-        data: { additives_json: updatedAdditives },
-      });
+      const result = await FavoriteMealService.toggleMeal(
+        user_id,
+        parseInt(meal_id)
+      );
 
       // Clear related caches
       this.clearUserCaches(user_id);
+      this.clearUserMealsCaches(user_id);
 
-      return { meal_id, isFavorite: !current };
+      return { ...result, meal_id };
     } catch (error) {
       console.error("💥 Error toggling meal favorite:", error);
       throw error;
@@ -922,7 +921,7 @@ export class NutritionService {
   }
 
   // Helper method to clear user-specific caches
-  private static clearUserCaches(user_id: string) {
+  static clearUserCaches(user_id: string) {
     const keysToDelete: string[] = [];
 
     for (const [key] of userStatsCache) {
@@ -938,7 +937,7 @@ export class NutritionService {
   }
 
   // Helper method to clear user-specific meal caches
-  private static clearUserMealsCaches(user_id: string) {
+  static clearUserMealsCaches(user_id: string) {
     const keysToDelete: string[] = [];
 
     for (const [key] of mealsCache) {
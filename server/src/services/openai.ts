@@ -6,6 +6,7 @@ import {
   ReplacementMealRequest,
 } from "../types/openai";
 import { extractCleanJSON } from "../utils/openai";
+import { FoodDatabaseService } from "./foodDatabase";
 
 export const openai = process.env.OPENAI_API_KEY
   ? new OpenAI({
@@ -1196,11 +1197,11 @@ Language: ${language}`;
     return analysisResult;
   }
 
-  private static getIntelligentFallbackAnalysis(
+  private static async getIntelligentFallbackAnalysis(
     language: string = "english",
     updateText?: string,
     editedIngredients?: any[]
-  ): MealAnalysisResult {
+  ): Promise<MealAnalysisResult> {
     console.log("⚠️ Using fallback analysis - OpenAI not available or failed");
     console.log(
       "💡 To enable real AI analysis, ensure OPENAI_API_KEY is set in environment"
@@ -1210,6 +1211,27 @@ Language: ${language}`;
     if (editedIngredients && editedIngredients.length > 0) {
       console.log("🔄 Using edited ingredients for fallback analysis");
 
+      // Ingredients added without nutrition values get them from the food
+      // database
+      editedIngredients = await Promise.all(
+        editedIngredients.map(async (ing: any) => {
+          if (ing.calories || !ing.name) return ing;
+          const { ingredients } = await FoodDatabaseService.analyzeIngredients([
+            ing.serving_size_g
+              ? { name: ing.name, grams: ing.serving_size_g }
+              : ing.name,
+          ]);
+          return ingredients[0]
+            ? {
+                ...ingredients[0],
+                name: ing.name,
+                fiber: ingredients[0].fiber_g,
+                sugar: ingredients[0].sugar_g,
+              }
+            : ing;
+        })
+      );
+
       const totals = editedIngredients.reduce(
         (acc: any, ing: any) => ({
           calories: acc.calories + (ing.calories || 0),
@@ -1267,6 +1289,54 @@ Language: ${language}`;
         recommendations: "",
       };
     }
+
+    // A description naming known foods is computed from the food database
+    // instead of the generic estimate below
+    if (updateText) {
+      const analysis = await FoodDatabaseService.analyzeText(updateText);
+
+      if (analysis.ingredients.length > 0) {
+        console.log(
+          `🥕 Fallback analysis matched ${analysis.ingredients.length} foods in the food database`
+        );
+        const { totals } = analysis;
+        const coverage =
+          analysis.ingredients.length /
+          (analysis.ingredients.length + analysis.unmatched.length);
+
+        return {
+          name: analysis.ingredients.map((ing) => ing.name).join(", "),
+          description:
+            language === "hebrew"
+              ? "ערכים תזונתיים ממאגר המזון"
+              : "Nutrition values from the food database",
+          calories: totals.calories,
+          protein: totals.protein_g,
+          carbs: totals.carbs_g,
+          fat: totals.fats_g,
+          fiber: totals.fiber_g,
+          sugar: totals.sugar_g,
+          sodium: totals.sodium_mg,
+          saturated_fats_g: totals.saturated_fats_g,
+          cholesterol_mg: totals.cholesterol_mg,
+          serving_size_g: totals.serving_size_g,
+          confidence: Math.round(50 + 35 * coverage),
+          ingredients: analysis.ingredients,
+          servingSize: `${totals.serving_size_g}g`,
+          cookingMethod: "Unknown",
+          healthNotes:
+            analysis.unmatched.length > 0
+              ? language === "hebrew"
+                ? `לא נמצאו במאגר: ${analysis.unmatched.join(", ")}`
+                : `Not found in the food database: ${analysis.unmatched.join(
+                    ", "
+                  )}`
+              : "",
+          recommendations: "",
+        };
+      }
+    }
+
     const baseMeal = {
       name: language === "hebrew" ? "ארוחה מעורבת" : "Mixed Meal",
       description:
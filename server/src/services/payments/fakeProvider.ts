@@ -0,0 +1,110 @@
+import crypto from "crypto";
+import {
+  CheckoutSession,
+  CheckoutSessionRequest,
+  PaymentProvider,
+  ProviderEvent,
+  ProviderEventType,
+} from "../../types/payments";
+
+interface FakeSession {
+  request: CheckoutSessionRequest;
+  status: "open" | "completed" | "expired";
+}
+
+/**
+ * In-process payment provider for development and tests. Sessions live in
+ * memory and webhooks are signed with a shared HMAC secret, so the full
+ * checkout -> webhook -> subscription flow runs without network access.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  name = "fake" as const;
+  signatureHeader = "x-fake-signature";
+
+  private sessions = new Map<string, FakeSession>();
+
+  constructor(
+    private readonly webhookSecret: string,
+    private readonly checkoutBaseUrl: string
+  ) {}
+
+  async createCheckoutSession(
+    request: CheckoutSessionRequest
+  ): Promise<CheckoutSession> {
+    const id = `fake_cs_${crypto.randomBytes(12).toString("hex")}`;
+    this.sessions.set(id, { request, status: "open" });
+
+    return {
+      id,
+      url: `${this.checkoutBaseUrl}/payments/fake/checkout/${id}`,
+      expiresAt: new Date(Date.now() + 30 * 60 * 1000),
+    };
+  }
+
+  getSession(sessionId: string): FakeSession | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  /**
+   * Build a signed webhook payload as the provider would send it
+   */
+  buildWebhook(
+    sessionId: string,
+    type: Exclude<ProviderEventType, "ignored">
+  ): { body: Buffer; signature: string } {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.status = type === "checkout.completed" ? "completed" : "expired";
+    }
+
+    const event = {
+      id: `fake_evt_${crypto.randomBytes(12).toString("hex")}`,
+      type,
+      session_id: sessionId,
+      payment_id:
+        type === "checkout.completed"
+          ? `fake_pi_${crypto.randomBytes(8).toString("hex")}`
+          : null,
+      payment_method: "card",
+      failure_reason: type === "payment.failed" ? "Card declined" : null,
+    };
+    const body = Buffer.from(JSON.stringify(event));
+
+    return { body, signature: this.sign(body) };
+  }
+
+  sign(body: Buffer): string {
+    return crypto
+      .createHmac("sha256", this.webhookSecret)
+      .update(body)
+      .digest("hex");
+  }
+
+  parseWebhookEvent(
+    rawBody: Buffer,
+    signature: string | undefined
+  ): ProviderEvent {
+    if (!signature) {
+      throw new Error("Missing webhook signature");
+    }
+
+    const expected = this.sign(rawBody);
+    if (
+      signature.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      throw new Error("Invalid webhook signature");
+    }
+
+    const event = JSON.parse(rawBody.toString("utf8"));
+    return {
+      id: event.id,
+      type: event.type,
+      sessionId: event.session_id,
+      providerPaymentId: event.payment_id,
+      paymentMethod: event.payment_method,
+      failureReason: event.failure_reason,
+      raw: event,
+    };
+  }
+}
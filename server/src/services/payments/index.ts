@@ -0,0 +1,56 @@
+import crypto from "crypto";
+import { PaymentProvider } from "../../types/payments";
+import { FakePaymentProvider } from "./fakeProvider";
+import { StripePaymentProvider } from "./stripeProvider";
+
+export { FakePaymentProvider } from "./fakeProvider";
+export { StripePaymentProvider } from "./stripeProvider";
+
+let provider: PaymentProvider | null = null;
+
+/**
+ * Resolve the configured payment provider. Stripe is used when its keys are
+ * set (or PAYMENT_PROVIDER=stripe); otherwise the in-process fake provider,
+ * which production refuses: its webhooks would hand out paid plans.
+ */
+export function getPaymentProvider(): PaymentProvider {
+  if (provider) return provider;
+
+  const configured =
+    process.env.PAYMENT_PROVIDER ||
+    (process.env.STRIPE_SECRET_KEY ? "stripe" : "fake");
+
+  if (configured === "stripe") {
+    if (!process.env.STRIPE_SECRET_KEY || !process.env.STRIPE_WEBHOOK_SECRET) {
+      throw new Error(
+        "STRIPE_SECRET_KEY and STRIPE_WEBHOOK_SECRET must be set for the Stripe provider"
+      );
+    }
+    provider = new StripePaymentProvider(
+      process.env.STRIPE_SECRET_KEY,
+      process.env.STRIPE_WEBHOOK_SECRET
+    );
+  } else {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error(
+        "A real payment provider is required in production: set STRIPE_SECRET_KEY and STRIPE_WEBHOOK_SECRET"
+      );
+    }
+    // Webhooks are signed in-process, so a per-process secret is enough
+    provider = new FakePaymentProvider(
+      process.env.FAKE_PAYMENT_WEBHOOK_SECRET ||
+        crypto.randomBytes(32).toString("hex"),
+      process.env.API_BASE_URL || `http://localhost:${process.env.PORT || 5000}/api`
+    );
+  }
+
+  console.log(`💳 Payment provider: ${provider.name}`);
+  return provider;
+}
+
+/**
+ * Override the provider (tests)
+ */
+export function setPaymentProvider(override: PaymentProvider | null) {
+  provider = override;
+}
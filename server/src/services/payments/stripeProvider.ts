@@ -0,0 +1,137 @@
+import axios from "axios";
+import crypto from "crypto";
+import {
+  CheckoutSession,
+  CheckoutSessionRequest,
+  PaymentProvider,
+  ProviderEvent,
+} from "../../types/payments";
+
+const STRIPE_API_URL = "https://api.stripe.com/v1";
+
+// Reject webhook timestamps older than this to limit replay attacks
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export class StripePaymentProvider implements PaymentProvider {
+  name = "stripe" as const;
+  signatureHeader = "stripe-signature";
+
+  constructor(
+    private readonly secretKey: string,
+    private readonly webhookSecret: string
+  ) {}
+
+  async createCheckoutSession(
+    request: CheckoutSessionRequest
+  ): Promise<CheckoutSession> {
+    const params = new URLSearchParams({
+      mode: "payment",
+      success_url: request.successUrl,
+      cancel_url: request.cancelUrl,
+      client_reference_id: request.paymentId.toString(),
+      customer_email: request.email,
+      "line_items[0][quantity]": "1",
+      "line_items[0][price_data][currency]": request.currency.toLowerCase(),
+      "line_items[0][price_data][unit_amount]": Math.round(
+        request.amount * 100
+      ).toString(),
+      "line_items[0][price_data][product_data][name]": `${request.planType} plan`,
+      "metadata[payment_id]": request.paymentId.toString(),
+      "metadata[user_id]": request.userId,
+      "metadata[plan_type]": request.planType,
+    });
+
+    const response = await axios.post(
+      `${STRIPE_API_URL}/checkout/sessions`,
+      params.toString(),
+      {
+        headers: {
+          Authorization: `Bearer ${this.secretKey}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+          "Idempotency-Key": `checkout-${request.paymentId}`,
+        },
+        timeout: 10000,
+      }
+    );
+
+    return {
+      id: response.data.id,
+      url: response.data.url,
+      expiresAt: response.data.expires_at
+        ? new Date(response.data.expires_at * 1000)
+        : null,
+    };
+  }
+
+  parseWebhookEvent(
+    rawBody: Buffer,
+    signature: string | undefined
+  ): ProviderEvent {
+    if (!signature) {
+      throw new Error("Missing webhook signature");
+    }
+
+    const parts = signature.split(",").reduce((acc, part) => {
+      const [key, value] = part.split("=");
+      if (key && value) {
+        acc[key.trim()] = [...(acc[key.trim()] || []), value.trim()];
+      }
+      return acc;
+    }, {} as Record<string, string[]>);
+
+    const timestamp = Number(parts.t?.[0]);
+    const candidates = parts.v1 || [];
+    if (!timestamp || candidates.length === 0) {
+      throw new Error("Invalid webhook signature");
+    }
+
+    if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+      throw new Error("Webhook signature timestamp outside tolerance");
+    }
+
+    const expected = crypto
+      .createHmac("sha256", this.webhookSecret)
+      .update(`${timestamp}.${rawBody.toString("utf8")}`)
+      .digest("hex");
+
+    const valid = candidates.some(
+      (candidate) =>
+        candidate.length === expected.length &&
+        crypto.timingSafeEqual(Buffer.from(candidate), Buffer.from(expected))
+    );
+    if (!valid) {
+      throw new Error("Invalid webhook signature");
+    }
+
+    const event = JSON.parse(rawBody.toString("utf8"));
+    const session = event.data?.object || {};
+
+    const base = {
+      id: event.id,
+      sessionId: session.id || null,
+      providerPaymentId: session.payment_intent || null,
+      paymentMethod: session.payment_method_types?.[0] || null,
+      failureReason: null,
+      raw: event,
+    };
+
+    switch (event.type) {
+      case "checkout.session.completed":
+      case "checkout.session.async_payment_succeeded":
+        // Delayed payment methods complete the session before funds arrive
+        return session.payment_status === "paid"
+          ? { ...base, type: "checkout.completed" }
+          : { ...base, type: "ignored" };
+      case "checkout.session.expired":
+        return { ...base, type: "checkout.expired" };
+      case "checkout.session.async_payment_failed":
+        return {
+          ...base,
+          type: "payment.failed",
+          failureReason: "Payment failed",
+        };
+      default:
+        return { ...base, type: "ignored" };
+    }
+  }
+}
@@ -0,0 +1,727 @@
+import PDFDocument from "pdfkit";
+import { NutritionGoals, PeriodStatistics } from "./statistics";
+
+export interface ReportDay {
+  date: string;
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  fiber_g: number;
+  sugar_g: number;
+  sodium_mg: number;
+  liquids_ml: number;
+  meal_count: number;
+  goal: NutritionGoals;
+}
+
+export interface ReportAchievement {
+  title: string;
+  description: string;
+  points: number;
+  unlocked_date: string | null;
+}
+
+export interface NutritionReportData {
+  user: { name: string | null; email: string };
+  period: "week" | "month" | "custom";
+  start_date: string;
+  end_date: string;
+  generated_at: Date;
+  statistics: PeriodStatistics;
+  days: ReportDay[];
+  streaks: {
+    current: number;
+    best: number;
+    longest_in_period: number;
+    logged_days: number;
+    goal_days: number;
+  };
+  achievements: {
+    unlocked_in_period: ReportAchievement[];
+    total_unlocked: number;
+    total_available: number;
+  };
+}
+
+interface ChartSeries {
+  label: string;
+  color: string;
+  values: number[];
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const COLORS = {
+  primary: "#10b981",
+  text: "#1f2937",
+  muted: "#6b7280",
+  grid: "#e5e7eb",
+  header: "#f3f4f6",
+  good: "#059669",
+  warn: "#d97706",
+  calories: "#10b981",
+  protein: "#3b82f6",
+  carbs: "#f59e0b",
+  fats: "#ef4444",
+  water: "#06b6d4",
+};
+
+const PAGE_MARGIN = 50;
+
+/**
+ * Adherence thresholds used for the goal tables. Calories count as "met"
+ * within ±10% of target, "limit" nutrients must stay at or below target and
+ * everything else must reach 90% of target.
+ */
+const ADHERENCE = {
+  calorieTolerance: 0.1,
+  minimumRatio: 0.9,
+};
+
+export class PDFReportService {
+  /**
+   * Render a multi-page nutrition report for the given period
+   */
+  static async renderNutritionReport(
+    data: NutritionReportData
+  ): Promise<Buffer> {
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: PAGE_MARGIN,
+      bufferPages: true,
+      info: {
+        Title: `Nutrition report ${data.start_date} - ${data.end_date}`,
+        Author: "Calo",
+        Subject: "Nutrition report",
+      },
+    });
+
+    const chunks: Buffer[] = [];
+    const done = new Promise<Buffer>((resolve, reject) => {
+      doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+      doc.on("end", () => resolve(Buffer.concat(chunks)));
+      doc.on("error", reject);
+    });
+
+    this.renderSummaryPage(doc, data);
+    doc.addPage();
+    this.renderTrendsPage(doc, data);
+    doc.addPage();
+    this.renderAdherencePage(doc, data);
+    doc.addPage();
+    this.renderStreaksPage(doc, data);
+    this.renderPageFooters(doc, data);
+
+    doc.end();
+    return done;
+  }
+
+  /**
+   * Classify a single day's value against its goal
+   */
+  static isGoalMet(
+    metric: keyof NutritionGoals,
+    value: number,
+    goal: number
+  ): boolean {
+    if (goal <= 0) return false;
+
+    switch (metric) {
+      case "calories":
+        return Math.abs(value - goal) / goal <= ADHERENCE.calorieTolerance;
+      case "sodium_mg":
+      case "sugar_g":
+        return value <= goal;
+      default:
+        return value / goal >= ADHERENCE.minimumRatio;
+    }
+  }
+
+  private static renderSummaryPage(
+    doc: PDFKit.PDFDocument,
+    data: NutritionReportData
+  ) {
+    const stats = data.statistics;
+
+    doc
+      .fillColor(COLORS.primary)
+      .fontSize(24)
+      .text("Nutrition Report", { align: "left" });
+    doc
+      .moveDown(0.3)
+      .fillColor(COLORS.text)
+      .fontSize(12)
+      .text(data.user.name || data.user.email)
+      .fillColor(COLORS.muted)
+      .fontSize(10)
+      .text(
+        `${this.formatPeriod(data.period)}: ${data.start_date} to ${
+          data.end_date
+        } (${stats.total_days} days)`
+      )
+      .text(`Generated ${data.generated_at.toISOString().split("T")[0]}`);
+
+    doc.moveDown(1.5);
+    this.sectionTitle(doc, "Overview");
+
+    const cards = [
+      { label: "Meals logged", value: `${stats.meal_count}` },
+      {
+        label: "Days logged",
+        value: `${data.streaks.logged_days}/${stats.total_days}`,
+      },
+      { label: "Avg. calories", value: `${stats.averageCalories} kcal` },
+      { label: "Current streak", value: `${data.streaks.current} days` },
+    ];
+    this.renderCards(doc, cards);
+
+    doc.moveDown(1);
+    this.sectionTitle(doc, "Daily averages vs. goals");
+
+    const latestGoal =
+      data.days.length > 0 ? data.days[data.days.length - 1].goal : stats.goals;
+    const avg = stats.daily_averages;
+    const rows: Array<[string, number, number, string]> = [
+      ["Calories", avg.calories, latestGoal.calories, "kcal"],
+      ["Protein", avg.protein, latestGoal.protein_g, "g"],
+      ["Carbohydrates", avg.carbs, latestGoal.carbs_g, "g"],
+      ["Fats", avg.fats, latestGoal.fats_g, "g"],
+      ["Fiber", avg.fiber, latestGoal.fiber_g, "g"],
+      ["Sugar", avg.sugar, latestGoal.sugar_g, "g"],
+      ["Sodium", avg.sodium, latestGoal.sodium_mg, "mg"],
+      ["Fluids", avg.fluids, latestGoal.water_ml, "ml"],
+    ];
+
+    this.renderTable(
+      doc,
+      ["Nutrient", "Daily average", "Daily goal", "% of goal"],
+      rows.map(([label, value, goal, unit]) => [
+        label,
+        `${Math.round(value || 0)} ${unit}`,
+        `${Math.round(goal || 0)} ${unit}`,
+        goal > 0 ? `${Math.round(((value || 0) / goal) * 100)}%` : "-",
+      ]),
+      [160, 110, 110, 115]
+    );
+
+    doc.moveDown(1);
+    this.sectionTitle(doc, "Period totals");
+    doc
+      .fillColor(COLORS.text)
+      .fontSize(10)
+      .text(
+        `Total intake: ${Math.round(stats.consumption.calories)} kcal of ${Math.round(
+          stats.goals.calories
+        )} kcal planned (${stats.completion_rate || 0}%).`
+      )
+      .text(
+        `Successful days: ${stats.successfulDays}. Perfect days: ${stats.perfectDays}. Average completion: ${stats.averageCompletion}%.`
+      );
+  }
+
+  private static renderTrendsPage(
+    doc: PDFKit.PDFDocument,
+    data: NutritionReportData
+  ) {
+    const labels = data.days.map((day) => day.date.slice(5));
+    const width = doc.page.width - PAGE_MARGIN * 2;
+
+    this.sectionTitle(doc, "Calorie trend");
+    this.renderLineChart(
+      doc,
+      { x: PAGE_MARGIN, y: doc.y, width, height: 170 },
+      [
+        {
+          label: "Calories",
+          color: COLORS.calories,
+          values: data.days.map((day) => day.calories),
+        },
+        {
+          label: "Goal",
+          color: COLORS.muted,
+          values: data.days.map((day) => day.goal.calories),
+        },
+      ],
+      labels
+    );
+
+    doc.moveDown(1.5);
+    this.sectionTitle(doc, "Macronutrient trend (g)");
+    this.renderLineChart(
+      doc,
+      { x: PAGE_MARGIN, y: doc.y, width, height: 170 },
+      [
+        {
+          label: "Protein",
+          color: COLORS.protein,
+          values: data.days.map((day) => day.protein_g),
+        },
+        {
+          label: "Carbs",
+          color: COLORS.carbs,
+          values: data.days.map((day) => day.carbs_g),
+        },
+        {
+          label: "Fats",
+          color: COLORS.fats,
+          values: data.days.map((day) => day.fats_g),
+        },
+      ],
+      labels
+    );
+
+    doc.moveDown(1.5);
+    this.sectionTitle(doc, "Hydration (ml)");
+    this.renderBarChart(
+      doc,
+      { x: PAGE_MARGIN, y: doc.y, width, height: 140 },
+      data.days.map((day) => day.liquids_ml),
+      data.days.map((day) => day.goal.water_ml),
+      labels,
+      COLORS.water
+    );
+  }
+
+  private static renderAdherencePage(
+    doc: PDFKit.PDFDocument,
+    data: NutritionReportData
+  ) {
+    this.sectionTitle(doc, "Goal adherence summary");
+
+    const loggedDays = data.days.filter((day) => day.meal_count > 0);
+    const metrics: Array<[string, keyof NutritionGoals, keyof ReportDay]> = [
+      ["Calories (±10%)", "calories", "calories"],
+      ["Protein", "protein_g", "protein_g"],
+      ["Carbohydrates", "carbs_g", "carbs_g"],
+      ["Fats", "fats_g", "fats_g"],
+      ["Fiber", "fiber_g", "fiber_g"],
+      ["Sugar (limit)", "sugar_g", "sugar_g"],
+      ["Sodium (limit)", "sodium_mg", "sodium_mg"],
+      ["Water", "water_ml", "liquids_ml"],
+    ];
+
+    this.renderTable(
+      doc,
+      ["Goal", "Days met", "Logged days", "Adherence"],
+      metrics.map(([label, goalKey, dayKey]) => {
+        const met = loggedDays.filter((day) =>
+          this.isGoalMet(goalKey, Number(day[dayKey]) || 0, day.goal[goalKey])
+        ).length;
+        return [
+          label,
+          `${met}`,
+          `${loggedDays.length}`,
+          loggedDays.length > 0
+            ? `${Math.round((met / loggedDays.length) * 100)}%`
+            : "-",
+        ];
+      }),
+      [160, 110, 110, 115]
+    );
+
+    doc.moveDown(1);
+    this.sectionTitle(doc, "Day by day");
+
+    const headers = [
+      "Date",
+      "Meals",
+      "Calories",
+      "Protein",
+      "Carbs",
+      "Fats",
+      "Fiber",
+      "Water",
+    ];
+    const rows = data.days.map((day) => [
+      day.date,
+      `${day.meal_count}`,
+      this.formatAgainstGoal(day.calories, day.goal.calories),
+      this.formatAgainstGoal(day.protein_g, day.goal.protein_g),
+      this.formatAgainstGoal(day.carbs_g, day.goal.carbs_g),
+      this.formatAgainstGoal(day.fats_g, day.goal.fats_g),
+      this.formatAgainstGoal(day.fiber_g, day.goal.fiber_g),
+      this.formatAgainstGoal(day.liquids_ml, day.goal.water_ml),
+    ]);
+
+    this.renderTable(
+      doc,
+      headers,
+      rows,
+      [70, 40, 70, 60, 60, 55, 50, 90],
+      (rowIndex, columnIndex) => {
+        const day = data.days[rowIndex];
+        const checks: Array<[keyof NutritionGoals, number] | null> = [
+          null,
+          null,
+          ["calories", day.calories],
+          ["protein_g", day.protein_g],
+          ["carbs_g", day.carbs_g],
+          ["fats_g", day.fats_g],
+          ["fiber_g", day.fiber_g],
+          ["water_ml", day.liquids_ml],
+        ];
+        const check = checks[columnIndex];
+        if (!check || day.meal_count === 0) return COLORS.muted;
+        return this.isGoalMet(check[0], check[1], day.goal[check[0]])
+          ? COLORS.good
+          : COLORS.warn;
+      }
+    );
+  }
+
+  private static renderStreaksPage(
+    doc: PDFKit.PDFDocument,
+    data: NutritionReportData
+  ) {
+    this.sectionTitle(doc, "Streaks");
+    this.renderCards(doc, [
+      { label: "Current streak", value: `${data.streaks.current} days` },
+      { label: "Best streak", value: `${data.streaks.best} days` },
+      {
+        label: "Longest in period",
+        value: `${data.streaks.longest_in_period} days`,
+      },
+      { label: "Calorie goal days", value: `${data.streaks.goal_days}` },
+    ]);
+
+    doc.moveDown(1);
+    this.sectionTitle(doc, "Achievements");
+    doc
+      .fillColor(COLORS.text)
+      .fontSize(10)
+      .text(
+        `${data.achievements.total_unlocked} of ${data.achievements.total_available} achievements unlocked overall.`
+      )
+      .moveDown(0.5);
+
+    if (data.achievements.unlocked_in_period.length === 0) {
+      doc
+        .fillColor(COLORS.muted)
+        .text("No new achievements were unlocked during this period.");
+      return;
+    }
+
+    this.renderTable(
+      doc,
+      ["Achievement", "Description", "Points", "Unlocked"],
+      data.achievements.unlocked_in_period.map((achievement) => [
+        achievement.title,
+        achievement.description,
+        `${achievement.points}`,
+        achievement.unlocked_date || "-",
+      ]),
+      [120, 225, 60, 90]
+    );
+  }
+
+  private static renderPageFooters(
+    doc: PDFKit.PDFDocument,
+    data: NutritionReportData
+  ) {
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      // Writing inside the bottom margin would otherwise trigger a page break
+      doc.page.margins.bottom = 0;
+      const y = doc.page.height - PAGE_MARGIN + 15;
+      doc
+        .fillColor(COLORS.muted)
+        .fontSize(8)
+        .text(
+          `${data.start_date} - ${data.end_date}`,
+          PAGE_MARGIN,
+          y,
+          { lineBreak: false }
+        )
+        .text(
+          `Page ${i + 1} of ${range.count}`,
+          doc.page.width - PAGE_MARGIN - 100,
+          y,
+          { width: 100, align: "right", lineBreak: false }
+        );
+    }
+  }
+
+  private static sectionTitle(doc: PDFKit.PDFDocument, title: string) {
+    doc
+      .fillColor(COLORS.text)
+      .fontSize(14)
+      .text(title, PAGE_MARGIN, doc.y)
+      .moveDown(0.5);
+  }
+
+  private static renderCards(
+    doc: PDFKit.PDFDocument,
+    cards: Array<{ label: string; value: string }>
+  ) {
+    const gap = 10;
+    const width =
+      (doc.page.width - PAGE_MARGIN * 2 - gap * (cards.length - 1)) /
+      cards.length;
+    const top = doc.y;
+
+    cards.forEach((card, index) => {
+      const x = PAGE_MARGIN + index * (width + gap);
+      doc.roundedRect(x, top, width, 55, 6).fill(COLORS.header);
+      doc
+        .fillColor(COLORS.muted)
+        .fontSize(9)
+        .text(card.label, x + 8, top + 10, { width: width - 16 });
+      doc
+        .fillColor(COLORS.text)
+        .fontSize(14)
+        .text(card.value, x + 8, top + 27, { width: width - 16 });
+    });
+
+    doc.x = PAGE_MARGIN;
+    doc.y = top + 65;
+  }
+
+  private static renderTable(
+    doc: PDFKit.PDFDocument,
+    headers: string[],
+    rows: string[][],
+    columnWidths: number[],
+    cellColor?: (rowIndex: number, columnIndex: number) => string
+  ) {
+    const rowHeight = 18;
+    const tableWidth = columnWidths.reduce((sum, width) => sum + width, 0);
+    const bottomLimit = doc.page.height - PAGE_MARGIN - rowHeight;
+
+    const drawRow = (
+      cells: string[],
+      y: number,
+      colorFor: (columnIndex: number) => string,
+      isHeader = false
+    ) => {
+      if (isHeader) {
+        doc.rect(PAGE_MARGIN, y, tableWidth, rowHeight).fill(COLORS.header);
+      }
+      let x = PAGE_MARGIN;
+      cells.forEach((cell, columnIndex) => {
+        doc
+          .fillColor(colorFor(columnIndex))
+          .fontSize(isHeader ? 9 : 8.5)
+          .text(cell, x + 4, y + 5, {
+            width: columnWidths[columnIndex] - 8,
+            height: rowHeight - 4,
+            ellipsis: true,
+            lineBreak: false,
+          });
+        x += columnWidths[columnIndex];
+      });
+      doc
+        .moveTo(PAGE_MARGIN, y + rowHeight)
+        .lineTo(PAGE_MARGIN + tableWidth, y + rowHeight)
+        .strokeColor(COLORS.grid)
+        .lineWidth(0.5)
+        .stroke();
+    };
+
+    let y = doc.y;
+    drawRow(headers, y, () => COLORS.text, true);
+    y += rowHeight;
+
+    rows.forEach((row, rowIndex) => {
+      // Repeat the header when a long table spills onto a new page
+      if (y > bottomLimit) {
+        doc.addPage();
+        y = PAGE_MARGIN;
+        drawRow(headers, y, () => COLORS.text, true);
+        y += rowHeight;
+      }
+
+      drawRow(row, y, (columnIndex) =>
+        cellColor ? cellColor(rowIndex, columnIndex) : COLORS.text
+      );
+      y += rowHeight;
+    });
+
+    doc.x = PAGE_MARGIN;
+    doc.y = y + 10;
+  }
+
+  private static renderLineChart(
+    doc: PDFKit.PDFDocument,
+    box: Box,
+    series: ChartSeries[],
+    labels: string[]
+  ) {
+    const plot = this.renderChartFrame(
+      doc,
+      box,
+      Math.max(1, ...series.flatMap((s) => s.values)),
+      labels
+    );
+
+    series.forEach((s) => {
+      if (s.values.length === 0) return;
+      s.values.forEach((value, index) => {
+        const x = plot.xFor(index);
+        const y = plot.yFor(value);
+        if (index === 0) doc.moveTo(x, y);
+        else doc.lineTo(x, y);
+      });
+      doc.strokeColor(s.color).lineWidth(1.5).stroke();
+
+      s.values.forEach((value, index) => {
+        doc.circle(plot.xFor(index), plot.yFor(value), 1.8).fill(s.color);
+      });
+    });
+
+    this.renderLegend(doc, box, series);
+  }
+
+  private static renderBarChart(
+    doc: PDFKit.PDFDocument,
+    box: Box,
+    values: number[],
+    goals: number[],
+    labels: string[],
+    color: string
+  ) {
+    const plot = this.renderChartFrame(
+      doc,
+      box,
+      Math.max(1, ...values, ...goals),
+      labels
+    );
+    const slot = plot.width / Math.max(1, values.length);
+    const barWidth = Math.max(2, slot * 0.6);
+
+    values.forEach((value, index) => {
+      const top = plot.yFor(value);
+      doc
+        .rect(plot.xFor(index) - barWidth / 2, top, barWidth, plot.bottom - top)
+        .fill(color);
+    });
+
+    goals.forEach((goal, index) => {
+      const y = plot.yFor(goal);
+      doc
+        .moveTo(plot.xFor(index) - slot / 2, y)
+        .lineTo(plot.xFor(index) + slot / 2, y)
+        .strokeColor(COLORS.muted)
+        .lineWidth(1)
+        .stroke();
+    });
+
+    this.renderLegend(doc, box, [
+      { label: "Intake", color, values },
+      { label: "Goal", color: COLORS.muted, values: goals },
+    ]);
+  }
+
+  private static renderChartFrame(
+    doc: PDFKit.PDFDocument,
+    box: Box,
+    maxValue: number,
+    labels: string[]
+  ) {
+    const axisWidth = 40;
+    const labelHeight = 14;
+    const left = box.x + axisWidth;
+    const width = box.width - axisWidth;
+    const top = box.y;
+    const bottom = box.y + box.height - labelHeight;
+    const scaleMax = this.niceCeiling(maxValue);
+    const ticks = 4;
+
+    for (let i = 0; i <= ticks; i++) {
+      const value = (scaleMax / ticks) * i;
+      const y = bottom - ((bottom - top) * i) / ticks;
+      doc
+        .moveTo(left, y)
+        .lineTo(left + width, y)
+        .strokeColor(COLORS.grid)
+        .lineWidth(0.5)
+        .stroke();
+      doc
+        .fillColor(COLORS.muted)
+        .fontSize(7)
+        .text(`${Math.round(value)}`, box.x, y - 3, {
+          width: axisWidth - 6,
+          align: "right",
+          lineBreak: false,
+        });
+    }
+
+    const slot = width / Math.max(1, labels.length);
+    const labelEvery = Math.max(1, Math.ceil(labels.length / 12));
+    const xFor = (index: number) => left + slot * index + slot / 2;
+
+    labels.forEach((label, index) => {
+      if (index % labelEvery !== 0) return;
+      doc
+        .fillColor(COLORS.muted)
+        .fontSize(7)
+        .text(label, xFor(index) - 15, bottom + 4, {
+          width: 30,
+          align: "center",
+          lineBreak: false,
+        });
+    });
+
+    doc.x = PAGE_MARGIN;
+    doc.y = box.y + box.height + 14;
+
+    return {
+      width,
+      bottom,
+      xFor,
+      yFor: (value: number) =>
+        bottom - ((bottom - top) * Math.min(value, scaleMax)) / scaleMax,
+    };
+  }
+
+  private static renderLegend(
+    doc: PDFKit.PDFDocument,
+    box: Box,
+    series: ChartSeries[]
+  ) {
+    const y = box.y + box.height + 2;
+    let x = box.x + 40;
+
+    series.forEach((s) => {
+      doc.rect(x, y + 2, 8, 8).fill(s.color);
+      doc
+        .fillColor(COLORS.text)
+        .fontSize(8)
+        .text(s.label, x + 12, y + 2, { lineBreak: false });
+      x += 70;
+    });
+
+    doc.x = PAGE_MARGIN;
+    doc.y = y + 16;
+  }
+
+  private static niceCeiling(value: number): number {
+    const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+    const normalized = value / magnitude;
+    const step = normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10;
+    return step * magnitude;
+  }
+
+  private static formatAgainstGoal(value: number, goal: number): string {
+    const rounded = Math.round(value || 0);
+    if (goal <= 0) return `${rounded}`;
+    return `${rounded} (${Math.round((value / goal) * 100)}%)`;
+  }
+
+  private static formatPeriod(period: NutritionReportData["period"]): string {
+    switch (period) {
+      case "week":
+        return "Weekly report";
+      case "month":
+        return "Monthly report";
+      default:
+        return "Custom period";
+    }
+  }
+}
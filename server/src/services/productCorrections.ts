@@ -0,0 +1,261 @@
+import { CorrectionStatus, FoodProduct } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { FoodScannerService } from "./foodScanner";
+import { ProductChanges } from "../types/foodProducts";
+
+export class ProductCorrectionService {
+  private static async findProduct(barcode: string): Promise<FoodProduct> {
+    const product = await prisma.foodProduct.findUnique({
+      where: { barcode },
+    });
+    if (!product) {
+      throw new Error("Product not found");
+    }
+    return product;
+  }
+
+  static async getProduct(
+    barcode: string,
+    userId: string,
+    languages: string[] = []
+  ) {
+    const product = await this.findProduct(barcode);
+    return FoodScannerService.getProductForUser(product, userId, languages);
+  }
+
+  /**
+   * Private edits: merged into any earlier override for this user
+   */
+  static async setOverride(
+    barcode: string,
+    userId: string,
+    changes: ProductChanges,
+    languages: string[] = []
+  ) {
+    const product = await this.findProduct(barcode);
+    const where = {
+      product_id_user_id: { product_id: product.product_id, user_id: userId },
+    };
+
+    const existing = await prisma.foodProductOverride.findUnique({ where });
+    const previous = (existing?.changes as ProductChanges) || {};
+    const merged: ProductChanges = {
+      ...previous,
+      ...changes,
+      ...(changes.nutrition_per_100g && {
+        nutrition_per_100g: {
+          ...previous.nutrition_per_100g,
+          ...changes.nutrition_per_100g,
+        },
+      }),
+    };
+
+    await prisma.foodProductOverride.upsert({
+      where,
+      create: {
+        product_id: product.product_id,
+        user_id: userId,
+        changes: merged,
+      },
+      update: { changes: merged },
+    });
+
+    return FoodScannerService.getProductForUser(product, userId, languages);
+  }
+
+  static async clearOverride(
+    barcode: string,
+    userId: string,
+    languages: string[] = []
+  ) {
+    const product = await this.findProduct(barcode);
+    await prisma.foodProductOverride.deleteMany({
+      where: { product_id: product.product_id, user_id: userId },
+    });
+    return FoodScannerService.getProductForUser(product, userId, languages);
+  }
+
+  /**
+   * Propose a change to the shared product. A user has at most one pending
+   * correction per product; submitting again replaces it.
+   */
+  static async submitCorrection(
+    barcode: string,
+    userId: string,
+    changes: ProductChanges,
+    note?: string,
+    applyToMe: boolean = true
+  ) {
+    const product = await this.findProduct(barcode);
+
+    const pending = await prisma.foodProductCorrection.findFirst({
+      where: {
+        product_id: product.product_id,
+        user_id: userId,
+        status: CorrectionStatus.PENDING,
+      },
+    });
+
+    const data = {
+      changes,
+      note: note || null,
+      base_version: product.version,
+    };
+    const correction = pending
+      ? await prisma.foodProductCorrection.update({
+          where: { correction_id: pending.correction_id },
+          data,
+        })
+      : await prisma.foodProductCorrection.create({
+          data: { ...data, product_id: product.product_id, user_id: userId },
+        });
+
+    if (applyToMe) {
+      await this.setOverride(barcode, userId, changes);
+    }
+
+    console.log(
+      `📝 Correction ${correction.correction_id} submitted for product ${barcode}`
+    );
+
+    return correction;
+  }
+
+  static async listCorrections(
+    status: CorrectionStatus = CorrectionStatus.PENDING,
+    limit: number = 50
+  ) {
+    const corrections = await prisma.foodProductCorrection.findMany({
+      where: { status },
+      orderBy: { created_at: status === "PENDING" ? "asc" : "desc" },
+      take: limit,
+      include: {
+        product: true,
+        user: { select: { user_id: true, name: true, email: true } },
+      },
+    });
+
+    return corrections.map(({ product, ...correction }) => ({
+      ...correction,
+      fields: FoodScannerService.changedFields(
+        correction.changes as ProductChanges
+      ),
+      // The product changed since the correction was written
+      outdated: product.version !== correction.base_version,
+      product: {
+        ...FoodScannerService.toProductData(product),
+        product_id: product.product_id,
+        source: product.source,
+        version: product.version,
+      },
+    }));
+  }
+
+  /**
+   * Make a correction the shared version of the product
+   */
+  static async approveCorrection(
+    correctionId: number,
+    reviewerId: string,
+    reviewNote?: string
+  ) {
+    return prisma.$transaction(async (tx) => {
+      const correction = await tx.foodProductCorrection.findUnique({
+        where: { correction_id: correctionId },
+        include: { product: true },
+      });
+      if (!correction) {
+        throw new Error("Correction not found");
+      }
+      if (correction.status !== CorrectionStatus.PENDING) {
+        throw new Error("Correction was already reviewed");
+      }
+
+      const changes = correction.changes as ProductChanges;
+      const updated = FoodScannerService.applyProductChanges(
+        FoodScannerService.toProductData(correction.product),
+        changes
+      );
+      const correctedFields = Array.from(
+        new Set([
+          ...correction.product.corrected_fields,
+          ...FoodScannerService.changedFields(changes),
+        ])
+      );
+
+      const product = await tx.foodProduct.update({
+        where: { product_id: correction.product_id },
+        data: {
+          ...FoodScannerService.toProductRecord(updated),
+          corrected_fields: correctedFields,
+          version: { increment: 1 },
+        },
+      });
+
+      // The submitter's private copy of the same change is now redundant
+      const override = await tx.foodProductOverride.findUnique({
+        where: {
+          product_id_user_id: {
+            product_id: correction.product_id,
+            user_id: correction.user_id,
+          },
+        },
+      });
+      if (
+        override &&
+        JSON.stringify(override.changes) === JSON.stringify(changes)
+      ) {
+        await tx.foodProductOverride.delete({
+          where: { override_id: override.override_id },
+        });
+      }
+
+      const reviewed = await tx.foodProductCorrection.update({
+        where: { correction_id: correctionId },
+        data: {
+          status: CorrectionStatus.APPROVED,
+          reviewed_by: reviewerId,
+          reviewed_at: new Date(),
+          review_note: reviewNote || null,
+        },
+      });
+
+      console.log(
+        `✅ Correction ${correctionId} approved, product ${product.barcode} now v${product.version}`
+      );
+
+      return { correction: reviewed, product };
+    });
+  }
+
+  static async rejectCorrection(
+    correctionId: number,
+    reviewerId: string,
+    reviewNote?: string
+  ) {
+    const correction = await prisma.foodProductCorrection.findUnique({
+      where: { correction_id: correctionId },
+    });
+    if (!correction) {
+      throw new Error("Correction not found");
+    }
+    if (correction.status !== CorrectionStatus.PENDING) {
+      throw new Error("Correction was already reviewed");
+    }
+
+    return prisma.foodProductCorrection.update({
+      where: { correction_id: correctionId },
+      data: {
+        status: CorrectionStatus.REJECTED,
+        reviewed_by: reviewerId,
+        reviewed_at: new Date(),
+        review_note: reviewNote || null,
+      },
+    });
+  }
+
+  static async refreshProduct(barcode: string) {
+    const product = await this.findProduct(barcode);
+    return FoodScannerService.refreshProduct(product);
+  }
+}
@@ -0,0 +1,86 @@
+import fs from "fs/promises";
+import path from "path";
+import { ProductSource } from "@prisma/client";
+import { FoodDatabaseService } from "../foodDatabase";
+import { mapOpenFoodFactsProduct } from "./openFoodFacts";
+import {
+  ProductLookupOptions,
+  ProductLookupProvider,
+  ProductLookupResult,
+} from "../../types/productProviders";
+
+/**
+ * Lookups in a local OpenFoodFacts CSV/TSV export (e.g. the Israeli subset),
+ * for offline use and when the live API is down. The file is indexed by
+ * barcode on first use, so it should be a regional extract rather than the
+ * full multi-gigabyte dump.
+ */
+export class LocalCsvProductProvider implements ProductLookupProvider {
+  name = "csv";
+
+  private index: Map<string, Record<string, string>> | null = null;
+  private loading: Promise<Map<string, Record<string, string>>> | null = null;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly source: ProductSource = ProductSource.OPEN_FOOD_FACTS
+  ) {}
+
+  private async load(): Promise<Map<string, Record<string, string>>> {
+    const content = await fs.readFile(this.filePath, "utf8");
+    const delimiter =
+      content.slice(0, content.indexOf("\n")).includes("\t") ? "\t" : ",";
+    const [header, ...rows] = FoodDatabaseService.parseCsv(content, delimiter);
+    if (!header) {
+      throw new Error(`Product CSV ${this.filePath} is empty`);
+    }
+
+    const columns = header.map((column) => column.trim());
+    const codeColumn = columns.indexOf("code");
+    if (codeColumn < 0) {
+      throw new Error(`Product CSV ${this.filePath} has no "code" column`);
+    }
+
+    const index = new Map<string, Record<string, string>>();
+    for (const row of rows) {
+      const code = row[codeColumn]?.trim();
+      if (!code) continue;
+      index.set(
+        code,
+        Object.fromEntries(columns.map((column, i) => [column, row[i] ?? ""]))
+      );
+    }
+
+    console.log(
+      `📦 Loaded ${index.size} products from ${path.basename(this.filePath)}`
+    );
+    return index;
+  }
+
+  private async getIndex(): Promise<Map<string, Record<string, string>>> {
+    if (this.index) return this.index;
+    if (!this.loading) {
+      this.loading = this.load().finally(() => {
+        this.loading = null;
+      });
+    }
+    this.index = await this.loading;
+    return this.index;
+  }
+
+  async lookup(
+    barcode: string,
+    options: ProductLookupOptions
+  ): Promise<ProductLookupResult | null> {
+    const index = await this.getIndex();
+    const row = index.get(barcode);
+    if (!row) return null;
+
+    return {
+      ...mapOpenFoodFactsProduct(barcode, row, options.languages),
+      source: this.source,
+      source_ref: `csv:${path.basename(this.filePath)}#${barcode}`,
+      provider: this.name,
+    };
+  }
+}
@@ -0,0 +1,199 @@
+import {
+  OPEN_FOOD_FACTS_MIRRORS,
+  PRODUCT_CSV_PATH,
+  PRODUCT_PROVIDER_ORDER,
+  PRODUCT_PROVIDER_TIMEOUT_MS,
+  PROVIDER_COOLDOWN_MS,
+  PROVIDER_FAILURE_THRESHOLD,
+} from "../../config/productProviders";
+import {
+  ProductLookupOptions,
+  ProductLookupProvider,
+  ProductLookupResult,
+  ProviderHealth,
+  ProviderMetrics,
+} from "../../types/productProviders";
+import { OpenFoodFactsProvider } from "./openFoodFacts";
+import { LocalCsvProductProvider } from "./csvProvider";
+import { MockProductProvider } from "./mockProvider";
+
+export { OpenFoodFactsProvider } from "./openFoodFacts";
+export { LocalCsvProductProvider } from "./csvProvider";
+export { MockProductProvider } from "./mockProvider";
+export { pickLocalized } from "./openFoodFacts";
+
+let providers: ProductLookupProvider[] | null = null;
+const metrics = new Map<string, ProviderMetrics>();
+
+function buildProvider(entry: string): ProductLookupProvider | null {
+  const [kind, option] = entry.split(":");
+
+  if (kind === "off") {
+    const mirror = option || "world";
+    const baseUrl = OPEN_FOOD_FACTS_MIRRORS[mirror];
+    if (!baseUrl) {
+      console.warn(`⚠️ Unknown OpenFoodFacts mirror "${mirror}", skipping`);
+      return null;
+    }
+    return new OpenFoodFactsProvider(
+      `off:${mirror}`,
+      baseUrl,
+      PRODUCT_PROVIDER_TIMEOUT_MS
+    );
+  }
+  if (kind === "csv") {
+    return PRODUCT_CSV_PATH
+      ? new LocalCsvProductProvider(PRODUCT_CSV_PATH)
+      : null;
+  }
+  if (kind === "mock") {
+    return new MockProductProvider();
+  }
+
+  console.warn(`⚠️ Unknown product provider "${entry}", skipping`);
+  return null;
+}
+
+/**
+ * The configured lookup chain, in fallback order
+ */
+export function getProductProviders(): ProductLookupProvider[] {
+  if (providers) return providers;
+
+  providers = PRODUCT_PROVIDER_ORDER.map(buildProvider).filter(
+    (provider): provider is ProductLookupProvider => provider !== null
+  );
+  console.log(
+    `🏷️ Product providers: ${providers.map((p) => p.name).join(" → ")}`
+  );
+  return providers;
+}
+
+/**
+ * Override the chain (tests)
+ */
+export function setProductProviders(override: ProductLookupProvider[] | null) {
+  providers = override;
+  metrics.clear();
+}
+
+function getMetrics(name: string): ProviderMetrics {
+  let entry = metrics.get(name);
+  if (!entry) {
+    entry = {
+      name,
+      health: "healthy",
+      lookups: 0,
+      hits: 0,
+      misses: 0,
+      errors: 0,
+      skipped: 0,
+      avg_latency_ms: 0,
+      last_latency_ms: null,
+      consecutive_failures: 0,
+      last_error: null,
+      last_error_at: null,
+      last_success_at: null,
+      disabled_until: null,
+    };
+    metrics.set(name, entry);
+  }
+  return entry;
+}
+
+function healthOf(entry: ProviderMetrics, now: number): ProviderHealth {
+  if (entry.disabled_until && entry.disabled_until.getTime() > now) {
+    return "down";
+  }
+  if (entry.consecutive_failures > 0) return "degraded";
+  if (entry.lookups >= 10 && entry.errors / entry.lookups > 0.2) {
+    return "degraded";
+  }
+  return "healthy";
+}
+
+function recordLookup(
+  entry: ProviderMetrics,
+  latencyMs: number,
+  outcome: "hit" | "miss" | "error",
+  error?: unknown
+) {
+  entry.lookups++;
+  entry.last_latency_ms = latencyMs;
+  entry.avg_latency_ms = Math.round(
+    entry.avg_latency_ms + (latencyMs - entry.avg_latency_ms) / entry.lookups
+  );
+
+  if (outcome === "error") {
+    entry.errors++;
+    entry.consecutive_failures++;
+    entry.last_error = error instanceof Error ? error.message : String(error);
+    entry.last_error_at = new Date();
+    if (entry.consecutive_failures >= PROVIDER_FAILURE_THRESHOLD) {
+      entry.disabled_until = new Date(Date.now() + PROVIDER_COOLDOWN_MS);
+    }
+  } else {
+    if (outcome === "hit") entry.hits++;
+    else entry.misses++;
+    entry.consecutive_failures = 0;
+    entry.disabled_until = null;
+    entry.last_success_at = new Date();
+  }
+
+  entry.health = healthOf(entry, Date.now());
+}
+
+/**
+ * Ask each provider in turn until one has the product. Providers that keep
+ * failing are skipped for a cooldown, then given one trial lookup.
+ */
+export async function lookupProduct(
+  barcode: string,
+  options: ProductLookupOptions
+): Promise<ProductLookupResult | null> {
+  for (const provider of getProductProviders()) {
+    const entry = getMetrics(provider.name);
+    if (entry.disabled_until && entry.disabled_until.getTime() > Date.now()) {
+      entry.skipped++;
+      continue;
+    }
+
+    const startedAt = Date.now();
+    try {
+      const result = await provider.lookup(barcode, options);
+      recordLookup(entry, Date.now() - startedAt, result ? "hit" : "miss");
+      if (result) {
+        console.log(`✅ Product ${barcode} found via ${provider.name}`);
+        return result;
+      }
+    } catch (error) {
+      recordLookup(entry, Date.now() - startedAt, "error", error);
+      console.warn(
+        `❌ Product provider ${provider.name} failed:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  return null;
+}
+
+export function getProviderMetrics(): ProviderMetrics[] {
+  const now = Date.now();
+  return getProductProviders().map((provider) => {
+    const entry = getMetrics(provider.name);
+    return { ...entry, health: healthOf(entry, now) };
+  });
+}
+
+/**
+ * Lookup languages for a request: the user's language first, English as
+ * the fallback. Accepts "hebrew"/"english" as used by the other endpoints.
+ */
+export function productLanguages(language?: string): string[] {
+  const normalized = (language || "").toLowerCase();
+  if (normalized.startsWith("he") || normalized === "iw") {
+    return ["he", "en"];
+  }
+  return ["en"];
+}
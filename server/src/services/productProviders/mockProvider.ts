@@ -0,0 +1,63 @@
+import { ProductSource } from "@prisma/client";
+import { mapOpenFoodFactsProduct } from "./openFoodFacts";
+import {
+  ProductLookupOptions,
+  ProductLookupProvider,
+  ProductLookupResult,
+} from "../../types/productProviders";
+
+interface MockProviderOptions {
+  latencyMs?: number;
+  // Every lookup throws this error, to exercise fallbacks and health
+  failWith?: string;
+}
+
+/**
+ * In-memory provider for development and tests. Products are given in the
+ * OpenFoodFacts API shape so they go through the same field mapping.
+ */
+export class MockProductProvider implements ProductLookupProvider {
+  private products = new Map<string, Record<string, any>>();
+
+  constructor(
+    readonly name: string = "mock",
+    products: Record<string, Record<string, any>> = {},
+    private options: MockProviderOptions = {}
+  ) {
+    Object.entries(products).forEach(([barcode, product]) =>
+      this.products.set(barcode, product)
+    );
+  }
+
+  setProduct(barcode: string, product: Record<string, any>) {
+    this.products.set(barcode, product);
+  }
+
+  setOptions(options: MockProviderOptions) {
+    this.options = options;
+  }
+
+  async lookup(
+    barcode: string,
+    options: ProductLookupOptions
+  ): Promise<ProductLookupResult | null> {
+    if (this.options.latencyMs) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, this.options.latencyMs)
+      );
+    }
+    if (this.options.failWith) {
+      throw new Error(this.options.failWith);
+    }
+
+    const product = this.products.get(barcode);
+    if (!product) return null;
+
+    return {
+      ...mapOpenFoodFactsProduct(barcode, product, options.languages),
+      source: ProductSource.OPEN_FOOD_FACTS,
+      source_ref: `mock:${barcode}`,
+      provider: this.name,
+    };
+  }
+}
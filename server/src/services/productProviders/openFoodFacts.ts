@@ -0,0 +1,226 @@
+import axios from "axios";
+import { ProductSource } from "@prisma/client";
+import { ProductData } from "../../types/foodProducts";
+import {
+  LocalizedProductFields,
+  LocalizedProductText,
+  ProductLookupOptions,
+  ProductLookupProvider,
+  ProductLookupResult,
+} from "../../types/productProviders";
+
+const LOCALIZED_FIELD = /^(product_name|ingredients_text)_([a-z]{2})$/;
+
+// OpenFoodFacts marks allergens in ingredient text as _milk_
+const cleanIngredient = (text: string) =>
+  text.replace(/_([^_]+)_/g, "$1").replace(/\s+/g, " ").trim();
+
+/**
+ * Split an ingredient list on commas, keeping "chocolate (cocoa, sugar)"
+ * together
+ */
+export function splitIngredients(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (const char of text) {
+    if (char === "(" || char === "[") depth++;
+    if ((char === ")" || char === "]") && depth > 0) depth--;
+    if ((char === "," || char === "،") && depth === 0) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts
+    .map(cleanIngredient)
+    .map((part) => part.replace(/\.$/, ""))
+    .filter(Boolean);
+}
+
+// Tags come as arrays from the API and as comma lists in CSV exports
+const parseTags = (value: unknown): string[] => {
+  const tags = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+    ? value.split(",")
+    : [];
+  return tags
+    .map((tag) => String(tag).trim().replace(/^[a-z]{2}:/, ""))
+    .filter(Boolean);
+};
+
+const firstNumber = (
+  source: Record<string, any>,
+  ...keys: string[]
+): number | undefined => {
+  for (const key of keys) {
+    const value = source[key];
+    if (value === undefined || value === null || value === "") continue;
+    const parsed = typeof value === "number" ? value : parseFloat(value);
+    if (Number.isFinite(parsed)) return parsed;
+  }
+  return undefined;
+};
+
+/**
+ * Every name and ingredient list the product has, by language. Untagged
+ * fields belong to the product's main language.
+ */
+export function extractLocalizedText(
+  raw: Record<string, any>
+): LocalizedProductText {
+  const localized: LocalizedProductText = {};
+  const assign = (
+    language: string,
+    field: "product_name" | "ingredients_text",
+    value: unknown
+  ) => {
+    if (typeof value !== "string" || !value.trim()) return;
+    const entry: LocalizedProductFields = localized[language] || {};
+    localized[language] = entry;
+    if (field === "product_name") {
+      entry.name = entry.name || value.trim();
+    } else {
+      entry.ingredients = entry.ingredients || splitIngredients(value);
+    }
+  };
+
+  for (const [key, value] of Object.entries(raw)) {
+    const match = key.match(LOCALIZED_FIELD);
+    if (match) {
+      assign(match[2], match[1] as "product_name" | "ingredients_text", value);
+    }
+  }
+
+  const mainLanguage = raw.lang || raw.lc;
+  if (typeof mainLanguage === "string" && /^[a-z]{2}$/.test(mainLanguage)) {
+    assign(mainLanguage, "product_name", raw.product_name);
+    assign(mainLanguage, "ingredients_text", raw.ingredients_text);
+  }
+
+  return localized;
+}
+
+export function pickLocalized<K extends keyof LocalizedProductFields>(
+  localized: LocalizedProductText,
+  languages: string[],
+  field: K
+): LocalizedProductFields[K] | undefined {
+  for (const language of languages) {
+    const value = localized[language]?.[field];
+    if (value !== undefined) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Map an OpenFoodFacts product (API response or CSV export row) to our
+ * product shape, with name and ingredients in the preferred language
+ */
+export function mapOpenFoodFactsProduct(
+  barcode: string,
+  raw: Record<string, any>,
+  languages: string[]
+): { product: ProductData; localized: LocalizedProductText } {
+  const nutriments: Record<string, any> = raw.nutriments || raw;
+  const localized = extractLocalizedText(raw);
+  const anyLanguage = Object.keys(localized);
+
+  const kilojoules = firstNumber(nutriments, "energy_100g", "energy-kj_100g");
+  const sodium = firstNumber(nutriments, "sodium_100g");
+  const nutriscore = firstNumber(raw, "nutriscore_score");
+
+  const product: ProductData = {
+    barcode,
+    name:
+      pickLocalized(localized, languages, "name") ||
+      raw.product_name ||
+      pickLocalized(localized, anyLanguage, "name") ||
+      "Unknown Product",
+    brand: raw.brands?.split(",")[0]?.trim() || undefined,
+    category: raw.categories?.split(",")[0]?.trim() || "Unknown",
+    nutrition_per_100g: {
+      calories:
+        firstNumber(nutriments, "energy-kcal_100g", "energy_kcal_100g") ??
+        (kilojoules !== undefined ? Math.round(kilojoules / 4.184) : 0),
+      protein: firstNumber(nutriments, "proteins_100g") || 0,
+      carbs: firstNumber(nutriments, "carbohydrates_100g") || 0,
+      fat: firstNumber(nutriments, "fat_100g") || 0,
+      fiber: firstNumber(nutriments, "fiber_100g"),
+      sugar: firstNumber(nutriments, "sugars_100g"),
+      sodium: sodium !== undefined ? sodium * 1000 : undefined,
+      saturated_fat: firstNumber(
+        nutriments,
+        "saturated-fat_100g",
+        "saturated_fat_100g"
+      ),
+      trans_fat: firstNumber(nutriments, "trans-fat_100g", "trans_fat_100g"),
+      cholesterol: firstNumber(nutriments, "cholesterol_100g"),
+      potassium: firstNumber(nutriments, "potassium_100g"),
+      calcium: firstNumber(nutriments, "calcium_100g"),
+      iron: firstNumber(nutriments, "iron_100g"),
+      vitamin_c: firstNumber(nutriments, "vitamin-c_100g", "vitamin_c_100g"),
+      vitamin_d: firstNumber(nutriments, "vitamin-d_100g", "vitamin_d_100g"),
+    },
+    ingredients:
+      pickLocalized(localized, languages, "ingredients") ||
+      (raw.ingredients_text ? splitIngredients(raw.ingredients_text) : null) ||
+      pickLocalized(localized, anyLanguage, "ingredients") ||
+      [],
+    allergens: parseTags(raw.allergens_tags ?? raw.allergens),
+    labels: parseTags(raw.labels_tags ?? raw.labels),
+    health_score:
+      nutriscore !== undefined ? Math.round(nutriscore) : undefined,
+    image_url: raw.image_url || undefined,
+    serving_size: raw.serving_size || undefined,
+    servings_per_container: firstNumber(raw, "servings_per_container"),
+  };
+
+  return { product, localized };
+}
+
+/**
+ * Live lookups against one OpenFoodFacts mirror
+ */
+export class OpenFoodFactsProvider implements ProductLookupProvider {
+  constructor(
+    readonly name: string,
+    private readonly baseUrl: string,
+    private readonly timeoutMs: number
+  ) {}
+
+  async lookup(
+    barcode: string,
+    options: ProductLookupOptions
+  ): Promise<ProductLookupResult | null> {
+    const response = await axios.get(
+      `${this.baseUrl}/api/v0/product/${encodeURIComponent(barcode)}.json`,
+      {
+        timeout: this.timeoutMs,
+        // An unknown barcode is a miss, not a provider failure
+        validateStatus: (status) =>
+          (status >= 200 && status < 300) || status === 404,
+      }
+    );
+
+    if (response.data?.status !== 1 || !response.data.product) {
+      return null;
+    }
+
+    return {
+      ...mapOpenFoodFactsProduct(
+        barcode,
+        response.data.product,
+        options.languages
+      ),
+      source: ProductSource.OPEN_FOOD_FACTS,
+      source_ref: `${this.baseUrl}/product/${barcode}`,
+      provider: this.name,
+    };
+  }
+}
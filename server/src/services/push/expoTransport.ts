@@ -0,0 +1,58 @@
+import axios from "axios";
+import { EXPO_PUSH_API_URL, PUSH_REQUEST_TIMEOUT_MS } from "../../config/push";
+import {
+  PushMessage,
+  PushReceipt,
+  PushTicket,
+  PushTransport,
+} from "../../types/push";
+
+/**
+ * Expo push service. The access token is only needed when enhanced push
+ * security is enabled for the project.
+ */
+export class ExpoPushTransport implements PushTransport {
+  name = "expo" as const;
+
+  constructor(private readonly accessToken?: string) {}
+
+  async send(messages: PushMessage[]): Promise<PushTicket[]> {
+    const response = await axios.post(`${EXPO_PUSH_API_URL}/send`, messages, {
+      headers: this.headers(),
+      timeout: PUSH_REQUEST_TIMEOUT_MS,
+    });
+
+    if (response.data.errors?.length) {
+      throw new Error(
+        `Expo push send failed: ${response.data.errors[0].message}`
+      );
+    }
+    return response.data.data;
+  }
+
+  async getReceipts(ids: string[]): Promise<Record<string, PushReceipt>> {
+    const response = await axios.post(
+      `${EXPO_PUSH_API_URL}/getReceipts`,
+      { ids },
+      { headers: this.headers(), timeout: PUSH_REQUEST_TIMEOUT_MS }
+    );
+
+    if (response.data.errors?.length) {
+      throw new Error(
+        `Expo push receipts failed: ${response.data.errors[0].message}`
+      );
+    }
+    return response.data.data || {};
+  }
+
+  private headers() {
+    return {
+      Accept: "application/json",
+      "Accept-Encoding": "gzip, deflate",
+      "Content-Type": "application/json",
+      ...(this.accessToken && {
+        Authorization: `Bearer ${this.accessToken}`,
+      }),
+    };
+  }
+}
@@ -0,0 +1,35 @@
+import { PushTransport } from "../../types/push";
+import { ExpoPushTransport } from "./expoTransport";
+import { LocalPushTransport } from "./localTransport";
+
+export { ExpoPushTransport } from "./expoTransport";
+export { LocalPushTransport } from "./localTransport";
+
+let transport: PushTransport | null = null;
+
+/**
+ * Resolve the configured push transport. Expo is used in production (or
+ * with PUSH_TRANSPORT=expo); otherwise the in-process local transport.
+ */
+export function getPushTransport(): PushTransport {
+  if (transport) return transport;
+
+  const configured =
+    process.env.PUSH_TRANSPORT ||
+    (process.env.NODE_ENV === "production" ? "expo" : "local");
+
+  transport =
+    configured === "expo"
+      ? new ExpoPushTransport(process.env.EXPO_ACCESS_TOKEN)
+      : new LocalPushTransport();
+
+  console.log(`🔔 Push transport: ${transport.name}`);
+  return transport;
+}
+
+/**
+ * Override the transport (tests)
+ */
+export function setPushTransport(override: PushTransport | null) {
+  transport = override;
+}
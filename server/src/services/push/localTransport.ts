@@ -0,0 +1,66 @@
+import crypto from "crypto";
+import {
+  PushMessage,
+  PushReceipt,
+  PushTicket,
+  PushTransport,
+} from "../../types/push";
+
+/**
+ * In-process push transport for development and tests. Messages are logged
+ * and kept in memory; tokens marked unregistered fail like Expo reports a
+ * device that uninstalled the app.
+ */
+export class LocalPushTransport implements PushTransport {
+  name = "local" as const;
+
+  readonly sent: PushMessage[] = [];
+  private unregistered = new Set<string>();
+  private receipts = new Map<string, PushReceipt>();
+
+  async send(messages: PushMessage[]): Promise<PushTicket[]> {
+    return messages.map((message) => {
+      if (this.unregistered.has(message.to)) {
+        return {
+          status: "error",
+          message: `"${message.to}" is not a registered push notification recipient`,
+          details: { error: "DeviceNotRegistered" },
+        };
+      }
+
+      this.sent.push(message);
+      console.log(`🔔 [local push] ${message.title}: ${message.body}`);
+
+      const id = `local_${crypto.randomBytes(8).toString("hex")}`;
+      this.receipts.set(id, { status: "ok" });
+      return { status: "ok", id };
+    });
+  }
+
+  async getReceipts(ids: string[]): Promise<Record<string, PushReceipt>> {
+    const receipts: Record<string, PushReceipt> = {};
+    for (const id of ids) {
+      const receipt = this.receipts.get(id);
+      if (receipt) receipts[id] = receipt;
+    }
+    return receipts;
+  }
+
+  /**
+   * Make later sends to the token fail with DeviceNotRegistered
+   */
+  unregisterToken(token: string) {
+    this.unregistered.add(token);
+  }
+
+  /**
+   * Report a delivered ticket as failed when receipts are next checked
+   */
+  failReceipt(id: string, error = "DeviceNotRegistered") {
+    this.receipts.set(id, {
+      status: "error",
+      message: error,
+      details: { error },
+    });
+  }
+}
@@ -0,0 +1,210 @@
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { PushNotificationService } from "./pushNotifications";
+import { LocalPushTransport, setPushTransport } from "./push";
+import { encryptSecret } from "../lib/secrets";
+import { PUSH_SEND_BATCH_SIZE } from "../config/push";
+import { stubPrisma } from "../test/stubPrisma";
+
+interface TokenRow {
+  push_token_id: string;
+  user_id: string;
+  token_encrypted: string;
+  last_seen: Date;
+}
+
+interface TicketRow {
+  ticket_id: string;
+  push_token_id: string;
+  created_at: Date;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const expoToken = (n: number) => `ExponentPushToken[device-${n}]`;
+
+describe("PushNotificationService", () => {
+  let transport: LocalPushTransport;
+  let tokens: TokenRow[];
+  let tickets: TicketRow[];
+  let restorePrisma: () => void;
+
+  const addToken = (userId: string, n: number) =>
+    tokens.push({
+      push_token_id: `token-${n}`,
+      user_id: userId,
+      token_encrypted: encryptSecret(expoToken(n), "push_tokens.token"),
+      last_seen: new Date(),
+    });
+
+  const ageTickets = (minutes: number) =>
+    tickets.forEach((ticket) => {
+      ticket.created_at = new Date(Date.now() - minutes * MINUTE_MS);
+    });
+
+  beforeEach(() => {
+    transport = new LocalPushTransport();
+    setPushTransport(transport);
+    tokens = [];
+    tickets = [];
+
+    restorePrisma = stubPrisma({
+      pushToken: {
+        findMany: async ({ where }: any) =>
+          tokens.filter((row) => row.user_id === where.user_id),
+        deleteMany: async ({ where }: any) => {
+          const before = tokens.length;
+          tokens = tokens.filter((row) =>
+            where.push_token_id
+              ? !where.push_token_id.in.includes(row.push_token_id)
+              : !(row.last_seen < where.last_seen.lt)
+          );
+          return { count: before - tokens.length };
+        },
+      },
+      pushTicket: {
+        createMany: async ({ data }: any) => {
+          tickets.push(
+            ...data.map((row: TicketRow) => ({
+              ...row,
+              created_at: new Date(),
+            }))
+          );
+          return { count: data.length };
+        },
+        findMany: async ({ where }: any) =>
+          tickets.filter((row) => row.created_at < where.created_at.lt),
+        deleteMany: async ({ where }: any) => {
+          const before = tickets.length;
+          tickets = tickets.filter((row) =>
+            where.ticket_id
+              ? !where.ticket_id.in.includes(row.ticket_id)
+              : !(row.created_at < where.created_at.lt)
+          );
+          return { count: before - tickets.length };
+        },
+      },
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    restorePrisma();
+    setPushTransport(null);
+  });
+
+  test("sends to every device of the user and records the tickets", async () => {
+    addToken("user-1", 1);
+    addToken("user-1", 2);
+    addToken("user-2", 3);
+
+    const result = await PushNotificationService.sendToUser("user-1", {
+      title: "Hello",
+      body: "World",
+    });
+
+    assert.deepEqual(result, { sent: 2, failed: 0, pruned: 0 });
+    assert.deepEqual(
+      transport.sent.map((message) => message.to),
+      [expoToken(1), expoToken(2)]
+    );
+    assert.equal(transport.sent[0].sound, "default");
+    assert.deepEqual(
+      tickets.map((ticket) => ticket.push_token_id),
+      ["token-1", "token-2"]
+    );
+  });
+
+  test("splits large sends into batches", async () => {
+    for (let n = 0; n < PUSH_SEND_BATCH_SIZE + 5; n++) {
+      addToken("user-1", n);
+    }
+    const send = mock.method(transport, "send");
+
+    const result = await PushNotificationService.sendToUser("user-1", {
+      title: "Hello",
+      body: "World",
+    });
+
+    assert.equal(result.sent, PUSH_SEND_BATCH_SIZE + 5);
+    assert.equal(send.mock.callCount(), 2);
+    assert.equal(send.mock.calls[0].arguments[0].length, PUSH_SEND_BATCH_SIZE);
+    assert.equal(send.mock.calls[1].arguments[0].length, 5);
+  });
+
+  test("prunes tokens the transport reports as unregistered", async () => {
+    addToken("user-1", 1);
+    addToken("user-1", 2);
+    transport.unregisterToken(expoToken(2));
+
+    const result = await PushNotificationService.sendToUser("user-1", {
+      title: "Hello",
+      body: "World",
+    });
+
+    assert.deepEqual(result, { sent: 1, failed: 1, pruned: 1 });
+    assert.deepEqual(
+      tokens.map((row) => row.push_token_id),
+      ["token-1"]
+    );
+    assert.equal(tickets.length, 1);
+  });
+
+  test("does nothing for a user without devices", async () => {
+    const result = await PushNotificationService.sendToUser("user-1", {
+      title: "Hello",
+      body: "World",
+    });
+
+    assert.deepEqual(result, { sent: 0, failed: 0, pruned: 0 });
+    assert.equal(transport.sent.length, 0);
+  });
+
+  test("receipt checks wait for tickets to be ready", async () => {
+    addToken("user-1", 1);
+    await PushNotificationService.sendToUser("user-1", {
+      title: "Hello",
+      body: "World",
+    });
+
+    const result = await PushNotificationService.checkReceipts();
+
+    assert.equal(result.checked, 0);
+    assert.equal(tickets.length, 1);
+  });
+
+  test("receipt checks prune tokens whose delivery failed", async () => {
+    addToken("user-1", 1);
+    addToken("user-1", 2);
+    await PushNotificationService.sendToUser("user-1", {
+      title: "Hello",
+      body: "World",
+    });
+    const failed = tickets.find((ticket) => ticket.push_token_id === "token-2");
+    transport.failReceipt(failed!.ticket_id);
+    ageTickets(20);
+
+    const result = await PushNotificationService.checkReceipts();
+
+    assert.equal(result.checked, 2);
+    assert.equal(result.pruned, 1);
+    assert.equal(tickets.length, 0);
+    assert.deepEqual(
+      tokens.map((row) => row.push_token_id),
+      ["token-1"]
+    );
+  });
+
+  test("notifies about several unlocked achievements at once", async () => {
+    addToken("user-1", 1);
+
+    await PushNotificationService.notifyAchievementsUnlocked("user-1", [
+      { title: "First Meal", xpReward: 10 },
+      { title: "Hydrated", xpReward: 20 },
+    ]);
+
+    assert.equal(transport.sent.length, 1);
+    assert.equal(transport.sent[0].body, "First Meal and 1 more");
+    assert.equal(transport.sent[0].data?.type, "achievement");
+  });
+});
@@ -0,0 +1,298 @@
+import crypto from "crypto";
+import { prisma } from "../lib/database";
+import { decryptSecret, encryptSecret, reencryptSecret } from "../lib/secrets";
+import { getPushTransport } from "./push";
+import {
+  PUSH_RECEIPT_BATCH_SIZE,
+  PUSH_RECEIPT_DELAY_MINUTES,
+  PUSH_SEND_BATCH_SIZE,
+  PUSH_TICKET_MAX_AGE_HOURS,
+  PUSH_TOKEN_MAX_IDLE_DAYS,
+} from "../config/push";
+import {
+  PushError,
+  PushMessage,
+  PushNotification,
+  PushSendResult,
+  RegisterPushTokenInput,
+} from "../types/push";
+
+const PUSH_TOKEN_CONTEXT = "push_tokens.token";
+
+const hashToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+// Expo's signal that the app was uninstalled or the token revoked
+const isDeadToken = (error: PushError) =>
+  error.details?.error === "DeviceNotRegistered";
+
+export class PushNotificationService {
+  /**
+   * Store or refresh a device's Expo push token. A token registered by
+   * another account moves to this one (the device changed hands).
+   */
+  static async registerToken(userId: string, input: RegisterPushTokenInput) {
+    const tokenHash = hashToken(input.pushToken);
+    const data = {
+      user_id: userId,
+      token_encrypted: encryptSecret(input.pushToken, PUSH_TOKEN_CONTEXT),
+      platform: input.platform,
+      device_name: input.deviceName,
+      last_seen: new Date(),
+    };
+
+    const pushToken = await prisma.pushToken.upsert({
+      where: { token_hash: tokenHash },
+      update: data,
+      create: { ...data, token_hash: tokenHash },
+      select: {
+        push_token_id: true,
+        platform: true,
+        device_name: true,
+        last_seen: true,
+      },
+    });
+
+    console.log(`📱 Push token registered for user ${userId}`);
+    return pushToken;
+  }
+
+  static async unregisterToken(userId: string, token: string) {
+    const result = await prisma.pushToken.deleteMany({
+      where: { user_id: userId, token_hash: hashToken(token) },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Send to every device the user registered. Failures are logged, not
+   * thrown, so callers can fire and forget.
+   */
+  static async sendToUser(
+    userId: string,
+    notification: PushNotification
+  ): Promise<PushSendResult> {
+    const result: PushSendResult = { sent: 0, failed: 0, pruned: 0 };
+
+    try {
+      const tokens = await prisma.pushToken.findMany({
+        where: { user_id: userId },
+        select: { push_token_id: true, token_encrypted: true },
+      });
+      if (tokens.length === 0) return result;
+
+      const recipients = tokens.map((row) => ({
+        push_token_id: row.push_token_id,
+        token: decryptSecret(row.token_encrypted, PUSH_TOKEN_CONTEXT),
+      }));
+
+      for (let i = 0; i < recipients.length; i += PUSH_SEND_BATCH_SIZE) {
+        const batch = recipients.slice(i, i + PUSH_SEND_BATCH_SIZE);
+        const messages: PushMessage[] = batch.map(({ token }) => ({
+          to: token,
+          sound: "default",
+          ...notification,
+        }));
+
+        const tickets = await getPushTransport().send(messages);
+        const deadTokenIds: string[] = [];
+
+        await prisma.pushTicket.createMany({
+          data: tickets.flatMap((ticket, index) =>
+            ticket.status === "ok"
+              ? [
+                  {
+                    ticket_id: ticket.id,
+                    push_token_id: batch[index].push_token_id,
+                  },
+                ]
+              : []
+          ),
+        });
+
+        tickets.forEach((ticket, index) => {
+          if (ticket.status === "ok") {
+            result.sent++;
+            return;
+          }
+          result.failed++;
+          if (isDeadToken(ticket)) {
+            deadTokenIds.push(batch[index].push_token_id);
+          } else {
+            console.warn("⚠️ Push ticket error:", ticket.message);
+          }
+        });
+
+        result.pruned += await this.pruneTokens(deadTokenIds);
+      }
+
+      console.log(
+        `🔔 Push "${notification.title}" to user ${userId}: ${result.sent} sent, ${result.failed} failed`
+      );
+    } catch (error) {
+      console.error(`❌ Push to user ${userId} failed:`, error);
+    }
+
+    return result;
+  }
+
+  static async notifyAchievementsUnlocked(
+    userId: string,
+    achievements: { title: string; xpReward: number }[]
+  ) {
+    if (achievements.length === 0) return;
+
+    const [first] = achievements;
+    await this.sendToUser(userId, {
+      title: "🏆 Achievement unlocked!",
+      body:
+        achievements.length === 1
+          ? `${first.title} (+${first.xpReward} XP)`
+          : `${first.title} and ${achievements.length - 1} more`,
+      data: { type: "achievement", screen: "achievements" },
+    });
+  }
+
+  static async notifyRecommendationReady(userId: string) {
+    await this.sendToUser(userId, {
+      title: "🤖 Today's recommendations are ready",
+      body: "See your personalized nutrition tips for today.",
+      data: { type: "ai_recommendation", screen: "home" },
+    });
+  }
+
+  static async notifyPlanMilestone(
+    userId: string,
+    plan: { plan_id: string; name: string },
+    percentage: number
+  ) {
+    await this.sendToUser(userId, {
+      title:
+        percentage >= 100
+          ? `🎉 ${plan.name} complete!`
+          : `💪 ${percentage}% of ${plan.name} done`,
+      body:
+        percentage >= 100
+          ? "You finished every meal in your plan. Great work!"
+          : "Keep going, you're making great progress on your meal plan.",
+      data: { type: "plan_milestone", plan_id: plan.plan_id, percentage },
+    });
+  }
+
+  static async notifyChallengeCompleted(
+    userId: string,
+    challenge: { challenge_id: string; title: string; xp_reward: number }
+  ) {
+    await this.sendToUser(userId, {
+      title: "🏁 Challenge complete!",
+      body: `You finished ${challenge.title} (+${challenge.xp_reward} XP)`,
+      data: {
+        type: "challenge_completed",
+        challenge_id: challenge.challenge_id,
+      },
+    });
+  }
+
+  /**
+   * Check delivery receipts of tickets old enough to have one, drop tokens
+   * Expo reports as unregistered, and forget tickets and idle tokens
+   */
+  static async checkReceipts() {
+    const readyBefore = new Date(
+      Date.now() - PUSH_RECEIPT_DELAY_MINUTES * 60 * 1000
+    );
+    const tickets = await prisma.pushTicket.findMany({
+      where: { created_at: { lt: readyBefore } },
+      select: { ticket_id: true, push_token_id: true },
+      orderBy: { created_at: "asc" },
+    });
+
+    let checked = 0;
+    let pruned = 0;
+
+    for (let i = 0; i < tickets.length; i += PUSH_RECEIPT_BATCH_SIZE) {
+      const batch = tickets.slice(i, i + PUSH_RECEIPT_BATCH_SIZE);
+      const receipts = await getPushTransport().getReceipts(
+        batch.map((ticket) => ticket.ticket_id)
+      );
+
+      const deadTokenIds: string[] = [];
+      const checkedIds: string[] = [];
+      for (const ticket of batch) {
+        const receipt = receipts[ticket.ticket_id];
+        // Not ready yet; retried until the ticket ages out
+        if (!receipt) continue;
+
+        checkedIds.push(ticket.ticket_id);
+        if (receipt.status === "error") {
+          if (isDeadToken(receipt)) {
+            deadTokenIds.push(ticket.push_token_id);
+          } else {
+            console.warn("⚠️ Push delivery error:", receipt.message);
+          }
+        }
+      }
+
+      await prisma.pushTicket.deleteMany({
+        where: { ticket_id: { in: checkedIds } },
+      });
+      checked += checkedIds.length;
+      pruned += await this.pruneTokens(deadTokenIds);
+    }
+
+    // Expo keeps receipts for a day
+    const expired = await prisma.pushTicket.deleteMany({
+      where: {
+        created_at: {
+          lt: new Date(Date.now() - PUSH_TICKET_MAX_AGE_HOURS * 60 * 60 * 1000),
+        },
+      },
+    });
+    const idle = await prisma.pushToken.deleteMany({
+      where: {
+        last_seen: {
+          lt: new Date(
+            Date.now() - PUSH_TOKEN_MAX_IDLE_DAYS * 24 * 60 * 60 * 1000
+          ),
+        },
+      },
+    });
+
+    return {
+      checked,
+      pruned: pruned + idle.count,
+      expired_tickets: expired.count,
+    };
+  }
+
+  /**
+   * Rewrite a token under the active key when it is under a retired one.
+   * Returns whether anything changed.
+   */
+  static async reencryptToken(row: {
+    push_token_id: string;
+    token_encrypted: string;
+  }): Promise<boolean> {
+    const reencrypted = reencryptSecret(
+      row.token_encrypted,
+      PUSH_TOKEN_CONTEXT
+    );
+    if (!reencrypted) return false;
+
+    await prisma.pushToken.update({
+      where: { push_token_id: row.push_token_id },
+      data: { token_encrypted: reencrypted },
+    });
+    return true;
+  }
+
+  private static async pruneTokens(pushTokenIds: string[]) {
+    if (pushTokenIds.length === 0) return 0;
+
+    const result = await prisma.pushToken.deleteMany({
+      where: { push_token_id: { in: pushTokenIds } },
+    });
+    console.log(`🧹 Pruned ${result.count} unregistered push tokens`);
+    return result.count;
+  }
+}
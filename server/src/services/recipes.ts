@@ -0,0 +1,427 @@
+import { IngredientSource, Recipe, RecipeIngredient } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { FoodScannerService } from "./foodScanner";
+import { IngredientDraft, MealIngredientService } from "./mealIngredients";
+import { MEAL_NUTRIENT_COLUMNS, NutrientMap } from "../types/mealIngredients";
+import {
+  AddRecipeToPlanInput,
+  CreateRecipeInput,
+  LogRecipeInput,
+  RecipeIngredientInput,
+  RecipeNutrition,
+  RecipeTemplateInput,
+  UpdateRecipeInput,
+} from "../types/recipes";
+
+type RecipeWithIngredients = Recipe & { ingredients: RecipeIngredient[] };
+
+type RecipeIngredientDraft = Pick<
+  IngredientDraft,
+  "name" | "grams" | "food_id" | "source" | "nutrients_per_100g"
+> & { product_id: number | null };
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+const roundMap = (map: NutrientMap): NutrientMap =>
+  Object.fromEntries(
+    Object.entries(map).map(([key, value]) => [
+      key,
+      key === "calories" ? Math.round(value) : round(value),
+    ])
+  );
+
+const scaleMap = (map: NutrientMap, factor: number): NutrientMap =>
+  Object.fromEntries(
+    Object.entries(map).map(([key, value]) => [key, value * factor])
+  );
+
+export class RecipeService {
+  /**
+   * Per-100 g values for a recipe ingredient: a cached barcode product (with
+   * the user's override), otherwise the same resolution as meal ingredients
+   */
+  private static async resolveIngredient(
+    input: RecipeIngredientInput,
+    userId: string
+  ): Promise<RecipeIngredientDraft> {
+    if (!input.barcode) {
+      const draft = await MealIngredientService.resolveDraft(input);
+      return {
+        name: draft.name,
+        grams: draft.grams,
+        food_id: draft.food_id,
+        source: draft.source,
+        nutrients_per_100g: draft.nutrients_per_100g,
+        product_id: null,
+      };
+    }
+
+    const product = await prisma.foodProduct.findUnique({
+      where: { barcode: input.barcode },
+    });
+    if (!product) {
+      throw new Error(`Product ${input.barcode} not found; scan it first`);
+    }
+
+    const data = await FoodScannerService.getProductForUser(product, userId);
+    const nutrition = data.nutrition_per_100g;
+
+    return {
+      name: input.name || data.name,
+      grams: round(input.grams!),
+      food_id: null,
+      source: IngredientSource.BARCODE_PRODUCT,
+      nutrients_per_100g: {
+        calories: nutrition.calories,
+        protein_g: nutrition.protein,
+        carbs_g: nutrition.carbs,
+        fats_g: nutrition.fat,
+        fiber_g: nutrition.fiber ?? 0,
+        sugar_g: nutrition.sugar ?? 0,
+        sodium_mg: nutrition.sodium ?? 0,
+        saturated_fats_g: nutrition.saturated_fat ?? 0,
+        cholesterol_mg: nutrition.cholesterol ?? 0,
+      },
+      product_id: product.product_id,
+    };
+  }
+
+  private static async resolveIngredients(
+    inputs: RecipeIngredientInput[],
+    userId: string
+  ): Promise<RecipeIngredientDraft[]> {
+    const drafts: RecipeIngredientDraft[] = [];
+    for (const input of inputs) {
+      drafts.push(await this.resolveIngredient(input, userId));
+    }
+    return drafts;
+  }
+
+  private static batchTotals(
+    ingredients: Pick<RecipeIngredientDraft, "grams" | "nutrients_per_100g">[]
+  ) {
+    const totals: NutrientMap = {};
+    for (const column of MEAL_NUTRIENT_COLUMNS) {
+      const total = ingredients.reduce((sum, ing) => {
+        const per100 = (ing.nutrients_per_100g as NutrientMap)[column];
+        return per100 === undefined ? sum : sum + (per100 * ing.grams) / 100;
+      }, 0);
+      if (total > 0) totals[column] = total;
+    }
+
+    const rawWeight = ingredients.reduce((sum, ing) => sum + ing.grams, 0);
+
+    return {
+      nutrients_total: roundMap(totals),
+      raw_weight_g: round(rawWeight),
+    };
+  }
+
+  /**
+   * Batch, per-serving and per-100 g values. Per-100 g is based on the
+   * cooked weight when known, since that is what a portion is weighed as.
+   */
+  static nutrition(recipe: Recipe): RecipeNutrition {
+    const total = recipe.nutrients_total as NutrientMap;
+    const weight = recipe.cooked_weight_g ?? recipe.raw_weight_g;
+
+    return {
+      total,
+      per_serving: roundMap(scaleMap(total, 1 / recipe.servings)),
+      per_100g: weight > 0 ? roundMap(scaleMap(total, 100 / weight)) : {},
+      serving_weight_g: round(weight / recipe.servings),
+    };
+  }
+
+  private static format(recipe: RecipeWithIngredients) {
+    return {
+      ...recipe,
+      ingredients: [...recipe.ingredients].sort(
+        (a, b) => a.position - b.position
+      ),
+      nutrition: this.nutrition(recipe),
+    };
+  }
+
+  private static async getOwnedRecipe(
+    recipeId: number,
+    userId: string
+  ): Promise<RecipeWithIngredients> {
+    const recipe = await prisma.recipe.findFirst({
+      where: { recipe_id: recipeId, user_id: userId },
+      include: { ingredients: true },
+    });
+    if (!recipe) {
+      throw new Error("Recipe not found");
+    }
+    return recipe;
+  }
+
+  private static templateData(recipe: RecipeWithIngredients) {
+    const perServing = this.nutrition(recipe).per_serving;
+
+    return {
+      name: recipe.name,
+      description: recipe.description,
+      calories: perServing.calories ?? 0,
+      protein_g: perServing.protein_g ?? 0,
+      carbs_g: perServing.carbs_g ?? 0,
+      fats_g: perServing.fats_g ?? 0,
+      fiber_g: perServing.fiber_g ?? 0,
+      sugar_g: perServing.sugar_g ?? 0,
+      sodium_mg: perServing.sodium_mg ?? 0,
+      // Quantities for one serving, like the generated templates
+      ingredients_json: recipe.ingredients.map((ing) => ({
+        name: ing.name,
+        quantity: round(ing.grams / recipe.servings),
+        unit: "g",
+      })),
+    };
+  }
+
+  static async createRecipe(userId: string, input: CreateRecipeInput) {
+    const drafts = await this.resolveIngredients(input.ingredients, userId);
+
+    const recipe = await prisma.recipe.create({
+      data: {
+        user_id: userId,
+        name: input.name,
+        description: input.description,
+        servings: input.servings,
+        cooked_weight_g: input.cooked_weight_g,
+        ...this.batchTotals(drafts),
+        ingredients: {
+          create: drafts.map((draft, position) => ({ ...draft, position })),
+        },
+      },
+      include: { ingredients: true },
+    });
+
+    console.log(
+      `🍲 Created recipe "${recipe.name}" with ${drafts.length} ingredients`
+    );
+    return this.format(recipe);
+  }
+
+  static async getRecipes(userId: string) {
+    const recipes = await prisma.recipe.findMany({
+      where: { user_id: userId },
+      include: { ingredients: true },
+      orderBy: { updated_at: "desc" },
+    });
+    return recipes.map((recipe) => this.format(recipe));
+  }
+
+  static async getRecipe(recipeId: number, userId: string) {
+    return this.format(await this.getOwnedRecipe(recipeId, userId));
+  }
+
+  /**
+   * Update a recipe; new ingredients replace the old list. A linked meal
+   * template is kept in step. Meals already logged keep their values.
+   */
+  static async updateRecipe(
+    recipeId: number,
+    userId: string,
+    input: UpdateRecipeInput
+  ) {
+    const existing = await this.getOwnedRecipe(recipeId, userId);
+    const drafts = input.ingredients
+      ? await this.resolveIngredients(input.ingredients, userId)
+      : null;
+
+    const recipe = await prisma.$transaction(async (tx) => {
+      if (drafts) {
+        await tx.recipeIngredient.deleteMany({
+          where: { recipe_id: recipeId },
+        });
+      }
+
+      const updated = await tx.recipe.update({
+        where: { recipe_id: recipeId },
+        data: {
+          name: input.name,
+          description: input.description,
+          servings: input.servings,
+          cooked_weight_g: input.cooked_weight_g,
+          ...(drafts && {
+            ...this.batchTotals(drafts),
+            ingredients: {
+              create: drafts.map((draft, position) => ({
+                ...draft,
+                position,
+              })),
+            },
+          }),
+        },
+        include: { ingredients: true },
+      });
+
+      if (existing.template_id) {
+        await tx.mealTemplate.update({
+          where: { template_id: existing.template_id },
+          data: this.templateData(updated),
+        });
+      }
+
+      return updated;
+    });
+
+    console.log(`✏️ Updated recipe ${recipeId}`);
+    return this.format(recipe);
+  }
+
+  /**
+   * Delete a recipe. Logged meals stay; a template that is not scheduled in
+   * any meal plan goes with it.
+   */
+  static async deleteRecipe(recipeId: number, userId: string): Promise<void> {
+    const recipe = await this.getOwnedRecipe(recipeId, userId);
+
+    await prisma.$transaction(async (tx) => {
+      await tx.recipe.delete({ where: { recipe_id: recipeId } });
+
+      if (recipe.template_id) {
+        const scheduled = await tx.mealPlanSchedule.count({
+          where: { template_id: recipe.template_id },
+        });
+        if (scheduled === 0) {
+          await tx.mealTemplate.delete({
+            where: { template_id: recipe.template_id },
+          });
+        }
+      }
+    });
+
+    console.log(`🗑️ Deleted recipe ${recipeId}`);
+  }
+
+  /**
+   * Log a portion as a meal. The meal gets one RECIPE ingredient at the
+   * recipe's per-100 g values, so its weight stays editable afterwards.
+   */
+  static async logRecipe(
+    recipeId: number,
+    userId: string,
+    input: LogRecipeInput
+  ) {
+    const recipe = await this.getOwnedRecipe(recipeId, userId);
+    const nutrition = this.nutrition(recipe);
+
+    const grams =
+      input.grams ?? (input.servings ?? 1) * nutrition.serving_weight_g;
+    const servings =
+      input.servings ?? round(grams / nutrition.serving_weight_g);
+
+    const meal = await MealIngredientService.createMealFromIngredients(
+      userId,
+      {
+        meal_name: `${recipe.name} (${servings} ${
+          servings === 1 ? "serving" : "servings"
+        })`,
+        recipe_id: recipe.recipe_id,
+        meal_period: input.meal_period || "other",
+        image_url: "https://via.placeholder.com/400x300.png?text=Recipe",
+        analysis_status: "COMPLETED",
+        upload_time: input.date ? new Date(input.date) : new Date(),
+        created_at: new Date(),
+      },
+      [
+        {
+          name: recipe.name,
+          grams: round(grams),
+          food_id: null,
+          source: IngredientSource.RECIPE,
+          nutrients_per_100g: nutrition.per_100g,
+          vitamins_per_100g: {},
+          micronutrients_per_100g: {},
+        },
+      ]
+    );
+
+    console.log(`🍽️ Logged ${servings} servings of recipe ${recipeId}`);
+    return meal;
+  }
+
+  /**
+   * The recipe's meal template, created on first use so the recipe can be
+   * scheduled in meal plans
+   */
+  static async createTemplate(
+    recipeId: number,
+    userId: string,
+    input: RecipeTemplateInput
+  ) {
+    const recipe = await this.getOwnedRecipe(recipeId, userId);
+
+    if (recipe.template_id) {
+      return prisma.mealTemplate.update({
+        where: { template_id: recipe.template_id },
+        data: {
+          ...this.templateData(recipe),
+          meal_timing: input.meal_timing,
+          dietary_category: input.dietary_category,
+        },
+      });
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const template = await tx.mealTemplate.create({
+        data: {
+          ...this.templateData(recipe),
+          meal_timing: input.meal_timing,
+          dietary_category: input.dietary_category,
+        },
+      });
+      await tx.recipe.update({
+        where: { recipe_id: recipeId },
+        data: { template_id: template.template_id },
+      });
+
+      console.log(`📋 Created template for recipe ${recipeId}`);
+      return template;
+    });
+  }
+
+  /**
+   * Schedule the recipe in one of the user's meal plans, replacing whatever
+   * was in that slot
+   */
+  static async addToMealPlan(
+    recipeId: number,
+    userId: string,
+    input: AddRecipeToPlanInput
+  ) {
+    const plan = await prisma.userMealPlan.findFirst({
+      where: { plan_id: input.plan_id, user_id: userId },
+    });
+    if (!plan) {
+      throw new Error("Meal plan not found");
+    }
+
+    const template = await this.createTemplate(recipeId, userId, input);
+
+    const slot = {
+      plan_id: input.plan_id,
+      day_of_week: input.day_of_week,
+      meal_timing: input.meal_timing,
+      meal_order: input.meal_order,
+    };
+    const schedule = await prisma.mealPlanSchedule.upsert({
+      where: { plan_id_day_of_week_meal_timing_meal_order: slot },
+      create: {
+        ...slot,
+        template_id: template.template_id,
+        portion_multiplier: input.portion_multiplier,
+      },
+      update: {
+        template_id: template.template_id,
+        portion_multiplier: input.portion_multiplier,
+      },
+      include: { template: true },
+    });
+
+    console.log(`📅 Added recipe ${recipeId} to meal plan ${input.plan_id}`);
+    return schedule;
+  }
+}
@@ -0,0 +1,319 @@
+import { Prisma, RetentionAction } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { escapeHtml, sendEmail } from "../lib/mailer";
+import { UserCleanupService } from "./userCleanup";
+import {
+  RETENTION_BATCH_SIZE,
+  RETENTION_DRY_RUN,
+  RETENTION_POLICIES,
+  RetentionPolicy,
+} from "../config/retention";
+import {
+  RetentionAuditQuery,
+  RetentionPolicyResult,
+  RetentionRunResult,
+} from "../types/retention";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pendingSelect = {
+  user_id: true,
+  email: true,
+  name: true,
+  subscription_type: true,
+  timezone: true,
+  created_at: true,
+  deleted_at: true,
+  deletion_scheduled_for: true,
+  deletion_policy: true,
+  deletion_warned_at: true,
+};
+
+/**
+ * Accounts matched by a retention policy are soft-deleted, warned by email
+ * and only purged once the grace period has passed. Signing in restores
+ * them. Every step is written to the deletion audit log.
+ */
+export class RetentionService {
+  static async runPolicies(
+    dryRun = RETENTION_DRY_RUN,
+    actorId?: string
+  ): Promise<RetentionRunResult> {
+    const now = new Date();
+    console.log(`🧹 Running retention policies${dryRun ? " (dry run)" : ""}`);
+
+    const policies: RetentionPolicyResult[] = [];
+    for (const policy of RETENTION_POLICIES.filter((p) => p.enabled)) {
+      policies.push(await this.runPolicy(policy, now, dryRun, actorId));
+    }
+
+    return { dry_run: dryRun, ran_at: now.toISOString(), policies };
+  }
+
+  static async getPendingDeletions() {
+    return prisma.user.findMany({
+      where: { deleted_at: { not: null } },
+      select: pendingSelect,
+      orderBy: { deletion_scheduled_for: "asc" },
+    });
+  }
+
+  /**
+   * Cancel a pending deletion. Returns false if none was pending.
+   */
+  static async restoreUser(userId: string, actorId?: string) {
+    const user = await prisma.user.findUnique({
+      where: { user_id: userId },
+      select: pendingSelect,
+    });
+    if (!user) {
+      throw new Error("User not found");
+    }
+    if (!user.deleted_at) return false;
+
+    await prisma.user.update({
+      where: { user_id: userId },
+      data: {
+        deleted_at: null,
+        deletion_scheduled_for: null,
+        deletion_policy: null,
+        deletion_warned_at: null,
+      },
+    });
+    await this.audit(user, user.deletion_policy!, "RESTORED", actorId, {
+      reason: actorId ? "admin" : "sign_in",
+      scheduled_for: user.deletion_scheduled_for,
+    });
+
+    console.log(`♻️ Pending deletion cancelled for user: ${userId}`);
+    return true;
+  }
+
+  /**
+   * Immediate deletion requested by an admin, recorded like automated ones
+   */
+  static async deleteUserByAdmin(userId: string, actorId: string) {
+    const user = await prisma.user.findUnique({
+      where: { user_id: userId },
+      select: pendingSelect,
+    });
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    await UserCleanupService.deleteUserCompletely(userId);
+    await this.audit(user, "admin", "DELETED", actorId, {
+      subscription_type: user.subscription_type,
+    });
+  }
+
+  static async getAuditLog(query: RetentionAuditQuery) {
+    return prisma.userDeletionAudit.findMany({
+      where: { user_id: query.user_id, action: query.action },
+      orderBy: { created_at: "desc" },
+      take: query.limit,
+    });
+  }
+
+  /**
+   * A dry run reports what each step would do against the current state;
+   * accounts it would newly schedule are not also counted as warned.
+   */
+  private static async runPolicy(
+    policy: RetentionPolicy,
+    now: Date,
+    dryRun: boolean,
+    actorId?: string
+  ): Promise<RetentionPolicyResult> {
+    const result: RetentionPolicyResult = {
+      policy: policy.name,
+      scheduled: [],
+      warned: [],
+      deleted: [],
+      errors: [],
+    };
+    const fail = (userId: string, error: unknown) => {
+      console.error(`❌ Retention ${policy.name} failed for ${userId}:`, error);
+      result.errors.push({
+        user_id: userId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    };
+
+    // Purge first so a run never warns and deletes the same account
+    const due = await prisma.user.findMany({
+      where: {
+        deletion_policy: policy.name,
+        deleted_at: { not: null },
+        deletion_warned_at: { not: null },
+        deletion_scheduled_for: { lte: now },
+        subscription_type: { in: policy.subscription_types },
+      },
+      select: pendingSelect,
+      take: RETENTION_BATCH_SIZE,
+    });
+    for (const user of due) {
+      try {
+        if (!dryRun) {
+          await UserCleanupService.deleteUserCompletely(user.user_id);
+          await this.audit(user, policy.name, "DELETED", actorId, {
+            soft_deleted_at: user.deleted_at,
+            warned_at: user.deletion_warned_at,
+          });
+        }
+        result.deleted.push(user.user_id);
+      } catch (error) {
+        fail(user.user_id, error);
+      }
+    }
+
+    const toWarn = await prisma.user.findMany({
+      where: {
+        deletion_policy: policy.name,
+        deleted_at: { not: null },
+        deletion_warned_at: null,
+        deletion_scheduled_for: {
+          lte: new Date(now.getTime() + policy.warning_days * DAY_MS),
+        },
+      },
+      select: pendingSelect,
+      take: RETENTION_BATCH_SIZE,
+    });
+    for (const user of toWarn) {
+      try {
+        if (!dryRun) {
+          // A late warning still leaves the full warning period
+          const earliest = new Date(
+            now.getTime() + policy.warning_days * DAY_MS
+          );
+          const scheduledFor =
+            user.deletion_scheduled_for! > earliest
+              ? user.deletion_scheduled_for!
+              : earliest;
+
+          await this.sendWarningEmail(user, scheduledFor);
+          await prisma.user.update({
+            where: { user_id: user.user_id },
+            data: {
+              deletion_warned_at: now,
+              deletion_scheduled_for: scheduledFor,
+            },
+          });
+          await this.audit(user, policy.name, "WARNED", actorId, {
+            scheduled_for: scheduledFor,
+          });
+        }
+        result.warned.push(user.user_id);
+      } catch (error) {
+        fail(user.user_id, error);
+      }
+    }
+
+    const candidates = await prisma.user.findMany({
+      where: this.candidateWhere(policy, now),
+      select: pendingSelect,
+      take: RETENTION_BATCH_SIZE,
+    });
+    for (const user of candidates) {
+      try {
+        if (!dryRun) {
+          const scheduledFor = new Date(
+            now.getTime() + policy.grace_days * DAY_MS
+          );
+          await prisma.user.update({
+            where: { user_id: user.user_id },
+            data: {
+              deleted_at: now,
+              deletion_scheduled_for: scheduledFor,
+              deletion_policy: policy.name,
+              deletion_warned_at: null,
+            },
+          });
+          await this.audit(user, policy.name, "SCHEDULED", actorId, {
+            scheduled_for: scheduledFor,
+            inactive_days: policy.inactive_days,
+          });
+        }
+        result.scheduled.push(user.user_id);
+      } catch (error) {
+        fail(user.user_id, error);
+      }
+    }
+
+    console.log(
+      `✅ Retention ${policy.name}: ${result.scheduled.length} scheduled, ${result.warned.length} warned, ${result.deleted.length} deleted, ${result.errors.length} errors`
+    );
+    return result;
+  }
+
+  /**
+   * Accounts the policy covers with no sign-in, live session or meal since
+   * the inactivity cutoff. Admins are never matched.
+   */
+  private static candidateWhere(
+    policy: RetentionPolicy,
+    now: Date
+  ): Prisma.UserWhereInput {
+    const cutoff = new Date(now.getTime() - policy.inactive_days * DAY_MS);
+
+    return {
+      deleted_at: null,
+      is_admin: false,
+      is_super_admin: false,
+      subscription_type: { in: policy.subscription_types },
+      ...(policy.email_verified !== undefined && {
+        email_verified: policy.email_verified,
+      }),
+      created_at: { lt: cutoff },
+      Session: {
+        none: {
+          OR: [{ created_at: { gte: cutoff } }, { expiresAt: { gt: now } }],
+        },
+      },
+      meals: { none: { created_at: { gte: cutoff } } },
+    };
+  }
+
+  private static async audit(
+    user: { user_id: string; email: string },
+    policy: string,
+    action: RetentionAction,
+    actorId?: string,
+    details?: Record<string, unknown>
+  ) {
+    await prisma.userDeletionAudit.create({
+      data: {
+        user_id: user.user_id,
+        email: user.email,
+        policy,
+        action,
+        actor_id: actorId,
+        details: details as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  private static async sendWarningEmail(
+    user: { email: string; name: string | null; timezone: string },
+    scheduledFor: Date
+  ) {
+    const deletionDate = scheduledFor.toLocaleDateString("en-US", {
+      dateStyle: "long",
+      timeZone: user.timezone,
+    });
+
+    await sendEmail({
+      to: user.email,
+      subject: "Your Calo account is scheduled for deletion",
+      html: `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; color: #2d3748;">
+      <h2 style="color: #38a169;">Hi ${user.name ? escapeHtml(user.name) : "there"},</h2>
+      <p>Your Calo account hasn't been used in a while, so it is scheduled to be deleted on <strong>${deletionDate}</strong>.</p>
+      <p>Deletion removes your meals, goals and progress permanently.</p>
+      <p>To keep your account, just sign in to the app before that date.</p>
+      <p style="color: #a0aec0; font-size: 12px;">If you no longer need your account, no action is required.</p>
+    </div>
+  `,
+    });
+  }
+}
@@ -0,0 +1,281 @@
+import { afterEach, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { SessionService } from "./sessions";
+import { stubPrisma } from "../test/stubPrisma";
+
+interface StoredSession {
+  session_id: string;
+  user_id: string;
+  expiresAt: Date;
+}
+
+interface StoredToken {
+  token_hash: string;
+  session_id: string;
+  expires_at: Date;
+  rotated_at: Date | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const metadata = { device_name: "Pixel 8", ip_address: "127.0.0.1" };
+
+const hash = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+describe("SessionService", () => {
+  let users: Map<string, { email: string; deleted_at: Date | null }>;
+  let sessions: Map<string, StoredSession>;
+  let tokens: Map<string, StoredToken>;
+  let restorePrisma: () => void;
+
+  const deleteSessions = (where: { session_id?: any; user_id?: string }) => {
+    let count = 0;
+    for (const session of [...sessions.values()]) {
+      const idMatches =
+        typeof where.session_id === "string"
+          ? session.session_id === where.session_id
+          : session.session_id !== where.session_id?.not;
+      const userMatches = !where.user_id || session.user_id === where.user_id;
+      if (!idMatches || !userMatches) continue;
+
+      // Refresh tokens cascade with their session
+      sessions.delete(session.session_id);
+      for (const [tokenHash, token] of tokens) {
+        if (token.session_id === session.session_id) tokens.delete(tokenHash);
+      }
+      count++;
+    }
+    return { count };
+  };
+
+  const signIn = (userId = "user-1") =>
+    SessionService.createSession(
+      { user_id: userId, email: users.get(userId)!.email },
+      metadata
+    );
+
+  beforeEach(() => {
+    users = new Map([
+      ["user-1", { email: "one@example.com", deleted_at: null }],
+      ["user-2", { email: "two@example.com", deleted_at: null }],
+    ]);
+    sessions = new Map();
+    tokens = new Map();
+
+    restorePrisma = stubPrisma({
+      session: {
+        create: async ({ data }: any) => {
+          const session_id = `session-${sessions.size + 1}`;
+          sessions.set(session_id, {
+            session_id,
+            user_id: data.user_id,
+            expiresAt: data.expiresAt,
+          });
+          const created = data.refreshTokens.create;
+          tokens.set(created.token_hash, {
+            ...created,
+            session_id,
+            rotated_at: null,
+          });
+          return { session_id };
+        },
+        update: async ({ where, data }: any) => {
+          const session = sessions.get(where.session_id)!;
+          session.expiresAt = data.expiresAt;
+          const created = data.refreshTokens.create;
+          tokens.set(created.token_hash, {
+            ...created,
+            session_id: session.session_id,
+            rotated_at: null,
+          });
+          return session;
+        },
+        deleteMany: async ({ where }: any) => deleteSessions(where),
+      },
+      refreshToken: {
+        findUnique: async ({ where }: any) => {
+          const token = tokens.get(where.token_hash);
+          if (!token) return null;
+          const session = sessions.get(token.session_id)!;
+          const user = users.get(session.user_id)!;
+          return {
+            ...token,
+            session: {
+              expiresAt: session.expiresAt,
+              user: { user_id: session.user_id, ...user },
+            },
+          };
+        },
+        updateMany: async ({ where, data }: any) => {
+          const token = tokens.get(where.token_hash);
+          if (!token || token.rotated_at !== null) return { count: 0 };
+          token.rotated_at = data.rotated_at;
+          return { count: 1 };
+        },
+      },
+    });
+  });
+
+  afterEach(() => {
+    restorePrisma();
+    SessionService.evictUser("user-1");
+    SessionService.evictUser("user-2");
+  });
+
+  test("issues a short-lived access token tied to the session", async () => {
+    const issued = await signIn();
+    const payload = SessionService.verifyAccessToken(issued.token);
+
+    assert.equal(payload.user_id, "user-1");
+    assert.equal(payload.sid, "session-1");
+    assert.equal(payload.type, "access");
+    assert.equal(issued.expires_in, 15 * 60);
+    assert.ok(tokens.has(hash(issued.refresh_token)));
+  });
+
+  test("rotates the refresh token on every use", async () => {
+    const first = await signIn();
+    const second = await SessionService.refreshSession(
+      first.refresh_token,
+      metadata
+    );
+    const third = await SessionService.refreshSession(
+      second.refresh_token,
+      metadata
+    );
+
+    assert.notEqual(second.refresh_token, first.refresh_token);
+    assert.notEqual(third.refresh_token, second.refresh_token);
+    assert.ok(tokens.get(hash(first.refresh_token))!.rotated_at);
+    assert.ok(tokens.get(hash(second.refresh_token))!.rotated_at);
+    assert.equal(tokens.get(hash(third.refresh_token))!.rotated_at, null);
+    assert.equal(
+      SessionService.verifyAccessToken(third.token).sid,
+      "session-1"
+    );
+  });
+
+  test("revokes the session when a rotated token is replayed", async () => {
+    const first = await signIn();
+    const second = await SessionService.refreshSession(
+      first.refresh_token,
+      metadata
+    );
+
+    await assert.rejects(
+      SessionService.refreshSession(first.refresh_token, metadata),
+      /Refresh token already used/
+    );
+    assert.equal(sessions.size, 0);
+    // The legitimate holder is signed out too
+    await assert.rejects(
+      SessionService.refreshSession(second.refresh_token, metadata),
+      /Invalid refresh token/
+    );
+  });
+
+  test("lets only one of two concurrent refreshes succeed", async () => {
+    const { refresh_token } = await signIn();
+
+    const results = await Promise.allSettled([
+      SessionService.refreshSession(refresh_token, metadata),
+      SessionService.refreshSession(refresh_token, metadata),
+    ]);
+
+    assert.deepEqual(results.map((result) => result.status).sort(), [
+      "fulfilled",
+      "rejected",
+    ]);
+    // The losing request looks like a replay
+    assert.equal(sessions.size, 0);
+  });
+
+  test("rejects expired and unknown refresh tokens", async () => {
+    const { refresh_token } = await signIn();
+    sessions.get("session-1")!.expiresAt = new Date(Date.now() - DAY_MS);
+
+    await assert.rejects(
+      SessionService.refreshSession(refresh_token, metadata),
+      /Refresh token expired/
+    );
+    await assert.rejects(
+      SessionService.refreshSession("not-a-token", metadata),
+      /Invalid refresh token/
+    );
+  });
+
+  test("ends the session of an account pending deletion", async () => {
+    const { refresh_token } = await signIn();
+    users.get("user-1")!.deleted_at = new Date();
+
+    await assert.rejects(
+      SessionService.refreshSession(refresh_token, metadata),
+      /Refresh token revoked: account is pending deletion/
+    );
+    assert.equal(sessions.size, 0);
+  });
+
+  test("revokes other sessions but keeps the current one", async () => {
+    await signIn();
+    await signIn();
+    await signIn("user-2");
+
+    const revoked = await SessionService.revokeOtherSessions(
+      "user-1",
+      "session-2"
+    );
+
+    assert.equal(revoked, 1);
+    assert.deepEqual([...sessions.keys()].sort(), ["session-2", "session-3"]);
+  });
+
+  test("rejects access tokens of another type or secret", () => {
+    const notAccess = jwt.sign(
+      { user_id: "user-1", sid: "session-1", type: "refresh" },
+      process.env.JWT_SECRET!
+    );
+    const forged = jwt.sign(
+      { user_id: "user-1", sid: "session-1", type: "access" },
+      "someone-elses-secret"
+    );
+
+    assert.throws(
+      () => SessionService.verifyAccessToken(notAccess),
+      /Invalid token payload/
+    );
+    assert.throws(() => SessionService.verifyAccessToken(forged));
+  });
+
+  test("caches checked sessions until the user is evicted", () => {
+    const expiresAt = new Date(Date.now() + DAY_MS);
+    SessionService.cacheSession(
+      { session_id: "session-1", user: { user_id: "user-1" } },
+      expiresAt
+    );
+    SessionService.cacheSession(
+      { session_id: "session-2", user: { user_id: "user-2" } },
+      expiresAt
+    );
+
+    assert.equal(
+      SessionService.getCachedSession("session-1")?.user.user_id,
+      "user-1"
+    );
+
+    SessionService.evictUser("user-1");
+
+    assert.equal(SessionService.getCachedSession("session-1"), null);
+    assert.ok(SessionService.getCachedSession("session-2"));
+  });
+
+  test("does not serve a cached session past its expiry", () => {
+    SessionService.cacheSession(
+      { session_id: "session-1", user: { user_id: "user-1" } },
+      new Date(Date.now() - 1000)
+    );
+
+    assert.equal(SessionService.getCachedSession("session-1"), null);
+  });
+});
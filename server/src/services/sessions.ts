@@ -0,0 +1,310 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { prisma } from "../lib/database";
+import {
+  ACCESS_TOKEN_TTL_MINUTES,
+  AUTH_CACHE_MAX_ENTRIES,
+  AUTH_CACHE_TTL_MS,
+  REFRESH_TOKEN_TTL_DAYS,
+  SESSION_TOUCH_INTERVAL_MS,
+} from "../config/auth";
+import {
+  AccessTokenPayload,
+  AuthenticatedSession,
+  AuthTokens,
+  SessionMetadata,
+  SessionSummary,
+} from "../types/sessions";
+
+const JWT_SECRET = process.env.JWT_SECRET!;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Checked sessions by session_id, so most requests skip the database
+const sessionCache = new Map<
+  string,
+  { session: AuthenticatedSession; expiresAt: Date; timestamp: number }
+>();
+
+const hashToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const newRefreshToken = () => crypto.randomBytes(32).toString("base64url");
+
+const refreshExpiryDate = () =>
+  new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * DAY_MS);
+
+export class SessionService {
+  /**
+   * Start a session for a signed-in user and issue its first token pair
+   */
+  static async createSession(
+    user: { user_id: string; email: string },
+    metadata: SessionMetadata
+  ): Promise<AuthTokens> {
+    const refreshToken = newRefreshToken();
+    const expiresAt = refreshExpiryDate();
+
+    const session = await prisma.session.create({
+      data: {
+        user_id: user.user_id,
+        device_name: metadata.device_name,
+        ip_address: metadata.ip_address,
+        user_agent: metadata.user_agent,
+        expiresAt,
+        refreshTokens: {
+          create: {
+            token_hash: hashToken(refreshToken),
+            expires_at: expiresAt,
+          },
+        },
+      },
+      select: { session_id: true },
+    });
+
+    console.log(
+      `🔑 Session ${session.session_id} started for user ${user.user_id}`
+    );
+    return this.issueTokens(user, session.session_id, refreshToken);
+  }
+
+  /**
+   * Trade a refresh token for a new pair. Presenting a token that was
+   * already rotated revokes the session, since it is being replayed by
+   * either the client or someone who copied it.
+   */
+  static async refreshSession(
+    refreshToken: string,
+    metadata: SessionMetadata
+  ): Promise<AuthTokens> {
+    const tokenHash = hashToken(refreshToken);
+    const stored = await prisma.refreshToken.findUnique({
+      where: { token_hash: tokenHash },
+      include: {
+        session: {
+          select: {
+            expiresAt: true,
+            user: { select: { user_id: true, email: true, deleted_at: true } },
+          },
+        },
+      },
+    });
+    if (!stored) {
+      throw new Error("Invalid refresh token");
+    }
+    if (stored.rotated_at) {
+      await this.revokeReusedSession(stored.session_id);
+    }
+
+    // Only signing in again restores an account scheduled for deletion
+    if (stored.session.user.deleted_at) {
+      await this.endSession(stored.session_id);
+      throw new Error("Refresh token revoked: account is pending deletion");
+    }
+
+    const now = new Date();
+    if (stored.expires_at < now || stored.session.expiresAt < now) {
+      throw new Error("Refresh token expired");
+    }
+
+    // Claim the token so two refreshes with it cannot both succeed
+    const claimed = await prisma.refreshToken.updateMany({
+      where: { token_hash: tokenHash, rotated_at: null },
+      data: { rotated_at: now },
+    });
+    if (claimed.count === 0) {
+      await this.revokeReusedSession(stored.session_id);
+    }
+
+    const nextToken = newRefreshToken();
+    const expiresAt = refreshExpiryDate();
+    await prisma.session.update({
+      where: { session_id: stored.session_id },
+      data: {
+        expiresAt,
+        last_used_at: now,
+        ip_address: metadata.ip_address,
+        user_agent: metadata.user_agent,
+        ...(metadata.device_name && { device_name: metadata.device_name }),
+        refreshTokens: {
+          create: { token_hash: hashToken(nextToken), expires_at: expiresAt },
+        },
+      },
+    });
+
+    return this.issueTokens(stored.session.user, stored.session_id, nextToken);
+  }
+
+  /**
+   * Check an access token's signature and expiry. Whether its session is
+   * still alive is up to the caller (see AuthService.verifyToken).
+   */
+  static verifyAccessToken(token: string): AccessTokenPayload {
+    const decoded = jwt.verify(token, JWT_SECRET) as AccessTokenPayload;
+    if (
+      !decoded ||
+      typeof decoded !== "object" ||
+      decoded.type !== "access" ||
+      !decoded.sid ||
+      !decoded.user_id
+    ) {
+      throw new Error("Invalid token payload");
+    }
+    return decoded;
+  }
+
+  static getCachedSession(sessionId: string): AuthenticatedSession | null {
+    const cached = sessionCache.get(sessionId);
+    if (!cached) return null;
+
+    if (
+      Date.now() - cached.timestamp >= AUTH_CACHE_TTL_MS ||
+      cached.expiresAt < new Date()
+    ) {
+      sessionCache.delete(sessionId);
+      return null;
+    }
+    return cached.session;
+  }
+
+  static cacheSession(session: AuthenticatedSession, expiresAt: Date) {
+    if (sessionCache.size >= AUTH_CACHE_MAX_ENTRIES) {
+      const now = Date.now();
+      for (const [sessionId, cached] of sessionCache) {
+        if (now - cached.timestamp >= AUTH_CACHE_TTL_MS) {
+          sessionCache.delete(sessionId);
+        }
+      }
+      // Still full: drop the oldest entry
+      if (sessionCache.size >= AUTH_CACHE_MAX_ENTRIES) {
+        sessionCache.delete(sessionCache.keys().next().value!);
+      }
+    }
+
+    sessionCache.set(session.session_id, {
+      session,
+      expiresAt,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Forget a user's cached sessions so account changes (plan, roles) apply
+   * on their next request
+   */
+  static evictUser(userId: string) {
+    for (const [sessionId, cached] of sessionCache) {
+      if (cached.session.user.user_id === userId) {
+        sessionCache.delete(sessionId);
+      }
+    }
+  }
+
+  /**
+   * Record activity without a write on every request. Fire and forget.
+   */
+  static touchSession(session: { session_id: string; last_used_at: Date }) {
+    if (
+      Date.now() - session.last_used_at.getTime() <
+      SESSION_TOUCH_INTERVAL_MS
+    ) {
+      return;
+    }
+
+    prisma.session
+      .updateMany({
+        where: { session_id: session.session_id },
+        data: { last_used_at: new Date() },
+      })
+      .catch(console.error);
+  }
+
+  static async listSessions(
+    userId: string,
+    currentSessionId?: string
+  ): Promise<SessionSummary[]> {
+    const sessions = await prisma.session.findMany({
+      where: { user_id: userId, expiresAt: { gt: new Date() } },
+      orderBy: { last_used_at: "desc" },
+    });
+
+    return sessions.map((session) => ({
+      session_id: session.session_id,
+      device_name: session.device_name,
+      ip_address: session.ip_address,
+      user_agent: session.user_agent,
+      created_at: session.created_at,
+      last_used_at: session.last_used_at,
+      expires_at: session.expiresAt,
+      is_current: session.session_id === currentSessionId,
+    }));
+  }
+
+  /**
+   * Sign out the session an access token belongs to
+   */
+  static async endSession(sessionId: string) {
+    await prisma.session.deleteMany({ where: { session_id: sessionId } });
+    sessionCache.delete(sessionId);
+  }
+
+  static async revokeSession(userId: string, sessionId: string) {
+    const result = await prisma.session.deleteMany({
+      where: { session_id: sessionId, user_id: userId },
+    });
+    if (result.count === 0) {
+      throw new Error("Session not found");
+    }
+
+    sessionCache.delete(sessionId);
+    console.log(`🚪 Session ${sessionId} revoked for user ${userId}`);
+  }
+
+  /**
+   * "Log out other devices": end every session but the current one
+   */
+  static async revokeOtherSessions(userId: string, currentSessionId: string) {
+    const result = await prisma.session.deleteMany({
+      where: { user_id: userId, session_id: { not: currentSessionId } },
+    });
+
+    this.evictUser(userId);
+    console.log(`🚪 Revoked ${result.count} other sessions for user ${userId}`);
+    return result.count;
+  }
+
+  static async revokeAllSessions(userId: string) {
+    const result = await prisma.session.deleteMany({
+      where: { user_id: userId },
+    });
+
+    this.evictUser(userId);
+    return result.count;
+  }
+
+  private static async revokeReusedSession(sessionId: string): Promise<never> {
+    await this.endSession(sessionId);
+    console.warn(`🚨 Refresh token reused, session ${sessionId} revoked`);
+    throw new Error("Refresh token already used");
+  }
+
+  private static issueTokens(
+    user: { user_id: string; email: string },
+    sessionId: string,
+    refreshToken: string
+  ): AuthTokens {
+    const payload: AccessTokenPayload = {
+      user_id: user.user_id,
+      email: user.email,
+      sid: sessionId,
+      type: "access",
+    };
+
+    return {
+      token: jwt.sign(payload, JWT_SECRET, {
+        expiresIn: `${ACCESS_TOKEN_TTL_MINUTES}m`,
+      }),
+      refresh_token: refreshToken,
+      expires_in: ACCESS_TOKEN_TTL_MINUTES * 60,
+    };
+  }
+}
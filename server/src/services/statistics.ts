@@ -1,5 +1,15 @@
 import { prisma } from "../lib/database";
 import { AchievementService } from "./achievements";
+import { InsightsService } from "./insights";
+import { ActivityMergeService } from "./activityMerge";
+import { TimezoneService } from "./timezone";
+import { MergedDailyActivity } from "../types/activityMerge";
+import { addDays, localDateString, startOfLocalDay } from "../utils/timezone";
+import {
+  NutritionReportData,
+  PDFReportService,
+  ReportDay,
+} from "./pdfReport";
 
 export interface Achievement {
   id: string;
@@ -66,6 +76,17 @@ export interface NutritionGoals {
   water_ml: number;
 }
 
+export interface NutritionAverages {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fats: number;
+  fiber: number;
+  sugar: number;
+  sodium: number;
+  fluids: number;
+}
+
 export interface PeriodStatistics {
   period_type: string;
   start_date: string;
@@ -74,7 +95,7 @@ export interface PeriodStatistics {
   goals: NutritionGoals;
   consumption: NutritionGoals;
   progress_percentages: NutritionGoals;
-  daily_averages: NutritionGoals;
+  daily_averages: NutritionAverages;
   meal_count: number;
   completion_rate: number;
   currentStreak: number;
@@ -112,45 +133,40 @@ export class StatisticsService {
         `📊 Getting ENHANCED statistics for user: ${userId}, period: ${period}`
       );
 
+      // Days are the user's calendar days; custom dates are calendar days too
+      const timeZone = await TimezoneService.getUserTimeZone(userId);
       const now = new Date();
-      let definedStartDate: Date;
-      let definedEndDate: Date;
+      const today = localDateString(now, timeZone);
+      let startDay: string;
+      let endDay: string;
 
       // Calculate date range
       if (period === "custom" && startDate && endDate) {
-        definedStartDate = new Date(startDate);
-        definedEndDate = new Date(endDate);
+        startDay = startDate.toISOString().split("T")[0];
+        endDay = endDate.toISOString().split("T")[0];
       } else {
+        endDay = today;
         switch (period) {
           case "today":
-            definedStartDate = new Date(
-              now.getFullYear(),
-              now.getMonth(),
-              now.getDate()
-            );
-            definedEndDate = now;
-            break;
-          case "week":
-            definedEndDate = now;
-            definedStartDate = new Date(
-              now.getTime() - 7 * 24 * 60 * 60 * 1000
-            );
+            startDay = today;
             break;
           case "month":
-            definedEndDate = now;
-            definedStartDate = new Date(
-              now.getTime() - 30 * 24 * 60 * 60 * 1000
-            );
+            startDay = addDays(today, -29);
             break;
           default:
-            definedEndDate = now;
-            definedStartDate = new Date(
-              now.getTime() - 7 * 24 * 60 * 60 * 1000
-            );
+            startDay = addDays(today, -6);
             break;
         }
       }
 
+      const definedStartDate = startOfLocalDay(startDay, timeZone);
+      const definedEndDate =
+        endDay === today
+          ? now
+          : new Date(
+              startOfLocalDay(addDays(endDay, 1), timeZone).getTime() - 1
+            );
+
       console.log(
         `📅 Date range: ${definedStartDate.toISOString()} to ${definedEndDate.toISOString()}`
       );
@@ -197,25 +213,25 @@ export class StatisticsService {
           orderBy: { upload_time: "desc" },
         }),
 
-        // Daily goals - optimized
+        // Daily goals - stored per calendar day
         prisma.dailyGoal.findMany({
           where: {
             user_id: userId,
             date: {
-              gte: definedStartDate,
-              lte: definedEndDate,
+              gte: new Date(startDay),
+              lte: new Date(endDay),
             },
           },
           orderBy: { date: "desc" },
         }),
 
-        // Water intakes - optimized
+        // Water intakes - stored per calendar day
         prisma.waterIntake.findMany({
           where: {
             user_id: userId,
             date: {
-              gte: definedStartDate,
-              lte: definedEndDate,
+              gte: new Date(startDay),
+              lte: new Date(endDay),
             },
           },
           select: {
@@ -227,6 +243,13 @@ export class StatisticsService {
         }),
       ]);
 
+      // Device activity, merged across the user's devices
+      const activityDays = await ActivityMergeService.getMergedDays(
+        userId,
+        startDay,
+        endDay
+      );
+
       // OPTIMIZED: Load achievements separately only if needed
       let userAchievements: any[] = [];
       let allAchievements: any[] = [];
@@ -253,6 +276,7 @@ export class StatisticsService {
               icon: true,
               rarity: true,
               max_progress: true,
+              rule: true,
             },
             take: 100,
             orderBy: { points_awarded: "asc" },
@@ -331,7 +355,11 @@ export class StatisticsService {
       const achievementData = this.formatAchievements(
         allAchievements,
         userAchievements,
-        userStats
+        await AchievementService.getAchievementProgress(
+          userId,
+          user,
+          allAchievements
+        )
       );
 
       // Calculate daily breakdown
@@ -339,8 +367,10 @@ export class StatisticsService {
         meals,
         dailyGoals,
         waterIntakes,
-        definedStartDate,
-        definedEndDate
+        startDay,
+        endDay,
+        timeZone,
+        activityDays
       );
 
       // Return period statistics for custom/specific periods
@@ -352,8 +382,8 @@ export class StatisticsService {
       ) {
         const periodStats: PeriodStatistics = {
           period_type: period,
-          start_date: definedStartDate.toISOString().split("T")[0],
-          end_date: definedEndDate.toISOString().split("T")[0],
+          start_date: startDay,
+          end_date: endDay,
           total_days: totalDays,
           goals: periodGoals,
           consumption: periodConsumption,
@@ -430,16 +460,7 @@ export class StatisticsService {
   /**
    * Calculate daily averages from meals
    */
-  private static calculateAverages(meals: any[]): {
-    calories: number;
-    protein: number;
-    carbs: number;
-    fats: number;
-    fiber: number;
-    sugar: number;
-    sodium: number;
-    fluids: number;
-  } {
+  private static calculateAverages(meals: any[]): NutritionAverages {
     if (meals.length === 0) {
       return {
         calories: 0,
@@ -726,7 +747,7 @@ export class StatisticsService {
   private static formatAchievements(
     allAchievements: any[],
     userAchievements: any[],
-    userStats: UserStats
+    progressById: Map<string, number>
   ): Achievement[] {
     const userAchievementMap = new Map(
       userAchievements.map((ua) => [ua.achievement_id, ua])
@@ -734,10 +755,7 @@ export class StatisticsService {
 
     return allAchievements.map((achievement) => {
       const userAchievement = userAchievementMap.get(achievement.id);
-      const currentProgress = this.calculateAchievementProgress(
-        achievement,
-        userStats
-      );
+      const currentProgress = progressById.get(achievement.id) || 0;
 
       return {
         id: achievement.id,
@@ -758,59 +776,6 @@ export class StatisticsService {
     });
   }
 
-  /**
-   * Calculate achievement progress
-   */
-  private static calculateAchievementProgress(
-    achievement: any,
-    userStats: UserStats
-  ): number {
-    switch (achievement.key) {
-      case "first_scan":
-        return Math.min(userStats.aiRequestsCount, 1);
-      case "first_water_goal":
-        return Math.min(userStats.totalWaterGoals, 1);
-      case "water_warrior":
-        return Math.min(userStats.totalWaterGoals, 10);
-      case "hydration_habit":
-        return Math.min(userStats.totalWaterGoals, 7);
-      case "aqua_master":
-        return Math.min(userStats.totalWaterGoals, 30);
-      case "first_complete_day":
-        return Math.min(userStats.totalCompleteDays, 1);
-      case "total_5_days":
-        return Math.min(userStats.totalCompleteDays, 5);
-      case "total_10_days":
-        return Math.min(userStats.totalCompleteDays, 10);
-      case "total_25_days":
-        return Math.min(userStats.totalCompleteDays, 25);
-      case "total_50_days":
-        return Math.min(userStats.totalCompleteDays, 50);
-      case "total_100_days":
-        return Math.min(userStats.totalCompleteDays, 100);
-      case "streak_3_days":
-        return Math.min(userStats.currentStreak, 3);
-      case "streak_7_days":
-        return Math.min(userStats.currentStreak, 7);
-      case "streak_14_days":
-        return Math.min(userStats.currentStreak, 14);
-      case "streak_30_days":
-        return Math.min(userStats.currentStreak, 30);
-      case "streak_100_days":
-        return Math.min(userStats.currentStreak, 100);
-      case "level_5":
-        return Math.min(userStats.level, 5);
-      case "level_10":
-        return Math.min(userStats.level, 10);
-      case "level_25":
-        return Math.min(userStats.level, 25);
-      case "level_50":
-        return Math.min(userStats.level, 50);
-      default:
-        return 0;
-    }
-  }
-
   /**
    * Calculate daily breakdown
    */
@@ -818,16 +783,21 @@ export class StatisticsService {
     meals: any[],
     dailyGoals: any[],
     waterIntakes: any[],
-    startDate: Date,
-    endDate: Date
+    startDay: string,
+    endDay: string,
+    timeZone: string,
+    activityDays: MergedDailyActivity[] = []
   ): any[] {
     const dailyBreakdown: any[] = [];
-    const currentDate = new Date(startDate);
 
-    while (currentDate <= endDate) {
-      const dateStr = currentDate.toISOString().split("T")[0];
+    for (
+      let dateStr = startDay;
+      dateStr <= endDay;
+      dateStr = addDays(dateStr, 1)
+    ) {
+      // Meals fall on the user's local day; goals and water are stored per day
       const dayMeals = meals.filter(
-        (meal) => meal.created_at.toISOString().split("T")[0] === dateStr
+        (meal) => localDateString(meal.created_at, timeZone) === dateStr
       );
 
       const dayGoal = dailyGoals.find(
@@ -861,17 +831,20 @@ export class StatisticsService {
         }
       );
 
+      const dayActivity = activityDays.find((day) => day.date === dateStr);
+
       dailyBreakdown.push({
         date: dateStr,
         ...dayTotals,
         water_cups: dayWater?.cups_consumed || 0,
+        steps: dayActivity?.steps ?? null,
+        calories_burned: dayActivity?.calories_burned ?? null,
+        active_minutes: dayActivity?.active_minutes ?? null,
         mood: "neutral",
         energy: "medium",
         satiety: "satisfied",
         meal_quality: 3,
       });
-
-      currentDate.setDate(currentDate.getDate() + 1);
     }
 
     return dailyBreakdown;
@@ -1095,50 +1068,317 @@ export class StatisticsService {
   /**
    * Generate PDF report
    */
-  static async generatePDFReport(userId: string): Promise<Buffer> {
-    return Buffer.from("PDF Report Placeholder");
+  static async generatePDFReport(
+    userId: string,
+    period: "week" | "month" | "custom" = "week",
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<Buffer> {
+    try {
+      console.log(`📄 Generating PDF report for user: ${userId}, ${period}`);
+
+      const reportData = await this.getReportData(
+        userId,
+        period,
+        startDate,
+        endDate
+      );
+      const pdfBuffer = await PDFReportService.renderNutritionReport(
+        reportData
+      );
+
+      console.log(
+        `✅ PDF report generated for user: ${userId} (${pdfBuffer.length} bytes)`
+      );
+      return pdfBuffer;
+    } catch (error) {
+      console.error("❌ Error generating PDF report:", error);
+      throw error;
+    }
   }
 
   /**
-   * Generate insights
+   * Collect everything the PDF report needs for a period
    */
-  static async generateInsights(userId: string): Promise<any> {
-    try {
-      const statistics = await this.getNutritionStatistics(userId, "month");
-
-      const insights = {
-        mainInsights: [
-          {
-            type: "protein",
-            message: `You're meeting protein goals consistently.`,
-            category: "nutrition",
+  static async getReportData(
+    userId: string,
+    period: "week" | "month" | "custom",
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<NutritionReportData> {
+    const { start, end, startDay, endDay, timeZone } =
+      await this.resolveReportRange(userId, period, startDate, endDate);
+
+    const [user, statistics, meals, dailyGoals, waterIntakes, userGoals] =
+      await Promise.all([
+        prisma.user.findUnique({
+          where: { user_id: userId },
+          select: {
+            name: true,
+            email: true,
+            current_streak: true,
+            best_streak: true,
           },
-          {
-            type: "hydration",
-            message: `Your water intake is on track.`,
-            category: "lifestyle",
+        }),
+        this.getNutritionStatistics(
+          userId,
+          "custom",
+          new Date(startDay),
+          new Date(endDay)
+        ),
+        prisma.meal.findMany({
+          where: {
+            user_id: userId,
+            created_at: { gte: start, lte: end },
           },
-          {
-            type: "streak",
-            message: `Keep up the great work with your current streak!`,
-            category: "motivation",
+          select: {
+            meal_id: true,
+            created_at: true,
+            calories: true,
+            protein_g: true,
+            carbs_g: true,
+            fats_g: true,
+            fiber_g: true,
+            sugar_g: true,
+            sodium_mg: true,
+            liquids_ml: true,
           },
-        ],
-        recommendations: [
-          {
-            type: "fiber",
-            message: "Consider adding more fiber-rich foods to your diet.",
-            priority: "medium",
+        }),
+        prisma.dailyGoal.findMany({
+          where: {
+            user_id: userId,
+            date: { gte: new Date(startDay), lte: new Date(endDay) },
           },
-          {
-            type: "sodium",
-            message: "Try to reduce sodium intake by limiting processed foods.",
-            priority: "high",
+        }),
+        prisma.waterIntake.findMany({
+          where: {
+            user_id: userId,
+            date: { gte: new Date(startDay), lte: new Date(endDay) },
           },
-        ],
+          select: {
+            date: true,
+            cups_consumed: true,
+            milliliters_consumed: true,
+          },
+        }),
+        this.getUserDailyGoals(userId),
+      ]);
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+    // Custom periods always come back as period statistics
+    const periodStatistics = statistics.data;
+    if (!("daily_averages" in periodStatistics)) {
+      throw new Error("Failed to calculate period statistics");
+    }
+
+    const [unlockedAchievements, totalAvailable] = await Promise.all([
+      prisma.userAchievement.findMany({
+        where: { user_id: userId, unlocked: true },
+        include: { achievement: true },
+        orderBy: { unlocked_date: "asc" },
+      }),
+      prisma.achievement.count(),
+    ]);
+
+    const mealCounts = new Map<string, number>();
+    meals.forEach((meal) => {
+      const date = localDateString(meal.created_at, timeZone);
+      mealCounts.set(date, (mealCounts.get(date) || 0) + 1);
+    });
+
+    const days: ReportDay[] = this.calculateDailyBreakdown(
+      meals,
+      dailyGoals,
+      waterIntakes,
+      startDay,
+      endDay,
+      timeZone
+    ).map((day) => {
+      const dayGoal = dailyGoals.find(
+        (goal) => goal.date.toISOString().split("T")[0] === day.date
+      );
+
+      return {
+        date: day.date,
+        calories: day.calories,
+        protein_g: day.protein_g,
+        carbs_g: day.carbs_g,
+        fats_g: day.fats_g,
+        fiber_g: day.fiber_g,
+        sugar_g: day.sugar_g,
+        sodium_mg: day.sodium_mg,
+        liquids_ml: day.liquids_ml,
+        meal_count: mealCounts.get(day.date) || 0,
+        goal: dayGoal
+          ? {
+              calories: dayGoal.calories,
+              protein_g: dayGoal.protein_g,
+              carbs_g: dayGoal.carbs_g,
+              fats_g: dayGoal.fats_g,
+              fiber_g: dayGoal.fiber_g,
+              sodium_mg: dayGoal.sodium_mg,
+              sugar_g: dayGoal.sugar_g,
+              water_ml: dayGoal.water_ml,
+            }
+          : userGoals,
       };
+    });
+
+    // Longest run of consecutive days inside the period hitting the calorie goal
+    let longestInPeriod = 0;
+    let currentRun = 0;
+    let goalDays = 0;
+    days.forEach((day) => {
+      if (
+        day.meal_count > 0 &&
+        PDFReportService.isGoalMet("calories", day.calories, day.goal.calories)
+      ) {
+        goalDays++;
+        currentRun++;
+        longestInPeriod = Math.max(longestInPeriod, currentRun);
+      } else {
+        currentRun = 0;
+      }
+    });
+
+    return {
+      user: { name: user.name, email: user.email },
+      period,
+      start_date: startDay,
+      end_date: endDay,
+      generated_at: new Date(),
+      statistics: periodStatistics,
+      days,
+      streaks: {
+        current: user.current_streak || 0,
+        best: user.best_streak || 0,
+        longest_in_period: longestInPeriod,
+        logged_days: mealCounts.size,
+        goal_days: goalDays,
+      },
+      achievements: {
+        unlocked_in_period: unlockedAchievements
+          .filter(
+            (ua) =>
+              ua.unlocked_date &&
+              ua.unlocked_date >= start &&
+              ua.unlocked_date <= end
+          )
+          .map((ua) => ({
+            title: ua.achievement.title,
+            description: ua.achievement.description,
+            points: ua.achievement.points_awarded,
+            unlocked_date:
+              ua.unlocked_date?.toISOString().split("T")[0] || null,
+          })),
+        total_unlocked: unlockedAchievements.length,
+        total_available: totalAvailable,
+      },
+    };
+  }
+
+  /**
+   * Resolve report period to whole days in the user's timezone
+   */
+  private static async resolveReportRange(
+    userId: string,
+    period: "week" | "month" | "custom",
+    startDate?: Date,
+    endDate?: Date
+  ) {
+    const timeZone = await TimezoneService.getUserTimeZone(userId);
+    let startDay: string;
+    let endDay: string;
+
+    if (period === "custom") {
+      if (!startDate || !endDate) {
+        throw new Error("Custom report period requires start and end dates");
+      }
+      startDay = startDate.toISOString().split("T")[0];
+      endDay = endDate.toISOString().split("T")[0];
+    } else {
+      const days = period === "month" ? 30 : 7;
+      endDay = localDateString(new Date(), timeZone);
+      startDay = addDays(endDay, -(days - 1));
+    }
+
+    if (startDay > endDay) {
+      throw new Error("Report start date must be before end date");
+    }
+
+    return {
+      start: startOfLocalDay(startDay, timeZone),
+      // Inclusive, like the rest of the report queries
+      end: new Date(
+        startOfLocalDay(addDays(endDay, 1), timeZone).getTime() - 1
+      ),
+      startDay,
+      endDay,
+      timeZone,
+    };
+  }
+
+  /**
+   * Generate insights
+   */
+  static async generateInsights(
+    userId: string,
+    now: Date = new Date()
+  ): Promise<any> {
+    try {
+      const windowStart = new Date(now);
+      windowStart.setUTCDate(windowStart.getUTCDate() - 30);
 
-      return { success: true, data: insights };
+      const [meals, goals] = await Promise.all([
+        prisma.meal.findMany({
+          where: {
+            user_id: userId,
+            created_at: { gte: windowStart, lte: now },
+          },
+          select: {
+            created_at: true,
+            meal_period: true,
+            calories: true,
+            protein_g: true,
+            fiber_g: true,
+            sugar_g: true,
+            sodium_mg: true,
+            processing_level: true,
+            glycemic_index: true,
+          },
+          orderBy: { created_at: "asc" },
+        }),
+        this.getUserDailyGoals(userId),
+      ]);
+
+      const insights = InsightsService.evaluate(meals, goals, now);
+
+      return {
+        success: true,
+        data: {
+          generated_at: now.toISOString(),
+          goals,
+          insights,
+          mainInsights: insights.slice(0, 5).map((insight) => ({
+            id: insight.id,
+            type: insight.type,
+            message: insight.message,
+            category: insight.category,
+            sentiment: insight.sentiment,
+            evidence: insight.evidence,
+          })),
+          recommendations: insights
+            .filter((insight) => insight.recommendation)
+            .map((insight) => ({
+              id: insight.id,
+              type: insight.type,
+              message: insight.recommendation,
+              priority: insight.priority,
+            })),
+        },
+      };
     } catch (error) {
       console.error("Error generating insights:", error);
       throw error;
@@ -0,0 +1,291 @@
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { Prisma } from "@prisma/client";
+import { SubscriptionService } from "./subscriptions";
+import { SessionService } from "./sessions";
+import { FakePaymentProvider, setPaymentProvider } from "./payments";
+import { stubPrisma } from "../test/stubPrisma";
+
+interface StoredUser {
+  user_id: string;
+  email: string;
+  subscription_type: string;
+  subscription_start: Date | null;
+  subscription_end: Date | null;
+  is_admin: boolean;
+  is_super_admin: boolean;
+}
+
+interface StoredPayment {
+  payment_id: number;
+  user_id: string;
+  plan_type: string;
+  status: string;
+  provider_session_id: string | null;
+  [field: string]: unknown;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const returnUrls = {
+  successUrl: "app://payment/success",
+  cancelUrl: "app://payment/cancel",
+};
+
+describe("FakePaymentProvider", () => {
+  const provider = new FakePaymentProvider("test-secret", "http://localhost");
+
+  test("accepts webhooks it signed", async () => {
+    const session = await provider.createCheckoutSession({
+      paymentId: 1,
+      userId: "user-1",
+      email: "user@example.com",
+      planType: "GOLD",
+      amount: 999,
+      currency: "USD",
+      ...returnUrls,
+    });
+    const { body, signature } = provider.buildWebhook(
+      session.id,
+      "checkout.completed"
+    );
+
+    const event = provider.parseWebhookEvent(body, signature);
+
+    assert.equal(event.type, "checkout.completed");
+    assert.equal(event.sessionId, session.id);
+    assert.equal(provider.getSession(session.id)?.status, "completed");
+  });
+
+  test("rejects missing and tampered signatures", () => {
+    const { body, signature } = provider.buildWebhook(
+      "fake_cs_1",
+      "checkout.completed"
+    );
+    const tampered = Buffer.from(
+      body.toString("utf8").replace("fake_cs_1", "fake_cs_2")
+    );
+
+    assert.throws(
+      () => provider.parseWebhookEvent(body, undefined),
+      /Missing webhook signature/
+    );
+    assert.throws(
+      () => provider.parseWebhookEvent(tampered, signature),
+      /Invalid webhook signature/
+    );
+    assert.throws(
+      () => provider.parseWebhookEvent(body, "deadbeef"),
+      /Invalid webhook signature/
+    );
+  });
+});
+
+describe("SubscriptionService", () => {
+  let provider: FakePaymentProvider;
+  let users: Map<string, StoredUser>;
+  let payments: Map<number, StoredPayment>;
+  let processedEvents: Set<string>;
+  let evicted: string[];
+  let restorePrisma: () => void;
+
+  const findPayment = (where: {
+    payment_id?: number;
+    provider_session_id?: string;
+  }) =>
+    [...payments.values()].find((payment) =>
+      where.payment_id !== undefined
+        ? payment.payment_id === where.payment_id
+        : payment.provider_session_id === where.provider_session_id
+    ) || null;
+
+  const isLapsed = (user: StoredUser, now: Date) =>
+    ["GOLD", "PREMIUM"].includes(user.subscription_type) &&
+    ((user.subscription_end !== null && user.subscription_end < now) ||
+      (user.subscription_end === null &&
+        !user.is_admin &&
+        !user.is_super_admin));
+
+  const addUser = (userId: string, fields: Partial<StoredUser> = {}) => {
+    users.set(userId, {
+      user_id: userId,
+      email: `${userId}@example.com`,
+      subscription_type: "FREE",
+      subscription_start: null,
+      subscription_end: null,
+      is_admin: false,
+      is_super_admin: false,
+      ...fields,
+    });
+  };
+
+  beforeEach(() => {
+    provider = new FakePaymentProvider("test-secret", "http://localhost");
+    users = new Map();
+    payments = new Map();
+    processedEvents = new Set();
+    evicted = [];
+    addUser("user-1");
+
+    const models = {
+      user: {
+        findUnique: async ({ where }: any) => users.get(where.user_id) || null,
+        update: async ({ where, data }: any) => {
+          const user = users.get(where.user_id)!;
+          Object.assign(user, data);
+          return user;
+        },
+        findMany: async ({ where }: any) =>
+          [...users.values()].filter((user) =>
+            isLapsed(user, where.OR[0].subscription_end.lt)
+          ),
+        updateMany: async ({ where, data }: any) => {
+          const now = where.OR[0].subscription_end.lt;
+          let count = 0;
+          for (const user of users.values()) {
+            if (!where.user_id.in.includes(user.user_id)) continue;
+            if (!isLapsed(user, now)) continue;
+            Object.assign(user, data);
+            count++;
+          }
+          return { count };
+        },
+      },
+      subscriptionPayment: {
+        create: async ({ data }: any) => {
+          const payment = {
+            payment_id: payments.size + 1,
+            provider_session_id: null,
+            ...data,
+          };
+          payments.set(payment.payment_id, payment);
+          return payment;
+        },
+        findUnique: async ({ where }: any) => findPayment(where),
+        update: async ({ where, data }: any) => {
+          const payment = findPayment(where)!;
+          Object.assign(payment, data);
+          return payment;
+        },
+      },
+      paymentWebhookEvent: {
+        create: async ({ data }: any) => {
+          if (processedEvents.has(data.event_id)) {
+            throw new Prisma.PrismaClientKnownRequestError(
+              "Unique constraint failed on the fields: (`event_id`)",
+              { code: "P2002", clientVersion: "test" }
+            );
+          }
+          processedEvents.add(data.event_id);
+          return data;
+        },
+      },
+    };
+    restorePrisma = stubPrisma({
+      ...models,
+      $transaction: async (fn: (tx: unknown) => Promise<unknown>) => fn(models),
+    });
+    setPaymentProvider(provider);
+    mock.method(SessionService, "evictUser", (userId: string) => {
+      evicted.push(userId);
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    setPaymentProvider(null);
+    restorePrisma();
+  });
+
+  test("activates the plan once the checkout webhook arrives", async () => {
+    const checkout = await SubscriptionService.createCheckout(
+      "user-1",
+      "GOLD",
+      returnUrls
+    );
+    assert.equal(users.get("user-1")!.subscription_type, "FREE");
+
+    const { body, signature } = provider.buildWebhook(
+      checkout.session_id,
+      "checkout.completed"
+    );
+    const result = await SubscriptionService.handleWebhook(body, signature);
+
+    assert.equal(result.duplicate, false);
+    assert.equal(result.payment_id, checkout.payment_id);
+    assert.equal(payments.get(checkout.payment_id)!.status, "COMPLETED");
+    assert.equal(users.get("user-1")!.subscription_type, "GOLD");
+    assert.deepEqual(evicted, ["user-1"]);
+  });
+
+  test("ignores a redelivered webhook event", async () => {
+    const checkout = await SubscriptionService.createCheckout(
+      "user-1",
+      "PREMIUM",
+      returnUrls
+    );
+    const { body, signature } = provider.buildWebhook(
+      checkout.session_id,
+      "checkout.completed"
+    );
+
+    await SubscriptionService.handleWebhook(body, signature);
+    const periodEnd = users.get("user-1")!.subscription_end;
+    const replay = await SubscriptionService.handleWebhook(body, signature);
+
+    assert.equal(replay.duplicate, true);
+    assert.equal(replay.payment_id, null);
+    // A replay must not extend the period a second time
+    assert.equal(users.get("user-1")!.subscription_end, periodEnd);
+    assert.equal(evicted.length, 1);
+  });
+
+  test("rejects webhooks with a bad signature before touching data", async () => {
+    const checkout = await SubscriptionService.createCheckout(
+      "user-1",
+      "GOLD",
+      returnUrls
+    );
+    const { body } = provider.buildWebhook(
+      checkout.session_id,
+      "checkout.completed"
+    );
+
+    await assert.rejects(
+      SubscriptionService.handleWebhook(body, "0".repeat(64)),
+      /Invalid webhook signature/
+    );
+    assert.equal(processedEvents.size, 0);
+    assert.equal(users.get("user-1")!.subscription_type, "FREE");
+  });
+
+  test("refuses checkout for plans that cannot be purchased", async () => {
+    for (const planType of ["FREE", "ADMIN", "PLATINUM"]) {
+      await assert.rejects(
+        SubscriptionService.createCheckout("user-1", planType, returnUrls),
+        /cannot be purchased/
+      );
+    }
+    assert.equal(payments.size, 0);
+  });
+
+  test("downgrades lapsed plans and evicts their cached sessions", async () => {
+    const now = new Date();
+    addUser("lapsed", {
+      subscription_type: "GOLD",
+      subscription_end: new Date(now.getTime() - DAY_MS),
+    });
+    addUser("active", {
+      subscription_type: "PREMIUM",
+      subscription_end: new Date(now.getTime() + DAY_MS),
+    });
+    addUser("staff", { subscription_type: "PREMIUM", is_admin: true });
+
+    const count = await SubscriptionService.downgradeLapsedSubscriptions(now);
+
+    assert.equal(count, 1);
+    assert.equal(users.get("lapsed")!.subscription_type, "FREE");
+    assert.equal(users.get("active")!.subscription_type, "PREMIUM");
+    assert.equal(users.get("staff")!.subscription_type, "PREMIUM");
+    assert.deepEqual(evicted, ["lapsed"]);
+  });
+});
@@ -0,0 +1,409 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { getPlanPricing } from "../config/planLimits";
+import { getPaymentProvider } from "./payments";
+import { SessionService } from "./sessions";
+import { ProviderEvent } from "../types/payments";
+
+export const PAID_PLANS = ["GOLD", "PREMIUM"] as const;
+export type PaidPlan = (typeof PAID_PLANS)[number];
+
+export function isPaidPlan(planType: string): planType is PaidPlan {
+  return (PAID_PLANS as readonly string[]).includes(planType);
+}
+
+export interface CheckoutResult {
+  payment_id: number;
+  session_id: string;
+  checkout_url: string;
+  expires_at: Date | null;
+  amount: number;
+  currency: string;
+}
+
+export interface WebhookResult {
+  event_id: string;
+  type: ProviderEvent["type"];
+  duplicate: boolean;
+  payment_id: number | null;
+}
+
+export class SubscriptionService {
+  /**
+   * Start a checkout for a paid plan. The subscription only changes once the
+   * provider confirms payment through the webhook.
+   */
+  static async createCheckout(
+    userId: string,
+    planType: string,
+    returnUrls: { successUrl: string; cancelUrl: string }
+  ): Promise<CheckoutResult> {
+    const pricing = getPlanPricing(planType);
+    if (!pricing || !isPaidPlan(planType)) {
+      throw new Error(`Plan ${planType} cannot be purchased`);
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { user_id: userId },
+      select: { email: true },
+    });
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const provider = getPaymentProvider();
+    const payment = await prisma.subscriptionPayment.create({
+      data: {
+        user_id: userId,
+        plan_type: planType,
+        amount: pricing.amount,
+        currency: pricing.currency,
+        provider: provider.name,
+        status: "PENDING",
+      },
+    });
+
+    try {
+      const session = await provider.createCheckoutSession({
+        paymentId: payment.payment_id,
+        userId,
+        email: user.email,
+        planType,
+        amount: pricing.amount,
+        currency: pricing.currency,
+        successUrl: returnUrls.successUrl,
+        cancelUrl: returnUrls.cancelUrl,
+      });
+
+      await prisma.subscriptionPayment.update({
+        where: { payment_id: payment.payment_id },
+        data: { provider_session_id: session.id },
+      });
+
+      console.log(
+        `💳 Checkout session ${session.id} created for user ${userId} (${planType})`
+      );
+
+      return {
+        payment_id: payment.payment_id,
+        session_id: session.id,
+        checkout_url: session.url,
+        expires_at: session.expiresAt,
+        amount: pricing.amount,
+        currency: pricing.currency,
+      };
+    } catch (error) {
+      await prisma.subscriptionPayment.update({
+        where: { payment_id: payment.payment_id },
+        data: {
+          status: "FAILED",
+          failure_reason:
+            error instanceof Error ? error.message : "Checkout creation failed",
+        },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Status of a checkout the user started, polled by the client after it
+   * returns from the provider's hosted page
+   */
+  static async getCheckoutStatus(userId: string, sessionId: string) {
+    const payment = await prisma.subscriptionPayment.findUnique({
+      where: { provider_session_id: sessionId },
+    });
+
+    if (!payment || payment.user_id !== userId) {
+      return null;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { user_id: userId },
+      select: {
+        subscription_type: true,
+        subscription_start: true,
+        subscription_end: true,
+      },
+    });
+
+    return {
+      payment_id: payment.payment_id,
+      status: payment.status,
+      plan_type: payment.plan_type,
+      amount: payment.amount,
+      currency: payment.currency,
+      period_start: payment.period_start,
+      period_end: payment.period_end,
+      failure_reason: payment.failure_reason,
+      subscription: user,
+    };
+  }
+
+  /**
+   * Verify and apply a provider webhook. Safe to call repeatedly with the same
+   * event: processed event ids are recorded and replays are ignored.
+   */
+  static async handleWebhook(
+    rawBody: Buffer,
+    signature: string | undefined
+  ): Promise<WebhookResult> {
+    const provider = getPaymentProvider();
+    const event = provider.parseWebhookEvent(rawBody, signature);
+
+    if (event.type === "ignored") {
+      return {
+        event_id: event.id,
+        type: event.type,
+        duplicate: false,
+        payment_id: null,
+      };
+    }
+
+    let paidUserId: string | null = null;
+    try {
+      const result = await prisma.$transaction(async (tx) => {
+        // Primary key on event_id rejects concurrent deliveries of one event
+        await tx.paymentWebhookEvent.create({
+          data: {
+            event_id: event.id,
+            provider: provider.name,
+            type: event.type,
+            payload: event.raw,
+          },
+        });
+
+        const payment = event.sessionId
+          ? await tx.subscriptionPayment.findUnique({
+              where: { provider_session_id: event.sessionId },
+            })
+          : null;
+
+        if (!payment) {
+          console.warn(
+            `⚠️ Webhook ${event.id} references unknown session ${event.sessionId}`
+          );
+          return {
+            event_id: event.id,
+            type: event.type,
+            duplicate: false,
+            payment_id: null,
+          };
+        }
+
+        if (event.type === "checkout.completed") {
+          await this.applyCompletedPayment(tx, payment, event);
+          paidUserId = payment.user_id;
+        } else if (payment.status === "PENDING") {
+          await tx.subscriptionPayment.update({
+            where: { payment_id: payment.payment_id },
+            data: {
+              status: event.type === "checkout.expired" ? "EXPIRED" : "FAILED",
+              failure_reason: event.failureReason,
+            },
+          });
+        }
+
+        return {
+          event_id: event.id,
+          type: event.type,
+          duplicate: false,
+          payment_id: payment.payment_id,
+        };
+      });
+
+      // Cached sessions would keep showing the old plan for a few seconds
+      if (paidUserId) {
+        SessionService.evictUser(paidUserId);
+      }
+      return result;
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        console.log(`⏭️ Webhook event ${event.id} already processed`);
+        return {
+          event_id: event.id,
+          type: event.type,
+          duplicate: true,
+          payment_id: null,
+        };
+      }
+      throw error;
+    }
+  }
+
+  private static async applyCompletedPayment(
+    tx: Prisma.TransactionClient,
+    payment: Prisma.SubscriptionPaymentGetPayload<{}>,
+    event: ProviderEvent
+  ) {
+    if (payment.status === "COMPLETED") return;
+
+    const pricing = getPlanPricing(payment.plan_type);
+    const user = await tx.user.findUnique({
+      where: { user_id: payment.user_id },
+      select: {
+        subscription_type: true,
+        subscription_start: true,
+        subscription_end: true,
+      },
+    });
+    if (!pricing || !user) {
+      throw new Error(`Cannot apply payment ${payment.payment_id}`);
+    }
+
+    const now = new Date();
+
+    // Renewing the same plan extends the running period; switching plans
+    // starts a fresh period immediately
+    const isRenewal =
+      user.subscription_type === payment.plan_type &&
+      !!user.subscription_end &&
+      user.subscription_end > now;
+    const periodStart = isRenewal ? user.subscription_end! : now;
+    const periodEnd = new Date(periodStart);
+    periodEnd.setDate(periodEnd.getDate() + pricing.periodDays);
+
+    await tx.subscriptionPayment.update({
+      where: { payment_id: payment.payment_id },
+      data: {
+        status: "COMPLETED",
+        provider_payment_id: event.providerPaymentId,
+        payment_method: event.paymentMethod,
+        payment_date: now,
+        period_start: periodStart,
+        period_end: periodEnd,
+        failure_reason: null,
+      },
+    });
+
+    await tx.user.update({
+      where: { user_id: payment.user_id },
+      data: {
+        subscription_type: payment.plan_type,
+        subscription_start: isRenewal ? user.subscription_start : now,
+        subscription_end: periodEnd,
+      },
+    });
+
+    console.log(
+      `✅ Payment ${payment.payment_id} completed, ${payment.plan_type} active until ${periodEnd.toISOString()}`
+    );
+  }
+
+  static async getPaymentHistory(userId: string) {
+    return prisma.subscriptionPayment.findMany({
+      where: { user_id: userId },
+      orderBy: { created_at: "desc" },
+      select: {
+        payment_id: true,
+        plan_type: true,
+        amount: true,
+        currency: true,
+        status: true,
+        provider: true,
+        payment_method: true,
+        payment_date: true,
+        period_start: true,
+        period_end: true,
+        failure_reason: true,
+        created_at: true,
+      },
+    });
+  }
+
+  /**
+   * Admin grant of a paid plan without a payment. It runs for one billing
+   * period unless an end date is given.
+   */
+  static async grantPlan(
+    userId: string,
+    planType: PaidPlan,
+    subscriptionEnd?: Date
+  ) {
+    const now = new Date();
+    const periodEnd = subscriptionEnd || new Date(now);
+    if (!subscriptionEnd) {
+      periodEnd.setDate(
+        periodEnd.getDate() + (getPlanPricing(planType)?.periodDays || 30)
+      );
+    }
+
+    const user = await prisma.user.update({
+      where: { user_id: userId },
+      data: {
+        subscription_type: planType,
+        subscription_start: now,
+        subscription_end: periodEnd,
+      },
+      select: {
+        subscription_type: true,
+        subscription_start: true,
+        subscription_end: true,
+      },
+    });
+
+    SessionService.evictUser(userId);
+    return user;
+  }
+
+  /**
+   * Immediately move a user back to the FREE plan
+   */
+  static async downgradeToFree(userId: string) {
+    const user = await prisma.user.update({
+      where: { user_id: userId },
+      data: {
+        subscription_type: "FREE",
+        subscription_end: new Date(),
+      },
+      select: {
+        subscription_type: true,
+        subscription_start: true,
+        subscription_end: true,
+      },
+    });
+
+    SessionService.evictUser(userId);
+    return user;
+  }
+
+  /**
+   * Downgrade paid users whose period has ended without a renewal
+   */
+  static async downgradeLapsedSubscriptions(
+    now: Date = new Date()
+  ): Promise<number> {
+    const where: Prisma.UserWhereInput = {
+      subscription_type: { in: [...PAID_PLANS] },
+      OR: [
+        { subscription_end: { lt: now } },
+        // A paid plan with no end was never paid for; staff keep theirs
+        { subscription_end: null, is_admin: false, is_super_admin: false },
+      ],
+    };
+
+    const lapsed = await prisma.user.findMany({
+      where,
+      select: { user_id: true },
+    });
+    if (lapsed.length === 0) return 0;
+
+    // Re-check the lapse condition so a renewal landing in between is kept
+    const userIds = lapsed.map((user) => user.user_id);
+    const result = await prisma.user.updateMany({
+      where: { ...where, user_id: { in: userIds } },
+      data: { subscription_type: "FREE" },
+    });
+
+    // Cached sessions would keep serving the paid plan until they expire
+    userIds.forEach((userId) => SessionService.evictUser(userId));
+
+    if (result.count > 0) {
+      console.log(`⬇️ Downgraded ${result.count} lapsed subscriptions to FREE`);
+    }
+    return result.count;
+  }
+}
@@ -0,0 +1,216 @@
+import { prisma } from "../lib/database";
+import { EnhancedDailyGoalsService } from "./database/dailyGoals";
+import { ActivityMergeService } from "./activityMerge";
+import { WeightService } from "./weight";
+import { TimezoneService } from "./timezone";
+import {
+  DEVICE_EXPENDITURE_WEIGHT,
+  KCAL_PER_KG,
+  MIN_LOGGED_DAY_CALORIES,
+  MIN_LOGGED_DAYS_SHARE,
+  MIN_WEIGH_INS,
+  TDEE_WINDOWS_DAYS,
+} from "../config/tdee";
+import { TdeeEstimate, TdeeConfidenceLevel } from "../types/tdee";
+import { WeightTrendPoint } from "../types/weight";
+import { localDateString, startOfLocalDay } from "../utils/timezone";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateString = (date: Date) => date.toISOString().split("T")[0];
+
+const roundTo10 = (value: number) => Math.round(value / 10) * 10;
+
+const average = (values: number[]) =>
+  values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+const confidenceLevel = (confidence: number): TdeeConfidenceLevel =>
+  confidence >= 0.7 ? "high" : confidence >= 0.4 ? "medium" : "low";
+
+// Trend value on a date: the last point at or before it
+const trendAt = (points: WeightTrendPoint[], date: string) =>
+  [...points].reverse().find((point) => point.date <= date) ?? null;
+
+export class TdeeService {
+  /**
+   * Estimate maintenance calories from the last 2-4 weeks. Intake minus the
+   * energy of the weight trend's change gives what the user actually burns;
+   * it is blended with the questionnaire formula by confidence, which grows
+   * with logged days, weigh-ins and window length.
+   */
+  static async estimate(userId: string): Promise<TdeeEstimate> {
+    // Calendar days in the user's timezone, at UTC midnight
+    const timeZone = await TimezoneService.getUserTimeZone(userId);
+    const today = new Date(localDateString(new Date(), timeZone));
+    const longest = Math.max(...TDEE_WINDOWS_DAYS);
+    const since = new Date(today.getTime() - longest * DAY_MS);
+
+    const [user, questionnaire, meals, weightEntries, activityDays] =
+      await Promise.all([
+        prisma.user.findUnique({
+          where: { user_id: userId },
+          select: { adaptive_tdee_enabled: true },
+        }),
+        prisma.userQuestionnaire.findFirst({
+          where: { user_id: userId },
+          orderBy: { date_completed: "desc" },
+        }),
+        prisma.meal.findMany({
+          where: {
+            user_id: userId,
+            created_at: {
+              gte: startOfLocalDay(toDateString(since), timeZone),
+              lt: startOfLocalDay(toDateString(today), timeZone),
+            },
+          },
+          select: { created_at: true, calories: true },
+        }),
+        // A month before the window lets the trend settle
+        prisma.weightEntry.findMany({
+          where: {
+            user_id: userId,
+            date: { gte: new Date(since.getTime() - 30 * DAY_MS), lt: today },
+          },
+          orderBy: { measured_at: "asc" },
+        }),
+        ActivityMergeService.getMergedDays(
+          userId,
+          toDateString(since),
+          toDateString(new Date(today.getTime() - DAY_MS))
+        ),
+      ]);
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const formula = questionnaire
+      ? roundTo10(EnhancedDailyGoalsService.calculateFormulaTdee(questionnaire))
+      : null;
+
+    const intakeByDate = new Map<string, number>();
+    for (const meal of meals) {
+      const date = localDateString(meal.created_at, timeZone);
+      intakeByDate.set(
+        date,
+        (intakeByDate.get(date) || 0) + (meal.calories || 0)
+      );
+    }
+
+    const trend = WeightService.buildTrend(weightEntries);
+    const weighInDates = new Set(
+      weightEntries.map((entry) => toDateString(entry.date))
+    );
+
+    const result: TdeeEstimate = {
+      maintenance_calories: formula ?? 2000,
+      formula_calories: formula,
+      intake_based_calories: null,
+      device_based_calories: null,
+      confidence: 0,
+      confidence_level: "low",
+      window_days: null,
+      logged_days: 0,
+      weigh_ins: 0,
+      weight_change_kg: null,
+      average_intake_calories: null,
+      adaptive_tdee_enabled: user.adaptive_tdee_enabled,
+    };
+
+    for (const windowDays of TDEE_WINDOWS_DAYS) {
+      const start = toDateString(
+        new Date(today.getTime() - windowDays * DAY_MS)
+      );
+      const end = toDateString(new Date(today.getTime() - DAY_MS));
+
+      const loggedIntake = [...intakeByDate]
+        .filter(
+          ([date, calories]) =>
+            date >= start && date <= end && calories >= MIN_LOGGED_DAY_CALORIES
+        )
+        .map(([, calories]) => calories);
+      const weighIns = [...weighInDates].filter(
+        (date) => date >= start && date <= end
+      ).length;
+
+      result.logged_days = loggedIntake.length;
+      result.weigh_ins = weighIns;
+
+      if (
+        loggedIntake.length < windowDays * MIN_LOGGED_DAYS_SHARE ||
+        weighIns < MIN_WEIGH_INS
+      ) {
+        continue;
+      }
+
+      // The trend may only start inside the window for new users
+      const trendStart =
+        trendAt(trend, start) ?? trend.find((point) => point.date >= start);
+      const trendEnd = trendAt(trend, end);
+      if (!trendStart || !trendEnd) continue;
+
+      const spanDays =
+        (new Date(trendEnd.date).getTime() -
+          new Date(trendStart.date).getTime()) /
+        DAY_MS;
+      if (spanDays < 7) continue;
+
+      const changePerDay = (trendEnd.trend_kg - trendStart.trend_kg) / spanDays;
+      const averageIntake = average(loggedIntake)!;
+      const intakeBased = averageIntake - changePerDay * KCAL_PER_KG;
+
+      const deviceBased = average(
+        activityDays
+          .filter(
+            (day) =>
+              day.date >= start &&
+              day.date <= end &&
+              (day.calories_burned || 0) > 0 &&
+              (day.bmr_estimate || 0) > 0
+          )
+          .map((day) => day.calories_burned! + day.bmr_estimate!)
+      );
+
+      const observed =
+        deviceBased !== null
+          ? intakeBased * (1 - DEVICE_EXPENDITURE_WEIGHT) +
+            deviceBased * DEVICE_EXPENDITURE_WEIGHT
+          : intakeBased;
+
+      const confidence =
+        Math.min(1, loggedIntake.length / windowDays) *
+        Math.min(1, weighIns / ((windowDays / 7) * 2)) *
+        Math.sqrt(windowDays / longest);
+
+      result.window_days = windowDays;
+      result.average_intake_calories = roundTo10(averageIntake);
+      result.weight_change_kg =
+        Math.round((trendEnd.trend_kg - trendStart.trend_kg) * 100) / 100;
+      result.intake_based_calories = roundTo10(intakeBased);
+      result.device_based_calories =
+        deviceBased !== null ? roundTo10(deviceBased) : null;
+      result.confidence = Math.round(confidence * 100) / 100;
+      result.confidence_level = confidenceLevel(confidence);
+      result.maintenance_calories = roundTo10(
+        formula !== null
+          ? formula * (1 - confidence) + observed * confidence
+          : observed
+      );
+      break;
+    }
+
+    return result;
+  }
+
+  static async updateSettings(userId: string, enabled: boolean) {
+    await prisma.user.update({
+      where: { user_id: userId },
+      data: { adaptive_tdee_enabled: enabled },
+    });
+    console.log(
+      `⚡ Adaptive TDEE ${enabled ? "enabled" : "disabled"} for user:`,
+      userId
+    );
+    return this.estimate(userId);
+  }
+}
@@ -0,0 +1,68 @@
+import { prisma } from "../lib/database";
+import {
+  isValidTimeZone,
+  localDateString,
+  localDayRange,
+} from "../utils/timezone";
+
+const timeZoneCache = new Map<
+  string,
+  { timeZone: string; timestamp: number }
+>();
+const CACHE_DURATION = 10 * 60 * 1000; // 10 minutes
+
+/**
+ * Days (meals, goals, water, streaks) are counted in each user's own
+ * timezone. Calendar-day columns hold that local day at UTC midnight.
+ */
+export class TimezoneService {
+  static async getUserTimeZone(userId: string): Promise<string> {
+    const cached = timeZoneCache.get(userId);
+    if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
+      return cached.timeZone;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { user_id: userId },
+      select: { timezone: true },
+    });
+    // A zone dropped from the runtime's tz database falls back to UTC
+    const timeZone =
+      user && isValidTimeZone(user.timezone) ? user.timezone : "UTC";
+
+    timeZoneCache.set(userId, { timeZone, timestamp: Date.now() });
+    return timeZone;
+  }
+
+  static async setUserTimeZone(userId: string, timeZone: string) {
+    if (!isValidTimeZone(timeZone)) {
+      throw new Error("Invalid IANA timezone");
+    }
+
+    await prisma.user.update({
+      where: { user_id: userId },
+      data: { timezone: timeZone },
+    });
+    timeZoneCache.set(userId, { timeZone, timestamp: Date.now() });
+    console.log("🌍 Timezone set for user:", userId, timeZone);
+  }
+
+  static clearCache(userId: string) {
+    timeZoneCache.delete(userId);
+  }
+
+  /**
+   * The user's current calendar day (YYYY-MM-DD), or the day an instant
+   * falls on for them
+   */
+  static async getUserDate(userId: string, at = new Date()): Promise<string> {
+    return localDateString(at, await this.getUserTimeZone(userId));
+  }
+
+  /**
+   * Instants covering one of the user's calendar days, end exclusive
+   */
+  static async getUserDayRange(userId: string, date: string) {
+    return localDayRange(date, await this.getUserTimeZone(userId));
+  }
+}
@@ -1,5 +1,8 @@
 import { prisma } from "../lib/database";
-import { PLAN_LIMITS } from "../config/planLimits";
+import { getEntitlements, getTiersWithFeature } from "../config/planLimits";
+
+// Message-metered plans count every 100 chat tokens as one message
+const TOKENS_PER_MESSAGE = 100;
 
 export class UsageTrackingService {
   static async checkAndResetIfNeeded(userId: string): Promise<void> {
@@ -51,8 +54,8 @@ export class UsageTrackingService {
   static async checkMealScanLimit(userId: string): Promise<{
     allowed: boolean;
     current: number;
-    limit: number;
-    remaining: number;
+    limit: number | null;
+    remaining: number | null;
     message?: string;
   }> {
     await this.checkAndResetIfNeeded(userId);
@@ -75,9 +78,19 @@ export class UsageTrackingService {
       };
     }
 
-    const planLimits = PLAN_LIMITS[user.subscription_type] || PLAN_LIMITS.FREE;
-    const limit = planLimits.mealScansPerMonth;
+    const limit = getEntitlements(user.subscription_type).quotas
+      .mealScansPerMonth;
     const current = user.meal_scans_count;
+
+    if (limit === null) {
+      return {
+        allowed: true,
+        current,
+        limit: null,
+        remaining: null,
+      };
+    }
+
     const remaining = Math.max(0, limit - current);
 
     if (current >= limit) {
@@ -139,22 +152,35 @@ export class UsageTrackingService {
       };
     }
 
-    if (user.subscription_type === "FREE") {
+    const quota = getEntitlements(user.subscription_type).quotas.aiChat;
+
+    if (!quota) {
+      const upgradeTo = getTiersWithFeature("aiChat")
+        .map((tier) => getEntitlements(tier).name)
+        .join(" or ");
       return {
         allowed: false,
         current: 0,
         limit: 0,
         remaining: 0,
-        message:
-          "AI Chat is not available on the Free plan. Please upgrade to Gold or PREMIUM plan.",
+        message: `AI Chat is not available on your plan. Please upgrade to ${upgradeTo}.`,
       };
     }
 
-    const planLimits = PLAN_LIMITS[user.subscription_type] || PLAN_LIMITS.FREE;
+    if (quota.perMonth === null) {
+      return {
+        allowed: true,
+        current: user.ai_chat_tokens_used,
+        limit: null,
+        remaining: null,
+      };
+    }
 
-    if (user.subscription_type === "GOLD") {
-      const messagesLimit = planLimits.aiChatMessagesEstimate || 100;
-      const currentMessages = Math.floor(user.ai_chat_tokens_used / 100);
+    if (quota.unit === "messages") {
+      const messagesLimit = quota.perMonth;
+      const currentMessages = Math.floor(
+        user.ai_chat_tokens_used / TOKENS_PER_MESSAGE
+      );
       const remaining = Math.max(0, messagesLimit - currentMessages);
 
       if (currentMessages >= messagesLimit) {
@@ -163,7 +189,7 @@ export class UsageTrackingService {
           current: currentMessages,
           limit: messagesLimit,
           remaining: 0,
-          message: `You have reached your monthly limit of ${messagesLimit} AI chat messages. Upgrade to PREMIUM for more messages.`,
+          message: `You have reached your monthly limit of ${messagesLimit} AI chat messages. Your limit will reset next month.`,
         };
       }
 
@@ -175,35 +201,25 @@ export class UsageTrackingService {
       };
     }
 
-    if (user.subscription_type === "PREMIUM") {
-      const tokensLimit = planLimits.aiChatTokensPerMonth || 1000;
-      const current = user.ai_chat_tokens_used;
-      const remaining = Math.max(0, tokensLimit - current);
-
-      if (current + estimatedTokens > tokensLimit) {
-        return {
-          allowed: false,
-          current,
-          limit: tokensLimit,
-          remaining,
-          message: `You have reached your monthly limit of ${tokensLimit} AI chat tokens. Your limit will reset next month.`,
-        };
-      }
+    const tokensLimit = quota.perMonth;
+    const current = user.ai_chat_tokens_used;
+    const remaining = Math.max(0, tokensLimit - current);
 
+    if (current + estimatedTokens > tokensLimit) {
       return {
-        allowed: true,
+        allowed: false,
         current,
         limit: tokensLimit,
         remaining,
+        message: `You have reached your monthly limit of ${tokensLimit} AI chat tokens. Your limit will reset next month.`,
       };
     }
 
     return {
-      allowed: false,
-      current: 0,
-      limit: 0,
-      remaining: 0,
-      message: "Unknown subscription type",
+      allowed: true,
+      current,
+      limit: tokensLimit,
+      remaining,
     };
   }
 
@@ -225,11 +241,12 @@ export class UsageTrackingService {
     subscriptionType: string;
     mealScans: {
       current: number;
-      limit: number;
-      remaining: number;
+      limit: number | null;
+      remaining: number | null;
       resetDate: Date;
     };
     aiChat: {
+      unit: "messages" | "tokens" | null;
       current: number;
       limit: number | null;
       remaining: number | null;
@@ -254,27 +271,27 @@ export class UsageTrackingService {
       throw new Error("User not found");
     }
 
-    const planLimits = PLAN_LIMITS[user.subscription_type] || PLAN_LIMITS.FREE;
+    const { quotas } = getEntitlements(user.subscription_type);
 
-    const mealScansLimit = planLimits.mealScansPerMonth;
-    const mealScansRemaining = Math.max(
-      0,
-      mealScansLimit - user.meal_scans_count
-    );
+    const mealScansLimit = quotas.mealScansPerMonth;
+    const mealScansRemaining =
+      mealScansLimit === null
+        ? null
+        : Math.max(0, mealScansLimit - user.meal_scans_count);
 
     let aiChatLimit: number | null = null;
     let aiChatRemaining: number | null = null;
     let messagesEstimate: number | undefined;
 
-    if (user.subscription_type === "GOLD") {
-      messagesEstimate = planLimits.aiChatMessagesEstimate || 100;
-      const currentMessages = Math.floor(user.ai_chat_tokens_used / 100);
-      aiChatLimit = messagesEstimate;
-      aiChatRemaining = Math.max(0, messagesEstimate - currentMessages);
-    } else if (user.subscription_type === "PREMIUM") {
-      aiChatLimit = planLimits.aiChatTokensPerMonth || 1000;
-      aiChatRemaining = Math.max(0, aiChatLimit - user.ai_chat_tokens_used);
-      messagesEstimate = planLimits.aiChatMessagesEstimate || 20;
+    if (quotas.aiChat?.perMonth != null) {
+      aiChatLimit = quotas.aiChat.perMonth;
+      messagesEstimate = quotas.aiChat.messagesEstimate ?? undefined;
+
+      const used =
+        quotas.aiChat.unit === "messages"
+          ? Math.floor(user.ai_chat_tokens_used / TOKENS_PER_MESSAGE)
+          : user.ai_chat_tokens_used;
+      aiChatRemaining = Math.max(0, aiChatLimit - used);
     }
 
     return {
@@ -286,6 +303,7 @@ export class UsageTrackingService {
         resetDate: user.meal_scans_reset_at,
       },
       aiChat: {
+        unit: quotas.aiChat?.unit ?? null,
         current: user.ai_chat_tokens_used,
         limit: aiChatLimit,
         remaining: aiChatRemaining,
@@ -1,120 +1,16 @@
-import cron from "node-cron";
 import { PrismaClient } from "@prisma/client";
+import { SessionService } from "./sessions";
 
 const prisma = new PrismaClient();
 
+/**
+ * Account purges. Deciding which accounts to delete is left to admins and
+ * the retention policies in RetentionService.
+ */
 export class UserCleanupService {
-  static initializeCleanupJobs() {
-    console.log("🧹 Initializing user cleanup jobs...");
-
-    // Run cleanup every hour
-    cron.schedule("0 * * * *", async () => {
-      try {
-        await UserCleanupService.cleanupUnpaidUsers();
-        await UserCleanupService.cleanupFreeUserQuestionnaires();
-      } catch (error) {
-        console.error("❌ User cleanup error:", error);
-      }
-    });
-
-    console.log("✅ User cleanup jobs initialized");
-  }
-
-  /**
-   * Delete users who haven't completed payment within 24 hours of questionnaire completion
-   */
-  static async cleanupUnpaidUsers() {
-    const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
-
-    try {
-      // Find users who completed questionnaire more than 24h ago but still have FREE subscription
-      const usersToDelete = await prisma.user.findMany({
-        where: {
-          is_questionnaire_completed: true,
-          subscription_type: "FREE", // Changed from null to "FREE"
-          created_at: {
-            // Changed from updated_at to created_at
-            lt: twentyFourHoursAgo,
-          },
-        },
-      });
-
-      if (usersToDelete.length > 0) {
-        console.log(
-          `🗑 Found ${usersToDelete.length} users to delete (no payment within 24h)`
-        );
-
-        for (const user of usersToDelete) {
-          await UserCleanupService.deleteUserCompletely(user.user_id);
-          console.log(`✅ Deleted user: ${user.email} (ID: ${user.user_id})`);
-        }
-
-        console.log(
-          `✅ Cleanup completed: ${usersToDelete.length} unpaid users deleted`
-        );
-      }
-    } catch (error) {
-      console.error("❌ Error cleaning up unpaid users:", error);
-    }
-  }
-
-  /**
-   * Delete questionnaire data for FREE users after 7 days, reset questionnaire flag
-   */
-  static async cleanupFreeUserQuestionnaires() {
-    const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
-
-    try {
-      // Find FREE users whose questionnaire data is older than 7 days
-      const freeUsersToCleanup = await prisma.user.findMany({
-        where: {
-          subscription_type: {
-            equals: "FREE",
-          },
-          is_questionnaire_completed: true,
-          created_at: {
-            // Changed from updated_at to created_at
-            lt: sevenDaysAgo,
-          },
-        },
-      });
-
-      if (freeUsersToCleanup.length > 0) {
-        console.log(
-          `🧹 Found ${freeUsersToCleanup.length} FREE users for questionnaire cleanup`
-        );
-
-        for (const user of freeUsersToCleanup) {
-          // Delete questionnaire data
-          await prisma.userQuestionnaire.deleteMany({
-            where: { user_id: user.user_id },
-          });
-
-          // Reset questionnaire completion flag
-          await prisma.user.update({
-            where: { user_id: user.user_id },
-            data: {
-              is_questionnaire_completed: false,
-            },
-          });
-
-          console.log(
-            `✅ Cleaned questionnaire data for FREE user: ${user.email}`
-          );
-        }
-
-        console.log(
-          `✅ FREE user questionnaire cleanup completed: ${freeUsersToCleanup.length} users processed`
-        );
-      }
-    } catch (error) {
-      console.error("❌ Error cleaning up FREE user questionnaires:", error);
-    }
-  }
-
   /**
    * Completely delete a user and all related data
-   * This should ONLY be called when user explicitly requests deletion
+   * Callers record the deletion in the audit log (see RetentionService)
    */
   static async deleteUserCompletely(userId: string) {
     try {
@@ -136,14 +32,38 @@ export class UserCleanupService {
         await tx.userAchievement.deleteMany({ where: { user_id: userId } });
         await tx.shoppingList.deleteMany({ where: { user_id: userId } });
         await tx.meal.deleteMany({ where: { user_id: userId } });
+        await tx.recipe.deleteMany({ where: { user_id: userId } });
+        await tx.favoriteMeal.deleteMany({ where: { user_id: userId } });
         await tx.subscriptionPayment.deleteMany({ where: { user_id: userId } });
         await tx.userBadge.deleteMany({ where: { user_id: userId } });
         await tx.gamificationBadge.deleteMany({ where: { user_id: userId } });
+        await tx.challengeParticipant.deleteMany({
+          where: { user_id: userId },
+        });
+        await tx.xpTransaction.deleteMany({ where: { user_id: userId } });
         await tx.waterIntake.deleteMany({ where: { user_id: userId } });
-        await tx.foodProduct.deleteMany({ where: { user_id: userId } });
+        await tx.drinkLog.deleteMany({ where: { user_id: userId } });
+        await tx.containerPreset.deleteMany({ where: { user_id: userId } });
+        await tx.dataExport.deleteMany({ where: { user_id: userId } });
+        await tx.pushToken.deleteMany({ where: { user_id: userId } });
+        // Scanned products are shared; only the user's own records go
+        await tx.productScan.deleteMany({ where: { user_id: userId } });
+        await tx.foodProductOverride.deleteMany({ where: { user_id: userId } });
+        await tx.foodProductCorrection.deleteMany({
+          where: { user_id: userId },
+        });
+        await tx.foodProduct.updateMany({
+          where: { user_id: userId },
+          data: { user_id: null },
+        });
         await tx.mealCompletion.deleteMany({ where: { user_id: userId } });
         await tx.aiRecommendation.deleteMany({ where: { user_id: userId } });
         await tx.menuReview.deleteMany({ where: { user_id: userId } });
+        await tx.activitySample.deleteMany({ where: { user_id: userId } });
+        await tx.weightEntry.deleteMany({ where: { user_id: userId } });
+        await tx.activityMetricPriority.deleteMany({
+          where: { user_id: userId },
+        });
         await tx.dailyActivitySummary.deleteMany({
           where: { user_id: userId },
         });
@@ -151,6 +71,7 @@ export class UserCleanupService {
         // Delete user last
         await tx.user.delete({ where: { user_id: userId } });
       });
+      SessionService.evictUser(userId);
 
       console.log(
         `✅ Successfully deleted user and all related data: ${userId}`
@@ -161,14 +82,4 @@ export class UserCleanupService {
       throw error;
     }
   }
-
-  /**
-   * Manual cleanup trigger (for testing or admin use)
-   */
-  static async triggerManualCleanup() {
-    console.log("🔧 Manual cleanup triggered");
-    await UserCleanupService.cleanupUnpaidUsers();
-    await UserCleanupService.cleanupFreeUserQuestionnaires();
-    console.log("✅ Manual cleanup completed");
-  }
 }
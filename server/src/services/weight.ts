@@ -0,0 +1,344 @@
+import { WeightEntry } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { EnhancedDailyGoalsService } from "./database/dailyGoals";
+import { TimezoneService } from "./timezone";
+import {
+  GOAL_RECALC_THRESHOLD_KG,
+  WEIGHT_RATE_WINDOW_DAYS,
+  WEIGHT_TREND_SMOOTHING,
+} from "../config/weight";
+import {
+  CreateWeightEntryInput,
+  UpdateWeightEntryInput,
+  WeightProgress,
+  WeightTrendPoint,
+} from "../types/weight";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateString = (date: Date) => date.toISOString().split("T")[0];
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export class WeightService {
+  static async getEntries(userId: string, days = 90) {
+    return prisma.weightEntry.findMany({
+      where: {
+        user_id: userId,
+        measured_at: { gte: new Date(Date.now() - days * DAY_MS) },
+      },
+      include: { device: { select: { device_name: true, device_type: true } } },
+      orderBy: { measured_at: "desc" },
+    });
+  }
+
+  static async addEntry(userId: string, input: CreateWeightEntryInput) {
+    const measuredAt = input.measured_at
+      ? new Date(input.measured_at)
+      : new Date();
+
+    const entry = await prisma.weightEntry.create({
+      data: {
+        user_id: userId,
+        source: "MANUAL",
+        measured_at: measuredAt,
+        date: new Date(await TimezoneService.getUserDate(userId, measuredAt)),
+        weight_kg: input.weight_kg,
+        body_fat_percentage: input.body_fat_percentage,
+        note: input.note,
+      },
+    });
+
+    console.log("⚖️ Logged weigh-in for user:", userId, entry.weight_kg);
+    await this.recalculateGoalsIfChanged(userId);
+    return entry;
+  }
+
+  static async updateEntry(
+    userId: string,
+    entryId: number,
+    input: UpdateWeightEntryInput
+  ) {
+    const existing = await prisma.weightEntry.findFirst({
+      where: { weight_entry_id: entryId, user_id: userId },
+    });
+    if (!existing) {
+      throw new Error("Weight entry not found");
+    }
+
+    const measuredAt = input.measured_at
+      ? new Date(input.measured_at)
+      : undefined;
+
+    const entry = await prisma.weightEntry.update({
+      where: { weight_entry_id: entryId },
+      data: {
+        weight_kg: input.weight_kg,
+        body_fat_percentage: input.body_fat_percentage,
+        note: input.note,
+        measured_at: measuredAt,
+        date: measuredAt
+          ? new Date(await TimezoneService.getUserDate(userId, measuredAt))
+          : undefined,
+      },
+    });
+
+    await this.recalculateGoalsIfChanged(userId);
+    return entry;
+  }
+
+  static async deleteEntry(userId: string, entryId: number) {
+    const result = await prisma.weightEntry.deleteMany({
+      where: { weight_entry_id: entryId, user_id: userId },
+    });
+    if (result.count === 0) {
+      throw new Error("Weight entry not found");
+    }
+  }
+
+  /**
+   * Record the weight from a device's daily summary, one entry per device
+   * per day
+   */
+  static async importFromDevice(
+    device: { connected_device_id: string; user_id: string },
+    date: string,
+    weightKg: number,
+    bodyFatPercentage?: number
+  ) {
+    const entry = await prisma.weightEntry.upsert({
+      where: {
+        device_id_date: {
+          device_id: device.connected_device_id,
+          date: new Date(date),
+        },
+      },
+      update: {
+        weight_kg: weightKg,
+        body_fat_percentage: bodyFatPercentage,
+      },
+      create: {
+        user_id: device.user_id,
+        device_id: device.connected_device_id,
+        source: "DEVICE",
+        measured_at: new Date(date),
+        date: new Date(date),
+        weight_kg: weightKg,
+        body_fat_percentage: bodyFatPercentage,
+      },
+    });
+
+    await this.recalculateGoalsIfChanged(device.user_id);
+    return entry;
+  }
+
+  /**
+   * Daily trend line: each day's average weigh-in pulls the trend a fixed
+   * share of the way towards it, days without one carry it forward
+   */
+  static buildTrend(entries: WeightEntry[]): WeightTrendPoint[] {
+    if (entries.length === 0) return [];
+
+    const byDate = new Map<string, WeightEntry[]>();
+    for (const entry of entries) {
+      const date = toDateString(entry.date);
+      byDate.set(date, [...(byDate.get(date) || []), entry]);
+    }
+
+    const dates = [...byDate.keys()].sort();
+    const last = new Date(dates[dates.length - 1]).getTime();
+    const points: WeightTrendPoint[] = [];
+    let trend: number | null = null;
+
+    for (let day = new Date(dates[0]).getTime(); day <= last; day += DAY_MS) {
+      const date = toDateString(new Date(day));
+      const dayEntries = byDate.get(date);
+      let weight: number | null = null;
+      let bodyFat: number | null = null;
+
+      if (dayEntries) {
+        weight =
+          dayEntries.reduce((sum, entry) => sum + entry.weight_kg, 0) /
+          dayEntries.length;
+        bodyFat =
+          dayEntries.find((entry) => entry.body_fat_percentage !== null)
+            ?.body_fat_percentage ?? null;
+        trend =
+          trend === null
+            ? weight
+            : trend + WEIGHT_TREND_SMOOTHING * (weight - trend);
+      }
+
+      points.push({
+        date,
+        weight_kg: weight !== null ? round1(weight) : null,
+        trend_kg: Math.round(trend! * 100) / 100,
+        body_fat_percentage: bodyFat,
+      });
+    }
+
+    return points;
+  }
+
+  /**
+   * Change in kg per week, from a least-squares fit of the recent trend
+   */
+  static weeklyRate(points: WeightTrendPoint[]): number | null {
+    const recent = points.slice(-WEIGHT_RATE_WINDOW_DAYS);
+    const weighIns = recent.filter((point) => point.weight_kg !== null);
+    if (recent.length < 7 || weighIns.length < 2) return null;
+
+    const n = recent.length;
+    const meanX = (n - 1) / 2;
+    const meanY = recent.reduce((sum, point) => sum + point.trend_kg, 0) / n;
+    let numerator = 0;
+    let denominator = 0;
+    recent.forEach((point, x) => {
+      numerator += (x - meanX) * (point.trend_kg - meanY);
+      denominator += (x - meanX) ** 2;
+    });
+
+    return Math.round((numerator / denominator) * 7 * 100) / 100;
+  }
+
+  static async getTrend(
+    userId: string,
+    days = 90
+  ): Promise<WeightTrendPoint[]> {
+    const from = toDateString(new Date(Date.now() - days * DAY_MS));
+    // Start the trend a month earlier so it has settled by the first day shown
+    const entries = await prisma.weightEntry.findMany({
+      where: {
+        user_id: userId,
+        date: { gte: new Date(new Date(from).getTime() - 30 * DAY_MS) },
+      },
+      orderBy: { measured_at: "asc" },
+    });
+
+    return this.buildTrend(entries).filter((point) => point.date >= from);
+  }
+
+  static async getProgress(userId: string): Promise<WeightProgress> {
+    const [questionnaire, firstEntry, lastEntry, trend] = await Promise.all([
+      prisma.userQuestionnaire.findFirst({
+        where: { user_id: userId },
+        orderBy: { date_completed: "desc" },
+      }),
+      prisma.weightEntry.findFirst({
+        where: { user_id: userId },
+        orderBy: { measured_at: "asc" },
+      }),
+      prisma.weightEntry.findFirst({
+        where: { user_id: userId },
+        orderBy: { measured_at: "desc" },
+      }),
+      this.getTrend(userId, WEIGHT_RATE_WINDOW_DAYS * 2),
+    ]);
+
+    const profileWeight = questionnaire?.weight_kg ?? null;
+    const trendWeight = trend.length ? trend[trend.length - 1].trend_kg : null;
+    const currentWeight = trendWeight ?? lastEntry?.weight_kg ?? profileWeight;
+    const target = questionnaire?.target_weight_kg ?? null;
+    const weeklyRate = this.weeklyRate(trend);
+    const today = new Date(await TimezoneService.getUserDate(userId));
+
+    const goalDate =
+      questionnaire?.goal_timeframe_days && target !== null
+        ? new Date(
+            new Date(toDateString(questionnaire.date_completed)).getTime() +
+              questionnaire.goal_timeframe_days * DAY_MS
+          )
+        : null;
+
+    let projectedGoalDate: Date | null = null;
+    let requiredWeeklyRate: number | null = null;
+
+    if (target !== null && currentWeight !== null) {
+      const remaining = target - currentWeight;
+
+      if (Math.abs(remaining) < 0.25) {
+        projectedGoalDate = today;
+      } else if (
+        weeklyRate !== null &&
+        Math.abs(weeklyRate) >= 0.01 &&
+        Math.sign(weeklyRate) === Math.sign(remaining)
+      ) {
+        const daysToGoal = Math.ceil((remaining / weeklyRate) * 7);
+        projectedGoalDate = new Date(today.getTime() + daysToGoal * DAY_MS);
+      }
+
+      if (goalDate && goalDate > today) {
+        const weeksLeft = (goalDate.getTime() - today.getTime()) / DAY_MS / 7;
+        requiredWeeklyRate = Math.round((remaining / weeksLeft) * 100) / 100;
+      }
+    }
+
+    return {
+      current_weight_kg: lastEntry?.weight_kg ?? profileWeight,
+      trend_weight_kg: trendWeight,
+      start_weight_kg: firstEntry?.weight_kg ?? profileWeight,
+      target_weight_kg: target,
+      weekly_rate_kg: weeklyRate,
+      goal_date: goalDate ? toDateString(goalDate) : null,
+      projected_goal_date: projectedGoalDate
+        ? toDateString(projectedGoalDate)
+        : null,
+      required_weekly_rate_kg: requiredWeeklyRate,
+      on_track:
+        goalDate && projectedGoalDate ? projectedGoalDate <= goalDate : null,
+      last_source: lastEntry?.source ?? null,
+    };
+  }
+
+  /**
+   * Goals are calculated from the questionnaire weight. Once the trend has
+   * moved past the threshold, update it and recalculate today's goal if one
+   * was already created; later days pick the new weight up on creation.
+   */
+  private static async recalculateGoalsIfChanged(userId: string) {
+    try {
+      const questionnaire = await prisma.userQuestionnaire.findFirst({
+        where: { user_id: userId },
+        orderBy: { date_completed: "desc" },
+      });
+      if (!questionnaire) return;
+
+      const trend = await this.getTrend(userId, 14);
+      if (trend.length === 0) return;
+      const latest = trend[trend.length - 1];
+
+      if (
+        Math.abs(latest.trend_kg - questionnaire.weight_kg) <
+        GOAL_RECALC_THRESHOLD_KG
+      ) {
+        return;
+      }
+
+      await prisma.userQuestionnaire.update({
+        where: { questionnaire_id: questionnaire.questionnaire_id },
+        data: {
+          weight_kg: round1(latest.trend_kg),
+          body_fat_percentage:
+            latest.body_fat_percentage ?? questionnaire.body_fat_percentage,
+        },
+      });
+      console.log(
+        `⚖️ Weight moved ${questionnaire.weight_kg} → ${round1(
+          latest.trend_kg
+        )} kg for user ${userId}, recalculating goals`
+      );
+
+      const todayGoal = await prisma.dailyGoal.findFirst({
+        where: {
+          user_id: userId,
+          date: new Date(await TimezoneService.getUserDate(userId)),
+        },
+      });
+      if (todayGoal) {
+        await EnhancedDailyGoalsService.forceCreateDailyGoalsForUser(userId);
+      }
+    } catch (error) {
+      console.error("💥 Error recalculating goals after weigh-in:", error);
+    }
+  }
+}
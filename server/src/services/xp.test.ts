@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { XpService } from "./xp";
+import { XP_PER_LEVEL } from "../config/xp";
+import { stubPrisma } from "../test/stubPrisma";
+
+interface UserRow {
+  user_id: string;
+  level: number | null;
+  current_xp: number | null;
+  total_points: number | null;
+}
+
+const totals = (points: number) => ({
+  total_points: points,
+  current_xp: points % XP_PER_LEVEL,
+  level: Math.floor(points / XP_PER_LEVEL) + 1,
+});
+
+describe("XpService.reconcileAll", () => {
+  let users: UserRow[];
+  let ledger: { user_id: string; amount: number }[];
+  let updates: { user_id: string; data: object }[];
+  let restorePrisma: () => void;
+
+  const ledgerSum = (userId: string) =>
+    ledger
+      .filter((row) => row.user_id === userId)
+      .reduce((sum, row) => sum + row.amount, 0);
+
+  beforeEach(() => {
+    users = [];
+    ledger = [];
+    updates = [];
+
+    const tx = {
+      $queryRaw: async (_query: TemplateStringsArray, userId: string) =>
+        users
+          .filter((user) => user.user_id === userId)
+          .map((user) => ({ ...user })),
+      xpTransaction: {
+        aggregate: async ({ where }: any) => ({
+          _sum: { amount: ledgerSum(where.user_id) },
+        }),
+      },
+      user: {
+        update: async ({ where, data }: any) => {
+          updates.push({ user_id: where.user_id, data });
+          Object.assign(
+            users.find((user) => user.user_id === where.user_id)!,
+            data
+          );
+        },
+      },
+    };
+
+    restorePrisma = stubPrisma({
+      $transaction: async (run: (client: typeof tx) => unknown) => run(tx),
+      xpTransaction: {
+        groupBy: async () => {
+          const snapshot = [...new Set(ledger.map((row) => row.user_id))].map(
+            (user_id) => ({ user_id, _sum: { amount: ledgerSum(user_id) } })
+          );
+          // An award commits after the sums were read
+          ledger.push({ user_id: "user-1", amount: 50 });
+          users[0].total_points! += 50;
+          Object.assign(users[0], totals(users[0].total_points!));
+          return snapshot;
+        },
+      },
+      user: {
+        findMany: async ({ cursor }: any) => (cursor ? [] : users),
+      },
+    });
+  });
+
+  afterEach(() => {
+    restorePrisma();
+  });
+
+  test("keeps XP awarded after the ledger sums were read", async () => {
+    ledger.push({ user_id: "user-1", amount: 100 });
+    users.push({ user_id: "user-1", ...totals(100) });
+
+    const result = await XpService.reconcileAll();
+
+    assert.equal(result.checked, 1);
+    assert.deepEqual(result.corrected, []);
+    assert.deepEqual(updates, []);
+    assert.equal(users[0].total_points, 150);
+  });
+
+  test("corrects totals changed outside the ledger", async () => {
+    ledger.push({ user_id: "user-1", amount: 100 });
+    users.push({ user_id: "user-1", ...totals(100) });
+    users.push({ user_id: "user-2", ...totals(5000) });
+    ledger.push({ user_id: "user-2", amount: 30 });
+
+    const result = await XpService.reconcileAll();
+
+    assert.deepEqual(result.corrected, [
+      { user_id: "user-2", from: 5000, to: 30 },
+    ]);
+    assert.deepEqual(users[1], { user_id: "user-2", ...totals(30) });
+    assert.equal(users[0].total_points, 150);
+  });
+});
@@ -0,0 +1,268 @@
+import crypto from "crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { XP_PER_LEVEL, XP_RECONCILE_BATCH_SIZE } from "../config/xp";
+import {
+  XpAdjustmentInput,
+  XpAwardInput,
+  XpAwardResult,
+  XpHistory,
+  XpHistoryQuery,
+  XpTotals,
+} from "../types/xp";
+
+const totalsFor = (sum: number): XpTotals => {
+  const totalPoints = Math.max(sum, 0);
+  return {
+    total_points: totalPoints,
+    current_xp: totalPoints % XP_PER_LEVEL,
+    level: Math.floor(totalPoints / XP_PER_LEVEL) + 1,
+  };
+};
+
+const matchesTotals = (
+  user: {
+    level: number | null;
+    current_xp: number | null;
+    total_points: number | null;
+  },
+  expected: XpTotals
+) =>
+  user.total_points === expected.total_points &&
+  user.current_xp === expected.current_xp &&
+  user.level === expected.level;
+
+const isDuplicateKey = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError &&
+  error.code === "P2002";
+
+export class XpService {
+  /**
+   * Append a transaction to the user's XP ledger and re-derive their level,
+   * current XP and total points from it. Reusing an idempotency key awards
+   * nothing and returns the current totals.
+   */
+  static async award(input: XpAwardInput): Promise<XpAwardResult> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        // Lock the user row so concurrent awards sum each other's entries
+        const [user] = await tx.$queryRaw<{ level: number | null }[]>`
+          SELECT "level" FROM "User" WHERE "user_id" = ${input.userId} FOR UPDATE`;
+        if (!user) {
+          throw new Error("User not found");
+        }
+
+        await tx.xpTransaction.create({
+          data: {
+            user_id: input.userId,
+            source: input.source,
+            reason: input.reason,
+            amount: input.amount,
+            idempotency_key: input.idempotencyKey,
+            actor_id: input.actorId,
+          },
+        });
+
+        const totals = await this.applyTotals(tx, input.userId);
+        const previousLevel = user.level || 1;
+        if (totals.level > previousLevel) {
+          console.log(
+            `🎉 User leveled up from ${previousLevel} to ${totals.level}!`
+          );
+        }
+        console.log(
+          `✅ ${input.amount >= 0 ? "+" : ""}${input.amount} XP for user ${input.userId} (${input.reason}), Level: ${totals.level}, Current XP: ${totals.current_xp}/${XP_PER_LEVEL}`
+        );
+
+        return {
+          awarded: true,
+          leveled_up: totals.level > previousLevel,
+          previous_level: previousLevel,
+          ...totals,
+        };
+      });
+    } catch (error) {
+      if (!isDuplicateKey(error)) throw error;
+
+      console.log(
+        `↩️ XP "${input.idempotencyKey}" already awarded to user ${input.userId}`
+      );
+      const totals = await this.getTotals(input.userId);
+      return {
+        awarded: false,
+        leveled_up: false,
+        previous_level: totals.level,
+        ...totals,
+      };
+    }
+  }
+
+  /**
+   * Admin correction, e.g. taking back a double award. Amounts may be
+   * negative; totals never drop below zero.
+   */
+  static async adjust(
+    userId: string,
+    input: XpAdjustmentInput,
+    actorId: string
+  ) {
+    return this.award({
+      userId,
+      source: "ADJUSTMENT",
+      reason: input.reason,
+      amount: input.amount,
+      idempotencyKey: `adjustment:${
+        input.idempotency_key || crypto.randomUUID()
+      }`,
+      actorId,
+    });
+  }
+
+  static async getTotals(userId: string): Promise<XpTotals> {
+    const user = await prisma.user.findUnique({
+      where: { user_id: userId },
+      select: { level: true, current_xp: true, total_points: true },
+    });
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    return {
+      total_points: user.total_points || 0,
+      current_xp: user.current_xp || 0,
+      level: user.level || 1,
+    };
+  }
+
+  /**
+   * Newest transactions first, paged by transaction_id
+   */
+  static async getHistory(
+    userId: string,
+    query: XpHistoryQuery
+  ): Promise<XpHistory> {
+    const [totals, transactions] = await Promise.all([
+      this.getTotals(userId),
+      prisma.xpTransaction.findMany({
+        where: {
+          user_id: userId,
+          ...(query.before && { transaction_id: { lt: query.before } }),
+        },
+        orderBy: { transaction_id: "desc" },
+        take: query.limit + 1,
+      }),
+    ]);
+
+    const hasMore = transactions.length > query.limit;
+    const page = transactions.slice(0, query.limit);
+    return {
+      totals,
+      transactions: page,
+      next_cursor: hasMore ? page[page.length - 1].transaction_id : null,
+    };
+  }
+
+  /**
+   * Rebuild every user's totals from the ledger, correcting rows that were
+   * changed outside it. Returns the users that drifted.
+   */
+  static async reconcileAll() {
+    // Only a first pass: awards landing after this are rechecked under lock
+    const sums = await prisma.xpTransaction.groupBy({
+      by: ["user_id"],
+      _sum: { amount: true },
+    });
+    const sumByUser = new Map(
+      sums.map((row) => [row.user_id, row._sum.amount || 0])
+    );
+
+    let checked = 0;
+    const corrected: { user_id: string; from: number; to: number }[] = [];
+    let cursor: string | undefined;
+
+    while (true) {
+      const users = await prisma.user.findMany({
+        select: {
+          user_id: true,
+          level: true,
+          current_xp: true,
+          total_points: true,
+        },
+        orderBy: { user_id: "asc" },
+        take: XP_RECONCILE_BATCH_SIZE,
+        ...(cursor && { cursor: { user_id: cursor }, skip: 1 }),
+      });
+      if (users.length === 0) break;
+      cursor = users[users.length - 1].user_id;
+
+      for (const user of users) {
+        checked++;
+        if (matchesTotals(user, totalsFor(sumByUser.get(user.user_id) || 0))) {
+          continue;
+        }
+
+        const correction = await this.reconcileUser(user.user_id);
+        if (correction) {
+          corrected.push(correction);
+          console.warn(
+            `⚠️ XP drift for user ${user.user_id}: ${correction.from} -> ${correction.to}`
+          );
+        }
+      }
+    }
+
+    return { checked, corrected };
+  }
+
+  /**
+   * Re-derive one user's totals from the ledger under the same row lock
+   * award() takes. Returns the correction, or null when nothing drifted.
+   */
+  private static async reconcileUser(userId: string) {
+    return prisma.$transaction(async (tx) => {
+      const [user] = await tx.$queryRaw<
+        {
+          level: number | null;
+          current_xp: number | null;
+          total_points: number | null;
+        }[]
+      >`
+        SELECT "level", "current_xp", "total_points" FROM "User" WHERE "user_id" = ${userId} FOR UPDATE`;
+      if (!user) return null;
+
+      const sum = await tx.xpTransaction.aggregate({
+        where: { user_id: userId },
+        _sum: { amount: true },
+      });
+      const expected = totalsFor(sum._sum.amount || 0);
+      if (matchesTotals(user, expected)) return null;
+
+      await tx.user.update({
+        where: { user_id: userId },
+        data: expected,
+      });
+      return {
+        user_id: userId,
+        from: user.total_points || 0,
+        to: expected.total_points,
+      };
+    });
+  }
+
+  private static async applyTotals(
+    tx: Prisma.TransactionClient,
+    userId: string
+  ): Promise<XpTotals> {
+    const sum = await tx.xpTransaction.aggregate({
+      where: { user_id: userId },
+      _sum: { amount: true },
+    });
+    const totals = totalsFor(sum._sum.amount || 0);
+
+    await tx.user.update({
+      where: { user_id: userId },
+      data: totals,
+    });
+    return totals;
+  }
+}
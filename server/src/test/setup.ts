@@ -0,0 +1,4 @@
+// Tests never reach a database: Prisma calls they make are stubbed, and an
+// unstubbed one fails to connect instead of touching real data
+process.env.DATABASE_URL = "postgresql://test@localhost:5432/test";
+process.env.JWT_SECRET = "test-jwt-secret";
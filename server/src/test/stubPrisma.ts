@@ -0,0 +1,30 @@
+import { prisma } from "../lib/database";
+
+/**
+ * Swap Prisma model delegates (or $transaction) for in-memory fakes.
+ * Returns a function that puts the real ones back.
+ */
+export function stubPrisma(models: Record<string, unknown>): () => void {
+  const client = prisma as unknown as Record<string, unknown>;
+  const originals = Object.keys(models).map(
+    (name) => [name, Object.getOwnPropertyDescriptor(client, name)] as const
+  );
+
+  for (const [name, fake] of Object.entries(models)) {
+    Object.defineProperty(client, name, {
+      value: fake,
+      configurable: true,
+      writable: true,
+    });
+  }
+
+  return () => {
+    for (const [name, descriptor] of originals) {
+      if (descriptor) {
+        Object.defineProperty(client, name, descriptor);
+      } else {
+        delete client[name];
+      }
+    }
+  };
+}
@@ -0,0 +1,89 @@
+// Lifetime counters an achievement rule can compare directly
+export const ACHIEVEMENT_STATS = [
+  "current_streak",
+  "best_streak",
+  "complete_days",
+  "level",
+  "total_xp",
+  "ai_requests",
+  "water_goal_days",
+  "calorie_goal_days",
+] as const;
+
+export type AchievementStat = (typeof ACHIEVEMENT_STATS)[number];
+
+// Per-day values (the user's calendar day) rule conditions test
+export const ACHIEVEMENT_DAY_METRICS = [
+  "meals",
+  "calories",
+  "protein_g",
+  "carbs_g",
+  "fats_g",
+  "fiber_g",
+  "sugar_g",
+  "sodium_mg",
+  // Share of the day's macro calories, 0-100
+  "protein_pct",
+  "carbs_pct",
+  "fats_pct",
+  // Hour (0-23) of the first and last meal logged
+  "first_meal_hour",
+  "last_meal_hour",
+  "water_cups",
+  "water_ml",
+  // Merged device activity
+  "steps",
+  "active_minutes",
+  "calories_burned",
+  // Intake as a percentage of that day's goal
+  "calories_goal_pct",
+  "protein_goal_pct",
+  "carbs_goal_pct",
+  "fats_goal_pct",
+  "water_goal_pct",
+] as const;
+
+export type AchievementDayMetric = (typeof ACHIEVEMENT_DAY_METRICS)[number];
+
+export type RuleComparison = ">=" | ">" | "<=" | "<" | "==";
+
+export interface DayCondition {
+  metric: AchievementDayMetric;
+  comparison: RuleComparison;
+  value: number;
+}
+
+/**
+ * - stat:     a lifetime counter reaches the threshold ("level >= 5")
+ * - days:     number of days matching every condition
+ * - streak:   longest run of consecutive matching days
+ * - weekends: weekends where Saturday and Sunday both match
+ * - sum:      total of a day metric ("sum(steps) >= 100000")
+ * Day rules may be limited to the last `windowDays` days ("over 30d").
+ */
+export type AchievementRule =
+  | { type: "stat"; stat: AchievementStat; threshold: number }
+  | {
+      type: "days" | "streak" | "weekends";
+      conditions: DayCondition[];
+      threshold: number;
+      windowDays?: number;
+    }
+  | {
+      type: "sum";
+      metric: AchievementDayMetric;
+      threshold: number;
+      windowDays?: number;
+    };
+
+export type DayValues = Partial<Record<AchievementDayMetric, number>>;
+
+/**
+ * Everything rules are evaluated against. `days` is keyed by the user's
+ * calendar day (YYYY-MM-DD) and only holds days with any data.
+ */
+export interface AchievementRuleContext {
+  stats: Partial<Record<AchievementStat, number>>;
+  days: Map<string, DayValues>;
+  today: string;
+}
@@ -0,0 +1,42 @@
+import { z } from "zod";
+import { ActivityMetric, DeviceType } from "@prisma/client";
+
+export const metricPrioritySchema = z.object({
+  // An empty list resets the metric to the default order
+  priorities: z.record(
+    z.nativeEnum(ActivityMetric),
+    z.array(z.nativeEnum(DeviceType)).max(12)
+  ),
+});
+
+export type MetricPriorityInput = z.infer<typeof metricPrioritySchema>;
+
+export interface MetricPriority {
+  metric: ActivityMetric;
+  device_types: DeviceType[];
+  is_default: boolean;
+}
+
+export interface MetricSource {
+  device_id: string;
+  device_type: DeviceType;
+  device_name: string;
+}
+
+/**
+ * One day of activity with each metric taken from its preferred device
+ */
+export interface MergedDailyActivity {
+  date: string;
+  steps: number | null;
+  calories_burned: number | null;
+  bmr_estimate: number | null;
+  active_minutes: number | null;
+  distance_km: number | null;
+  heart_rate_avg: number | null;
+  heart_rate_max: number | null;
+  sleep_hours: number | null;
+  weight_kg: number | null;
+  body_fat_percentage: number | null;
+  sources: Partial<Record<ActivityMetric, MetricSource>>;
+}
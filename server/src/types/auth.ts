@@ -1,4 +1,9 @@
 import { z } from "zod";
+import { isValidTimeZone } from "../utils/timezone";
+
+const timeZoneSchema = z
+  .string()
+  .refine(isValidTimeZone, "Invalid IANA timezone");
 
 export const signUpSchema = z.object({
   email: z.string().email("Invalid email address"),
@@ -16,6 +21,7 @@ export const signUpSchema = z.object({
   birth_date: z.preprocess((arg) => {
     if (typeof arg === "string" || arg instanceof Date) return new Date(arg);
   }, z.date()),
+  timezone: timeZoneSchema.optional(),
 });
 
 export const signInSchema = z.object({
@@ -30,6 +36,7 @@ export const updateProfileSchema = z.object({
       if (typeof arg === "string" || arg instanceof Date) return new Date(arg);
     }, z.date())
     .optional(),
+  timezone: timeZoneSchema.optional(),
 });
 
 export const updateSubscriptionSchema = z.object({
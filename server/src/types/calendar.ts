@@ -11,6 +11,9 @@ export interface DayData {
   meal_count: number;
   quality_score: number;
   water_intake_ml: number;
+  // From connected devices, merged across devices; null without device data
+  steps: number | null;
+  calories_burned: number | null;
   events: Array<{
     id: string;
     title: string;
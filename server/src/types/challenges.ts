@@ -0,0 +1,75 @@
+import { z } from "zod";
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+
+const challengeFields = z.object({
+  title: z.string().min(1).max(100),
+  description: z.string().max(1000),
+  icon: z.string().max(20).optional(),
+  // Achievement rule syntax, e.g. "days(fiber_g >= 30) >= 10"
+  rule: z.string().min(1).max(500),
+  start_date: dateSchema,
+  end_date: dateSchema,
+  xp_reward: z.number().int().min(0).max(10000),
+  is_published: z.boolean().optional(),
+});
+
+export const createChallengeSchema = challengeFields
+  .extend({
+    description: challengeFields.shape.description.default(""),
+    xp_reward: challengeFields.shape.xp_reward.default(100),
+  })
+  .refine((challenge) => challenge.end_date >= challenge.start_date, {
+    message: "end_date must not be before start_date",
+    path: ["end_date"],
+  });
+
+// Date order is checked against the stored dates by the service
+export const updateChallengeSchema = challengeFields.partial();
+
+export const challengeListQuerySchema = z.object({
+  status: z.enum(["active", "upcoming", "ended", "joined"]).optional(),
+});
+
+export const leaderboardQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type CreateChallengeInput = z.infer<typeof createChallengeSchema>;
+export type UpdateChallengeInput = z.infer<typeof updateChallengeSchema>;
+export type ChallengeListStatus = z.infer<
+  typeof challengeListQuerySchema
+>["status"];
+
+export type ChallengeStatus = "draft" | "upcoming" | "active" | "ended";
+
+export interface ChallengeSummary {
+  challenge_id: string;
+  title: string;
+  description: string;
+  icon: string;
+  rule: string;
+  start_date: string;
+  end_date: string;
+  xp_reward: number;
+  status: ChallengeStatus;
+  target: number;
+  participant_count: number;
+  // Present once the user has joined
+  participation?: {
+    progress: number;
+    completed: boolean;
+    completed_at: Date | null;
+    xp_awarded: number;
+    joined_at: Date;
+  };
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  name: string;
+  avatar_url: string | null;
+  progress: number;
+  completed: boolean;
+  is_current_user: boolean;
+}
@@ -0,0 +1,21 @@
+import { z } from "zod";
+import { DataExportStatus } from "@prisma/client";
+
+export const dataExportQuerySchema = z.object({
+  // Build in the background and email a link even for small accounts
+  background: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+});
+
+export interface DataExportSummary {
+  export_id: string;
+  status: DataExportStatus;
+  size_bytes: number | null;
+  error: string | null;
+  requested_at: Date;
+  completed_at: Date | null;
+  expires_at: Date | null;
+  download_url: string | null;
+}
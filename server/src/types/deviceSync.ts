@@ -0,0 +1,35 @@
+import { DeviceType } from "@prisma/client";
+import { ActivityData } from "./devices";
+
+export interface RefreshedDeviceTokens {
+  accessToken: string;
+  // Providers that rotate refresh tokens return a new one
+  refreshToken?: string;
+  expiresInSeconds?: number;
+}
+
+/**
+ * Server-side access to one health data provider
+ */
+export interface DeviceSyncProvider {
+  deviceType: DeviceType;
+  refreshAccessToken(refreshToken: string): Promise<RefreshedDeviceTokens>;
+  /**
+   * The day's summary (date as YYYY-MM-DD, UTC), or null when the provider
+   * has no data for it. Throws on request failures.
+   */
+  fetchDailySummary(
+    accessToken: string,
+    date: string
+  ): Promise<ActivityData | null>;
+}
+
+export type DeviceSyncStatus = "synced" | "skipped" | "failed";
+
+export interface DeviceSyncResult {
+  device_id: string;
+  device_type: DeviceType;
+  status: DeviceSyncStatus;
+  days_synced: string[];
+  error?: string;
+}
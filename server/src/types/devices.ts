@@ -1,9 +1,13 @@
+import { z } from "zod";
+import { isValidTimeZone } from "../utils/timezone";
+
 export interface ActivityData {
   steps: number;
   caloriesBurned: number;
   activeMinutes: number;
   bmr: number;
   heartRate?: number;
+  heartRateMax?: number;
   weight?: number;
   bodyFat?: number;
   sleepHours?: number;
@@ -16,3 +20,76 @@ export interface DailyBalance {
   balance: number;
   balanceStatus: "balanced" | "slight_imbalance" | "significant_imbalance";
 }
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const timestampSchema = z.string().datetime({ offset: true });
+
+export const intradayDataSchema = z.object({
+  hourlySteps: z
+    .array(
+      z.object({
+        start: timestampSchema,
+        steps: z.number().int().min(0).max(100000),
+      })
+    )
+    .optional(),
+  heartRate: z
+    .array(
+      z.object({
+        time: timestampSchema,
+        bpm: z.number().int().min(20).max(250),
+      })
+    )
+    .optional(),
+  sleepStages: z
+    .array(
+      z.object({
+        start: timestampSchema,
+        end: timestampSchema,
+        stage: z.enum(["AWAKE", "LIGHT", "DEEP", "REM"]),
+      })
+    )
+    .optional(),
+});
+
+export const deviceSyncRecordSchema = z
+  .object({
+    // The local day the totals belong to; derived from recordedAt otherwise
+    date: z.string().regex(DATE_PATTERN).optional(),
+    recordedAt: timestampSchema.optional(),
+    steps: z.number().int().min(0).max(200000).optional(),
+    caloriesBurned: z.number().min(0).max(20000).optional(),
+    activeMinutes: z.number().int().min(0).max(1440).optional(),
+    bmr: z.number().min(0).max(10000).optional(),
+    heartRate: z.number().min(20).max(250).optional(),
+    heartRateMax: z.number().min(20).max(250).optional(),
+    weight: z.number().positive().max(500).optional(),
+    bodyFat: z.number().min(0).max(100).optional(),
+    sleepHours: z.number().min(0).max(24).optional(),
+    distance: z.number().min(0).max(1000).optional(),
+    intraday: intradayDataSchema.optional(),
+  })
+  .refine((data) => data.date || data.recordedAt || data.intraday, {
+    message: "A record needs a date, recordedAt or intraday samples",
+  });
+
+export const deviceSyncBatchSchema = z.object({
+  // IANA timezone used to bucket timestamps into days, e.g. "Asia/Jerusalem";
+  // defaults to the user's timezone
+  timezone: z
+    .string()
+    .refine(isValidTimeZone, { message: "Unknown timezone" })
+    .optional(),
+  records: z.array(deviceSyncRecordSchema).min(1).max(62),
+});
+
+export type IntradayData = z.infer<typeof intradayDataSchema>;
+export type DeviceSyncRecord = z.infer<typeof deviceSyncRecordSchema>;
+export type DeviceSyncBatch = z.infer<typeof deviceSyncBatchSchema>;
+
+export interface DeviceSyncBatchResult {
+  device_id: string;
+  days: string[];
+  samples_saved: number;
+}
@@ -0,0 +1,34 @@
+import { z } from "zod";
+
+export const favoritesQuerySchema = z.object({
+  // "frequent": most logged first, ties by recency; "recent": last logged
+  sort: z.enum(["frequent", "recent"]).default("frequent"),
+  meal_period: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+// A quick-add item that doesn't come from a logged meal
+export const quickAddFavoriteSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  meal_period: z.string().optional(),
+  calories: z.number().min(0).max(10000),
+  protein_g: z.number().min(0).optional(),
+  carbs_g: z.number().min(0).optional(),
+  fats_g: z.number().min(0).optional(),
+  fiber_g: z.number().min(0).optional(),
+  sugar_g: z.number().min(0).optional(),
+  sodium_mg: z.number().min(0).optional(),
+  serving_size_g: z.number().positive().optional(),
+});
+
+export const logFavoriteSchema = z.object({
+  meal_period: z.string().optional(),
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}/, "Date must be in YYYY-MM-DD format")
+    .optional(),
+});
+
+export type FavoritesQuery = z.infer<typeof favoritesQuerySchema>;
+export type QuickAddFavoriteInput = z.infer<typeof quickAddFavoriteSchema>;
+export type LogFavoriteInput = z.infer<typeof logFavoriteSchema>;
@@ -0,0 +1,68 @@
+import { Ingredient } from "./openai";
+
+/**
+ * One row of a food composition CSV, values per 100 g
+ */
+export interface FoodItemRow {
+  source_id: string;
+  name: string;
+  name_he: string | null;
+  aliases: string[];
+  category: string | null;
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  fiber_g: number | null;
+  sugar_g: number | null;
+  sodium_mg: number | null;
+  saturated_fats_g: number | null;
+  cholesterol_mg: number | null;
+  portion_g: number | null;
+  portion_description: string | null;
+}
+
+export interface FoodImportResult {
+  source: string;
+  imported: number;
+  skipped: number;
+}
+
+/**
+ * An ingredient to look up: free text ("150g chicken breast"), or a name or
+ * food_id with an optional weight or number of portions
+ */
+export type IngredientInput =
+  | string
+  | {
+      name?: string;
+      food_id?: number;
+      grams?: number;
+      quantity?: number;
+    };
+
+export interface ResolvedIngredient extends Ingredient {
+  food_id: number;
+  matched_name: string;
+  source: string;
+  serving_size_g: number;
+}
+
+export interface NutrientTotals {
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  fiber_g: number;
+  sugar_g: number;
+  sodium_mg: number;
+  saturated_fats_g: number;
+  cholesterol_mg: number;
+  serving_size_g: number;
+}
+
+export interface IngredientAnalysis {
+  ingredients: ResolvedIngredient[];
+  unmatched: string[];
+  totals: NutrientTotals;
+}
@@ -0,0 +1,90 @@
+import { z } from "zod";
+
+const nutritionChangesSchema = z
+  .object({
+    calories: z.number().min(0),
+    protein: z.number().min(0),
+    carbs: z.number().min(0),
+    fat: z.number().min(0),
+    fiber: z.number().min(0),
+    sugar: z.number().min(0),
+    sodium: z.number().min(0),
+    saturated_fat: z.number().min(0),
+    trans_fat: z.number().min(0),
+    cholesterol: z.number().min(0),
+  })
+  .partial()
+  .strict();
+
+/**
+ * Fields a user may change on a barcode product, for themselves (override)
+ * or for everyone (correction)
+ */
+export const productChangesSchema = z
+  .object({
+    name: z.string().trim().min(1),
+    brand: z.string().trim(),
+    category: z.string().trim().min(1),
+    nutrition_per_100g: nutritionChangesSchema,
+    ingredients: z.array(z.string()),
+    allergens: z.array(z.string()),
+    labels: z.array(z.string()),
+  })
+  .partial()
+  .strict()
+  .refine((changes) => Object.keys(changes).length > 0, {
+    message: "No changes provided",
+  });
+
+export const productCorrectionSchema = z.object({
+  changes: productChangesSchema,
+  note: z.string().max(500).optional(),
+  apply_to_me: z.boolean().default(true),
+});
+
+export const correctionReviewSchema = z.object({
+  review_note: z.string().max(500).optional(),
+});
+
+export interface ProductData {
+  barcode?: string;
+  name: string;
+  brand?: string;
+  category: string;
+  nutrition_per_100g: {
+    calories: number;
+    protein: number;
+    carbs: number;
+    fat: number;
+    fiber?: number;
+    sugar?: number;
+    sodium?: number;
+    saturated_fat?: number;
+    trans_fat?: number;
+    cholesterol?: number;
+    potassium?: number;
+    calcium?: number;
+    iron?: number;
+    vitamin_c?: number;
+    vitamin_d?: number;
+  };
+  ingredients: string[];
+  allergens: string[];
+  labels: string[];
+  health_score?: number;
+  image_url?: string;
+  serving_size?: string;
+  servings_per_container?: number;
+  provenance?: ProductProvenance;
+}
+
+export type ProductChanges = z.infer<typeof productChangesSchema>;
+
+export interface ProductProvenance {
+  source: "OPEN_FOOD_FACTS" | "AI_IMAGE_SCAN" | "USER_SUBMITTED";
+  source_ref: string | null;
+  fetched_at: Date;
+  version: number;
+  corrected_fields: string[];
+  has_override: boolean;
+}
@@ -0,0 +1,56 @@
+import { z } from "zod";
+import { BeverageType, DrinkLog } from "@prisma/client";
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+
+export const logDrinkSchema = z
+  .object({
+    // Either a volume or a container preset to take it from
+    volume_ml: z.number().int().min(1).max(5000).optional(),
+    preset_id: z.number().int().positive().optional(),
+    beverage_type: z.nativeEnum(BeverageType).optional(),
+    // Overrides the beverage's typical caffeine content
+    caffeine_mg: z.number().min(0).max(2000).optional(),
+    // Defaults to now
+    logged_at: z.string().datetime({ offset: true }).optional(),
+    // Day the drink counts towards, defaults to logged_at's day
+    date: dateSchema.optional(),
+  })
+  .refine((data) => data.volume_ml !== undefined || data.preset_id, {
+    message: "Either volume_ml or preset_id is required",
+  });
+
+export const containerPresetSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  volume_ml: z.number().int().min(1).max(5000),
+  beverage_type: z.nativeEnum(BeverageType).default("WATER"),
+  // Caffeine in a full container, defaults to the beverage's typical content
+  caffeine_mg: z.number().min(0).max(2000).nullable().optional(),
+});
+
+export const updateContainerPresetSchema = containerPresetSchema.partial();
+
+export type LogDrinkInput = z.infer<typeof logDrinkSchema>;
+export type ContainerPresetInput = z.infer<typeof containerPresetSchema>;
+export type UpdateContainerPresetInput = z.infer<
+  typeof updateContainerPresetSchema
+>;
+
+export interface HydrationDaySummary {
+  date: string;
+  goal_ml: number;
+  // Volume weighted by each beverage's hydration coefficient
+  hydration_ml: number;
+  volume_ml: number;
+  progress_percentage: number;
+  goal_reached: boolean;
+  caffeine_mg: {
+    drinks: number;
+    meals: number;
+    total: number;
+  };
+  by_beverage: Partial<
+    Record<BeverageType, { volume_ml: number; hydration_ml: number }>
+  >;
+  drinks: DrinkLog[];
+}
@@ -11,3 +11,22 @@ export * from "./database";
 export * from "./api";
 export * from "./achivements";
 export * from "./recommendations";
+export * from "./payments";
+export * from "./foodDatabase";
+export * from "./mealIngredients";
+export * from "./foodProducts";
+export * from "./productProviders";
+export * from "./recipes";
+export * from "./favorites";
+export * from "./deviceSync";
+export * from "./activityMerge";
+export * from "./weight";
+export * from "./tdee";
+export * from "./hydration";
+export * from "./retention";
+export * from "./dataExport";
+export * from "./push";
+export * from "./achievementRules";
+export * from "./challenges";
+export * from "./xp";
+export * from "./sessions";
@@ -0,0 +1,86 @@
+import { z } from "zod";
+
+/**
+ * Meal columns recomputed from ingredients; each is additive by weight
+ */
+export const MEAL_NUTRIENT_COLUMNS = [
+  "calories",
+  "protein_g",
+  "carbs_g",
+  "fats_g",
+  "saturated_fats_g",
+  "polyunsaturated_fats_g",
+  "monounsaturated_fats_g",
+  "omega_3_g",
+  "omega_6_g",
+  "fiber_g",
+  "soluble_fiber_g",
+  "insoluble_fiber_g",
+  "sugar_g",
+  "cholesterol_mg",
+  "sodium_mg",
+  "alcohol_g",
+  "caffeine_mg",
+  "liquids_ml",
+] as const;
+
+export type MealNutrientColumn = (typeof MEAL_NUTRIENT_COLUMNS)[number];
+
+export type NutrientMap = Partial<Record<MealNutrientColumn, number>>;
+
+/**
+ * A meal's nutrient columns at one point in time, as stored in the audit
+ */
+export type MealNutritionSnapshot = Record<
+  MealNutrientColumn,
+  number | null
+> & {
+  serving_size_g: number | null;
+  vitamins_json: Record<string, number> | null;
+  micronutrients_json: Record<string, number> | null;
+};
+
+export type MealAuditAction =
+  | "original_estimate"
+  | "ingredient_added"
+  | "ingredient_updated"
+  | "ingredient_removed"
+  | "totals_edited";
+
+const nutrientMapSchema = z.record(z.number().min(0));
+
+export const addMealIngredientSchema = z
+  .object({
+    name: z.string().trim().min(1).optional(),
+    food_id: z.number().int().positive().optional(),
+    grams: z.number().positive().max(5000).optional(),
+    quantity: z.number().positive().max(50).optional(),
+    nutrients_per_100g: nutrientMapSchema.optional(),
+    vitamins_per_100g: nutrientMapSchema.optional(),
+    micronutrients_per_100g: nutrientMapSchema.optional(),
+  })
+  .refine((data) => data.name || data.food_id, {
+    message: "Ingredient name or food_id is required",
+  })
+  .refine((data) => !data.nutrients_per_100g || (data.name && data.grams), {
+    message: "Custom nutrients require a name and grams",
+  });
+
+export const updateMealIngredientSchema = z
+  .object({
+    name: z.string().trim().min(1).optional(),
+    grams: z.number().positive().max(5000).optional(),
+    nutrients_per_100g: nutrientMapSchema.optional(),
+  })
+  .refine(
+    (data) =>
+      data.name !== undefined ||
+      data.grams !== undefined ||
+      data.nutrients_per_100g !== undefined,
+    { message: "Nothing to update" }
+  );
+
+export type AddMealIngredientInput = z.infer<typeof addMealIngredientSchema>;
+export type UpdateMealIngredientInput = z.infer<
+  typeof updateMealIngredientSchema
+>;
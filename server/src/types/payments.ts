@@ -0,0 +1,53 @@
+export type PaymentProviderName = "stripe" | "fake";
+
+export interface CheckoutSessionRequest {
+  paymentId: number;
+  userId: string;
+  email: string;
+  planType: string;
+  amount: number;
+  currency: string;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSession {
+  id: string;
+  url: string;
+  expiresAt: Date | null;
+}
+
+export type ProviderEventType =
+  | "checkout.completed"
+  | "checkout.expired"
+  | "payment.failed"
+  | "ignored";
+
+/**
+ * Provider-agnostic view of a verified webhook event
+ */
+export interface ProviderEvent {
+  id: string;
+  type: ProviderEventType;
+  sessionId: string | null;
+  providerPaymentId: string | null;
+  paymentMethod: string | null;
+  failureReason: string | null;
+  raw: any;
+}
+
+export interface PaymentProvider {
+  name: PaymentProviderName;
+  signatureHeader: string;
+  createCheckoutSession(
+    request: CheckoutSessionRequest
+  ): Promise<CheckoutSession>;
+  /**
+   * Verify the signature header against the raw request body and parse the
+   * event. Throws when the signature is missing or invalid.
+   */
+  parseWebhookEvent(
+    rawBody: Buffer,
+    signature: string | undefined
+  ): ProviderEvent;
+}
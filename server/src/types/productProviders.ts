@@ -0,0 +1,57 @@
+import { ProductSource } from "@prisma/client";
+import { ProductData } from "./foodProducts";
+
+/**
+ * Language-specific product text, keyed by language code ("he", "en")
+ */
+export interface LocalizedProductFields {
+  name?: string;
+  ingredients?: string[];
+}
+
+export type LocalizedProductText = Record<string, LocalizedProductFields>;
+
+export interface ProductLookupOptions {
+  // Preferred languages, most preferred first
+  languages: string[];
+}
+
+export interface ProductLookupResult {
+  product: ProductData;
+  localized: LocalizedProductText;
+  source: ProductSource;
+  source_ref: string;
+  provider: string;
+}
+
+export interface ProductLookupProvider {
+  name: string;
+  /**
+   * Resolves null when the provider has no such product. Throws when the
+   * provider itself failed (timeout, bad response), which counts against
+   * its health.
+   */
+  lookup(
+    barcode: string,
+    options: ProductLookupOptions
+  ): Promise<ProductLookupResult | null>;
+}
+
+export type ProviderHealth = "healthy" | "degraded" | "down";
+
+export interface ProviderMetrics {
+  name: string;
+  health: ProviderHealth;
+  lookups: number;
+  hits: number;
+  misses: number;
+  errors: number;
+  skipped: number;
+  avg_latency_ms: number;
+  last_latency_ms: number | null;
+  consecutive_failures: number;
+  last_error: string | null;
+  last_error_at: Date | null;
+  last_success_at: Date | null;
+  disabled_until: Date | null;
+}
@@ -0,0 +1,63 @@
+import { z } from "zod";
+import { PushPlatform } from "@prisma/client";
+
+export const pushTokenSchema = z.object({
+  pushToken: z
+    .string()
+    .max(200, "Push token is too long")
+    .regex(/^Expo(nent)?PushToken\[.+\]$/, "Invalid Expo push token"),
+});
+
+export const registerPushTokenSchema = pushTokenSchema.extend({
+  platform: z
+    .enum(["ios", "android", "web"])
+    .transform((platform) => platform.toUpperCase() as PushPlatform),
+  deviceName: z.string().max(100).optional(),
+});
+
+export type RegisterPushTokenInput = z.infer<typeof registerPushTokenSchema>;
+
+export type PushTransportName = "expo" | "local";
+
+/**
+ * Message in the Expo push API format
+ */
+export interface PushMessage {
+  to: string;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+  sound?: "default" | null;
+  channelId?: string;
+}
+
+export interface PushError {
+  status: "error";
+  message: string;
+  // e.g. "DeviceNotRegistered", "MessageRateExceeded"
+  details?: { error?: string };
+}
+
+export type PushTicket = { status: "ok"; id: string } | PushError;
+
+export type PushReceipt = { status: "ok" } | PushError;
+
+export interface PushTransport {
+  name: PushTransportName;
+  // One ticket per message, in order
+  send(messages: PushMessage[]): Promise<PushTicket[]>;
+  getReceipts(ids: string[]): Promise<Record<string, PushReceipt>>;
+}
+
+export interface PushNotification {
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+  channelId?: string;
+}
+
+export interface PushSendResult {
+  sent: number;
+  failed: number;
+  pruned: number;
+}
@@ -0,0 +1,81 @@
+import { z } from "zod";
+import { DietaryCategory, MealTiming } from "@prisma/client";
+import { NutrientMap } from "./mealIngredients";
+
+const nutrientMapSchema = z.record(z.number().min(0));
+
+export const recipeIngredientSchema = z
+  .object({
+    name: z.string().trim().min(1).optional(),
+    food_id: z.number().int().positive().optional(),
+    // A scanned product from the barcode cache
+    barcode: z.string().trim().min(1).optional(),
+    grams: z.number().positive().max(20000).optional(),
+    quantity: z.number().positive().max(100).optional(),
+    nutrients_per_100g: nutrientMapSchema.optional(),
+  })
+  .refine((data) => data.name || data.food_id || data.barcode, {
+    message: "Ingredient name, food_id or barcode is required",
+  })
+  .refine((data) => !data.barcode || data.grams, {
+    message: "Barcode ingredients require grams",
+  })
+  .refine((data) => !data.nutrients_per_100g || (data.name && data.grams), {
+    message: "Custom nutrients require a name and grams",
+  });
+
+const recipeFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(2000).optional(),
+  servings: z.number().positive().max(100),
+  // Weight of the finished dish; raw ingredient weight when not given
+  cooked_weight_g: z.number().positive().max(50000).optional(),
+  ingredients: z.array(recipeIngredientSchema).min(1).max(100),
+});
+
+export const createRecipeSchema = recipeFieldsSchema;
+
+export const updateRecipeSchema = recipeFieldsSchema
+  .extend({ cooked_weight_g: z.number().positive().max(50000).nullable() })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "Nothing to update",
+  });
+
+export const logRecipeSchema = z
+  .object({
+    servings: z.number().positive().max(50).optional(),
+    grams: z.number().positive().max(10000).optional(),
+    meal_period: z.string().optional(),
+    date: z.string().optional(),
+  })
+  .refine(
+    (data) => (data.servings === undefined) !== (data.grams === undefined),
+    { message: "Give either servings or grams" }
+  );
+
+export const recipeTemplateSchema = z.object({
+  meal_timing: z.nativeEnum(MealTiming),
+  dietary_category: z.nativeEnum(DietaryCategory).default("BALANCED"),
+});
+
+export const addRecipeToPlanSchema = recipeTemplateSchema.extend({
+  plan_id: z.string().min(1),
+  day_of_week: z.number().int().min(0).max(6),
+  meal_order: z.number().int().min(1).default(1),
+  portion_multiplier: z.number().positive().max(10).default(1),
+});
+
+export type RecipeIngredientInput = z.infer<typeof recipeIngredientSchema>;
+export type CreateRecipeInput = z.infer<typeof createRecipeSchema>;
+export type UpdateRecipeInput = z.infer<typeof updateRecipeSchema>;
+export type LogRecipeInput = z.infer<typeof logRecipeSchema>;
+export type RecipeTemplateInput = z.infer<typeof recipeTemplateSchema>;
+export type AddRecipeToPlanInput = z.infer<typeof addRecipeToPlanSchema>;
+
+export interface RecipeNutrition {
+  total: NutrientMap;
+  per_serving: NutrientMap;
+  per_100g: NutrientMap;
+  serving_weight_g: number;
+}
@@ -0,0 +1,27 @@
+import { z } from "zod";
+
+export const retentionRunSchema = z.object({
+  dry_run: z.boolean().optional(),
+});
+
+export const retentionAuditQuerySchema = z.object({
+  user_id: z.string().optional(),
+  action: z.enum(["SCHEDULED", "WARNED", "RESTORED", "DELETED"]).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export type RetentionAuditQuery = z.infer<typeof retentionAuditQuerySchema>;
+
+export interface RetentionPolicyResult {
+  policy: string;
+  scheduled: string[];
+  warned: string[];
+  deleted: string[];
+  errors: { user_id: string; error: string }[];
+}
+
+export interface RetentionRunResult {
+  dry_run: boolean;
+  ran_at: string;
+  policies: RetentionPolicyResult[];
+}
@@ -0,0 +1,35 @@
+export interface SessionMetadata {
+  device_name?: string | null;
+  ip_address?: string | null;
+  user_agent?: string | null;
+}
+
+export interface AuthTokens {
+  token: string;
+  refresh_token: string;
+  // Seconds until the access token expires
+  expires_in: number;
+}
+
+export interface AccessTokenPayload {
+  user_id: string;
+  email: string;
+  sid: string;
+  type: "access";
+}
+
+export interface AuthenticatedSession<TUser = any> {
+  session_id: string;
+  user: TUser;
+}
+
+export interface SessionSummary {
+  session_id: string;
+  device_name: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: Date;
+  last_used_at: Date;
+  expires_at: Date;
+  is_current: boolean;
+}
@@ -0,0 +1,28 @@
+import { z } from "zod";
+
+export const tdeeSettingsSchema = z.object({
+  adaptive_tdee_enabled: z.boolean(),
+});
+
+export type TdeeSettingsInput = z.infer<typeof tdeeSettingsSchema>;
+
+export type TdeeConfidenceLevel = "low" | "medium" | "high";
+
+export interface TdeeEstimate {
+  // Best estimate of maintenance calories per day
+  maintenance_calories: number;
+  // From the questionnaire (Mifflin-St Jeor and activity level)
+  formula_calories: number | null;
+  // Average intake corrected for the weight trend over the window
+  intake_based_calories: number | null;
+  // Average device calories burned plus BMR
+  device_based_calories: number | null;
+  confidence: number;
+  confidence_level: TdeeConfidenceLevel;
+  window_days: number | null;
+  logged_days: number;
+  weigh_ins: number;
+  weight_change_kg: number | null;
+  average_intake_calories: number | null;
+  adaptive_tdee_enabled: boolean;
+}
@@ -0,0 +1,38 @@
+import { z } from "zod";
+import { WeightSource } from "@prisma/client";
+
+export const createWeightEntrySchema = z.object({
+  weight_kg: z.number().min(20).max(400),
+  body_fat_percentage: z.number().min(2).max(75).optional(),
+  // Defaults to now
+  measured_at: z.string().datetime({ offset: true }).optional(),
+  note: z.string().trim().max(200).optional(),
+});
+
+export const updateWeightEntrySchema = createWeightEntrySchema.partial();
+
+export type CreateWeightEntryInput = z.infer<typeof createWeightEntrySchema>;
+export type UpdateWeightEntryInput = z.infer<typeof updateWeightEntrySchema>;
+
+export interface WeightTrendPoint {
+  date: string;
+  // Average of the day's weigh-ins; null on days without one
+  weight_kg: number | null;
+  trend_kg: number;
+  body_fat_percentage: number | null;
+}
+
+export interface WeightProgress {
+  current_weight_kg: number | null;
+  trend_weight_kg: number | null;
+  start_weight_kg: number | null;
+  target_weight_kg: number | null;
+  // Negative while losing
+  weekly_rate_kg: number | null;
+  goal_date: string | null;
+  projected_goal_date: string | null;
+  // Rate needed to reach the target by goal_date
+  required_weekly_rate_kg: number | null;
+  on_track: boolean | null;
+  last_source: WeightSource | null;
+}
@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { XpSource, XpTransaction } from "@prisma/client";
+
+export const xpHistoryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  // transaction_id to page back from
+  before: z.coerce.number().int().positive().optional(),
+});
+
+export const xpAdjustmentSchema = z.object({
+  amount: z
+    .number()
+    .int()
+    .min(-100000)
+    .max(100000)
+    .refine((amount) => amount !== 0, "Amount must not be zero"),
+  reason: z.string().min(1).max(200),
+  // Lets a retried request be applied once
+  idempotency_key: z.string().min(1).max(100).optional(),
+});
+
+export type XpHistoryQuery = z.infer<typeof xpHistoryQuerySchema>;
+export type XpAdjustmentInput = z.infer<typeof xpAdjustmentSchema>;
+
+export interface XpAwardInput {
+  userId: string;
+  source: XpSource;
+  reason: string;
+  amount: number;
+  // Unique per user; awarding the same key again is a no-op
+  idempotencyKey: string;
+  actorId?: string;
+}
+
+export interface XpTotals {
+  total_points: number;
+  current_xp: number;
+  level: number;
+}
+
+export interface XpAwardResult extends XpTotals {
+  // False when the idempotency key was already used
+  awarded: boolean;
+  leveled_up: boolean;
+  previous_level: number;
+}
+
+export interface XpHistory {
+  totals: XpTotals;
+  transactions: XpTransaction[];
+  next_cursor: number | null;
+}
@@ -0,0 +1,122 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  addDays,
+  isValidTimeZone,
+  localDateString,
+  localDayRange,
+  localHour,
+  startOfLocalDay,
+} from "./timezone";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const dayLength = (date: string, timeZone: string) => {
+  const { start, end } = localDayRange(date, timeZone);
+  return (end.getTime() - start.getTime()) / HOUR_MS;
+};
+
+describe("near midnight", () => {
+  test("files an instant under the user's local day", () => {
+    // 23:59 in Jerusalem (UTC+2) is still the previous day there
+    const lateEvening = new Date("2026-01-14T21:59:00Z");
+    assert.equal(localDateString(lateEvening, "Asia/Jerusalem"), "2026-01-14");
+    assert.equal(localDateString(lateEvening, "UTC"), "2026-01-14");
+
+    // 00:01 in Jerusalem is the next day there but not yet in UTC
+    const justAfter = new Date("2026-01-14T22:01:00Z");
+    assert.equal(localDateString(justAfter, "Asia/Jerusalem"), "2026-01-15");
+    assert.equal(localDateString(justAfter, "UTC"), "2026-01-14");
+
+    // West of UTC the local day lags behind
+    const utcMorning = new Date("2026-01-15T04:30:00Z");
+    assert.equal(
+      localDateString(utcMorning, "America/Los_Angeles"),
+      "2026-01-14"
+    );
+    assert.equal(localHour(utcMorning, "America/Los_Angeles"), 20);
+  });
+
+  test("day ranges include local midnight and exclude the next one", () => {
+    const { start, end } = localDayRange("2026-01-15", "Asia/Jerusalem");
+
+    assert.equal(start.toISOString(), "2026-01-14T22:00:00.000Z");
+    assert.equal(end.toISOString(), "2026-01-15T22:00:00.000Z");
+    assert.equal(localDateString(start, "Asia/Jerusalem"), "2026-01-15");
+    assert.equal(
+      localDateString(new Date(end.getTime() - 1), "Asia/Jerusalem"),
+      "2026-01-15"
+    );
+    assert.equal(localDateString(end, "Asia/Jerusalem"), "2026-01-16");
+  });
+
+  test("handles zones with half-hour offsets and across the date line", () => {
+    assert.equal(
+      startOfLocalDay("2026-06-01", "Asia/Kolkata").toISOString(),
+      "2026-05-31T18:30:00.000Z"
+    );
+    assert.equal(
+      startOfLocalDay("2026-06-01", "Pacific/Kiritimati").toISOString(),
+      "2026-05-31T10:00:00.000Z"
+    );
+  });
+});
+
+describe("DST changes", () => {
+  test("spring-forward days are 23 hours and fall-back days 25", () => {
+    assert.equal(dayLength("2026-03-27", "Asia/Jerusalem"), 23);
+    assert.equal(dayLength("2026-10-25", "Asia/Jerusalem"), 25);
+    assert.equal(dayLength("2026-03-08", "America/New_York"), 23);
+    assert.equal(dayLength("2026-11-01", "America/New_York"), 25);
+    assert.equal(dayLength("2026-03-08", "UTC"), 24);
+  });
+
+  test("a change in the small hours leaves midnight alone", () => {
+    assert.equal(
+      startOfLocalDay("2026-03-08", "America/New_York").toISOString(),
+      "2026-03-08T05:00:00.000Z"
+    );
+    assert.equal(
+      startOfLocalDay("2026-11-01", "America/New_York").toISOString(),
+      "2026-11-01T04:00:00.000Z"
+    );
+  });
+
+  test("a day whose midnight is skipped starts at the change", () => {
+    // Clocks go from 00:00 -04 to 01:00 -03
+    assert.equal(
+      startOfLocalDay("2026-09-06", "America/Santiago").toISOString(),
+      "2026-09-06T04:00:00.000Z"
+    );
+    // Clocks went from 00:00 -03 to 01:00 -02
+    assert.equal(
+      startOfLocalDay("2018-11-04", "America/Sao_Paulo").toISOString(),
+      "2018-11-04T03:00:00.000Z"
+    );
+    assert.equal(dayLength("2026-09-06", "America/Santiago"), 23);
+    assert.equal(dayLength("2026-09-05", "America/Santiago"), 24);
+  });
+
+  test("a day whose midnight repeats starts at the later one", () => {
+    // At 24:00 -03 clocks go back to 23:00 -04 on the previous day
+    assert.equal(
+      startOfLocalDay("2026-04-05", "America/Santiago").toISOString(),
+      "2026-04-05T04:00:00.000Z"
+    );
+    assert.equal(dayLength("2026-04-04", "America/Santiago"), 25);
+  });
+});
+
+describe("calendar helpers", () => {
+  test("addDays crosses months, years and leap days", () => {
+    assert.equal(addDays("2026-01-31", 1), "2026-02-01");
+    assert.equal(addDays("2026-12-31", 1), "2027-01-01");
+    assert.equal(addDays("2028-03-01", -1), "2028-02-29");
+    assert.equal(addDays("2026-03-29", -14), "2026-03-15");
+  });
+
+  test("isValidTimeZone rejects unknown zones", () => {
+    assert.equal(isValidTimeZone("Asia/Jerusalem"), true);
+    assert.equal(isValidTimeZone("Mars/Olympus_Mons"), false);
+  });
+});
@@ -0,0 +1,125 @@
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    // en-CA formats dates as YYYY-MM-DD
+    formatter = new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The calendar day (YYYY-MM-DD) an instant falls on in an IANA timezone
+ */
+export function localDateString(date: Date, timeZone = "UTC"): string {
+  return getFormatter(timeZone).format(date);
+}
+
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Milliseconds the timezone's wall clock is ahead of UTC at an instant
+const zoneOffset = (date: Date, timeZone: string) => {
+  let formatter = offsetFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    offsetFormatters.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(
+    formatter.formatToParts(date).map((part) => [part.type, part.value])
+  );
+  const wallClock = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second)
+  );
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * Shift a calendar day (YYYY-MM-DD) by a number of days
+ */
+export function addDays(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split("T")[0];
+}
+
+/**
+ * The instant a calendar day (YYYY-MM-DD) starts in an IANA timezone: local
+ * midnight, or the DST change itself on days where midnight is skipped
+ */
+export function startOfLocalDay(date: string, timeZone = "UTC"): Date {
+  const midnightUtc = new Date(`${date}T00:00:00Z`).getTime();
+  const isOnDate = (instant: number) =>
+    localDateString(new Date(instant), timeZone) === date;
+
+  // Midnight under the offsets on either side of a DST change near it
+  const first = midnightUtc - zoneOffset(new Date(midnightUtc), timeZone);
+  const second = midnightUtc - zoneOffset(new Date(first), timeZone);
+  let before = Math.min(first, second);
+  let start = Math.max(first, second);
+  if (isOnDate(before)) {
+    return new Date(before);
+  }
+
+  // The clocks jumped past midnight: find the change between the guesses
+  while (start - before > 1) {
+    const middle = Math.floor((before + start) / 2);
+    if (isOnDate(middle)) {
+      start = middle;
+    } else {
+      before = middle;
+    }
+  }
+  return new Date(start);
+}
+
+/**
+ * The hour (0-23) an instant falls in on a timezone's wall clock
+ */
+export function localHour(date: Date, timeZone = "UTC"): number {
+  return new Date(date.getTime() + zoneOffset(date, timeZone)).getUTCHours();
+}
+
+/**
+ * Instants covering a calendar day in an IANA timezone, end exclusive.
+ * Days with a DST change are 23 or 25 hours long.
+ */
+export function localDayRange(
+  date: string,
+  timeZone = "UTC"
+): { start: Date; end: Date } {
+  return {
+    start: startOfLocalDay(date, timeZone),
+    end: startOfLocalDay(addDays(date, 1), timeZone),
+  };
+}